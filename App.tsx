@@ -1,15 +1,48 @@
 
-import React, { useState, useEffect, useMemo } from 'react';
+import React, { useState, useEffect, useMemo, useRef } from 'react';
 import Layout from './components/Layout';
 import InvoiceForm from './components/InvoiceForm';
 import InventoryTable from './components/InventoryTable';
 import StatsCard from './components/StatsCard';
+import { Card, SectionHeader, ExportMenu } from './components/Shared';
 import { DateRangePicker } from './components/DateRangePicker'; 
 import { SingleDatePicker } from './components/SingleDatePicker';
 import Toast, { ToastMessage } from './components/Toast'; 
-import { Invoice, InventoryBatch, CustomerStat, AgingStats, SupplierStat, RiskAlert } from './types';
-import { loadInvoices, loadInventory, saveInvoices, saveInventory, resetData } from './services/storeService';
-import { formatCurrency, formatGrams, calculateInventoryValueOnDate, getDateDaysAgo, calculateStockAging, calculateSupplierStats, calculateTurnoverStats, generateId, downloadCSV } from './utils';
+import RecostPreviewModal from './components/RecostPreviewModal';
+import LotTrailModal from './components/LotTrailModal';
+import RestoreBackupModal from './components/RestoreBackupModal';
+import ImportWizardModal from './components/ImportWizardModal';
+import PeriodCloseModal from './components/PeriodCloseModal';
+import ReopenPeriodModal from './components/ReopenPeriodModal';
+import PartyFormModal from './components/PartyFormModal';
+import PartyMergeModal from './components/PartyMergeModal';
+import PaymentModal from './components/PaymentModal';
+import MoneyAccountModal from './components/MoneyAccountModal';
+import CashEntryModal from './components/CashEntryModal';
+import MetalMovementModal from './components/MetalMovementModal';
+import PriceFixingModal from './components/PriceFixingModal';
+import MarketRatesCard from './components/MarketRatesCard';
+import NrvValuationCard from './components/NrvValuationCard';
+import { Invoice, InventoryBatch, CustomerStat, AgingStats, SupplierStat, RiskAlert, CostingMethod, PeriodClose, AuditEntry, AuditAction, Party, BusinessProfile, ComplianceRules, ComplianceRuleId, ComplianceAction, Payment, MoneyAccount, CashEntry, BankStatementLine, MetalMovement, PriceFixing, Metal, MarketRate, GainsRules, GainsTerm } from './types';
+import { repository } from './services/storeService';
+import { runLedger, replayLedger, diffSaleCostings, inventoryValue, summarizePools, poolKey, CostingChange } from './services/ledgerEngine';
+import { createBackup, parseBackup, planMerge, summarizeLedger, BackupArchive } from './services/backupService';
+import { pushHistory, undoHistory, redoHistory, loadedHistory, HistoryStacks, LedgerState, EMPTY_HISTORY } from './services/historyService';
+import { deriveLockDate, activeCloses, reopenPeriodClose } from './services/periodCloseService';
+import { buildGstr1, buildGstr3B, gstr1ToJson, gstr3BToJson, isValidGstin, stateCodeOf, GST_STATES, HSN_BY_METAL, TaxHeads } from './services/gstService';
+import { nextInvoiceNumber, amountInWords, buildInvoiceQrPayload } from './services/taxInvoiceService';
+import { partyBalances, agingReport, partyLedger, AGING_BUCKETS } from './services/paymentService';
+import { cashBookPostings, accountBalance, dailyCashBook, parseBankStatement, dropStoredLines, matchStatementLines, defaultMoneyAccounts, Posting } from './services/cashBookService';
+import { metalBalances, metalStatement, unfixedGrams, liveFixings, buildFixingInvoice, isUnfixed, reservedStock, reservationIssues, METAL_MOVEMENT_LABELS } from './services/metalAccountService';
+import { createLocalRateProvider, upsertRates, parseRateCsv, rateOn, valueAtMarket } from './services/marketRateService';
+import { positionSeries } from './services/positionService';
+import { NrvReport } from './services/nrvService';
+import { financialYearSummaries, yoyChange } from './services/financialYearService';
+import { DEFAULT_GAINS_RULES, GAINS_TERM_LABELS, gainsSchedule, summarizeGains, GainsYear } from './services/gainsService';
+import { checkCompliance, scanCompliance, panForInvoice, DEFAULT_COMPLIANCE_RULES, COMPLIANCE_RULE_LABELS, PAYMENT_MODE_LABELS } from './services/complianceService';
+import { createPartyResolver, emptyParty, registerNameVariants, NameVariantGroup, KYC_STATUS_LABELS } from './services/partyService';
+import { buildAuditEntry, verifyAuditChain, describeAuditChanges, searchAuditLog, AuditEvent, AUDIT_ACTION_LABELS } from './services/auditService';
+import { formatCurrency, formatGrams, calculateInventoryValueOnDate, getDateDaysAgo, calculateStockAging, calculateSupplierStats, calculateTurnoverStats, generateId, downloadCSV, downloadFile, COSTING_METHOD_LABELS, formatPool, toFineGrams, METAL_LABELS, getFinancialYear } from './utils';
 import { jsPDF } from "jspdf";
 import autoTable from "jspdf-autotable";
 import { 
@@ -17,125 +50,298 @@ import {
   History, Percent, Award, Calendar, FileSpreadsheet, FileText, Info,
   AlertOctagon, BadgeAlert, TrendingDown, Hourglass, Factory, Lock, Search, Filter,
   ArrowRightLeft, LineChart, CandlestickChart, Download, Users, ChevronRight, Crown, Briefcase, ChevronUp, ChevronDown,
-  Timer, PieChart as PieIcon, BarChart3, Activity, Wallet, FileDown
+  Timer, PieChart as PieIcon, BarChart3, Activity, Wallet, FileDown, Pencil, Ban, Layers, Upload, Undo2, Redo2, CalendarCheck, Unlock, ScrollText, ShieldCheck, ShieldAlert, Receipt, FileJson, Contact, GitMerge, Plus, Printer, Landmark, Banknote, Link2, Gem
 } from 'lucide-react';
 import { 
   BarChart, Bar, Cell, XAxis, YAxis, CartesianGrid, Tooltip, Legend, ResponsiveContainer, 
   LineChart as ReLineChart, Line, AreaChart, Area, ComposedChart, PieChart, Pie
 } from 'recharts';
 
-// --- Shared UI Components ---
-
-const Card: React.FC<{ children: React.ReactNode; className?: string; title?: React.ReactNode; action?: React.ReactNode, delay?: number }> = ({ children, className = '', title, action, delay = 0 }) => (
-  <div 
-    className={`bg-white rounded-2xl border border-slate-100 shadow-card flex flex-col overflow-hidden animate-slide-up ${className}`}
-    style={{ animationDelay: `${delay}ms` }}
-  >
-    {title && (
-      <div className="px-4 md:px-6 py-4 border-b border-slate-50 flex flex-wrap justify-between items-center bg-white/50 backdrop-blur-sm sticky top-0 z-10 gap-2">
-        <h3 className="font-bold text-slate-800 text-lg flex items-center gap-2">{title}</h3>
-        {action && <div>{action}</div>}
-      </div>
-    )}
-    <div className="p-4 md:p-6 flex-1 overflow-auto">{children}</div>
-  </div>
-);
-
-const SectionHeader: React.FC<{ title: string; subtitle?: string; action?: React.ReactNode }> = ({ title, subtitle, action }) => (
-  <div className="flex flex-col md:flex-row md:items-end justify-between gap-4 mb-6 animate-slide-up">
-    <div>
-      <h2 className="text-2xl font-bold text-slate-900 tracking-tight">{title}</h2>
-      {subtitle && <p className="text-slate-500 text-sm mt-1 font-medium">{subtitle}</p>}
-    </div>
-    {action && <div className="flex gap-2 w-full md:w-auto">{action}</div>}
-  </div>
-);
-
-const ExportMenu: React.FC<{ onExport: (type: 'CSV' | 'PDF') => void }> = ({ onExport }) => (
-    <div className="flex gap-2">
-        <button onClick={() => onExport('CSV')} className="flex items-center gap-1.5 px-3 py-2 text-xs font-bold text-slate-600 bg-white border border-slate-200 rounded-lg hover:bg-slate-50 hover:text-slate-900 transition-colors">
-            <FileSpreadsheet className="w-4 h-4" /> CSV
-        </button>
-        <button onClick={() => onExport('PDF')} className="flex items-center gap-1.5 px-3 py-2 text-xs font-bold text-white bg-slate-900 border border-slate-900 rounded-lg hover:bg-slate-800 transition-colors shadow-sm">
-            <FileText className="w-4 h-4" /> PDF
-        </button>
-    </div>
-);
+// Sales of one metal/purity pool on the business ledger
+interface PoolSalesTotal {
+  label: string;
+  turnover: number;
+  profit: number;
+  qty: number;
+  fine: number; // Fine grams sold
+}
 
 function App() {
   const [activeTab, setActiveTab] = useState('dashboard');
   const [invoices, setInvoices] = useState<Invoice[]>([]);
-  const [inventory, setInventory] = useState<InventoryBatch[]>([]);
-  const [marketRate, setMarketRate] = useState<string>(''); 
+  const [marketRates, setMarketRates] = useState<MarketRate[]>([]);
   const [toasts, setToasts] = useState<ToastMessage[]>([]);
   const [searchQuery, setSearchQuery] = useState('');
+  const [poolFilter, setPoolFilter] = useState('ALL'); // Metal/purity pool key, or ALL
   
   const [dateRange, setDateRange] = useState({
       start: getDateDaysAgo(30),
       end: new Date().toISOString().split('T')[0]
   });
-  const [lockDate, setLockDate] = useState<string | null>(localStorage.getItem('bullion_lock_date') || null);
-  const [showLockSettings, setShowLockSettings] = useState(false);
+  const [periodCloses, setPeriodCloses] = useState<PeriodClose[]>([]);
+  const [operatorName, setOperatorName] = useState(''); // Last name entered when closing or reopening
+  const [costingMethod, setCostingMethod] = useState<CostingMethod>('FIFO');
+  const [isLoaded, setIsLoaded] = useState(false);
+  const [editingInvoice, setEditingInvoice] = useState<Invoice | null>(null);
+  const [lotTrail, setLotTrail] = useState<{ sale?: Invoice; batch?: InventoryBatch } | null>(null);
+  const [pendingRecost, setPendingRecost] = useState<{ invoices: Invoice[]; label: string; changes: CostingChange[]; onCommitted: () => void } | null>(null);
+  const [history, setHistory] = useState<HistoryStacks>(EMPTY_HISTORY);
+  const [pendingRestore, setPendingRestore] = useState<BackupArchive | null>(null);
+  const [showImport, setShowImport] = useState(false);
+  const [showPeriodClose, setShowPeriodClose] = useState(false);
+  const [reopening, setReopening] = useState<PeriodClose | null>(null);
+  const [auditLog, setAuditLog] = useState<AuditEntry[]>([]);
+  const [auditActionFilter, setAuditActionFilter] = useState<AuditAction | 'ALL'>('ALL');
+  const [auditBrokenAt, setAuditBrokenAt] = useState<number | null>(null); // First entry failing hash verification
+  const [businessGstin, setBusinessGstin] = useState('');
+  const [businessProfile, setBusinessProfile] = useState<BusinessProfile>({ name: '', address: '' });
+  const [parties, setParties] = useState<Party[]>([]);
+  const [payments, setPayments] = useState<Payment[]>([]);
+  const [paymentDraft, setPaymentDraft] = useState<{ partyKey?: string; direction?: Payment['direction'] } | null>(null);
+  const [ledgerPartyKey, setLedgerPartyKey] = useState(''); // Party shown in the statement on the Payments tab
+  const [agingType, setAgingType] = useState<Invoice['type']>('SALE');
+  const [moneyAccounts, setMoneyAccounts] = useState<MoneyAccount[]>([]);
+  const [cashEntries, setCashEntries] = useState<CashEntry[]>([]);
+  const [bankStatement, setBankStatement] = useState<BankStatementLine[]>([]); // Imported lines across all bank accounts
+  const [editingAccount, setEditingAccount] = useState<{ account: MoneyAccount; isNew: boolean } | null>(null);
+  const [cashEntryDraft, setCashEntryDraft] = useState<{ initial: Partial<CashEntry>; lineId?: string } | null>(null); // lineId: statement line the entry records
+  const [bookAccountId, setBookAccountId] = useState(''); // Account shown in the daily book; empty is the first
+  const [metalMovements, setMetalMovements] = useState<MetalMovement[]>([]);
+  const [showMetalMovement, setShowMetalMovement] = useState(false);
+  const [fixingMovement, setFixingMovement] = useState<MetalMovement | null>(null);
+  const [metalStatementFor, setMetalStatementFor] = useState<{ key: string; name: string; metal: Metal } | null>(null);
+  const [complianceRules, setComplianceRules] = useState<ComplianceRules>(DEFAULT_COMPLIANCE_RULES);
+  const [gainsRules, setGainsRules] = useState<GainsRules>(DEFAULT_GAINS_RULES);
+  const [gainsYear, setGainsYear] = useState<string | null>(null); // Null shows the latest year with sales
+  const [editingParty, setEditingParty] = useState<Party | null>(null);
+  const [showPartyMerge, setShowPartyMerge] = useState(false);
+  const [taxPeriod, setTaxPeriod] = useState(() => { // YYYY-MM, defaults to last month (the one being filed)
+      const d = new Date();
+      d.setDate(1);
+      d.setMonth(d.getMonth() - 1);
+      return `${d.getFullYear()}-${String(d.getMonth() + 1).padStart(2, '0')}`;
+  });
+
+  // The lock date is no longer set directly: it is the end of the latest period still closed
+  const lockDate = useMemo(() => deriveLockDate(periodCloses), [periodCloses]);
+  const resolveParty = useMemo(() => createPartyResolver(parties), [parties]);
 
-  // Load Data
+  // Load Data (re-costed on load so stored figures always match the engine)
   useEffect(() => {
-    setInvoices(loadInvoices());
-    setInventory(loadInventory());
+    const load = async () => {
+        try {
+            const [storedInvoices, storedCloses, storedMethod, storedHistory, storedOperator, storedAudit, storedGstin, storedParties, storedProfile, storedRules, storedPayments, storedAccounts, storedEntries, storedStatement, storedMovements, storedRates, storedGainsRules] = await Promise.all([
+                repository.loadInvoices(),
+                repository.loadSetting<PeriodClose[]>('periodCloses'),
+                repository.loadSetting<CostingMethod>('costingMethod'),
+                repository.loadSetting<HistoryStacks>('history'),
+                repository.loadSetting<string>('operatorName'),
+                repository.loadAuditLog(),
+                repository.loadSetting<string>('businessGstin'),
+                repository.loadSetting<Party[]>('parties'),
+                repository.loadSetting<BusinessProfile>('businessProfile'),
+                repository.loadSetting<ComplianceRules>('complianceRules'),
+                repository.loadSetting<Payment[]>('payments'),
+                repository.loadSetting<MoneyAccount[]>('moneyAccounts'),
+                repository.loadSetting<CashEntry[]>('cashEntries'),
+                repository.loadSetting<BankStatementLine[]>('bankStatement'),
+                repository.loadSetting<MetalMovement[]>('metalMovements'),
+                repository.loadSetting<MarketRate[]>('marketRates'),
+                repository.loadSetting<GainsRules>('gainsRules')
+            ]);
+            const method = storedMethod || 'FIFO';
+            setCostingMethod(method);
+            setPeriodCloses(storedCloses || []);
+            setOperatorName(storedOperator || '');
+            setBusinessGstin(storedGstin || '');
+            setParties(storedParties || []);
+            if (storedProfile) setBusinessProfile(storedProfile);
+            setComplianceRules({ ...DEFAULT_COMPLIANCE_RULES, ...storedRules }); // Rules added later start at their defaults
+            setPayments(storedPayments || []);
+            setMoneyAccounts(storedAccounts && storedAccounts.length > 0 ? storedAccounts : defaultMoneyAccounts());
+            setCashEntries(storedEntries || []);
+            setBankStatement(storedStatement || []);
+            setMetalMovements(storedMovements || []);
+            setMarketRates(storedRates || []);
+            setGainsRules({ ...DEFAULT_GAINS_RULES, ...storedGainsRules });
+            setHistory(loadedHistory(storedHistory));
+            setAuditLog(storedAudit);
+            auditTail.current = Promise.resolve(storedAudit[storedAudit.length - 1]);
+            setInvoices(replayLedger(storedInvoices, method).invoices);
+            setIsLoaded(true);
+        } catch (err) {
+            console.error("Load error", err);
+            addToast('ERROR', 'Could not open the local database. Changes will not be saved.');
+        }
+    };
+    load();
   }, []);
 
-  // Save Data
+  // Save Data (never before the load finishes, or the empty initial state would overwrite storage)
+  useEffect(() => {
+    if (!isLoaded) return;
+    repository.saveInvoices(invoices).catch(err => { console.error("Save error", err); addToast('ERROR', 'Failed to save invoices.'); });
+  }, [invoices, isLoaded]);
+
+  useEffect(() => {
+      if (!isLoaded) return;
+      repository.saveSetting('periodCloses', periodCloses).catch(err => { console.error("Save error", err); addToast('ERROR', 'Failed to save period closes.'); });
+  }, [periodCloses, isLoaded]);
+
+  useEffect(() => {
+      if (!isLoaded) return;
+      repository.saveSetting('operatorName', operatorName).catch(err => { console.error("Save error", err); addToast('ERROR', 'Failed to save the operator name.'); });
+  }, [operatorName, isLoaded]);
+
+  useEffect(() => {
+      if (!isLoaded) return;
+      repository.saveSetting('businessGstin', businessGstin).catch(err => { console.error("Save error", err); addToast('ERROR', 'Failed to save the business GSTIN.'); });
+  }, [businessGstin, isLoaded]);
+
+  useEffect(() => {
+      if (!isLoaded) return;
+      repository.saveSetting('businessProfile', businessProfile).catch(err => { console.error("Save error", err); addToast('ERROR', 'Failed to save the business profile.'); });
+  }, [businessProfile, isLoaded]);
+
+  useEffect(() => {
+      if (!isLoaded) return;
+      repository.saveSetting('complianceRules', complianceRules).catch(err => { console.error("Save error", err); addToast('ERROR', 'Failed to save the compliance rules.'); });
+  }, [complianceRules, isLoaded]);
+
+  useEffect(() => {
+      if (!isLoaded) return;
+      repository.saveSetting('gainsRules', gainsRules).catch(err => { console.error("Save error", err); addToast('ERROR', 'Failed to save the gains rules.'); });
+  }, [gainsRules, isLoaded]);
+
+  useEffect(() => {
+      if (!isLoaded) return;
+      repository.saveSetting('payments', payments).catch(err => { console.error("Save error", err); addToast('ERROR', 'Failed to save payments.'); });
+  }, [payments, isLoaded]);
+
+  useEffect(() => {
+      if (!isLoaded) return;
+      repository.saveSetting('moneyAccounts', moneyAccounts).catch(err => { console.error("Save error", err); addToast('ERROR', 'Failed to save cash and bank accounts.'); });
+  }, [moneyAccounts, isLoaded]);
+
+  useEffect(() => {
+      if (!isLoaded) return;
+      repository.saveSetting('cashEntries', cashEntries).catch(err => { console.error("Save error", err); addToast('ERROR', 'Failed to save cash book entries.'); });
+  }, [cashEntries, isLoaded]);
+
+  useEffect(() => {
+      if (!isLoaded) return;
+      repository.saveSetting('bankStatement', bankStatement).catch(err => { console.error("Save error", err); addToast('ERROR', 'Failed to save the bank statement.'); });
+  }, [bankStatement, isLoaded]);
+
+  useEffect(() => {
+      if (!isLoaded) return;
+      repository.saveSetting('metalMovements', metalMovements).catch(err => { console.error("Save error", err); addToast('ERROR', 'Failed to save metal movements.'); });
+  }, [metalMovements, isLoaded]);
+
+  useEffect(() => {
+      if (!isLoaded) return;
+      repository.saveSetting('marketRates', marketRates).catch(err => { console.error("Save error", err); addToast('ERROR', 'Failed to save market rates.'); });
+  }, [marketRates, isLoaded]);
+
+  useEffect(() => {
+      if (!isLoaded) return;
+      repository.saveSetting('parties', parties).catch(err => { console.error("Save error", err); addToast('ERROR', 'Failed to save the party registry.'); });
+  }, [parties, isLoaded]);
+
+  useEffect(() => {
+      if (!isLoaded) return;
+      repository.saveSetting('costingMethod', costingMethod).catch(err => { console.error("Save error", err); addToast('ERROR', 'Failed to save the costing method.'); });
+  }, [costingMethod, isLoaded]);
+
   useEffect(() => {
-    saveInvoices(invoices);
-    saveInventory(inventory);
-  }, [invoices, inventory]);
+      if (!isLoaded) return;
+      // History is a convenience: when it no longer fits, the stored copy is dropped so it cannot hold up the books' own saves
+      repository.saveSetting('history', history).catch(err => {
+          console.error("History save error", err);
+          repository.saveSetting('history', null).catch(() => {});
+      });
+  }, [history, isLoaded]);
 
+  // Re-verify the whole chain whenever it grows
   useEffect(() => {
-      if(lockDate) localStorage.setItem('bullion_lock_date', lockDate);
-      else localStorage.removeItem('bullion_lock_date');
-  }, [lockDate]);
+      verifyAuditChain(auditLog).then(setAuditBrokenAt);
+  }, [auditLog]);
 
-  const addToast = (type: 'SUCCESS' | 'ERROR', message: string) => {
+  const addToast = (type: 'SUCCESS' | 'ERROR', message: string, action?: ToastMessage['action']) => {
       const id = generateId();
-      setToasts(prev => [...prev, { id, type, message }]);
+      setToasts(prev => [...prev, { id, type, message, action }]);
   };
   const removeToast = (id: string) => {
       setToasts(prev => prev.filter(t => t.id !== id));
   };
 
   // --- DERIVED INTELLIGENCE (GLOBAL) ---
-  const filteredInvoices = useMemo(() => {
+  // Inventory is never stored: the ledger engine derives it from the invoices.
+  const ledger = useMemo(() => runLedger(invoices, { method: costingMethod }), [invoices, costingMethod]);
+  const inventory: InventoryBatch[] = ledger.inventory;
+
+  // Voided invoices stay on record for the transactions table but never reach any figure.
+  const ledgerInvoices = useMemo(() => invoices.filter(inv => !inv.voidedAt), [invoices]);
+
+  // Every metal/purity pool ever traded, for the pool filter
+  const poolOptions = useMemo(() => {
+      const seen = new Map<string, Invoice>();
+      ledgerInvoices.forEach(inv => { if (!seen.has(poolKey(inv))) seen.set(poolKey(inv), inv); });
+      return Array.from(seen.entries()).map(([key, inv]) => ({ key, label: formatPool(inv.metal, inv.purity) })).sort((a, b) => a.label.localeCompare(b.label));
+  }, [ledgerInvoices]);
+
+  const matchesPool = (item: Invoice | InventoryBatch) => poolFilter === 'ALL' || poolKey(item) === poolFilter;
+
+  useEffect(() => {
+      if (poolFilter !== 'ALL' && !poolOptions.some(p => p.key === poolFilter)) setPoolFilter('ALL');
+  }, [poolOptions, poolFilter]);
+
+  const transactionRows = useMemo(() => {
       const query = searchQuery.toLowerCase();
       return invoices.filter(inv => {
           const matchesDate = inv.date >= dateRange.start && inv.date <= dateRange.end;
           const matchesSearch = !query || inv.partyName.toLowerCase().includes(query);
-          return matchesDate && matchesSearch;
+          return matchesDate && matchesSearch && matchesPool(inv);
       });
-  }, [invoices, dateRange, searchQuery]);
+  }, [invoices, dateRange, searchQuery, poolFilter]);
+
+  const filteredInvoices = useMemo(() => transactionRows.filter(inv => !inv.voidedAt), [transactionRows]);
 
   // Inventory filtered by Date AND Search (for Table View)
   const filteredInventory = useMemo(() => {
       const query = searchQuery.toLowerCase();
       return inventory.filter(batch => {
           const matchesDate = batch.date >= dateRange.start && batch.date <= dateRange.end;
-          if (!matchesDate) return false;
+          if (!matchesDate || !matchesPool(batch)) return false;
           if (!query) return true;
           const invoice = invoices.find(inv => inv.id === batch.id);
           return invoice ? invoice.partyName.toLowerCase().includes(query) : false;
       });
-  }, [inventory, invoices, dateRange, searchQuery]);
+  }, [inventory, invoices, dateRange, searchQuery, poolFilter]);
 
   // Inventory filtered ONLY by Search (for Global Stock Stats)
   const searchFilteredInventory = useMemo(() => {
       const query = searchQuery.toLowerCase();
-      if (!query) return inventory;
-      return inventory.filter(batch => {
+      const poolInventory = inventory.filter(matchesPool);
+      if (!query) return poolInventory;
+      return poolInventory.filter(batch => {
           const invoice = invoices.find(inv => inv.id === batch.id);
           return invoice ? invoice.partyName.toLowerCase().includes(query) : false;
       });
-  }, [inventory, invoices, searchQuery]);
+  }, [inventory, invoices, searchQuery, poolFilter]);
+
+  const stockPools = useMemo(() => summarizePools(searchFilteredInventory), [searchFilteredInventory]);
+  // Stock checks in the entry form always see the whole book, whatever the filters
+  // Stock free to sell or deliver: grams on hand less unfixed deliveries still awaiting a price
+  const reservedByPool = useMemo(() => reservedStock(metalMovements, invoices), [metalMovements, invoices]);
+  const stockByPool = useMemo(
+      () => Object.fromEntries(summarizePools(inventory).map(p => [p.key, Math.max(0, p.grams - (reservedByPool[p.key] || 0))])),
+      [inventory, reservedByPool]
+  );
 
   const currentStock = useMemo(() => searchFilteredInventory.reduce((acc, batch) => acc + batch.remainingQuantity, 0), [searchFilteredInventory]);
-  const fifoValue = useMemo(() => searchFilteredInventory.reduce((acc, batch) => acc + (batch.remainingQuantity * batch.costPerGram), 0), [searchFilteredInventory]);
+  const currentFineStock = stockPools.reduce((acc, pool) => acc + pool.fineGrams, 0);
+  const fifoValue = useMemo(() => inventoryValue(searchFilteredInventory), [searchFilteredInventory]);
   const weightedAvgCost = currentStock > 0 ? fifoValue / currentStock : 0;
 
   const agingStats: AgingStats = useMemo(() => calculateStockAging(searchFilteredInventory), [searchFilteredInventory]);
@@ -146,17 +352,19 @@ function App() {
       let totalProfitCalc = 0;
 
       filteredInvoices.forEach(inv => {
-          if (!customerStats[inv.partyName]) {
-              customerStats[inv.partyName] = { 
-                  name: inv.partyName, totalGrams: 0, totalSpend: 0, profitContribution: 0, txCount: 0, avgProfitPerGram: 0
+          // Keyed by registry entry, so "M/s Sharma & Sons" and "sharma and sons" are one customer
+          const party = resolveParty(inv);
+          if (!customerStats[party.key]) {
+              customerStats[party.key] = { 
+                  name: party.name, totalGrams: 0, totalSpend: 0, profitContribution: 0, txCount: 0, avgProfitPerGram: 0
               };
           }
-          customerStats[inv.partyName].txCount += 1;
+          customerStats[party.key].txCount += 1;
 
           if (inv.type === 'SALE') {
-              customerStats[inv.partyName].totalGrams += inv.quantityGrams;
-              customerStats[inv.partyName].totalSpend += inv.totalAmount;
-              customerStats[inv.partyName].profitContribution += (inv.profit || 0);
+              customerStats[party.key].totalGrams += inv.quantityGrams;
+              customerStats[party.key].totalSpend += inv.totalAmount;
+              customerStats[party.key].profitContribution += (inv.profit || 0);
 
               totalRevenueExTax += (inv.quantityGrams * inv.ratePerGram);
               totalProfitCalc += (inv.profit || 0);
@@ -194,7 +402,7 @@ function App() {
       const end = new Date(dateRange.end);
       for (let d = new Date(start); d <= end; d.setDate(d.getDate() + 1)) {
           const dateStr = d.toISOString().split('T')[0];
-          const sales = invoices.filter(inv => inv.type === 'SALE' && inv.date === dateStr); 
+          const sales = ledgerInvoices.filter(inv => inv.type === 'SALE' && inv.date === dateStr); 
           const profit = sales.reduce((acc, inv) => acc + (inv.profit || 0), 0);
           const grams = sales.reduce((acc, inv) => acc + inv.quantityGrams, 0);
           pTrend.push({ 
@@ -211,65 +419,559 @@ function App() {
           profitTrendData: pTrend,
           dailyProfit: pTrend
       };
-  }, [filteredInvoices, dateRange, invoices]);
+  }, [filteredInvoices, dateRange, ledgerInvoices, resolveParty]);
 
-  const supplierData: SupplierStat[] = useMemo(() => calculateSupplierStats(filteredInvoices), [filteredInvoices]);
-  const turnoverStats = useMemo(() => calculateTurnoverStats(invoices, dateRange.start, dateRange.end), [invoices, dateRange]);
+  const supplierData: SupplierStat[] = useMemo(() => calculateSupplierStats(filteredInvoices, resolveParty), [filteredInvoices, resolveParty]);
+  const turnoverStats = useMemo(() => calculateTurnoverStats(ledgerInvoices, dateRange.start, dateRange.end, costingMethod), [ledgerInvoices, dateRange, costingMethod]);
   
+  // --- PAYMENTS ---
+  const balances = useMemo(() => partyBalances(invoices, payments, resolveParty), [invoices, payments, resolveParty]);
+  const balanceByKey = useMemo(() => new Map(balances.map(b => [b.key, b])), [balances]);
+  // Every party with an invoice or a registry entry, for the payment and statement pickers
+  const partyOptions = useMemo(() => {
+      const options = new Map<string, { key: string; name: string; party?: Party }>();
+      parties.forEach(p => options.set(p.id, { key: p.id, name: p.name, party: p }));
+      invoices.forEach(inv => { const r = resolveParty(inv); if (!options.has(r.key)) options.set(r.key, r); });
+      return Array.from(options.values()).sort((a, b) => a.name.localeCompare(b.name));
+  }, [invoices, parties, resolveParty]);
+
+  // --- MARKET RATES ---
+  // Swap the provider here for a live feed; everything else reads the stored series
+  const rateProvider = useMemo(() => createLocalRateProvider(marketRates), [marketRates]);
+  const marketValuation = useMemo(() => valueAtMarket(stockPools, marketRates, new Date().toISOString().split('T')[0]), [stockPools, marketRates]);
+
+  // --- METAL ACCOUNT ---
+  const metalBalanceRows = useMemo(() => metalBalances(metalMovements, invoices, resolveParty), [metalMovements, invoices, resolveParty]);
+
+  // --- CASH BOOK ---
+  const postings = useMemo(() => cashBookPostings(moneyAccounts, payments, cashEntries), [moneyAccounts, payments, cashEntries]);
+  const closingCash = useMemo(() => {
+      const today = new Date().toISOString().split('T')[0];
+      const total = (kind: MoneyAccount['kind']) => moneyAccounts.filter(a => a.kind === kind).reduce((acc, a) => acc + accountBalance(a, postings, today), 0);
+      return { cash: total('CASH'), bank: total('BANK') };
+  }, [moneyAccounts, postings]);
+
+  // --- POSITION ---
+  // Whole-book position, whatever the pool filter: cash and party balances are not split by pool
+  const position = useMemo(
+      () => positionSeries({ invoices, method: costingMethod, rates: marketRates, payments, accounts: moneyAccounts, postings }, dateRange.start, dateRange.end),
+      [invoices, costingMethod, marketRates, payments, moneyAccounts, postings, dateRange]
+  );
+
+  // --- COSTING METHOD COMPARISON ---
+  // Each method replays the whole ledger, so the runs only follow the invoices; the period
+  // figures are then read off them for the sales in view
+  const methodRuns = useMemo(
+      () => (Object.keys(COSTING_METHOD_LABELS) as CostingMethod[]).map(method => ({ method, run: runLedger(invoices, { method }) })),
+      [invoices]
+  );
+  const methodComparison = useMemo(() => {
+      const periodSales = filteredInvoices.filter(i => i.type === 'SALE');
+      return methodRuns.map(({ method, run }) => {
+          const cogs = periodSales.reduce((acc, s) => acc + (run.costings[s.id]?.cogs || 0), 0);
+          const profit = periodSales.reduce((acc, s) => acc + (run.costings[s.id]?.profit || 0), 0);
+          const closingValue = inventoryValue(run.inventory);
+          const closingGrams = run.inventory.reduce((acc, b) => acc + b.remainingQuantity, 0);
+          return { method, cogs, profit, closingValue, avgCost: closingGrams > 0 ? closingValue / closingGrams : 0 };
+      });
+  }, [methodRuns, filteredInvoices]);
+
+  // --- FINANCIAL YEARS ---
+  const financialYears = useMemo(() => financialYearSummaries(invoices, costingMethod), [invoices, costingMethod]);
+
+  // The rules look at the whole book for daily and yearly totals, so the scan ignores the filters;
+  // only the breaches on invoices in view are shown
+  const bookComplianceFlags = useMemo(() => scanCompliance(invoices, complianceRules, resolveParty), [invoices, complianceRules, resolveParty]);
+  const complianceFlags = useMemo(() => {
+      const inView = new Set(filteredInvoices.map(inv => inv.id));
+      return bookComplianceFlags.filter(f => inView.has(f.invoiceId));
+  }, [bookComplianceFlags, filteredInvoices]);
+
   const alerts: RiskAlert[] = useMemo(() => {
     const list: RiskAlert[] = [];
     if (agingStats.buckets['30+'] > 0) {
-      list.push({ id: 'old-stock', severity: 'HIGH', context: 'Inventory', message: `${formatGrams(agingStats.buckets['30+'])} of gold is older than 30 days.` });
+      list.push({ id: 'old-stock', severity: 'HIGH', context: 'Inventory', message: `${formatGrams(agingStats.buckets['30+'])} of stock is older than 30 days.` });
     }
-    const recentSales = invoices.filter(i => i.type === 'SALE').slice(0, 5);
+    const recentSales = ledgerInvoices.filter(i => i.type === 'SALE').slice(0, 5);
     if (recentSales.length > 0) {
        const recentMargin = recentSales.reduce((acc, i) => acc + (i.profit || 0), 0) / recentSales.reduce((acc, i) => acc + (i.taxableAmount || 0), 0);
        if (recentMargin < 0.005) { 
          list.push({ id: 'low-margin', severity: 'MEDIUM', context: 'Profit', message: 'Recent sales margins are critically low (< 0.5%).' });
        }
     }
-    return list;
-  }, [agingStats, invoices]);
-
-  const handleAddInvoice = (invoice: Invoice) => {
-    if (invoice.type === 'PURCHASE') {
-        setInvoices(prev => [invoice, ...prev]); 
-        const newBatch: InventoryBatch = { id: invoice.id, date: invoice.date, originalQuantity: invoice.quantityGrams, remainingQuantity: invoice.quantityGrams, costPerGram: invoice.ratePerGram };
-        setInventory(prev => [...prev, newBatch].sort((a, b) => new Date(a.date).getTime() - new Date(b.date).getTime()));
-        addToast('SUCCESS', 'Purchase recorded & Inventory Updated');
-    } else {
-        let remainingToSell = invoice.quantityGrams;
-        let totalCOGS = 0;
-        const newInventory = JSON.parse(JSON.stringify(inventory)) as InventoryBatch[];
-
-        for (const batch of newInventory) {
-            if (remainingToSell <= 0) break;
-            if (batch.remainingQuantity > 0) {
-                const take = Math.min(batch.remainingQuantity, remainingToSell);
-                batch.totalRevenue = (batch.totalRevenue || 0) + (take * invoice.ratePerGram);
-                batch.remainingQuantity -= take;
-                remainingToSell -= take;
-                totalCOGS += (take * batch.costPerGram);
-                if (batch.remainingQuantity < 0.0001) { 
-                    batch.remainingQuantity = 0;
-                    batch.closedDate = invoice.date;
-                }
-            }
-        }
-        if (remainingToSell > 0.001) { addToast('ERROR', "FIFO Mismatch - Check Stock"); return; }
-        const profit = (invoice.quantityGrams * invoice.ratePerGram) - totalCOGS;
-        setInvoices(prev => [{ ...invoice, cogs: totalCOGS, profit }, ...prev]);
-        setInventory(newInventory);
-        addToast('SUCCESS', 'Sale recorded. FIFO Logic Applied.');
+    complianceFlags.slice(0, 5).forEach(f => {
+      list.push({ id: `compliance-${f.invoiceId}-${f.rule}`, severity: f.action === 'BLOCK' ? 'HIGH' : 'MEDIUM', context: 'Compliance', message: f.message });
+    });
+    if (complianceFlags.length > 5) {
+      list.push({ id: 'compliance-more', severity: 'LOW', context: 'Compliance', message: `${complianceFlags.length - 5} more compliance flags in this period. See the Compliance tab.` });
     }
+    return list;
+  }, [agingStats, ledgerInvoices, complianceFlags]);
+
+  // --- GST RETURNS ---
+  const ourState = isValidGstin(businessGstin) ? stateCodeOf(businessGstin) : undefined;
+  const gstr1 = useMemo(() => buildGstr1(invoices, taxPeriod, businessGstin), [invoices, taxPeriod, businessGstin]);
+  const gstr3b = useMemo(() => buildGstr3B(invoices, taxPeriod), [invoices, taxPeriod]);
+
+  // --- INCOME-TAX GAINS ---
+  const gainsLines = useMemo(() => gainsSchedule(invoices, gainsRules), [invoices, gainsRules]);
+  const gainsYears = useMemo(() => summarizeGains(gainsLines, invoices), [gainsLines, invoices]);
+
+  // --- AUDIT LOG ---
+  // Appends are chained through a promise so each entry hashes over the one written before it,
+  // however quickly events arrive. A failed write leaves the tail where it was.
+
+  const auditTail = useRef<Promise<AuditEntry | undefined>>(Promise.resolve(undefined));
+
+  const logAudit = (event: AuditEvent) => {
+      auditTail.current = auditTail.current.then(async previous => {
+          try {
+              const entry = await buildAuditEntry(previous, event);
+              await repository.appendAuditEntry(entry);
+              setAuditLog(prev => [...prev, entry]);
+              return entry;
+          } catch (err) {
+              console.error("Audit log error", err);
+              addToast('ERROR', 'Failed to write the audit log.');
+              return previous;
+          }
+      });
+  };
+
+  // --- UNDO / REDO ---
+  // Each ledger mutation records the invoices it changed; toasts and shortcuts reach the latest handlers through a ref.
+
+  const recordHistory = (label: string, next: LedgerState) => setHistory(prev => pushHistory(prev, label, { invoices }, next));
+
+  const restoreLedgerState = (state: LedgerState): boolean => {
+      const result = replayLedger(state.invoices, costingMethod);
+      if (result.error) { addToast('ERROR', result.error); return false; }
+      setInvoices(result.invoices);
+      setEditingInvoice(null);
+      setPendingRecost(null);
+      return true;
+  };
+
+  const handleUndo = () => {
+      const step = undoHistory(history, { invoices });
+      if (!step) { addToast('ERROR', 'Nothing to undo.'); return; }
+      if (!restoreLedgerState(step.state)) return;
+      setHistory(step.history);
+      logAudit({ action: 'UNDO', summary: step.entry.label, before: summarizeLedger(invoices), after: summarizeLedger(step.state.invoices) });
+      addToast('SUCCESS', `Undone: ${step.entry.label}`, { label: 'Redo', onClick: () => historyActions.current.redo() });
+  };
+
+  const handleRedo = () => {
+      const step = redoHistory(history, { invoices });
+      if (!step) { addToast('ERROR', 'Nothing to redo.'); return; }
+      if (!restoreLedgerState(step.state)) return;
+      setHistory(step.history);
+      logAudit({ action: 'REDO', summary: step.entry.label, before: summarizeLedger(invoices), after: summarizeLedger(step.state.invoices) });
+      addToast('SUCCESS', `Redone: ${step.entry.label}`, { label: 'Undo', onClick: () => historyActions.current.undo() });
+  };
+
+  const historyActions = useRef({ undo: handleUndo, redo: handleRedo });
+  historyActions.current = { undo: handleUndo, redo: handleRedo };
+  const undoAction: ToastMessage['action'] = { label: 'Undo', onClick: () => historyActions.current.undo() };
+
+  // Ctrl/Cmd+Z undoes, Ctrl/Cmd+Shift+Z or Ctrl+Y redoes; text fields keep their native undo
+  useEffect(() => {
+      const handleKey = (e: KeyboardEvent) => {
+          if (!(e.ctrlKey || e.metaKey)) return;
+          const target = e.target as HTMLElement;
+          if (target.closest('input, textarea, select, [contenteditable="true"]')) return;
+          const key = e.key.toLowerCase();
+          if (key === 'z' && !e.shiftKey) { e.preventDefault(); historyActions.current.undo(); }
+          else if ((key === 'z' && e.shiftKey) || key === 'y') { e.preventDefault(); historyActions.current.redo(); }
+      };
+      document.addEventListener('keydown', handleKey);
+      return () => document.removeEventListener('keydown', handleKey);
+  }, []);
+
+  // Every ledger mutation goes through a full replay so later sales are re-costed.
+  // When the replay changes the profit of sales already on record, the user confirms a preview first.
+  // Callers clear their input in onCommitted, which only runs once the change is actually committed.
+  // Stock held back for open unfixed deliveries is checked against nextMovements, which carries any fixing made with the change.
+  const commitInvoices = (nextInvoices: Invoice[], label: string, onCommitted: () => void, nextMovements = metalMovements) => {
+      const result = replayLedger(nextInvoices, costingMethod);
+      if (result.error) { addToast('ERROR', result.error); return; }
+      const shortfalls = reservationIssues({ invoices, inventory, movements: metalMovements }, { invoices: result.invoices, inventory: result.inventory, movements: nextMovements });
+      if (shortfalls.length > 0) { addToast('ERROR', shortfalls.join(' ')); return; }
+      const changes = diffSaleCostings(invoices, result.invoices);
+      if (changes.length > 0) {
+          setPendingRecost({ invoices: result.invoices, label, changes, onCommitted });
+          return;
+      }
+      recordHistory(label, { invoices: result.invoices });
+      setInvoices(result.invoices);
+      onCommitted();
+  };
+
+  const confirmRecost = () => {
+      if (!pendingRecost) return;
+      recordHistory(pendingRecost.label, { invoices: pendingRecost.invoices });
+      setInvoices(pendingRecost.invoices);
+      pendingRecost.onCommitted();
+      setPendingRecost(null);
+  };
+
+  const isLocked = (date: string) => !!lockDate && date <= lockDate;
+
+  const handleAddInvoice = (entry: Invoice, onSaved: () => void) => {
+    // Sales take the next tax invoice number of their financial year
+    const invoice = entry.type === 'SALE' && !entry.invoiceNumber ? { ...entry, invoiceNumber: nextInvoiceNumber(invoices, entry.date) } : entry;
+    const label = `${invoice.type === 'PURCHASE' ? 'Purchase from' : 'Sale to'} ${invoice.partyName}`;
+    commitInvoices([invoice, ...invoices], label, () => {
+        logAudit({ action: 'CREATE', summary: label, after: invoice });
+        onSaved();
+        addToast('SUCCESS', invoice.type === 'PURCHASE' ? 'Purchase recorded & Inventory Updated' : `Sale recorded. ${COSTING_METHOD_LABELS[costingMethod]} costing applied.`, undoAction);
+    });
+  };
+
+  const handleUpdateInvoice = (entry: Invoice, onSaved: () => void) => {
+    const original = invoices.find(inv => inv.id === entry.id);
+    if (!original) return;
+    if (isLocked(original.date) || isLocked(entry.date)) { addToast('ERROR', `Date Locked! Cannot edit entries on or before ${lockDate}.`); return; }
+    // A number belongs to the sales series of one financial year: an edit that leaves it drops the number, and a sale takes the next one of its new year
+    const leavesSeries = entry.type !== original.type || getFinancialYear(entry.date) !== getFinancialYear(original.date);
+    const invoice = !leavesSeries ? entry : { ...entry, invoiceNumber: entry.type === 'SALE' ? nextInvoiceNumber(invoices, entry.date) : undefined };
+    const label = `Edit of ${original.partyName} (${original.date})`;
+    commitInvoices(invoices.map(inv => inv.id === invoice.id ? invoice : inv), label, () => {
+        logAudit({ action: 'EDIT', summary: label, before: original, after: invoice });
+        onSaved();
+        setEditingInvoice(null);
+        addToast('SUCCESS', 'Invoice updated. Later sales re-costed.', undoAction);
+    });
+  };
+
+  const handleVoidInvoice = (invoice: Invoice) => {
+    if (isLocked(invoice.date)) { addToast('ERROR', `Date Locked! Cannot void entries on or before ${lockDate}.`); return; }
+    if (!window.confirm(`Void ${invoice.type === 'PURCHASE' ? 'purchase from' : 'sale to'} ${invoice.partyName} on ${invoice.date}? Later sales will be re-costed.`)) return;
+    const voided = { ...invoice, voidedAt: new Date().toISOString() };
+    const label = `Void of ${invoice.partyName} (${invoice.date})`;
+    commitInvoices(invoices.map(inv => inv.id === invoice.id ? voided : inv), label, () => {
+        logAudit({ action: 'VOID', summary: label, before: invoice, after: voided });
+        if (editingInvoice?.id === invoice.id) setEditingInvoice(null);
+        addToast('SUCCESS', 'Invoice voided. Later sales re-costed.', undoAction);
+    });
+  };
+
+  // Imported rows arrive validated and newest-first; the replay re-checks stock and re-costs everything after them
+  const handleImportInvoices = (imported: Invoice[], onSaved: () => void) => {
+    const label = `Import of ${imported.length} invoices`;
+    commitInvoices([...imported, ...invoices], label, () => {
+        logAudit({ action: 'IMPORT', summary: label, after: imported });
+        onSaved();
+        addToast('SUCCESS', `Imported ${imported.length} invoices. Ledger re-costed.`, undoAction);
+    });
+  };
+
+  const handleCostingMethodChange = (method: CostingMethod) => {
+      if (method === costingMethod) return;
+      if (activeCloses(periodCloses).length > 0) { addToast('ERROR', 'Reopen every closed period before changing the costing method; closed figures stay frozen.'); return; }
+      if (!window.confirm(`Switch to ${COSTING_METHOD_LABELS[method]} costing? Every sale will be re-costed and inventory revalued.`)) return;
+      const result = replayLedger(invoices, method);
+      if (result.error) { addToast('ERROR', result.error); return; }
+      setInvoices(result.invoices);
+      setCostingMethod(method);
+      logAudit({ action: 'COSTING_METHOD', summary: `Costing method set to ${COSTING_METHOD_LABELS[method]}`, before: costingMethod, after: method });
+      addToast('SUCCESS', `Costing method set to ${COSTING_METHOD_LABELS[method]}.`);
+  };
+
+  const handleComplianceRuleChange = (rule: ComplianceRuleId, change: Partial<ComplianceRules[ComplianceRuleId]>) => {
+      const before = complianceRules[rule];
+      const after = { ...before, ...change };
+      if (JSON.stringify(before) === JSON.stringify(after)) return;
+      setComplianceRules({ ...complianceRules, [rule]: after });
+      logAudit({ action: 'COMPLIANCE_RULES', summary: `${COMPLIANCE_RULE_LABELS[rule].label} rule changed`, before, after });
+  };
+
+  const handleGainsRuleChange = (change: Partial<GainsRules>) => {
+      const after = { ...gainsRules, ...change };
+      if (JSON.stringify(gainsRules) === JSON.stringify(after)) return;
+      setGainsRules(after);
+      logAudit({ action: 'GAINS_RULES', summary: `Gains thresholds set to ${after.longTermMonths} months long-term, ${after.tradingDays} days trading`, before: gainsRules, after });
+  };
+
+  // Payments sit outside the ledger replay and the undo history: they never change stock or cost.
+  // Like invoices, they are voided rather than deleted, and closed periods cannot take new ones.
+
+  const handlePaymentSave = (payment: Payment) => {
+      setPayments(prev => [payment, ...prev]);
+      const label = `${formatCurrency(payment.amount)} ${payment.direction === 'RECEIVED' ? 'received from' : 'paid to'} ${payment.partyName}`;
+      logAudit({ action: 'PAYMENT', summary: label, after: payment });
+      setPaymentDraft(null);
+      addToast('SUCCESS', `Payment recorded: ${label}.`);
+  };
+
+  const handlePaymentVoid = (payment: Payment) => {
+      if (isLocked(payment.date)) { addToast('ERROR', `Date Locked! Cannot void payments on or before ${lockDate}.`); return; }
+      if (!window.confirm(`Void the ${formatCurrency(payment.amount)} payment of ${payment.date}? The invoices it settled become outstanding again.`)) return;
+      const voided = { ...payment, voidedAt: new Date().toISOString() };
+      setPayments(prev => prev.map(p => p.id === payment.id ? voided : p));
+      logAudit({ action: 'PAYMENT', summary: `Void of ${formatCurrency(payment.amount)} payment (${payment.partyName}, ${payment.date})`, before: payment, after: voided });
+      addToast('SUCCESS', 'Payment voided.');
+  };
+
+  // Cash book entries follow the same rules as payments: voided rather than deleted, and kept out of closed periods.
+
+  const handleAccountSave = (account: MoneyAccount) => {
+      const before = moneyAccounts.find(a => a.id === account.id);
+      setMoneyAccounts(prev => before ? prev.map(a => a.id === account.id ? account : a) : [...prev, account]);
+      logAudit({ action: 'CASH_BOOK', summary: `${before ? 'Edit' : 'Creation'} of account ${account.name}`, before: before || null, after: account });
+      setEditingAccount(null);
+      addToast('SUCCESS', `Account ${account.name} saved.`);
+  };
+
+  const handleCashEntrySave = (entry: CashEntry) => {
+      setCashEntries(prev => [entry, ...prev]);
+      const lineId = cashEntryDraft?.lineId;
+      if (lineId) setBankStatement(prev => prev.map(l => l.id === lineId ? { ...l, matchedId: entry.id } : l));
+      const label = `${formatCurrency(entry.amount)} ${entry.direction === 'IN' ? 'in' : 'out'} for ${entry.category}`;
+      logAudit({ action: 'CASH_BOOK', summary: `Entry of ${label} (${entry.date})`, after: entry });
+      setCashEntryDraft(null);
+      addToast('SUCCESS', `Entry recorded: ${label}.`);
+  };
+
+  const handleCashEntryVoid = (entry: CashEntry) => {
+      if (isLocked(entry.date)) { addToast('ERROR', `Date Locked! Cannot void entries on or before ${lockDate}.`); return; }
+      if (!window.confirm(`Void the ${formatCurrency(entry.amount)} ${entry.category} entry of ${entry.date}?`)) return;
+      const voided = { ...entry, voidedAt: new Date().toISOString() };
+      setCashEntries(prev => prev.map(e => e.id === entry.id ? voided : e));
+      setBankStatement(prev => prev.map(l => l.matchedId === entry.id ? { ...l, matchedId: undefined } : l));
+      logAudit({ action: 'CASH_BOOK', summary: `Void of ${formatCurrency(entry.amount)} ${entry.category} entry (${entry.date})`, before: entry, after: voided });
+      addToast('SUCCESS', 'Entry voided.');
+  };
+
+  // New lines are matched along with any still open from earlier imports
+  const handleStatementImport = async (file: File, account: MoneyAccount) => {
+      try {
+          const parsed = parseBankStatement(await file.text(), account.id);
+          if (parsed.length === 0) { addToast('ERROR', 'No transactions found in the statement.'); return; }
+          const { lines, duplicates } = dropStoredLines(bankStatement, parsed);
+          const skipped = duplicates > 0 ? ` ${duplicates} already imported line${duplicates === 1 ? ' was' : 's were'} skipped.` : '';
+          if (lines.length === 0) { addToast('ERROR', `Every line of the statement was already imported.${skipped}`); return; }
+          const before = bankStatement.filter(l => l.matchedId).length;
+          const next = matchStatementLines([...bankStatement, ...lines], postings);
+          setBankStatement(next);
+          const matched = next.filter(l => l.matchedId).length - before;
+          logAudit({ action: 'CASH_BOOK', summary: `Import of ${lines.length} statement lines into ${account.name}`, after: { file: file.name, lines: lines.length, duplicates, matched } });
+          addToast('SUCCESS', `Imported ${lines.length} lines; ${matched} matched to recorded payments and entries.${skipped}`);
+      } catch (err: any) {
+          addToast('ERROR', `Import failed: ${err.message}`);
+      }
+  };
+
+  const handleStatementUnmatch = (line: BankStatementLine) => {
+      setBankStatement(prev => prev.map(l => l.id === line.id ? { ...l, matchedId: undefined } : l));
+  };
+
+  const handleRateSave = (rate: MarketRate) => {
+      setMarketRates(prev => upsertRates(prev, [rate]));
+      addToast('SUCCESS', `${formatPool(rate.metal, rate.purity)} rate of ${rate.date} saved at ${formatCurrency(rate.ratePerGram)}/g.`);
+  };
+
+  const handleRateImport = async (file: File) => {
+      try {
+          const { rates, skipped } = parseRateCsv(await file.text());
+          if (rates.length === 0) { addToast('ERROR', 'No rates found in the file.'); return; }
+          setMarketRates(prev => upsertRates(prev, rates));
+          addToast('SUCCESS', `Imported ${rates.length} rates${skipped ? `; ${skipped} rows skipped` : ''}.`);
+      } catch (err: any) {
+          addToast('ERROR', `Import failed: ${err.message}`);
+      }
+  };
+
+  const handleRateFetch = async () => {
+      const today = new Date().toISOString().split('T')[0];
+      const pools = summarizePools(inventory);
+      if (pools.length === 0) { addToast('ERROR', 'No stock on hand to fetch rates for.'); return; }
+      try {
+          const rates = await rateProvider.fetchRates(today, pools);
+          if (rates.length === 0) { addToast('ERROR', `${rateProvider.label}: no rates available. Enter or import one first.`); return; }
+          setMarketRates(prev => upsertRates(prev, rates));
+          addToast('SUCCESS', `${rateProvider.label}: ${rates.length} of ${pools.length} pools priced for ${today}.`);
+      } catch (err: any) {
+          addToast('ERROR', `Fetching rates failed: ${err.message}`);
+      }
+  };
+
+  // Metal movements stay out of the ledger and the undo history; a price fixing goes through the
+  // ledger as a normal invoice, and undoing or voiding that invoice reopens the grams it priced.
+
+  const handleMetalMovementSave = (movement: MetalMovement) => {
+      setMetalMovements(prev => [movement, ...prev]);
+      const label = `${METAL_MOVEMENT_LABELS[movement.kind].label}: ${formatGrams(movement.grams)} ${formatPool(movement.metal, movement.purity)} (${movement.partyName})`;
+      logAudit({ action: 'METAL_ACCOUNT', summary: label, after: movement });
+      setShowMetalMovement(false);
+      addToast('SUCCESS', `Recorded ${label}.`);
+  };
+
+  const handleMetalMovementVoid = (movement: MetalMovement) => {
+      if (isLocked(movement.date)) { addToast('ERROR', `Date Locked! Cannot void movements on or before ${lockDate}.`); return; }
+      if (liveFixings(movement, invoices).length > 0) { addToast('ERROR', 'Void the invoices generated by its price fixings first.'); return; }
+      if (!window.confirm(`Void the ${formatGrams(movement.grams)} movement with ${movement.partyName} on ${movement.date}?`)) return;
+      const voided = { ...movement, voidedAt: new Date().toISOString() };
+      setMetalMovements(prev => prev.map(m => m.id === movement.id ? voided : m));
+      logAudit({ action: 'METAL_ACCOUNT', summary: `Void of ${formatGrams(movement.grams)} movement (${movement.partyName}, ${movement.date})`, before: movement, after: voided });
+      addToast('SUCCESS', 'Movement voided.');
+  };
+
+  const handlePriceFix = (movement: MetalMovement, fixing: Pick<PriceFixing, 'date' | 'grams' | 'ratePerGram'>, gstRate: number) => {
+      const party = resolveParty(movement).party;
+      const partyState = party?.state || (party?.gstin ? stateCodeOf(party.gstin) : undefined);
+      const built = buildFixingInvoice(movement, fixing, gstRate, partyState, ourState);
+      const invoice = built.type === 'SALE' ? { ...built, invoiceNumber: nextInvoiceNumber(invoices, built.date) } : built;
+      const fixed: MetalMovement = { ...movement, fixings: [...movement.fixings, { id: generateId(), ...fixing, invoiceId: invoice.id }] };
+      const label = `Price fixing of ${formatGrams(fixing.grams)} ${formatPool(movement.metal, movement.purity)} (${movement.partyName})`;
+      commitInvoices([invoice, ...invoices], label, () => {
+          setMetalMovements(prev => prev.map(m => m.id === movement.id ? fixed : m));
+          logAudit({ action: 'CREATE', summary: label, after: invoice });
+          logAudit({ action: 'METAL_ACCOUNT', summary: label, before: movement, after: fixed });
+          setFixingMovement(null);
+          addToast('SUCCESS', `Price fixed: ${invoice.type === 'SALE' ? 'sale' : 'purchase'} of ${formatCurrency(invoice.totalAmount)} recorded.`, undoAction);
+      }, metalMovements.map(m => m.id === movement.id ? fixed : m));
+  };
+
+  const openStatement = (partyName: string) => {
+      setLedgerPartyKey(resolveParty({ partyName }).key);
+      setActiveTab('payments');
+  };
+
+  // --- PERIOD CLOSE ---
+  // Closing and reopening are deliberate, recorded acts: both clear the undo history rather than joining it.
+
+  const handlePeriodClose = (close: PeriodClose) => {
+      setPeriodCloses(prev => [...prev, close]);
+      logAudit({ action: 'PERIOD_CLOSE', summary: `${close.label} closed by ${close.closedBy}`, before: { lockDate }, after: { lockDate: close.periodEnd, closedBy: close.closedBy, profit: close.frozen.profit, closingStockGrams: close.closingStock.grams } });
+      setOperatorName(close.closedBy);
+      setHistory(EMPTY_HISTORY);
+      setShowPeriodClose(false);
+      setEditingInvoice(null);
+      addToast('SUCCESS', `${close.label} closed. Books locked up to ${close.periodEnd}.`);
   };
 
-  const handleReset = () => {
-      if(window.confirm("Are you sure? This will delete all data. This action cannot be undone.")) {
-          resetData(); setInvoices([]); setInventory([]);
-          addToast('SUCCESS', 'System Reset Complete');
+  const handlePeriodReopen = (reopenedBy: string, reason: string) => {
+      if (!reopening) return;
+      let next: PeriodClose[];
+      try {
+          next = reopenPeriodClose(periodCloses, reopening.id, reopenedBy, reason);
+      } catch (err: any) {
+          addToast('ERROR', err.message);
+          return;
       }
-  }
+      setPeriodCloses(next);
+      logAudit({ action: 'PERIOD_REOPEN', summary: `${reopening.label} reopened by ${reopenedBy}`, before: { lockDate }, after: { lockDate: deriveLockDate(next), reopenedBy, reason } });
+      setOperatorName(reopenedBy);
+      setHistory(EMPTY_HISTORY);
+      setReopening(null);
+      addToast('SUCCESS', `${reopening.label} reopened.`);
+  };
+
+  // --- PARTY REGISTRY ---
+  // Invoices are never rewritten to point at a party: closed periods stay untouched, and the
+  // resolver matches old invoices by name and alias instead.
+
+  const handlePartySave = (party: Party) => {
+      const before = parties.find(p => p.id === party.id);
+      setParties(prev => before ? prev.map(p => p.id === party.id ? party : p) : [...prev, party]);
+      logAudit({ action: 'PARTY', summary: `${before ? 'Updated' : 'Registered'} party ${party.name}`, before: before || null, after: party });
+      setEditingParty(null);
+      addToast('SUCCESS', `${party.name} saved.`);
+  };
+
+  const handlePartyMerge = (groups: NameVariantGroup[]) => {
+      const next = registerNameVariants(parties, groups);
+      const aliasCount = groups.reduce((acc, g) => acc + g.variants.length, 0) - groups.length;
+      setParties(next);
+      logAudit({ action: 'PARTY', summary: `Registered ${groups.length} parties from invoice names`, before: parties.length, after: next.length });
+      setShowPartyMerge(false);
+      addToast('SUCCESS', `${groups.length} parties registered${aliasCount > 0 ? `, ${aliasCount} name variants merged` : ''}.`);
+  };
+
+  // Closed periods keep their invoices: a reset would empty them under a standing close and lock
+  const handleReset = async () => {
+      if (activeCloses(periodCloses).length > 0) { addToast('ERROR', 'Reopen every closed period before resetting; closed periods keep their invoices.'); return; }
+      if (!window.confirm("Are you sure? This will delete all invoices. You can still undo it from this session's history.")) return;
+      try {
+          await repository.resetData();
+      } catch (err) {
+          console.error("Reset error", err);
+          addToast('ERROR', 'Reset failed. No invoices were deleted.');
+          return;
+      }
+      recordHistory(`Reset of ${invoices.length} invoices`, { invoices: [] });
+      logAudit({ action: 'RESET', summary: `Reset of ${invoices.length} invoices`, before: summarizeLedger(invoices), after: null });
+      setInvoices([]); setEditingInvoice(null);
+      addToast('SUCCESS', 'System Reset Complete', undoAction);
+  };
+
+  // --- BACKUP & RESTORE ---
+
+  const handleBackup = async () => {
+      try {
+          const archive = await createBackup({ invoices, inventory, lockDate, periodCloses, parties, payments, moneyAccounts, cashEntries, bankStatement, metalMovements, marketRates, settings: { costingMethod, businessGstin, businessProfile, complianceRules, gainsRules } });
+          downloadFile(JSON.stringify(archive, null, 2), `bullionkeep_backup_${new Date().toISOString().split('T')[0]}.json`, 'application/json');
+          addToast('SUCCESS', `Backup of ${invoices.length} invoices downloaded.`);
+      } catch (err) {
+          console.error("Backup error", err);
+          addToast('ERROR', 'Failed to create backup.');
+      }
+  };
+
+  const handleRestoreFile = async (file: File) => {
+      try {
+          setPendingRestore(await parseBackup(await file.text()));
+      } catch (err: any) {
+          addToast('ERROR', `Restore failed: ${err.message}`);
+      }
+  };
+
+  // Replace adopts the backup's settings wholesale; the invoices are still replayed so figures match the engine
+  const handleRestoreReplace = () => {
+      if (!pendingRestore) return;
+      const { data } = pendingRestore;
+      const method = data.settings.costingMethod || 'FIFO';
+      const result = replayLedger(data.invoices, method);
+      if (result.error) { addToast('ERROR', `Restore failed: ${result.error}`); return; }
+      setHistory(EMPTY_HISTORY); // The backup brings its own period closes, which undo must not swap back without a reopen on record
+      logAudit({ action: 'RESTORE', summary: `Restore from backup of ${pendingRestore.createdAt}`, before: summarizeLedger(invoices), after: summarizeLedger(data.invoices) });
+      setInvoices(result.invoices);
+      setPeriodCloses(data.periodCloses || []);
+      setParties(data.parties || []);
+      setPayments(data.payments || []);
+      if (data.moneyAccounts) setMoneyAccounts(data.moneyAccounts); // Older backups keep the accounts already set up
+      setCashEntries(data.cashEntries || []);
+      setBankStatement(data.bankStatement || []);
+      setMetalMovements(data.metalMovements || []);
+      if (data.marketRates) setMarketRates(prev => upsertRates(prev, data.marketRates!)); // Rates are market data, not books: merged rather than replaced
+      setCostingMethod(method);
+      if (data.settings.businessGstin !== undefined) setBusinessGstin(data.settings.businessGstin); // Older backups keep the settings already made
+      if (data.settings.businessProfile) setBusinessProfile(data.settings.businessProfile);
+      if (data.settings.complianceRules) setComplianceRules({ ...DEFAULT_COMPLIANCE_RULES, ...data.settings.complianceRules });
+      if (data.settings.gainsRules) setGainsRules({ ...DEFAULT_GAINS_RULES, ...data.settings.gainsRules });
+      setEditingInvoice(null);
+      setPendingRestore(null);
+      addToast('SUCCESS', `Restored ${data.invoices.length} invoices from backup.`);
+  };
+
+  // Merge keeps the settings made here and only takes the backup's where ours were never set
+  const handleRestoreMerge = () => {
+      if (!pendingRestore) return;
+      const plan = planMerge(invoices, pendingRestore.data.invoices, lockDate);
+      const { settings } = pendingRestore.data;
+      const isDefault = (value: object, defaults: object) => JSON.stringify(value) === JSON.stringify(defaults);
+      setPendingRestore(null);
+      const label = `Merge of ${plan.added.length} invoices from backup`;
+      commitInvoices(plan.invoices, label, () => {
+          if (!businessGstin && settings.businessGstin) setBusinessGstin(settings.businessGstin);
+          if (!businessProfile.name && !businessProfile.address && settings.businessProfile) setBusinessProfile(settings.businessProfile);
+          if (isDefault(complianceRules, DEFAULT_COMPLIANCE_RULES) && settings.complianceRules) setComplianceRules({ ...DEFAULT_COMPLIANCE_RULES, ...settings.complianceRules });
+          if (isDefault(gainsRules, DEFAULT_GAINS_RULES) && settings.gainsRules) setGainsRules({ ...DEFAULT_GAINS_RULES, ...settings.gainsRules });
+          logAudit({ action: 'MERGE', summary: label, after: plan.added });
+          addToast('SUCCESS', `Merged ${plan.added.length} invoices from backup.`, undoAction);
+      });
+  };
 
   // --- EXPORT HANDLERS ---
   
@@ -296,46 +998,377 @@ function App() {
       addToast('SUCCESS', `${title} downloaded.`);
   };
 
+  // GST tax invoice for one sale. Sales recorded before numbering existed get the next number
+  // of their financial year on first print; the number does not affect costs, so it is saved
+  // directly rather than through the recost preview and history.
+  const handleTaxInvoice = (sale: Invoice) => {
+      let invoice = sale;
+      if (!invoice.invoiceNumber) {
+          invoice = { ...sale, invoiceNumber: nextInvoiceNumber(invoices, sale.date) };
+          setInvoices(prev => prev.map(inv => inv.id === sale.id ? invoice : inv));
+          logAudit({ action: 'EDIT', summary: `Invoice number ${invoice.invoiceNumber} issued for sale to ${sale.partyName} (${sale.date})`, before: { invoiceNumber: null }, after: { invoiceNumber: invoice.invoiceNumber } });
+      }
+      const buyer = resolveParty(invoice).party;
+      const stateLabel = (code?: string) => code ? `${GST_STATES[code] || code} (${code})` : '-';
+      const sellerState = invoice.ourState || ourState;
+      const placeOfSupply = invoice.partyState || sellerState;
+      const hsn = HSN_BY_METAL[invoice.metal];
+      const amount = (v: number) => v.toFixed(2);
+      const half = invoice.gstRate / 2;
+
+      const doc = new jsPDF();
+      const width = doc.internal.pageSize.getWidth();
+      doc.setFontSize(16);
+      doc.text('TAX INVOICE', width / 2, 15, { align: 'center' });
+      doc.setFontSize(8);
+      doc.text('Original for Recipient', width / 2, 20, { align: 'center' });
+
+      doc.setFontSize(11);
+      doc.text(businessProfile.name || 'Seller name not set', 14, 30);
+      doc.setFontSize(9);
+      const sellerLines = [
+          ...doc.splitTextToSize(businessProfile.address || '', 100),
+          `GSTIN: ${businessGstin || 'Unregistered'}`,
+          `State: ${stateLabel(sellerState)}`
+      ];
+      doc.text(sellerLines, 14, 35);
+      doc.text([
+          `Invoice No: ${invoice.invoiceNumber}`,
+          `Date: ${invoice.date.split('-').reverse().join('/')}`,
+          `Place of Supply: ${stateLabel(placeOfSupply)}`,
+          'Reverse Charge: No'
+      ], 130, 30);
+
+      const buyerY = 40 + sellerLines.length * 4;
+      doc.setFontSize(10);
+      doc.text('Bill To', 14, buyerY);
+      doc.setFontSize(9);
+      doc.text([
+          buyer?.name || invoice.partyName,
+          ...doc.splitTextToSize(buyer?.address || '', 100),
+          `GSTIN: ${invoice.partyGstin || 'Unregistered'}`,
+          ...(buyer?.pan && !invoice.partyGstin ? [`PAN: ${buyer.pan}`] : []),
+          `State: ${stateLabel(invoice.partyState || sellerState)}`
+      ], 14, buyerY + 5);
+
+      // Where the last table ended, as the cursor stands after its final page
+      let tableEndY = 0;
+      const didDrawPage = ({ cursor }: { cursor: { y: number } | null }) => { tableEndY = cursor?.y ?? tableEndY; };
+
+      autoTable(doc, {
+          startY: buyerY + 30,
+          head: [['#', 'Description', 'HSN', 'Qty (g)', 'Rate (INR/g)', 'Taxable Value (INR)']],
+          body: [['1', `${hsn.description} - ${formatPool(invoice.metal, invoice.purity)}`, hsn.code, invoice.quantityGrams.toFixed(3), amount(invoice.ratePerGram), amount(invoice.taxableAmount)]],
+          theme: 'grid',
+          styles: { fontSize: 8 },
+          headStyles: { fillColor: [209, 151, 38] },
+          didDrawPage
+      });
+      autoTable(doc, {
+          startY: tableEndY + 4,
+          head: [['Tax', 'Rate', 'Amount (INR)']],
+          body: [
+              ['Taxable Value', '', amount(invoice.taxableAmount)],
+              ...(invoice.igstAmount > 0
+                  ? [['IGST', `${invoice.gstRate}%`, amount(invoice.igstAmount)]]
+                  : [['CGST', `${half}%`, amount(invoice.cgstAmount)], ['SGST', `${half}%`, amount(invoice.sgstAmount)]]),
+              ['Invoice Total', '', amount(invoice.totalAmount)]
+          ],
+          theme: 'grid',
+          styles: { fontSize: 8 },
+          headStyles: { fillColor: [209, 151, 38] },
+          margin: { left: width / 2 },
+          didDrawPage
+      });
+
+      let y = tableEndY + 8;
+      doc.setFontSize(9);
+      doc.text(`Amount in words: ${amountInWords(invoice.totalAmount)}`, 14, y, { maxWidth: width - 28 });
+      y += 12;
+      doc.setFontSize(7);
+      doc.text('QR payload:', 14, y);
+      const qrLines = doc.splitTextToSize(buildInvoiceQrPayload(invoice, businessGstin), width - 28);
+      doc.text(qrLines, 14, y + 4);
+      y += 10 + qrLines.length * 3;
+      doc.text('We declare that this invoice shows the actual price of the goods described and that all particulars are true and correct.', 14, y, { maxWidth: 110 });
+      doc.setFontSize(9);
+      doc.text(`For ${businessProfile.name || 'the seller'}`, width - 14, y, { align: 'right' });
+      doc.text('Authorised Signatory', width - 14, y + 15, { align: 'right' });
+
+      doc.save(`tax_invoice_${invoice.invoiceNumber!.replace(/\//g, '_')}.pdf`);
+      addToast('SUCCESS', `Tax invoice ${invoice.invoiceNumber} downloaded.`);
+  };
+
+  // Daily book of the selected account over the date range: opening, receipts, payments and closing
+  const handleCashBookExport = (type: 'CSV' | 'PDF') => {
+      const account = moneyAccounts.find(a => a.id === bookAccountId) || moneyAccounts[0];
+      if (!account) return;
+      const rows = dailyCashBook(account, postings, dateRange.start, dateRange.end);
+      const headers = ['Date', 'Opening (INR)', 'Receipts (INR)', 'Payments (INR)', 'Closing (INR)'];
+      const body = rows.map(r => [r.date, r.opening.toFixed(2), r.receipts.toFixed(2), r.payments.toFixed(2), r.closing.toFixed(2)]);
+      const slug = account.name.toLowerCase().replace(/[^a-z0-9]+/g, '_');
+      if (type === 'CSV') {
+          const csv = [headers.join(','), ...body.map(row => row.join(','))].join('\n');
+          downloadCSV(csv, `cash_book_${slug}_${dateRange.start}_${dateRange.end}.csv`);
+      } else {
+          generatePDF(`Cash Book - ${account.name}`, [headers], body, [
+              `Period: ${dateRange.start} to ${dateRange.end}`,
+              `Closing balance: ${formatCurrency(accountBalance(account, postings, dateRange.end))}`
+          ]);
+      }
+  };
+
+  const handlePositionExport = (type: 'CSV' | 'PDF') => {
+      const headers = ['Date', 'Stock (g)', `Book Value (${COSTING_METHOD_LABELS[costingMethod]})`, 'Market Value', 'Unrealized P&L', 'Realized to Date', 'Cash & Bank', 'Net Receivable', 'Net Worth'];
+      const money = (v: number | null) => v === null ? '' : v.toFixed(2);
+      const body = position.map(p => [p.date, p.grams.toFixed(3), money(p.bookValue), money(p.marketValue), money(p.unrealized), money(p.realizedToDate), money(p.cashAndBank), money(p.netReceivable), money(p.netWorth)]);
+      if (type === 'CSV') {
+          const csv = [headers.map(h => `"${h}"`).join(','), ...body.map(row => row.join(','))].join('\n');
+          downloadCSV(csv, `position_${dateRange.start}_${dateRange.end}.csv`);
+      } else {
+          const last = position[position.length - 1];
+          generatePDF('Mark-to-Market Position', [headers], body, last ? [
+              `Period: ${dateRange.start} to ${dateRange.end}`,
+              `Closing net worth: ${formatCurrency(last.netWorth)}`,
+              'Unpriced pools are carried at book value. Net worth excludes metal on account.'
+          ] : undefined);
+      }
+  };
+
+  // Statement of account for the selected party over the date range, to send to the party
+  const handleStatementExport = (type: 'CSV' | 'PDF') => {
+      const option = partyOptions.find(o => o.key === ledgerPartyKey);
+      if (!option) { addToast('ERROR', 'Pick a party first.'); return; }
+      const { opening, lines, closing } = partyLedger(option.key, invoices, payments, resolveParty, dateRange.start, dateRange.end);
+      const drCr = (v: number) => `${Math.abs(v).toFixed(2)} ${v >= 0 ? 'Dr' : 'Cr'}`;
+      const headers = ['Date', 'Particulars', 'Reference', 'Debit (INR)', 'Credit (INR)', 'Balance (INR)'];
+      const body = [
+          [dateRange.start, 'Opening balance', '', '', '', drCr(opening)],
+          ...lines.map(l => [l.date, l.particulars, l.reference, l.debit ? l.debit.toFixed(2) : '', l.credit ? l.credit.toFixed(2) : '', drCr(l.balance)])
+      ];
+      const slug = option.name.toLowerCase().replace(/[^a-z0-9]+/g, '_');
+      if (type === 'CSV') {
+          const csv = [headers.join(','), ...body.map(row => row.map(cell => `"${String(cell).replace(/"/g, '""')}"`).join(','))].join('\n');
+          downloadCSV(csv, `statement_${slug}_${dateRange.start}_${dateRange.end}.csv`);
+      } else {
+          generatePDF(
+              `Statement of Account - ${option.name}`,
+              [headers],
+              body,
+              [
+                  `${businessProfile.name || 'Our books'}${businessGstin ? ` (GSTIN ${businessGstin})` : ''}`,
+                  `Period: ${dateRange.start} to ${dateRange.end}`,
+                  `Closing balance: ${drCr(closing)} (Dr: payable to us, Cr: payable by us)`
+              ]
+          );
+      }
+  };
+
+  // Flagged transactions in the selected range, one row per breach
+  const handleComplianceExport = (type: 'CSV' | 'PDF') => {
+      const byId = new Map<string, Invoice>(invoices.map(inv => [inv.id, inv]));
+      const rows = complianceFlags.map(f => {
+          const inv = byId.get(f.invoiceId)!;
+          return [inv.date, inv.invoiceNumber || inv.id, inv.type, inv.partyName, panForInvoice(inv, resolveParty(inv).party) || '', inv.paymentMode ? PAYMENT_MODE_LABELS[inv.paymentMode] : '', inv.totalAmount.toFixed(2), COMPLIANCE_RULE_LABELS[f.rule].label, f.action, (f.tcsAmount || 0).toFixed(2), f.message];
+      });
+      const tcsTotal = complianceFlags.reduce((acc, f) => acc + (f.tcsAmount || 0), 0);
+      const headers = ['Date', 'Invoice', 'Type', 'Party', 'PAN', 'Payment Mode', 'Amount (INR)', 'Rule', 'Action', 'TCS (INR)', 'Detail'];
+      if (type === 'CSV') {
+          const csv = [headers.join(','), ...rows.map(row => row.map(cell => `"${String(cell).replace(/"/g, '""')}"`).join(','))].join('\n');
+          downloadCSV(csv, `compliance_report_${dateRange.start}_${dateRange.end}.csv`);
+      } else {
+          generatePDF(
+              'Compliance Report',
+              [headers.slice(0, 10)],
+              rows.map(row => row.slice(0, 10)),
+              [`Period: ${dateRange.start} to ${dateRange.end}`, `${complianceFlags.length} flags, TCS to collect: ${formatCurrency(tcsTotal)}`]
+          );
+      }
+  };
+
+  // Closing stock as frozen at the close, lot by lot, with the period's frozen figures as the summary
+  const handleCloseExport = (close: PeriodClose, type: 'CSV' | 'PDF') => {
+      const { closingStock, frozen } = close;
+      const slug = close.label.toLowerCase().replace(/[^a-z0-9]+/g, '_');
+      if (type === 'CSV') {
+          const headers = ['Batch ID', 'Purchase Date', 'Metal / Purity', 'Remaining Qty (g)', 'Remaining Fine (g)', 'Carrying Cost (INR/g)', 'Value (INR)'];
+          const csv = [
+              headers.join(','),
+              ...closingStock.batches.map(b => [b.id, b.date, `"${formatPool(b.metal, b.purity)}"`, b.remainingQuantity, toFineGrams(b.remainingQuantity, b.purity), b.carryingCostPerGram, b.remainingQuantity * b.carryingCostPerGram].join(',')),
+              ['TOTAL', '', '', closingStock.grams, closingStock.fineGrams, '', closingStock.value].join(',')
+          ].join('\n');
+          downloadCSV(csv, `closing_stock_${slug}.csv`);
+          addToast('SUCCESS', 'Closing stock CSV downloaded.');
+      } else {
+          generatePDF(`Period Close: ${close.label}`,
+            [['Batch ID', 'Purchase Date', 'Pool', 'Remaining (g)', 'Fine (g)', 'Cost/g', 'Value']],
+            closingStock.batches.map(b => [b.id, b.date, formatPool(b.metal, b.purity), formatGrams(b.remainingQuantity), formatGrams(toFineGrams(b.remainingQuantity, b.purity)), formatCurrency(b.carryingCostPerGram), formatCurrency(b.remainingQuantity * b.carryingCostPerGram)]),
+            [
+                `Period: ${close.periodStart} to ${close.periodEnd} (${COSTING_METHOD_LABELS[close.costingMethod]})`,
+                `Closed by ${close.closedBy} on ${new Date(close.closedAt).toLocaleString()}${close.reopenedAt ? ` - reopened by ${close.reopenedBy}: ${close.reopenReason}` : ''}`,
+                `Sales: ${frozen.salesCount} (${formatGrams(frozen.gramsSold)}), taxable ${formatCurrency(frozen.taxableSales)}, COGS ${formatCurrency(frozen.cogs)}, profit ${formatCurrency(frozen.profit)}`,
+                `Closing stock: ${formatGrams(closingStock.grams)} (${formatGrams(closingStock.fineGrams)} fine), value ${formatCurrency(closingStock.value)}`
+            ]
+          );
+      }
+  };
+
+  // Closing-stock schedule for the auditor: every batch at cost, NRV and the lower of the two
+  const handleNrvExport = (report: NrvReport, type: 'CSV' | 'PDF') => {
+      if (type === 'CSV') {
+          const headers = ['Batch ID', 'Purchase Date', 'Metal / Purity', 'Remaining Qty (g)', 'Cost (INR/g)', 'Cost (INR)', 'Market Rate (INR/g)', 'Rate Date', 'NRV (INR/g)', 'NRV (INR)', 'Write-Down (INR)', 'Carrying Value (INR)'];
+          const csv = [
+              headers.join(','),
+              ...report.lines.map(l => [l.batch.id, l.batch.date, `"${formatPool(l.batch.metal, l.batch.purity)}"`, l.grams, l.costPerGram, l.cost, l.rate?.ratePerGram ?? '', l.rate?.date || '', l.nrvPerGram ?? '', l.nrv ?? '', l.writeDown, l.carryingValue].join(',')),
+              ['TOTAL', '', '', report.grams, '', report.cost, '', '', '', report.nrv, report.writeDown, report.carryingValue].join(',')
+          ].join('\n');
+          downloadCSV(csv, `closing_stock_nrv_${report.closingDate}.csv`);
+          addToast('SUCCESS', 'Closing stock schedule CSV downloaded.');
+      } else {
+          generatePDF(`Closing Stock Schedule as at ${report.closingDate}`,
+            [['Batch ID', 'Purchased', 'Pool', 'Remaining (g)', 'Cost', 'NRV/g', 'NRV', 'Write-Down', 'Carried At']],
+            report.lines.map(l => [l.batch.id, l.batch.date, formatPool(l.batch.metal, l.batch.purity), formatGrams(l.grams), formatCurrency(l.cost), l.rate ? formatCurrency(l.nrvPerGram!) : 'No rate', l.rate ? formatCurrency(l.nrv!) : '-', formatCurrency(l.writeDown), formatCurrency(l.carryingValue)]),
+            [
+                `Basis: lower of cost (${COSTING_METHOD_LABELS[report.method]}) and net realisable value, batch by batch`,
+                `NRV: market rate on or before ${report.closingDate} less ${report.sellingCostPercent}% estimated selling costs`,
+                `Stock: ${formatGrams(report.grams)}, cost ${formatCurrency(report.cost)}, NRV ${formatCurrency(report.nrv)}`,
+                `Write-down ${formatCurrency(report.writeDown)}; closing stock carried at ${formatCurrency(report.carryingValue)}`,
+                ...(report.unpriced > 0 ? [`${report.unpriced} batch(es) without a market rate carried at cost`] : [])
+            ]
+          );
+      }
+  };
+
+  // Lot-by-lot schedule of one financial year's realized profit, split into income-tax heads
+  const handleGainsExport = (year: GainsYear, type: 'CSV' | 'PDF') => {
+      const lines = gainsLines.filter(l => l.financialYear === year.financialYear);
+      const terms = Object.keys(GAINS_TERM_LABELS) as GainsTerm[];
+      const basis = `Thresholds: long-term after ${gainsRules.longTermMonths} months${gainsRules.tradingDays > 0 ? `, trading income within ${gainsRules.tradingDays} days` : ''}; cost under ${COSTING_METHOD_LABELS[costingMethod]}`;
+      if (type === 'CSV') {
+          const headers = ['Sale Date', 'Invoice No', 'Customer', 'Metal / Purity', 'Batch ID', 'Purchase Date', 'Supplier', 'Grams', 'Holding (days)', 'Head', 'Cost (INR/g)', 'Sale Rate (INR/g)', 'Cost (INR)', 'Proceeds (INR)', 'Gain (INR)'];
+          const csv = [
+              headers.join(','),
+              ...lines.map(l => [l.sale.date, l.sale.invoiceNumber || '', `"${l.sale.partyName}"`, `"${formatPool(l.sale.metal, l.sale.purity)}"`, l.batchId, l.purchaseDate, `"${l.supplier}"`, l.grams, l.holdingDays, GAINS_TERM_LABELS[l.term], l.costPerGram, l.sale.ratePerGram, l.cost, l.proceeds, l.gain].join(',')),
+              ...terms.map(t => [`TOTAL ${GAINS_TERM_LABELS[t].toUpperCase()}`, '', '', '', '', '', '', year.byTerm[t].grams, '', '', '', '', year.byTerm[t].cost, year.byTerm[t].proceeds, year.byTerm[t].gain].join(','))
+          ].join('\n');
+          downloadCSV(csv, `gains_schedule_FY${year.financialYear}.csv`);
+          addToast('SUCCESS', 'Gains schedule CSV downloaded.');
+      } else {
+          generatePDF(`Capital Gains & Trading Income - FY ${year.financialYear}`,
+            [['Sale Date', 'Customer', 'Pool', 'Purchased', 'Grams', 'Days', 'Head', 'Cost', 'Proceeds', 'Gain']],
+            lines.map(l => [l.sale.date, l.sale.partyName, formatPool(l.sale.metal, l.sale.purity), l.purchaseDate, formatGrams(l.grams), l.holdingDays.toString(), GAINS_TERM_LABELS[l.term], formatCurrency(l.cost), formatCurrency(l.proceeds), formatCurrency(l.gain)]),
+            [
+                basis,
+                ...terms.map(t => `${GAINS_TERM_LABELS[t]}: ${year.byTerm[t].lots} lots, ${formatGrams(year.byTerm[t].grams)}, proceeds ${formatCurrency(year.byTerm[t].proceeds)}, cost ${formatCurrency(year.byTerm[t].cost)}, gain ${formatCurrency(year.byTerm[t].gain)}`),
+                `Total gain ${formatCurrency(year.total.gain)}; realized profit on the sale invoices ${formatCurrency(year.recordedProfit)}`
+            ]
+          );
+      }
+  };
+
+  // Filtered the same way as the Audit tab, oldest first, with the hashes so a printout can be checked against the log
+  const handleAuditExport = (type: 'CSV' | 'PDF') => {
+      const entries = searchAuditLog(auditLog, searchQuery, auditActionFilter).reverse();
+      const changes = (e: AuditEntry) => describeAuditChanges(e).map(c => `${c.field}: ${c.before} -> ${c.after}`).join('; ');
+      const integrity = auditBrokenAt === null ? `Hash chain verified across ${auditLog.length} entries` : `Hash chain BROKEN at entry #${auditBrokenAt}`;
+
+      if (type === 'CSV') {
+          const headers = ['Seq', 'Timestamp', 'Action', 'Summary', 'Changes', 'Previous Hash', 'Hash'];
+          const csv = [
+              headers.join(','),
+              ...entries.map(e => [e.seq, e.at, AUDIT_ACTION_LABELS[e.action], `"${e.summary.replace(/"/g, '""')}"`, `"${changes(e).replace(/"/g, '""')}"`, e.prevHash, e.hash].join(','))
+          ].join('\n');
+          downloadCSV(csv, `audit_log_${new Date().toISOString().split('T')[0]}.csv`);
+          addToast('SUCCESS', 'Audit log CSV downloaded.');
+      } else {
+          generatePDF('Audit Log',
+            [['#', 'Timestamp', 'Action', 'Summary', 'Changes', 'Hash']],
+            entries.map(e => [e.seq, new Date(e.at).toLocaleString(), AUDIT_ACTION_LABELS[e.action], e.summary, changes(e).slice(0, 300), e.hash.slice(0, 16)]),
+            [integrity, `${entries.length} of ${auditLog.length} entries${searchQuery || auditActionFilter !== 'ALL' ? ' (filtered)' : ''}`]
+          );
+      }
+  };
+
   const handleInventoryExport = (type: 'CSV' | 'PDF') => {
-      const data = inventory.filter(inv => inv.date >= dateRange.start && inv.date <= dateRange.end).map(b => ({
+      const batches = inventory.filter(inv => inv.date >= dateRange.start && inv.date <= dateRange.end && matchesPool(inv));
+      const data = batches.map(b => ({
           batchId: b.id,
           date: b.date,
+          pool: formatPool(b.metal, b.purity),
+          fineQty: toFineGrams(b.remainingQuantity, b.purity),
           originalQty: b.originalQuantity,
           remainingQty: b.remainingQuantity,
           costPerGram: b.costPerGram,
-          totalValue: b.remainingQuantity * b.costPerGram,
+          totalValue: b.remainingQuantity * b.carryingCostPerGram,
           status: b.remainingQuantity > 0 ? 'Active' : 'Closed'
       }));
 
       if (type === 'CSV') {
-          const headers = ['Batch ID', 'Date', 'Original Qty (g)', 'Remaining Qty (g)', 'Cost (INR/g)', 'Total Value (INR)', 'Status'];
+          const headers = ['Batch ID', 'Date', 'Metal / Purity', 'Original Qty (g)', 'Remaining Qty (g)', 'Remaining Fine (g)', 'Cost (INR/g)', 'Total Value (INR)', 'Status'];
           const csv = [
               headers.join(','),
-              ...data.map(r => [r.batchId, r.date, r.originalQty, r.remainingQty, r.costPerGram, r.totalValue, r.status].join(','))
+              ...data.map(r => [r.batchId, r.date, `"${r.pool}"`, r.originalQty, r.remainingQty, r.fineQty, r.costPerGram, r.totalValue, r.status].join(','))
           ].join('\n');
           downloadCSV(csv, `inventory_report_${new Date().toISOString().split('T')[0]}.csv`);
           addToast('SUCCESS', 'Inventory CSV downloaded.');
       } else {
           generatePDF('Inventory Report', 
-            [['Batch ID', 'Date', 'Original (g)', 'Remaining (g)', 'Cost/g', 'Value', 'Status']],
-            data.map(r => [r.batchId, r.date, formatGrams(r.originalQty), formatGrams(r.remainingQty), formatCurrency(r.costPerGram), formatCurrency(r.totalValue), r.status])
+            [['Batch ID', 'Date', 'Pool', 'Original (g)', 'Remaining (g)', 'Fine (g)', 'Cost/g', 'Value', 'Status']],
+            data.map(r => [r.batchId, r.date, r.pool, formatGrams(r.originalQty), formatGrams(r.remainingQty), formatGrams(r.fineQty), formatCurrency(r.costPerGram), formatCurrency(r.totalValue), r.status]),
+            summarizePools(batches).map(p => `${formatPool(p.metal, p.purity)}: ${formatGrams(p.grams)} (${formatGrams(p.fineGrams)} fine), ${formatCurrency(p.value)}`)
+          );
+      }
+  };
+
+  // Sale-to-lot matching for the selected period: one row per (sale, batch) allocation
+  const handleLotMatchingExport = (type: 'CSV' | 'PDF') => {
+      const byId = new Map<string, Invoice>(invoices.map(inv => [inv.id, inv]));
+      const rows = filteredInvoices
+          .filter(inv => inv.type === 'SALE')
+          .sort((a, b) => new Date(a.date).getTime() - new Date(b.date).getTime())
+          .flatMap(sale => (sale.allocations || []).map(a => ({
+              saleDate: sale.date,
+              customer: sale.partyName,
+              pool: formatPool(sale.metal, sale.purity),
+              batchId: a.batchId,
+              batchDate: byId.get(a.batchId)?.date || '',
+              supplier: byId.get(a.batchId)?.partyName || '',
+              grams: a.grams,
+              costPerGram: a.costPerGram,
+              salePerGram: sale.ratePerGram,
+              margin: a.grams * (sale.ratePerGram - a.costPerGram)
+          })));
+
+      if (type === 'CSV') {
+          const headers = ['Sale Date', 'Customer', 'Metal / Purity', 'Batch ID', 'Batch Date', 'Supplier', 'Grams', 'Cost (INR/g)', 'Sale Rate (INR/g)', 'Margin (INR)'];
+          const csv = [
+              headers.join(','),
+              ...rows.map(r => [r.saleDate, `"${r.customer}"`, `"${r.pool}"`, r.batchId, r.batchDate, `"${r.supplier}"`, r.grams, r.costPerGram, r.salePerGram, r.margin].join(','))
+          ].join('\n');
+          downloadCSV(csv, `lot_matching_${dateRange.start}_${dateRange.end}.csv`);
+          addToast('SUCCESS', 'Lot Matching CSV downloaded.');
+      } else {
+          generatePDF('Sale to Lot Matching Report',
+            [['Sale Date', 'Customer', 'Pool', 'Batch Date', 'Supplier', 'Grams', 'Cost/g', 'Sale/g', 'Margin']],
+            rows.map(r => [r.saleDate, r.customer, r.pool, r.batchDate, r.supplier, formatGrams(r.grams), formatCurrency(r.costPerGram), formatCurrency(r.salePerGram), formatCurrency(r.margin)]),
+            [`Period: ${dateRange.start} to ${dateRange.end}`, `Allocations: ${rows.length}`]
           );
       }
   };
 
   const handlePriceExport = (type: 'CSV' | 'PDF', purchases: Invoice[]) => {
        if (type === 'CSV') {
-           const headers = ['Date', 'Supplier', 'Quantity (g)', 'Rate (INR/g)', 'Total (INR)'];
+           const headers = ['Date', 'Supplier', 'Metal / Purity', 'Quantity (g)', 'Rate (INR/g)', 'Total (INR)'];
            const csv = [
                headers.join(','),
-               ...purchases.map(p => [p.date, `"${p.partyName}"`, p.quantityGrams, p.ratePerGram, p.quantityGrams * p.ratePerGram].join(','))
+               ...purchases.map(p => [p.date, `"${p.partyName}"`, `"${formatPool(p.metal, p.purity)}"`, p.quantityGrams, p.ratePerGram, p.quantityGrams * p.ratePerGram].join(','))
            ].join('\n');
            downloadCSV(csv, `price_analysis_purchases_${dateRange.start}_${dateRange.end}.csv`);
            addToast('SUCCESS', 'Price Data CSV downloaded.');
        } else {
            generatePDF('Price Analysis - Purchases', 
-             [['Date', 'Supplier', 'Qty (g)', 'Rate (INR/g)', 'Total (INR)']],
-             purchases.map(p => [p.date, p.partyName, formatGrams(p.quantityGrams), formatCurrency(p.ratePerGram), formatCurrency(p.quantityGrams * p.ratePerGram)])
+             [['Date', 'Supplier', 'Pool', 'Qty (g)', 'Rate (INR/g)', 'Total (INR)']],
+             purchases.map(p => [p.date, p.partyName, formatPool(p.metal, p.purity), formatGrams(p.quantityGrams), formatCurrency(p.ratePerGram), formatCurrency(p.quantityGrams * p.ratePerGram)])
            );
        }
   };
@@ -361,30 +1394,88 @@ function App() {
 
   const handleSupplierExport = (type: 'CSV' | 'PDF') => {
        if (type === 'CSV') {
-           const headers = ['Supplier', 'Transactions', 'Total Volume (g)', 'Avg Rate', 'Min Rate', 'Max Rate', 'Volatility'];
+           const headers = ['Supplier', 'Metal / Purity', 'Transactions', 'Total Volume (g)', 'Avg Rate', 'Min Rate', 'Max Rate', 'Volatility'];
            const csv = [
                headers.join(','),
                ...supplierData.map(s => [
-                   `"${s.name}"`, s.txCount, s.totalGramsPurchased, s.avgRate, s.minRate, s.maxRate, s.volatility
+                   `"${s.name}"`, `"${formatPool(s.metal, s.purity)}"`, s.txCount, s.totalGramsPurchased, s.avgRate, s.minRate, s.maxRate, s.volatility
                ].join(','))
            ].join('\n');
            downloadCSV(csv, `supplier_insights_${dateRange.start}_${dateRange.end}.csv`);
            addToast('SUCCESS', 'Supplier Data CSV downloaded.');
        } else {
            generatePDF('Supplier Insights Report', 
-             [['Supplier', 'Tx Count', 'Vol (g)', 'Avg Rate', 'Min', 'Max', 'Volatility']],
-             supplierData.map(s => [s.name, s.txCount, formatGrams(s.totalGramsPurchased), formatCurrency(s.avgRate), formatCurrency(s.minRate), formatCurrency(s.maxRate), formatCurrency(s.volatility)])
+             [['Supplier', 'Pool', 'Tx Count', 'Vol (g)', 'Avg Rate', 'Min', 'Max', 'Volatility']],
+             supplierData.map(s => [s.name, formatPool(s.metal, s.purity), s.txCount, formatGrams(s.totalGramsPurchased), formatCurrency(s.avgRate), formatCurrency(s.minRate), formatCurrency(s.maxRate), formatCurrency(s.volatility)])
            );
        }
   };
 
-  const handleLedgerExport = (type: 'CSV' | 'PDF', monthlyData: any[], totals: any) => {
+  // JSON follows the GST offline tool's upload layout; CSV and PDF are the same figures for review
+  const handleGstExport = (form: 'GSTR1' | 'GSTR3B', type: 'CSV' | 'PDF' | 'JSON') => {
+      const fp = `${taxPeriod.slice(5, 7)}${taxPeriod.slice(0, 4)}`;
+      const name = `${form === 'GSTR1' ? 'GSTR1' : 'GSTR3B'}_${businessGstin || 'unregistered'}_${fp}`;
+      const heads = (h: TaxHeads) => [h.txval, h.iamt, h.camt, h.samt, h.csamt].map(v => v.toFixed(2));
+      const headsFmt = (h: TaxHeads) => [h.txval, h.iamt, h.camt, h.samt].map(formatCurrency);
+
+      if (type === 'JSON') {
+          if (!isValidGstin(businessGstin)) { addToast('ERROR', 'Enter your GSTIN before exporting return JSON.'); return; }
+          const payload = form === 'GSTR1' ? gstr1ToJson(gstr1, businessGstin) : gstr3BToJson(gstr3b, businessGstin);
+          downloadFile(JSON.stringify(payload, null, 2), `${name}.json`, 'application/json');
+          addToast('SUCCESS', `${form === 'GSTR1' ? 'GSTR-1' : 'GSTR-3B'} JSON downloaded.`);
+          return;
+      }
+
+      const rows: { section: string; detail: string; h: TaxHeads }[] = form === 'GSTR1' ? [
+          ...gstr1.b2b.map(r => ({ section: 'B2B', detail: `${r.invoice.date} ${r.invoice.partyName} (${r.ctin})`, h: r.heads })),
+          ...gstr1.b2cl.map(r => ({ section: 'B2CL', detail: `${r.invoice.date} ${r.invoice.partyName} (POS ${r.pos})`, h: r.heads })),
+          ...gstr1.b2cs.map(r => ({ section: 'B2CS', detail: `${r.supplyType} POS ${r.pos} @ ${r.rate}% (${r.count} invoices)`, h: r.heads })),
+          ...gstr1.hsn.map(r => ({ section: 'HSN', detail: `${r.hsn} @ ${r.rate}% - ${formatGrams(r.grams)}`, h: r.heads })),
+      ] : [
+          { section: '3.1(a)', detail: 'Outward taxable supplies', h: gstr3b.outward },
+          { section: '4(A)(5)', detail: 'ITC - all other (purchases)', h: gstr3b.itc },
+          { section: 'Net', detail: 'Tax payable in cash', h: gstr3b.netPayable },
+          { section: 'Carry', detail: 'ITC carried forward', h: gstr3b.carryForward },
+      ];
+
+      if (type === 'CSV') {
+          const csv = [
+              ['Section', 'Detail', 'Taxable Value', 'IGST', 'CGST', 'SGST', 'Cess'].join(','),
+              ...rows.map(r => [r.section, `"${r.detail}"`, ...heads(r.h)].join(','))
+          ].join('\n');
+          downloadCSV(csv, `${name}.csv`);
+          addToast('SUCCESS', 'GST CSV downloaded.');
+      } else {
+          const totals = form === 'GSTR1' ? gstr1.totals : gstr3b.netPayable;
+          generatePDF(`${form === 'GSTR1' ? 'GSTR-1' : 'GSTR-3B'} Summary - ${taxPeriod}`,
+            [['Section', 'Detail', 'Taxable', 'IGST', 'CGST', 'SGST']],
+            rows.map(r => [r.section, r.detail, ...headsFmt(r.h)]),
+            [
+                `GSTIN: ${businessGstin || 'Not set'}`,
+                form === 'GSTR1'
+                    ? `Outward supplies: ${formatCurrency(totals.txval)} taxable, tax ${formatCurrency(totals.iamt + totals.camt + totals.samt)}`
+                    : `Net payable: ${formatCurrency(totals.iamt + totals.camt + totals.samt)}`
+            ]
+          );
+      }
+  };
+
+  const handleLedgerExport = (type: 'CSV' | 'PDF', monthlyData: any[], totals: any, poolTotals: PoolSalesTotal[]) => {
       if (type === 'CSV') {
-          const headers = ['Month', 'Turnover', 'Profit', 'Margin %', 'Qty Sold'];
+          const headers = ['Financial Year', 'Month', 'Turnover', 'Profit', 'Margin %', 'Qty Sold'];
+          const fyHeaders = ['Financial Year', 'Opening Stock (g)', 'Opening Stock (INR)', 'Purchases (g)', 'Purchases (INR)', 'Turnover (INR)', 'Turnover YoY %', 'COGS (INR)', 'Profit (INR)', 'Profit YoY %', 'Qty Sold (g)', 'Closing Stock (g)', 'Closing Stock (INR)'];
           const csv = [
               headers.join(','),
               ...monthlyData.map(m => [
-                  m.date.toLocaleDateString('en-IN', {month: 'long', year: 'numeric'}), m.turnover, m.profit, (m.turnover > 0 ? (m.profit/m.turnover)*100 : 0).toFixed(2), m.qty
+                  m.financialYear, m.date.toLocaleDateString('en-IN', {month: 'long', year: 'numeric'}), m.turnover, m.profit, (m.turnover > 0 ? (m.profit/m.turnover)*100 : 0).toFixed(2), m.qty
+              ].join(',')),
+              '',
+              fyHeaders.join(','),
+              ...financialYears.map((fy, i) => [
+                  fy.financialYear, fy.openingStock.grams, fy.openingStock.value, fy.qtyPurchased, fy.purchases,
+                  fy.turnover, yoyChange(fy.turnover, financialYears[i + 1]?.turnover)?.toFixed(2) ?? '', fy.cogs,
+                  fy.profit, yoyChange(fy.profit, financialYears[i + 1]?.profit)?.toFixed(2) ?? '', fy.qtySold,
+                  fy.closingStock.grams, fy.closingStock.value
               ].join(','))
           ].join('\n');
           downloadCSV(csv, `business_ledger_lifetime.csv`);
@@ -397,7 +1488,12 @@ function App() {
                 `Total Turnover: ${formatCurrency(totals.turnover)}`,
                 `Total Profit: ${formatCurrency(totals.profit)}`,
                 `Overall Margin: ${totals.margin.toFixed(2)}%`,
-                `Total Gold Sold: ${formatGrams(totals.qty)}`
+                `Total Metal Sold: ${formatGrams(totals.qty)}`,
+                ...poolTotals.map(p => `  ${p.label}: ${formatGrams(p.qty)} (${formatGrams(p.fine)} fine), profit ${formatCurrency(p.profit)}`),
+                ...financialYears.map((fy, i) => {
+                    const change = yoyChange(fy.profit, financialYears[i + 1]?.profit);
+                    return `FY ${fy.financialYear}: opening stock ${formatCurrency(fy.openingStock.value)}, purchases ${formatCurrency(fy.purchases)}, turnover ${formatCurrency(fy.turnover)}, profit ${formatCurrency(fy.profit)}${change === null ? '' : ` (${change >= 0 ? '+' : ''}${change.toFixed(1)}% YoY)`}, closing stock ${formatCurrency(fy.closingStock.value)}`;
+                })
             ]
           );
       }
@@ -407,24 +1503,28 @@ function App() {
        const data = [...filteredInvoices].sort((a,b) => new Date(b.date).getTime() - new Date(a.date).getTime());
        
        if (type === 'CSV') {
-           const headers = ['Date', 'Type', 'Party', 'Qty (g)', 'Rate (INR/g)', 'Taxable (INR)', 'GST (INR)', 'Total (INR)', 'Profit (INR)'];
+           const headers = ['Date', 'Type', 'Party', 'Party State', 'Metal', 'Purity', 'Qty (g)', 'Fine (g)', 'Rate (INR/g)', 'Taxable (INR)', 'CGST (INR)', 'SGST (INR)', 'IGST (INR)', 'GST (INR)', 'Total (INR)', 'Profit (INR)'];
            const csv = [
                headers.join(','),
                ...data.map(i => [
-                   i.date, i.type, `"${i.partyName}"`, i.quantityGrams, i.ratePerGram, i.taxableAmount, i.gstAmount, i.totalAmount, i.profit || 0
+                   i.date, i.type, `"${i.partyName}"`, i.partyState || '', i.metal, i.purity, i.quantityGrams, toFineGrams(i.quantityGrams, i.purity), i.ratePerGram, i.taxableAmount, i.cgstAmount, i.sgstAmount, i.igstAmount, i.gstAmount, i.totalAmount, i.profit || 0
                ].join(','))
            ].join('\n');
            downloadCSV(csv, `transactions_${dateRange.start}_${dateRange.end}.csv`);
            addToast('SUCCESS', 'Transactions CSV downloaded.');
        } else {
            generatePDF('Transaction Report', 
-             [['Date', 'Type', 'Party', 'Qty', 'Rate', 'Total', 'Profit']],
+             [['Date', 'Type', 'Party', 'Pool', 'Qty', 'Rate', 'CGST', 'SGST', 'IGST', 'Total', 'Profit']],
              data.map(i => [
                  i.date, 
                  i.type.substring(0,1), 
                  i.partyName, 
+                 formatPool(i.metal, i.purity),
                  formatGrams(i.quantityGrams), 
                  formatCurrency(i.ratePerGram), 
+                 formatCurrency(i.cgstAmount),
+                 formatCurrency(i.sgstAmount),
+                 formatCurrency(i.igstAmount),
                  formatCurrency(i.totalAmount), 
                  i.profit ? formatCurrency(i.profit) : '-'
              ])
@@ -438,6 +1538,8 @@ function App() {
       const priceMetrics = useMemo(() => {
           const purchases = filteredInvoices.filter(i => i.type === 'PURCHASE');
           const sales = filteredInvoices.filter(i => i.type === 'SALE');
+          // A market rate belongs to one pool, so the line is drawn only when a single pool is in view
+          const scope = poolFilter !== 'ALL' ? ledgerInvoices.find(matchesPool) : new Set(sales.map(poolKey)).size === 1 ? sales[0] : undefined;
           
           const trendData = [];
           const start = new Date(dateRange.start);
@@ -449,12 +1551,13 @@ function App() {
               const totalQty = daySales.reduce((acc, i) => acc + i.quantityGrams, 0);
               trendData.push({
                   date: d.toLocaleDateString('en-IN', { day: '2-digit', month: 'short' }),
-                  avgSellPrice: totalQty > 0 ? totalVal / totalQty : null
+                  avgSellPrice: totalQty > 0 ? totalVal / totalQty : null,
+                  marketRate: scope ? rateOn(marketRates, scope.metal, scope.purity, dateStr)?.ratePerGram ?? null : null
               });
           }
 
           return { trendData, purchases };
-      }, [filteredInvoices, dateRange]);
+      }, [filteredInvoices, dateRange, marketRates, poolFilter, ledgerInvoices]);
 
       return (
         <div className="space-y-8 animate-enter">
@@ -474,7 +1577,7 @@ function App() {
                  <Card title="Selling Price Trend (Avg/g)" delay={100} className="min-h-[400px]">
                       <div className="h-full w-full">
                           <ResponsiveContainer>
-                              <AreaChart data={priceMetrics.trendData}>
+                              <ComposedChart data={priceMetrics.trendData}>
                                   <defs>
                                       <linearGradient id="colorSell" x1="0" y1="0" x2="0" y2="1">
                                           <stop offset="5%" stopColor="#d19726" stopOpacity={0.2}/>
@@ -484,9 +1587,10 @@ function App() {
                                   <CartesianGrid strokeDasharray="3 3" vertical={false} stroke="#f1f5f9"/>
                                   <XAxis dataKey="date" axisLine={false} tickLine={false} tick={{fill: '#94a3b8', fontSize: 10}}/>
                                   <YAxis domain={['auto', 'auto']} axisLine={false} tickLine={false} tick={{fill: '#94a3b8', fontSize: 10}} tickFormatter={(v) => `₹${v}`}/>
-                                  <Tooltip contentStyle={{borderRadius: '12px'}} formatter={(val:number) => [formatCurrency(val), 'Avg Sell Price']}/>
-                                  <Area type="monotone" dataKey="avgSellPrice" stroke="#b4761e" fill="url(#colorSell)" />
-                              </AreaChart>
+                                  <Tooltip contentStyle={{borderRadius: '12px'}} formatter={(val:number, name: string) => [formatCurrency(val), name]}/>
+                                  <Area type="monotone" dataKey="avgSellPrice" stroke="#b4761e" fill="url(#colorSell)" name="Avg Sell Price" />
+                                  <Line type="stepAfter" dataKey="marketRate" stroke="#64748b" strokeWidth={2} strokeDasharray="4 4" dot={false} connectNulls name="Market Rate" />
+                              </ComposedChart>
                           </ResponsiveContainer>
                       </div>
                  </Card>
@@ -506,7 +1610,7 @@ function App() {
                                <tbody>
                                    {supplierData.map((s, i) => (
                                        <tr key={i} className="hover:bg-slate-50 border-b border-slate-50">
-                                           <td className="px-4 py-3 font-medium">{s.name}</td>
+                                           <td className="px-4 py-3 font-medium">{s.name}<span className="block text-[10px] font-bold uppercase text-slate-400">{formatPool(s.metal, s.purity)}</span></td>
                                            <td className="px-4 py-3 text-right font-mono text-blue-600">{formatCurrency(s.avgRate)}</td>
                                            <td className="px-4 py-3 text-right font-mono text-slate-500">{formatCurrency(s.minRate)}</td>
                                            <td className="px-4 py-3 text-right font-mono text-slate-500">{formatCurrency(s.maxRate)}</td>
@@ -537,7 +1641,7 @@ function App() {
                                 priceMetrics.purchases.sort((a,b) => new Date(b.date).getTime() - new Date(a.date).getTime()).map(inv => (
                                   <tr key={inv.id} className="hover:bg-slate-50 border-b border-slate-50">
                                       <td className="px-4 py-3 text-slate-500">{inv.date}</td>
-                                      <td className="px-4 py-3 font-medium">{inv.partyName}</td>
+                                      <td className="px-4 py-3 font-medium">{inv.partyName}<span className="block text-[10px] font-bold uppercase text-slate-400">{formatPool(inv.metal, inv.purity)}</span></td>
                                       <td className="px-4 py-3 text-right font-mono">{formatGrams(inv.quantityGrams)}</td>
                                       <td className="px-4 py-3 text-right font-mono text-blue-600">{formatCurrency(inv.ratePerGram)}</td>
                                       <td className="px-4 py-3 text-right font-mono">{formatCurrency(inv.quantityGrams * inv.ratePerGram)}</td>
@@ -552,10 +1656,10 @@ function App() {
   };
 
   const AnalyticsView = () => {
-      const realizedProfit = totalProfit; // FIFO profit from closed sales
-      const rate = parseFloat(marketRate);
-      const hasRate = !isNaN(rate) && rate > 0;
-      const unrealizedProfit = hasRate ? (currentStock * rate) - fifoValue : 0;
+      const realizedProfit = totalProfit; // Profit from closed sales under the active costing method
+      const hasRate = marketValuation.unpriced.length < stockPools.length;
+      const positionChart = position.map(p => ({ ...p, label: new Date(p.date).toLocaleDateString('en-IN', { day: '2-digit', month: 'short' }) }));
+      const unrealizedProfit = marketValuation.unrealized;
       
       const pieData = customerData.slice(0, 5).map(c => ({ name: c.name, value: c.totalGrams }));
       const others = customerData.slice(5).reduce((acc, c) => acc + c.totalGrams, 0);
@@ -583,21 +1687,53 @@ function App() {
               <div className="bg-slate-900 rounded-2xl p-6 text-white relative overflow-hidden flex flex-col justify-center">
                    <div className="absolute top-0 right-0 w-24 h-24 bg-gold-500/20 rounded-full blur-3xl -mr-8 -mt-8"></div>
                    <p className="text-xs font-bold text-slate-400 uppercase tracking-widest mb-2">Unrealized Profit (Est)</p>
-                   <div className="flex items-end gap-2 mb-2">
-                       <input 
-                          type="number" 
-                          placeholder="Mkt Rate..." 
-                          value={marketRate} 
-                          onChange={(e) => setMarketRate(e.target.value)} 
-                          className="w-24 bg-slate-800 border border-slate-700 rounded px-2 py-1 text-sm text-white focus:border-gold-500 outline-none"
-                       />
-                   </div>
                    <h3 className={`text-2xl font-mono font-bold ${unrealizedProfit >= 0 ? 'text-green-400' : 'text-red-400'}`}>
                        {hasRate ? formatCurrency(unrealizedProfit) : '---'}
                    </h3>
+                   <p className="text-xs text-slate-400 mt-2">
+                       {!hasRate ? 'No market rate for the stock on hand' : marketValuation.unpriced.length > 0 ? `${marketValuation.unpriced.length} pool${marketValuation.unpriced.length > 1 ? 's' : ''} without a rate, at book` : `At market ${formatCurrency(marketValuation.marketValue)}`}
+                   </p>
               </div>
           </div>
 
+          <MarketRatesCard rates={marketRates} pools={summarizePools(inventory)} providerLabel={rateProvider.label} onSave={handleRateSave} onImport={handleRateImport} onFetch={handleRateFetch} />
+
+          <Card title={<><Scale className="w-5 h-5 text-gold-600"/> Costing Method Comparison</>} delay={100}>
+              <div className="overflow-x-auto">
+                  <table className="w-full text-sm text-left">
+                      <thead className="text-slate-500 bg-slate-50/50">
+                          <tr>
+                              <th className="px-4 py-3">Method</th>
+                              <th className="px-4 py-3 text-right">COGS (Period)</th>
+                              <th className="px-4 py-3 text-right">Realized Profit (Period)</th>
+                              <th className="px-4 py-3 text-right">Closing Stock Value</th>
+                              <th className="px-4 py-3 text-right">Avg Cost/g</th>
+                              <th className="px-4 py-3 text-right"></th>
+                          </tr>
+                      </thead>
+                      <tbody>
+                          {methodComparison.map(m => (
+                              <tr key={m.method} className={`border-b border-slate-50 ${m.method === costingMethod ? 'bg-gold-50/40' : 'hover:bg-slate-50'}`}>
+                                  <td className="px-4 py-3 font-bold text-slate-800">{COSTING_METHOD_LABELS[m.method]}</td>
+                                  <td className="px-4 py-3 text-right font-mono text-slate-600">{formatCurrency(m.cogs)}</td>
+                                  <td className={`px-4 py-3 text-right font-mono font-bold ${m.profit >= 0 ? 'text-green-600' : 'text-red-600'}`}>{formatCurrency(m.profit)}</td>
+                                  <td className="px-4 py-3 text-right font-mono text-slate-700">{formatCurrency(m.closingValue)}</td>
+                                  <td className="px-4 py-3 text-right font-mono text-slate-500">{formatCurrency(m.avgCost)}</td>
+                                  <td className="px-4 py-3 text-right">
+                                      {m.method === costingMethod ? (
+                                          <span className="text-[10px] font-bold uppercase px-2 py-1 bg-gold-100 text-gold-800 rounded">Active</span>
+                                      ) : (
+                                          <button onClick={() => handleCostingMethodChange(m.method)} className="px-3 py-1.5 text-xs font-bold text-slate-600 bg-white border border-slate-200 rounded-lg hover:bg-slate-50 hover:text-slate-900 transition-colors">Use Method</button>
+                                      )}
+                                  </td>
+                              </tr>
+                          ))}
+                      </tbody>
+                  </table>
+              </div>
+              <p className="text-xs text-slate-400 mt-4">Specific identification draws from the lot picked on each sale and falls back to FIFO where no lot was picked.</p>
+          </Card>
+
           <div className="grid grid-cols-1 md:grid-cols-3 gap-4 md:gap-6">
                {[
                    { id: 'CUSTOMER', title: 'Customer Report', icon: Users, color: 'text-purple-600', bg: 'bg-purple-50' },
@@ -657,25 +1793,64 @@ function App() {
                  </ResponsiveContainer>
               </Card>
           </div>
+
+          <div className="grid grid-cols-1 lg:grid-cols-2 gap-8">
+              <Card title="Position: Book, Market & Net Worth" delay={500} action={<ExportMenu onExport={handlePositionExport} />}>
+                  <div className="h-64 md:h-80 w-full">
+                      <ResponsiveContainer>
+                          <ReLineChart data={positionChart}>
+                              <CartesianGrid strokeDasharray="3 3" vertical={false} stroke="#f1f5f9"/>
+                              <XAxis dataKey="label" axisLine={false} tickLine={false} tick={{fill: '#94a3b8', fontSize: 10, dy: 10}}/>
+                              <YAxis axisLine={false} tickLine={false} tick={{fill: '#94a3b8', fontSize: 10}} tickFormatter={(v) => `${v/1000}k`}/>
+                              <Tooltip contentStyle={{borderRadius: '12px'}} formatter={(value: number, name: string) => [formatCurrency(value), name]}/>
+                              <Legend />
+                              <Line type="monotone" dataKey="bookValue" stroke="#94a3b8" strokeWidth={2} dot={false} name={`Book (${COSTING_METHOD_LABELS[costingMethod]})`} />
+                              <Line type="monotone" dataKey="marketValue" stroke="#d19726" strokeWidth={3} dot={false} name="Stock at Market" />
+                              <Line type="monotone" dataKey="netWorth" stroke="#0f172a" strokeWidth={2} dot={false} name="Net Worth" />
+                          </ReLineChart>
+                      </ResponsiveContainer>
+                  </div>
+                  <p className="text-xs text-slate-400 mt-4">{position.some(p => p.marketValue !== null) ? 'All pools, end of day. Net worth adds cash, bank and what parties owe net of what we owe; unpriced pools count at book.' : 'Record market rates above to draw the stock value at market.'}</p>
+              </Card>
+
+              <Card title="Profit: Unrealized vs Realized" delay={600}>
+                  <div className="h-64 md:h-80 w-full">
+                      <ResponsiveContainer>
+                          <ComposedChart data={positionChart}>
+                              <CartesianGrid strokeDasharray="3 3" vertical={false} stroke="#f1f5f9"/>
+                              <XAxis dataKey="label" axisLine={false} tickLine={false} tick={{fill: '#94a3b8', fontSize: 10, dy: 10}}/>
+                              <YAxis axisLine={false} tickLine={false} tick={{fill: '#94a3b8', fontSize: 10}} tickFormatter={(v) => `${v/1000}k`}/>
+                              <Tooltip contentStyle={{borderRadius: '12px'}} formatter={(value: number, name: string) => [formatCurrency(value), name]}/>
+                              <Legend />
+                              <Area type="monotone" dataKey="unrealized" stroke="#d19726" fill="#d19726" fillOpacity={0.15} name="Unrealized P&L" />
+                              <Line type="monotone" dataKey="realizedToDate" stroke="#10b981" strokeWidth={2} dot={false} name="Realized (Cumulative)" />
+                          </ComposedChart>
+                      </ResponsiveContainer>
+                  </div>
+              </Card>
+          </div>
       </div>
   )};
 
   const InvoicesView = () => (
       <div className="flex flex-col lg:flex-row gap-6 relative items-start h-full">
           <div className="w-full lg:w-[380px] xl:w-[420px] flex-shrink-0 lg:sticky lg:top-0 transition-all">
-              <InvoiceForm onAdd={handleAddInvoice} currentStock={currentStock} lockDate={lockDate} />
+              <InvoiceForm onAdd={handleAddInvoice} onUpdate={handleUpdateInvoice} onCancelEdit={() => setEditingInvoice(null)} editingInvoice={editingInvoice} stockByPool={stockByPool} lockDate={lockDate} ourState={ourState} costingMethod={costingMethod} availableBatches={inventory.filter(b => b.remainingQuantity > 0)} parties={parties} checkCompliance={(inv) => checkCompliance(inv, invoices, complianceRules, resolveParty)} />
           </div>
           <div className="flex-1 w-full min-w-0">
               <Card title="Recent Transactions" className="min-h-[600px] h-full flex flex-col" delay={200}
                  action={
                      <div className="flex gap-2 items-center">
+                        <button onClick={() => setShowImport(true)} className="flex items-center gap-1.5 px-3 py-2 text-xs font-bold text-slate-600 bg-white border border-slate-200 rounded-lg hover:bg-slate-50 hover:text-slate-900 transition-colors">
+                            <Upload className="w-4 h-4" /> Import
+                        </button>
                         <ExportMenu onExport={handleInvoicesExport} />
                         {renderDateFilter()}
                      </div>
                  }
               >
                   <div className="overflow-auto flex-1 -mx-6 px-6 relative [&::-webkit-scrollbar]:h-2 [&::-webkit-scrollbar-track]:bg-transparent [&::-webkit-scrollbar-thumb]:bg-transparent [&::-webkit-scrollbar-thumb]:rounded-full hover:[&::-webkit-scrollbar-thumb]:bg-slate-300 transition-colors">
-                      <table className="w-full text-sm text-left border-separate border-spacing-y-2 min-w-[1000px]">
+                      <table className="w-full text-sm text-left border-separate border-spacing-y-2 min-w-[1100px]">
                           <thead className="text-slate-400 sticky top-0 bg-white/95 backdrop-blur z-10">
                               <tr>
                                   <th className="px-4 py-3 font-semibold uppercase text-xs tracking-wider border-b border-slate-50">Date</th>
@@ -684,32 +1859,50 @@ function App() {
                                   <th className="px-4 py-3 font-semibold uppercase text-xs tracking-wider border-b border-slate-50 text-right">Qty</th>
                                   <th className="px-4 py-3 font-semibold uppercase text-xs tracking-wider border-b border-slate-50 text-right">Cust. Cost/g</th>
                                   <th className="px-4 py-3 font-semibold uppercase text-xs tracking-wider border-b border-slate-50 text-right">My Cost/g</th>
+                                  <th className="px-4 py-3 font-semibold uppercase text-xs tracking-wider border-b border-slate-50 text-right">GST</th>
                                   <th className="px-4 py-3 font-semibold uppercase text-xs tracking-wider border-b border-slate-50 text-right">Total (Cust)</th>
                                   <th className="px-4 py-3 font-semibold uppercase text-xs tracking-wider border-b border-slate-50 text-right">Total (Me)</th>
                                   <th className="px-4 py-3 font-semibold uppercase text-xs tracking-wider border-b border-slate-50 text-right">Profit</th>
+                                  <th className="px-4 py-3 font-semibold uppercase text-xs tracking-wider border-b border-slate-50 text-right">Actions</th>
                               </tr>
                           </thead>
                           <tbody>
-                              {filteredInvoices.length === 0 ? (
-                                  <tr><td colSpan={9} className="px-4 py-20 text-center text-slate-400 italic">No transactions recorded in this period.</td></tr>
+                              {transactionRows.length === 0 ? (
+                                  <tr><td colSpan={11} className="px-4 py-20 text-center text-slate-400 italic">No transactions recorded in this period.</td></tr>
                               ) : (
-                                  filteredInvoices.sort((a,b) => new Date(b.date).getTime() - new Date(a.date).getTime()).map((inv, i) => {
+                                  [...transactionRows].sort((a,b) => new Date(b.date).getTime() - new Date(a.date).getTime()).map((inv, i) => {
                                       const myCostPerGram = inv.type === 'SALE' && inv.cogs ? inv.cogs / inv.quantityGrams : null;
+                                      const locked = isLocked(inv.date);
                                       return (
-                                      <tr key={inv.id} className="group hover:scale-[1.01] transition-transform duration-200">
+                                      <tr key={inv.id} className={`group hover:scale-[1.01] transition-transform duration-200 ${inv.voidedAt ? 'opacity-50' : ''} ${editingInvoice?.id === inv.id ? 'ring-2 ring-gold-400 rounded-xl' : ''}`}>
                                           <td className="px-4 py-3 bg-slate-50/50 group-hover:bg-white border-y border-l border-transparent group-hover:border-slate-100 text-slate-500 font-mono text-xs rounded-l-xl">{inv.date}</td>
                                           <td className="px-4 py-3 bg-slate-50/50 group-hover:bg-white border-y border-transparent group-hover:border-slate-100">
                                               <span className={`inline-flex items-center px-2.5 py-1 rounded-md text-[10px] font-bold uppercase tracking-wide border ${inv.type === 'PURCHASE' ? 'bg-blue-50 text-blue-600 border-blue-100' : 'bg-green-50 text-green-600 border-green-100'}`}>{inv.type === 'PURCHASE' ? 'In' : 'Out'}</span>
                                           </td>
-                                          <td className="px-4 py-3 bg-slate-50/50 group-hover:bg-white border-y border-transparent group-hover:border-slate-100 font-medium text-slate-900 truncate max-w-[150px]">{inv.partyName}</td>
+                                          <td className="px-4 py-3 bg-slate-50/50 group-hover:bg-white border-y border-transparent group-hover:border-slate-100 font-medium text-slate-900 truncate max-w-[150px]">{inv.partyName}<span className="block text-[10px] font-bold uppercase text-slate-400">{formatPool(inv.metal, inv.purity)}{inv.invoiceNumber && <span className="ml-1 font-mono normal-case">· {inv.invoiceNumber}</span>}</span></td>
                                           <td className="px-4 py-3 bg-slate-50/50 group-hover:bg-white border-y border-transparent group-hover:border-slate-100 font-mono text-slate-600 text-right">{formatGrams(inv.quantityGrams)}</td>
                                           <td className="px-4 py-3 bg-slate-50/50 group-hover:bg-white border-y border-transparent group-hover:border-slate-100 font-mono text-slate-500 text-right">{formatCurrency(inv.ratePerGram).replace('.00','')}</td>
                                           <td className="px-4 py-3 bg-slate-50/50 group-hover:bg-white border-y border-transparent group-hover:border-slate-100 font-mono text-slate-400 text-right">{myCostPerGram ? formatCurrency(myCostPerGram).replace('.00','') : '-'}</td>
+                                          <td className="px-4 py-3 bg-slate-50/50 group-hover:bg-white border-y border-transparent group-hover:border-slate-100 font-mono text-xs text-slate-500 text-right whitespace-nowrap">
+                                              {inv.igstAmount > 0 ? <span className="block">IGST {formatCurrency(inv.igstAmount)}</span> : <><span className="block">CGST {formatCurrency(inv.cgstAmount)}</span><span className="block">SGST {formatCurrency(inv.sgstAmount)}</span></>}
+                                          </td>
                                           <td className="px-4 py-3 bg-slate-50/50 group-hover:bg-white border-y border-transparent group-hover:border-slate-100 font-mono font-medium text-slate-900 text-right">{formatCurrency(inv.totalAmount)}</td>
                                           <td className="px-4 py-3 bg-slate-50/50 group-hover:bg-white border-y border-transparent group-hover:border-slate-100 font-mono text-slate-500 text-right">{inv.cogs ? formatCurrency(inv.cogs) : '-'}</td>
-                                          <td className={`px-4 py-3 bg-slate-50/50 group-hover:bg-white border-y border-r border-transparent group-hover:border-slate-100 font-mono font-bold text-right rounded-r-xl ${inv.profit && inv.profit > 0 ? 'text-green-600' : 'text-slate-300'}`}>
+                                          <td className={`px-4 py-3 bg-slate-50/50 group-hover:bg-white border-y border-transparent group-hover:border-slate-100 font-mono font-bold text-right ${inv.profit && inv.profit > 0 ? 'text-green-600' : 'text-slate-300'}`}>
                                               {inv.type === 'SALE' ? formatCurrency(inv.profit || 0) : '-'}
                                           </td>
+                                          <td className="px-4 py-3 bg-slate-50/50 group-hover:bg-white border-y border-r border-transparent group-hover:border-slate-100 text-right rounded-r-xl">
+                                              {inv.voidedAt ? (
+                                                  <span className="text-[10px] font-bold uppercase px-2 py-1 bg-slate-100 text-slate-500 rounded">Void</span>
+                                              ) : (
+                                                  <div className="flex justify-end gap-1">
+                                                      <button onClick={() => inv.type === 'SALE' ? setLotTrail({ sale: inv }) : setLotTrail({ batch: inventory.find(b => b.id === inv.id) })} title="Lot trail" className="p-1.5 rounded-lg text-slate-400 hover:text-blue-600 hover:bg-blue-50 transition-colors"><Layers className="w-4 h-4"/></button>
+                                                      {inv.type === 'SALE' && <button onClick={() => handleTaxInvoice(inv)} title={inv.invoiceNumber ? `Tax invoice ${inv.invoiceNumber}` : 'Tax invoice'} className="p-1.5 rounded-lg text-slate-400 hover:text-green-600 hover:bg-green-50 transition-colors"><Printer className="w-4 h-4"/></button>}
+                                                      <button onClick={() => setEditingInvoice(inv)} disabled={locked} title={locked ? `Locked up to ${lockDate}` : 'Edit'} className="p-1.5 rounded-lg text-slate-400 hover:text-gold-600 hover:bg-gold-50 disabled:opacity-30 disabled:pointer-events-none transition-colors"><Pencil className="w-4 h-4"/></button>
+                                                      <button onClick={() => handleVoidInvoice(inv)} disabled={locked} title={locked ? `Locked up to ${lockDate}` : 'Void'} className="p-1.5 rounded-lg text-slate-400 hover:text-red-600 hover:bg-red-50 disabled:opacity-30 disabled:pointer-events-none transition-colors"><Ban className="w-4 h-4"/></button>
+                                                  </div>
+                                              )}
+                                          </td>
                                       </tr>
                                   )})
                               )}
@@ -723,13 +1916,43 @@ function App() {
 
   const DashboardView = () => (
     <div className="space-y-6 animate-enter">
-       <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-4 gap-6">
-          <StatsCard title="Current Stock" value={formatGrams(currentStock)} subValue="On Hand" icon={Scale} isActive delayIndex={0} />
-          <StatsCard title="Inventory Value" value={formatCurrency(fifoValue)} subValue="FIFO Basis" icon={Coins} delayIndex={1} />
+       <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 xl:grid-cols-5 gap-6">
+          <StatsCard title="Current Stock" value={formatGrams(currentStock)} subValue={stockPools.length > 1 ? `${formatGrams(currentFineStock)} fine · ${stockPools.length} pools` : `${formatGrams(currentFineStock)} fine`} icon={Scale} isActive delayIndex={0} />
+          <StatsCard title="Inventory Value" value={formatCurrency(fifoValue)} subValue={`${COSTING_METHOD_LABELS[costingMethod]} Basis`} icon={Coins} delayIndex={1} />
           <StatsCard title="Net Profit" value={formatCurrency(totalProfit)} subValue="Realized (Selected Period)" icon={TrendingUp} delayIndex={2} />
            <StatsCard title="Profit Margin" value={`${profitMargin.toFixed(2)}%`} subValue="Avg. Margin" icon={Percent} delayIndex={3} />
+          <StatsCard title="Closing Cash" value={formatCurrency(closingCash.cash)} subValue={`Today · ${formatCurrency(closingCash.bank)} in bank`} icon={Banknote} delayIndex={4} />
        </div>
 
+       {stockPools.length > 0 && (
+         <Card title="Stock by Pool" delay={300}>
+             <div className="overflow-x-auto">
+                 <table className="w-full text-sm text-left">
+                     <thead className="text-slate-500 bg-slate-50/50">
+                         <tr>
+                             <th className="px-4 py-3">Metal / Purity</th>
+                             <th className="px-4 py-3 text-right">Gross Weight</th>
+                             <th className="px-4 py-3 text-right">Fine Weight</th>
+                             <th className="px-4 py-3 text-right">Book Value</th>
+                             <th className="px-4 py-3 text-right">Avg Cost/g</th>
+                         </tr>
+                     </thead>
+                     <tbody>
+                         {stockPools.map(pool => (
+                             <tr key={pool.key} className="hover:bg-slate-50 border-b border-slate-50">
+                                 <td className="px-4 py-3 font-bold text-slate-800">{formatPool(pool.metal, pool.purity)}</td>
+                                 <td className="px-4 py-3 text-right font-mono text-slate-700">{formatGrams(pool.grams)}</td>
+                                 <td className="px-4 py-3 text-right font-mono text-slate-500">{formatGrams(pool.fineGrams)}</td>
+                                 <td className="px-4 py-3 text-right font-mono text-slate-900">{formatCurrency(pool.value)}</td>
+                                 <td className="px-4 py-3 text-right font-mono text-slate-500">{formatCurrency(pool.grams > 0 ? pool.value / pool.grams : 0)}</td>
+                             </tr>
+                         ))}
+                     </tbody>
+                 </table>
+             </div>
+         </Card>
+       )}
+
        {alerts.length > 0 && (
          <div className="bg-red-50 border border-red-100 rounded-2xl p-4 flex flex-col gap-2 animate-slide-up">
             <h3 className="text-red-800 font-bold flex items-center gap-2"><AlertTriangle className="w-5 h-5"/> Risk Alerts</h3>
@@ -812,6 +2035,7 @@ function App() {
                             <th className="px-4 py-3 text-right">Profit Contrib.</th>
                             <th className="px-4 py-3 text-right">Margin %</th>
                             <th className="px-4 py-3">Behavior Tag</th>
+                            <th className="px-4 py-3 text-right">Outstanding</th>
                         </tr>
                     </thead>
                     <tbody>
@@ -830,6 +2054,9 @@ function App() {
                                 <td className="px-4 py-3">
                                     <span className="text-[10px] font-bold uppercase text-slate-500 bg-slate-100 px-2 py-1 rounded border border-slate-200">{c.behaviorPattern}</span>
                                 </td>
+                                <td className="px-4 py-3 text-right">
+                                    <button onClick={() => openStatement(c.name)} title="Statement of account" className="font-mono text-slate-700 hover:text-gold-600 hover:underline">{formatCurrency(balanceByKey.get(resolveParty({ partyName: c.name }).key)?.receivable || 0)}</button>
+                                </td>
                             </tr>
                         ))}
                     </tbody>
@@ -857,7 +2084,7 @@ function App() {
                      <div className="flex justify-between items-start mb-4">
                          <div>
                              <h3 className="font-bold text-lg text-slate-900">{s.name}</h3>
-                             <p className="text-xs text-slate-500 uppercase tracking-wide">Primary Supplier</p>
+                             <p className="text-xs text-slate-500 uppercase tracking-wide">{formatPool(s.metal, s.purity)}</p>
                          </div>
                          <div className="p-2 bg-blue-50 text-blue-600 rounded-lg"><Factory className="w-5 h-5"/></div>
                      </div>
@@ -880,17 +2107,21 @@ function App() {
                         <th className="px-4 py-3 text-right">Avg Rate</th>
                         <th className="px-4 py-3 text-right">Min Rate</th>
                         <th className="px-4 py-3 text-right">Max Rate</th>
+                        <th className="px-4 py-3 text-right">Payable</th>
                     </tr>
                 </thead>
                 <tbody>
                     {supplierData.map((s, i) => (
                         <tr key={i} className="border-b border-slate-50 hover:bg-slate-50">
-                            <td className="px-4 py-3 font-bold text-slate-800">{s.name}</td>
+                            <td className="px-4 py-3 font-bold text-slate-800">{s.name}<span className="block text-[10px] font-bold uppercase text-slate-400">{formatPool(s.metal, s.purity)}</span></td>
                             <td className="px-4 py-3 text-center text-slate-500">{s.txCount}</td>
                             <td className="px-4 py-3 text-right font-mono">{formatGrams(s.totalGramsPurchased)}</td>
                             <td className="px-4 py-3 text-right font-mono">{formatCurrency(s.avgRate)}</td>
                             <td className="px-4 py-3 text-right font-mono text-slate-500">{formatCurrency(s.minRate)}</td>
                             <td className="px-4 py-3 text-right font-mono text-slate-500">{formatCurrency(s.maxRate)}</td>
+                            <td className="px-4 py-3 text-right">
+                                <button onClick={() => openStatement(s.name)} title="Statement of account" className="font-mono text-slate-700 hover:text-gold-600 hover:underline">{formatCurrency(balanceByKey.get(resolveParty({ partyName: s.name }).key)?.payable || 0)}</button>
+                            </td>
                         </tr>
                     ))}
                 </tbody>
@@ -901,15 +2132,15 @@ function App() {
 
   const BusinessLedgerView = () => {
       // Calculate monthly ledger
-      const { monthlyData, totals } = useMemo(() => {
+      const { monthlyData, totals, poolTotals } = useMemo(() => {
           const stats: Record<string, { turnover: number, profit: number, tax: number, qty: number }> = {};
+          const byPool: Record<string, PoolSalesTotal> = {};
           let totalTurnover = 0;
           let totalProfit = 0;
           let totalQty = 0;
 
-          invoices.filter(i => i.type === 'SALE').forEach(inv => {
-              const d = new Date(inv.date);
-              const key = `${d.getFullYear()}-${d.getMonth()}`; // YYYY-M
+          ledgerInvoices.filter(i => i.type === 'SALE').forEach(inv => {
+              const key = inv.date.slice(0, 7); // YYYY-MM, read off the string so time zones never move a sale into another month
               if (!stats[key]) stats[key] = { turnover: 0, profit: 0, tax: 0, qty: 0 };
               
               stats[key].turnover += inv.totalAmount;
@@ -920,28 +2151,37 @@ function App() {
               totalTurnover += inv.totalAmount;
               totalProfit += (inv.profit || 0);
               totalQty += inv.quantityGrams;
+
+              const pool = byPool[poolKey(inv)] || (byPool[poolKey(inv)] = { label: formatPool(inv.metal, inv.purity), turnover: 0, profit: 0, qty: 0, fine: 0 });
+              pool.turnover += inv.totalAmount;
+              pool.profit += (inv.profit || 0);
+              pool.qty += inv.quantityGrams;
+              pool.fine += toFineGrams(inv.quantityGrams, inv.purity);
           });
 
           const monthly = Object.entries(stats).map(([key, val]) => {
               const [y, m] = key.split('-');
               return {
-                  date: new Date(parseInt(y), parseInt(m), 1),
+                  key,
+                  financialYear: getFinancialYear(`${key}-01`),
+                  date: new Date(parseInt(y), parseInt(m) - 1, 1),
                   ...val
               };
-          }).sort((a,b) => b.date.getTime() - a.date.getTime());
+          }).sort((a,b) => b.key.localeCompare(a.key));
 
           return { 
               monthlyData: monthly, 
-              totals: { turnover: totalTurnover, profit: totalProfit, qty: totalQty, margin: totalTurnover > 0 ? (totalProfit/totalTurnover)*100 : 0 }
+              totals: { turnover: totalTurnover, profit: totalProfit, qty: totalQty, margin: totalTurnover > 0 ? (totalProfit/totalTurnover)*100 : 0 },
+              poolTotals: Object.values(byPool).sort((a, b) => b.turnover - a.turnover)
           };
-      }, [invoices]);
+      }, [ledgerInvoices]);
 
       return (
           <div className="space-y-6 animate-enter">
               <SectionHeader 
                    title="Business Ledger" 
-                   subtitle="Monthly financial breakdown and performance." 
-                   action={<ExportMenu onExport={(t) => handleLedgerExport(t, monthlyData, totals)} />}
+                   subtitle="Financial-year and monthly breakdown, with stock carried forward from year to year." 
+                   action={<ExportMenu onExport={(t) => handleLedgerExport(t, monthlyData, totals, poolTotals)} />}
               />
 
               <div className="bg-slate-900 rounded-2xl p-8 text-white flex flex-col md:flex-row justify-between items-center shadow-2xl shadow-slate-900/20 mb-6">
@@ -952,7 +2192,7 @@ function App() {
                   </div>
                   <div className="flex gap-8 border-t md:border-t-0 md:border-l border-slate-700 pt-6 md:pt-0 md:pl-8">
                        <div>
-                           <p className="text-slate-500 text-xs font-bold uppercase mb-1">Total Gold Sold</p>
+                           <p className="text-slate-500 text-xs font-bold uppercase mb-1">Total Metal Sold</p>
                            <p className="text-2xl font-mono font-bold">{formatGrams(totals.qty)}</p>
                        </div>
                        <div>
@@ -962,6 +2202,77 @@ function App() {
                   </div>
               </div>
 
+              <Card title={<><Calendar className="w-5 h-5 text-gold-600"/> Financial Years</>} action={<span className="text-xs text-slate-400">April to March · stock under {COSTING_METHOD_LABELS[costingMethod]}</span>}>
+                  {financialYears.length === 0 ? (
+                      <p className="text-sm text-slate-400 italic">No invoices on record.</p>
+                  ) : (
+                      <div className="overflow-x-auto">
+                          <table className="w-full text-sm text-left">
+                              <thead className="text-slate-500 bg-slate-50/50">
+                                  <tr>
+                                      <th className="px-4 py-3">Year</th>
+                                      <th className="px-4 py-3 text-right">Opening Stock</th>
+                                      <th className="px-4 py-3 text-right">Purchases</th>
+                                      <th className="px-4 py-3 text-right">Turnover (Inc. GST)</th>
+                                      <th className="px-4 py-3 text-right">Net Profit</th>
+                                      <th className="px-4 py-3 text-right">Qty Sold</th>
+                                      <th className="px-4 py-3 text-right">Closing Stock</th>
+                                  </tr>
+                              </thead>
+                              <tbody>
+                                  {financialYears.map((fy, i) => {
+                                      const previous = financialYears[i + 1];
+                                      const yoy = (current: number, before?: number) => {
+                                          const change = yoyChange(current, before);
+                                          return change === null ? null : <p className={`text-xs font-bold ${change >= 0 ? 'text-green-600' : 'text-red-600'}`}>{change >= 0 ? '+' : ''}{change.toFixed(1)}% YoY</p>;
+                                      };
+                                      return (
+                                          <tr key={fy.financialYear} className="hover:bg-slate-50 border-b border-slate-50 align-top">
+                                              <td className="px-4 py-3"><p className="font-bold text-slate-800">FY {fy.financialYear}</p><p className="text-xs text-slate-400">{fy.sales} sales</p></td>
+                                              <td className="px-4 py-3 text-right font-mono"><p className="text-slate-700">{formatCurrency(fy.openingStock.value)}</p><p className="text-xs text-slate-400">{formatGrams(fy.openingStock.grams)}</p></td>
+                                              <td className="px-4 py-3 text-right font-mono"><p className="text-slate-700">{formatCurrency(fy.purchases)}</p><p className="text-xs text-slate-400">{formatGrams(fy.qtyPurchased)}</p></td>
+                                              <td className="px-4 py-3 text-right font-mono"><p className="text-slate-700">{formatCurrency(fy.turnover)}</p>{yoy(fy.turnover, previous?.turnover)}</td>
+                                              <td className="px-4 py-3 text-right font-mono"><p className="text-green-600 font-bold">{formatCurrency(fy.profit)}</p>{yoy(fy.profit, previous?.profit)}</td>
+                                              <td className="px-4 py-3 text-right font-mono"><p className="text-slate-600">{formatGrams(fy.qtySold)}</p>{yoy(fy.qtySold, previous?.qtySold)}</td>
+                                              <td className="px-4 py-3 text-right font-mono"><p className="text-slate-900 font-bold">{formatCurrency(fy.closingStock.value)}</p><p className="text-xs text-slate-400">{formatGrams(fy.closingStock.grams)}</p></td>
+                                          </tr>
+                                      );
+                                  })}
+                              </tbody>
+                          </table>
+                      </div>
+                  )}
+              </Card>
+
+              {poolTotals.length > 1 && (
+                  <Card title="Sales by Pool">
+                      <div className="overflow-x-auto">
+                          <table className="w-full text-sm text-left">
+                              <thead className="text-slate-500 bg-slate-50/50">
+                                  <tr>
+                                      <th className="px-4 py-3">Metal / Purity</th>
+                                      <th className="px-4 py-3 text-right">Turnover (Inc. GST)</th>
+                                      <th className="px-4 py-3 text-right">Net Profit</th>
+                                      <th className="px-4 py-3 text-right">Qty Sold</th>
+                                      <th className="px-4 py-3 text-right">Fine Sold</th>
+                                  </tr>
+                              </thead>
+                              <tbody>
+                                  {poolTotals.map(p => (
+                                      <tr key={p.label} className="hover:bg-slate-50 border-b border-slate-50">
+                                          <td className="px-4 py-3 font-bold text-slate-800">{p.label}</td>
+                                          <td className="px-4 py-3 text-right font-mono text-slate-700">{formatCurrency(p.turnover)}</td>
+                                          <td className="px-4 py-3 text-right font-mono text-green-600 font-bold">{formatCurrency(p.profit)}</td>
+                                          <td className="px-4 py-3 text-right font-mono text-slate-600">{formatGrams(p.qty)}</td>
+                                          <td className="px-4 py-3 text-right font-mono text-slate-500">{formatGrams(p.fine)}</td>
+                                      </tr>
+                                  ))}
+                              </tbody>
+                          </table>
+                      </div>
+                  </Card>
+              )}
+
               <Card title="Monthly Breakdown">
                   <div className="overflow-x-auto">
                       <table className="w-full text-sm text-left">
@@ -976,35 +2287,1149 @@ function App() {
                               </tr>
                           </thead>
                           <tbody>
-                              {monthlyData.map((m, i) => (
-                                  <tr key={i} className="hover:bg-slate-50 border-b border-slate-50">
-                                      <td className="px-4 py-3 font-bold text-slate-800">{m.date.toLocaleDateString('en-IN', { month: 'long', year: 'numeric' })}</td>
-                                      <td className="px-4 py-3 text-right font-mono text-slate-700">{formatCurrency(m.turnover)}</td>
-                                      <td className="px-4 py-3 text-right font-mono text-slate-500">{formatCurrency(m.tax)}</td>
-                                      <td className="px-4 py-3 text-right font-mono text-green-600 font-bold">{formatCurrency(m.profit)}</td>
-                                      <td className="px-4 py-3 text-right font-mono">
-                                          <span className={`px-2 py-1 rounded text-xs font-bold ${m.turnover > 0 && (m.profit/m.turnover) > 0.01 ? 'bg-green-100 text-green-700' : 'bg-slate-100 text-slate-600'}`}>
-                                              {(m.turnover > 0 ? (m.profit/m.turnover)*100 : 0).toFixed(2)}%
-                                          </span>
-                                      </td>
-                                      <td className="px-4 py-3 text-right font-mono text-slate-600">{formatGrams(m.qty)}</td>
+                              {monthlyData.map((m, i) => {
+                                  const fy = m.financialYear !== monthlyData[i - 1]?.financialYear ? financialYears.find(y => y.financialYear === m.financialYear) : undefined;
+                                  return (
+                                      <React.Fragment key={m.key}>
+                                          {fy && (
+                                              <tr className="bg-slate-50 border-b border-slate-100 font-bold">
+                                                  <td className="px-4 py-3 text-slate-900">FY {fy.financialYear}</td>
+                                                  <td className="px-4 py-3 text-right font-mono text-slate-900">{formatCurrency(fy.turnover)}</td>
+                                                  <td className="px-4 py-3 text-right font-mono text-slate-600">{formatCurrency(fy.tax)}</td>
+                                                  <td className="px-4 py-3 text-right font-mono text-green-700">{formatCurrency(fy.profit)}</td>
+                                                  <td className="px-4 py-3 text-right font-mono text-slate-600">{(fy.turnover > 0 ? (fy.profit/fy.turnover)*100 : 0).toFixed(2)}%</td>
+                                                  <td className="px-4 py-3 text-right font-mono text-slate-900">{formatGrams(fy.qtySold)}</td>
+                                              </tr>
+                                          )}
+                                          <tr className="hover:bg-slate-50 border-b border-slate-50">
+                                              <td className="px-4 py-3 font-bold text-slate-800">{m.date.toLocaleDateString('en-IN', { month: 'long', year: 'numeric' })}</td>
+                                              <td className="px-4 py-3 text-right font-mono text-slate-700">{formatCurrency(m.turnover)}</td>
+                                              <td className="px-4 py-3 text-right font-mono text-slate-500">{formatCurrency(m.tax)}</td>
+                                              <td className="px-4 py-3 text-right font-mono text-green-600 font-bold">{formatCurrency(m.profit)}</td>
+                                              <td className="px-4 py-3 text-right font-mono">
+                                                  <span className={`px-2 py-1 rounded text-xs font-bold ${m.turnover > 0 && (m.profit/m.turnover) > 0.01 ? 'bg-green-100 text-green-700' : 'bg-slate-100 text-slate-600'}`}>
+                                                      {(m.turnover > 0 ? (m.profit/m.turnover)*100 : 0).toFixed(2)}%
+                                                  </span>
+                                              </td>
+                                              <td className="px-4 py-3 text-right font-mono text-slate-600">{formatGrams(m.qty)}</td>
+                                          </tr>
+                                      </React.Fragment>
+                                  );
+                              })}
+                          </tbody>
+                      </table>
+                  </div>
+              </Card>
+          </div>
+      );
+  };
+
+  const DataManagementView = () => {
+      const summary = summarizeLedger(invoices);
+      return (
+          <div className="space-y-6 animate-enter">
+              <SectionHeader title="Data Management" subtitle="Back up, restore or reset the local ledger. Ctrl+Z / Ctrl+Shift+Z undo and redo any change since the last period close or restore." />
+
+              <div className="grid grid-cols-2 md:grid-cols-4 gap-4">
+                  <StatsCard title="Invoices" value={summary.invoiceCount.toString()} subValue={`${summary.purchaseCount} purchases · ${summary.saleCount} sales`} icon={FileText} />
+                  <StatsCard title="First Entry" value={summary.firstDate || '-'} icon={Calendar} />
+                  <StatsCard title="Last Entry" value={summary.lastDate || '-'} icon={Calendar} />
+                  <StatsCard title="Lock Date" value={lockDate || 'None'} subValue={COSTING_METHOD_LABELS[costingMethod]} icon={Lock} />
+              </div>
+
+              <div className="grid grid-cols-1 md:grid-cols-3 gap-6">
+                  <Card title={<><Download className="w-5 h-5 text-gold-600"/> Backup</>}>
+                      <p className="text-sm text-slate-500 mb-4">Download invoices, inventory, period closes and settings as a single versioned JSON file with a SHA-256 checksum.</p>
+                      <button onClick={handleBackup} className="w-full flex items-center justify-center gap-2 px-4 py-2.5 text-sm font-bold text-white bg-slate-900 rounded-lg hover:bg-slate-800 transition-colors shadow-sm">
+                          <Download className="w-4 h-4"/> Download Backup
+                      </button>
+                  </Card>
+                  <Card title={<><Upload className="w-5 h-5 text-gold-600"/> Restore</>}>
+                      <p className="text-sm text-slate-500 mb-4">Validate a backup file and review how it differs before replacing or merging into the current data.</p>
+                      <label className="w-full flex items-center justify-center gap-2 px-4 py-2.5 text-sm font-bold text-slate-700 bg-white border border-slate-200 rounded-lg hover:bg-slate-50 transition-colors cursor-pointer">
+                          <Upload className="w-4 h-4"/> Choose Backup File
+                          <input type="file" accept="application/json,.json" className="hidden" onChange={(e) => { const file = e.target.files?.[0]; e.target.value = ''; if (file) handleRestoreFile(file); }} />
+                      </label>
+                  </Card>
+                  <Card title={<><Trash2 className="w-5 h-5 text-red-500"/> Reset</>}>
+                      <p className="text-sm text-slate-500 mb-4">Delete every invoice from this device. The reset can be undone from the history below; download a backup first to be safe. Closed periods must be reopened first.</p>
+                      <button onClick={handleReset} className="w-full flex items-center justify-center gap-2 px-4 py-2.5 text-sm font-bold text-red-600 bg-red-50 border border-red-100 rounded-lg hover:bg-red-100 transition-colors">
+                          <Trash2 className="w-4 h-4"/> Reset All Data
+                      </button>
+                  </Card>
+              </div>
+
+              <div className="grid grid-cols-1 md:grid-cols-3 gap-6">
+                  <Card title={<><Lock className="w-5 h-5 text-gold-600"/> Period Lock</>}>
+                      <p className="text-sm text-slate-500 mb-4">Books are locked by closing a month or quarter. Entries on or before {lockDate ? <span className="font-mono font-bold text-slate-900">{lockDate}</span> : 'the last closed period'} can no longer be added, edited or voided.</p>
+                      <button onClick={() => setActiveTab('period-close')} className="w-full flex items-center justify-center gap-2 px-4 py-2.5 text-sm font-bold text-slate-700 bg-white border border-slate-200 rounded-lg hover:bg-slate-50 transition-colors">
+                          <CalendarCheck className="w-4 h-4"/> Manage Period Close
+                      </button>
+                  </Card>
+                  <Card className="md:col-span-2" title={<><History className="w-5 h-5 text-gold-600"/> History</>} action={
+                      <div className="flex gap-2">
+                          <button onClick={handleUndo} disabled={history.undo.length === 0} title="Undo (Ctrl+Z)" className="flex items-center gap-1.5 px-3 py-2 text-xs font-bold text-slate-600 bg-white border border-slate-200 rounded-lg hover:bg-slate-50 transition-colors disabled:opacity-40 disabled:cursor-not-allowed"><Undo2 className="w-4 h-4"/> Undo</button>
+                          <button onClick={handleRedo} disabled={history.redo.length === 0} title="Redo (Ctrl+Shift+Z)" className="flex items-center gap-1.5 px-3 py-2 text-xs font-bold text-slate-600 bg-white border border-slate-200 rounded-lg hover:bg-slate-50 transition-colors disabled:opacity-40 disabled:cursor-not-allowed"><Redo2 className="w-4 h-4"/> Redo</button>
+                      </div>
+                  }>
+                      {history.undo.length === 0 && history.redo.length === 0 ? (
+                          <p className="text-sm text-slate-400 italic">No operations recorded yet.</p>
+                      ) : (
+                          <ul className="space-y-1 text-sm">
+                              {[...history.redo].map(entry => (
+                                  <li key={entry.id} className="flex justify-between px-3 py-2 rounded-lg text-slate-400 line-through"><span>{entry.label}</span><span className="font-mono text-xs">{new Date(entry.at).toLocaleString()}</span></li>
+                              ))}
+                              {[...history.undo].reverse().map((entry, i) => (
+                                  <li key={entry.id} className={`flex justify-between px-3 py-2 rounded-lg ${i === 0 ? 'bg-gold-50 text-slate-900 font-medium' : 'text-slate-600'}`}><span>{entry.label}</span><span className="font-mono text-xs text-slate-400">{new Date(entry.at).toLocaleString()}</span></li>
+                              ))}
+                          </ul>
+                      )}
+                  </Card>
+              </div>
+          </div>
+      );
+  };
+
+  const PeriodCloseView = () => {
+      const latest = activeCloses(periodCloses).sort((a, b) => b.periodEnd.localeCompare(a.periodEnd))[0];
+      const closes = [...periodCloses].sort((a, b) => b.periodEnd.localeCompare(a.periodEnd) || b.closedAt.localeCompare(a.closedAt));
+      const reopened = periodCloses.filter(c => c.reopenedAt).sort((a, b) => b.reopenedAt!.localeCompare(a.reopenedAt!));
+      // Profit the ledger reports today for a closed range; it only drifts from the frozen figure after a reopen
+      const currentProfit = (c: PeriodClose) => ledgerInvoices
+          .filter(inv => inv.type === 'SALE' && inv.date >= c.periodStart && inv.date <= c.periodEnd)
+          .reduce((acc, inv) => acc + (inv.profit || 0), 0);
+
+      return (
+          <div className="space-y-6 animate-enter">
+              <SectionHeader title="Period Close" subtitle="Close finished months or quarters to lock their entries, snapshot closing stock and freeze profit." action={
+                  <button onClick={() => setShowPeriodClose(true)} className="flex items-center gap-1.5 px-4 py-2 text-sm font-bold text-white bg-slate-900 rounded-lg hover:bg-slate-800 transition-colors shadow-sm"><CalendarCheck className="w-4 h-4"/> Close Period</button>
+              } />
+
+              <div className="grid grid-cols-2 md:grid-cols-4 gap-4">
+                  <StatsCard title="Locked Up To" value={lockDate || 'None'} subValue={latest ? latest.label : 'No period closed'} icon={Lock} />
+                  <StatsCard title="Last Closed By" value={latest?.closedBy || '-'} subValue={latest ? new Date(latest.closedAt).toLocaleString() : undefined} icon={Users} />
+                  <StatsCard title="Closing Stock" value={latest ? formatGrams(latest.closingStock.grams) : '-'} subValue={latest ? formatCurrency(latest.closingStock.value) : undefined} icon={Scale} />
+                  <StatsCard title="Reopened" value={reopened.length.toString()} subValue="Closes reopened with a reason" icon={Unlock} />
+              </div>
+
+              <Card title={<><CalendarCheck className="w-5 h-5 text-gold-600"/> Closed Periods</>}>
+                  {closes.length === 0 ? (
+                      <p className="text-sm text-slate-400 italic">No period has been closed yet.</p>
+                  ) : (
+                      <div className="overflow-x-auto">
+                          <table className="w-full text-sm text-left">
+                              <thead className="text-slate-500 bg-slate-50/50">
+                                  <tr>
+                                      <th className="px-4 py-3">Period</th>
+                                      <th className="px-4 py-3">Closed</th>
+                                      <th className="px-4 py-3 text-right">Closing Stock</th>
+                                      <th className="px-4 py-3 text-right">Frozen Profit</th>
+                                      <th className="px-4 py-3 text-right">Current Profit</th>
+                                      <th className="px-4 py-3 text-right">Snapshot</th>
+                                  </tr>
+                              </thead>
+                              <tbody>
+                                  {closes.map(c => {
+                                      const now = currentProfit(c);
+                                      const drift = Math.abs(now - c.frozen.profit) > 0.5;
+                                      return (
+                                          <tr key={c.id} className={`border-b border-slate-50 ${c.reopenedAt ? 'text-slate-400' : ''}`}>
+                                              <td className="px-4 py-3">
+                                                  <p className="font-bold text-slate-800">{c.label} {c.reopenedAt && <span className="ml-1 px-2 py-0.5 rounded text-[10px] font-bold bg-red-50 text-red-600">REOPENED</span>}</p>
+                                                  <p className="font-mono text-xs text-slate-400">{c.periodStart} → {c.periodEnd} · {COSTING_METHOD_LABELS[c.costingMethod]}</p>
+                                              </td>
+                                              <td className="px-4 py-3 text-xs text-slate-600"><p className="font-medium">{c.closedBy}</p><p className="font-mono text-slate-400">{new Date(c.closedAt).toLocaleString()}</p></td>
+                                              <td className="px-4 py-3 text-right font-mono"><p className="text-slate-900">{formatGrams(c.closingStock.grams)}</p><p className="text-xs text-slate-400">{formatCurrency(c.closingStock.value)}</p></td>
+                                              <td className="px-4 py-3 text-right font-mono text-slate-900">{formatCurrency(c.frozen.profit)}<p className="text-xs text-slate-400">{c.frozen.salesCount} sales</p></td>
+                                              <td className={`px-4 py-3 text-right font-mono ${drift ? 'font-bold text-orange-600' : 'text-slate-500'}`}>{formatCurrency(now)}{drift && <p className="text-xs font-normal">Changed since close</p>}</td>
+                                              <td className="px-4 py-3">
+                                                  <div className="flex justify-end gap-2">
+                                                      <ExportMenu onExport={(type) => handleCloseExport(c, type)} />
+                                                      {c.id === latest?.id && <button onClick={() => setReopening(c)} className="flex items-center gap-1.5 px-3 py-2 text-xs font-bold text-red-600 bg-red-50 border border-red-100 rounded-lg hover:bg-red-100 transition-colors"><Unlock className="w-4 h-4"/> Reopen</button>}
+                                                  </div>
+                                              </td>
+                                          </tr>
+                                      );
+                                  })}
+                              </tbody>
+                          </table>
+                      </div>
+                  )}
+              </Card>
+
+              <NrvValuationCard invoices={invoices} rates={marketRates} method={costingMethod} onExport={handleNrvExport} />
+
+              <Card title={<><History className="w-5 h-5 text-gold-600"/> Reopen Audit Trail</>}>
+                  {reopened.length === 0 ? (
+                      <p className="text-sm text-slate-400 italic">No closed period has been reopened.</p>
+                  ) : (
+                      <ul className="space-y-2 text-sm">
+                          {reopened.map(c => (
+                              <li key={c.id} className="p-3 bg-slate-50 rounded-lg">
+                                  <div className="flex justify-between"><span className="font-bold text-slate-800">{c.label} reopened by {c.reopenedBy}</span><span className="font-mono text-xs text-slate-400">{new Date(c.reopenedAt!).toLocaleString()}</span></div>
+                                  <p className="text-slate-600 mt-1">{c.reopenReason}</p>
+                              </li>
+                          ))}
+                      </ul>
+                  )}
+              </Card>
+          </div>
+      );
+  };
+
+  const PaymentsView = () => {
+      const today = new Date().toISOString().split('T')[0];
+      const aging = agingReport(invoices, payments, resolveParty, today, agingType);
+      const receivable = balances.reduce((acc, b) => acc + b.receivable, 0);
+      const payable = balances.reduce((acc, b) => acc + b.payable, 0);
+      const overdue = agingReport(invoices, payments, resolveParty, today, 'SALE').reduce((acc, row) => acc + row.buckets['90+'], 0);
+      const advances = balances.reduce((acc, b) => acc + b.advanceReceived, 0);
+      const ledgerParty = partyOptions.find(o => o.key === ledgerPartyKey);
+      const statement = ledgerParty ? partyLedger(ledgerParty.key, invoices, payments, resolveParty, dateRange.start, dateRange.end) : null;
+      const drCr = (v: number) => <>{formatCurrency(Math.abs(v))} <span className="text-[10px] font-bold text-slate-400">{v >= 0 ? 'DR' : 'CR'}</span></>;
+      const recent = payments.slice(0, 20);
+
+      return (
+          <div className="space-y-6 animate-enter">
+              <SectionHeader title="Payments" subtitle="Money received and paid, what each party still owes, and running statements of account." action={
+                  <button onClick={() => setPaymentDraft({})} className="flex items-center gap-1.5 px-4 py-2 text-sm font-bold text-white bg-slate-900 rounded-lg hover:bg-slate-800 transition-colors shadow-sm"><Plus className="w-4 h-4"/> Record Payment</button>
+              } />
+
+              <div className="grid grid-cols-2 md:grid-cols-4 gap-4">
+                  <StatsCard title="Receivable" value={formatCurrency(receivable)} subValue="Outstanding on sales" icon={ArrowUpRight} isActive />
+                  <StatsCard title="Payable" value={formatCurrency(payable)} subValue="Outstanding on purchases" icon={ArrowDownLeft} />
+                  <StatsCard title="Overdue 90+ Days" value={formatCurrency(overdue)} subValue="Receivables" icon={Hourglass} />
+                  <StatsCard title="Advances Held" value={formatCurrency(advances)} subValue="Received, not yet settled" icon={Wallet} />
+              </div>
+
+              <Card title={<><Timer className="w-5 h-5 text-gold-600"/> {agingType === 'SALE' ? 'Receivables' : 'Payables'} Aging</>} action={
+                  <div className="flex bg-slate-100 p-1 rounded-lg">
+                      {(['SALE', 'PURCHASE'] as Invoice['type'][]).map(t => (
+                          <button key={t} onClick={() => setAgingType(t)} className={`px-3 py-1 rounded-md text-xs font-bold transition-all ${agingType === t ? 'bg-white text-slate-900 shadow-sm' : 'text-slate-500 hover:text-slate-900'}`}>{t === 'SALE' ? 'Receivables' : 'Payables'}</button>
+                      ))}
+                  </div>
+              }>
+                  {aging.length === 0 ? (
+                      <p className="text-sm text-slate-400 italic">Nothing outstanding.</p>
+                  ) : (
+                      <div className="overflow-x-auto">
+                          <table className="w-full text-sm text-left">
+                              <thead className="text-slate-500 bg-slate-50/50">
+                                  <tr>
+                                      <th className="px-4 py-3">Party</th>
+                                      {AGING_BUCKETS.map(b => <th key={b} className="px-4 py-3 text-right">{b} Days</th>)}
+                                      <th className="px-4 py-3 text-right">Total</th>
+                                      <th className="px-4 py-3"></th>
+                                  </tr>
+                              </thead>
+                              <tbody>
+                                  {aging.map(row => (
+                                      <tr key={row.key} className="border-b border-slate-50">
+                                          <td className="px-4 py-3 font-bold text-slate-800">{row.name}</td>
+                                          {AGING_BUCKETS.map(b => <td key={b} className={`px-4 py-3 text-right font-mono ${b === '90+' && row.buckets[b] > 0 ? 'font-bold text-red-600' : 'text-slate-600'}`}>{row.buckets[b] > 0 ? formatCurrency(row.buckets[b]) : '-'}</td>)}
+                                          <td className="px-4 py-3 text-right font-mono font-bold text-slate-900">{formatCurrency(row.total)}</td>
+                                          <td className="px-4 py-3">
+                                              <div className="flex justify-end gap-2">
+                                                  <button onClick={() => setLedgerPartyKey(row.key)} className="px-3 py-1.5 text-xs font-bold text-slate-600 bg-white border border-slate-200 rounded-lg hover:bg-slate-50 transition-colors">Statement</button>
+                                                  <button onClick={() => setPaymentDraft({ partyKey: row.key, direction: agingType === 'SALE' ? 'RECEIVED' : 'PAID' })} className="px-3 py-1.5 text-xs font-bold text-white bg-slate-900 rounded-lg hover:bg-slate-800 transition-colors">{agingType === 'SALE' ? 'Receive' : 'Pay'}</button>
+                                              </div>
+                                          </td>
+                                      </tr>
+                                  ))}
+                              </tbody>
+                          </table>
+                      </div>
+                  )}
+              </Card>
+
+              <Card title={<><FileText className="w-5 h-5 text-gold-600"/> Statement of Account</>} action={
+                  <div className="flex gap-2 items-center">
+                      <select value={ledgerPartyKey} onChange={(e) => setLedgerPartyKey(e.target.value)} className="px-3 py-2 text-xs font-bold text-slate-600 bg-white border border-slate-200 rounded-lg hover:bg-slate-50 focus:outline-none focus:border-gold-500">
+                          <option value="">Select a party…</option>
+                          {partyOptions.map(o => <option key={o.key} value={o.key}>{o.name}</option>)}
+                      </select>
+                      {renderDateFilter()}
+                      {statement && <ExportMenu onExport={handleStatementExport} />}
+                  </div>
+              }>
+                  {!statement ? (
+                      <p className="text-sm text-slate-400 italic">Pick a party to see its running account for the selected dates.</p>
+                  ) : (
+                      <div className="overflow-x-auto">
+                          <table className="w-full text-sm text-left">
+                              <thead className="text-slate-500 bg-slate-50/50">
+                                  <tr>
+                                      <th className="px-4 py-3">Date</th>
+                                      <th className="px-4 py-3">Particulars</th>
+                                      <th className="px-4 py-3 text-right">Debit</th>
+                                      <th className="px-4 py-3 text-right">Credit</th>
+                                      <th className="px-4 py-3 text-right">Balance</th>
+                                  </tr>
+                              </thead>
+                              <tbody>
+                                  <tr className="border-b border-slate-50 bg-slate-50/50"><td className="px-4 py-3 font-mono text-xs text-slate-500">{dateRange.start}</td><td className="px-4 py-3 font-medium text-slate-600" colSpan={3}>Opening balance</td><td className="px-4 py-3 text-right font-mono text-slate-900">{drCr(statement.opening)}</td></tr>
+                                  {statement.lines.map((l, i) => (
+                                      <tr key={i} className="border-b border-slate-50">
+                                          <td className="px-4 py-3 font-mono text-xs text-slate-500">{l.date}</td>
+                                          <td className="px-4 py-3 text-slate-700">{l.particulars}<span className="block font-mono text-[10px] text-slate-400">{l.reference}</span></td>
+                                          <td className="px-4 py-3 text-right font-mono text-slate-600">{l.debit ? formatCurrency(l.debit) : '-'}</td>
+                                          <td className="px-4 py-3 text-right font-mono text-slate-600">{l.credit ? formatCurrency(l.credit) : '-'}</td>
+                                          <td className="px-4 py-3 text-right font-mono text-slate-900">{drCr(l.balance)}</td>
+                                      </tr>
+                                  ))}
+                                  <tr className="bg-slate-50/50"><td className="px-4 py-3 font-mono text-xs text-slate-500">{dateRange.end}</td><td className="px-4 py-3 font-bold text-slate-800" colSpan={3}>Closing balance</td><td className="px-4 py-3 text-right font-mono font-bold text-slate-900">{drCr(statement.closing)}</td></tr>
+                              </tbody>
+                          </table>
+                      </div>
+                  )}
+              </Card>
+
+              <Card title={<><History className="w-5 h-5 text-gold-600"/> Recent Payments</>}>
+                  {recent.length === 0 ? (
+                      <p className="text-sm text-slate-400 italic">No payments recorded yet.</p>
+                  ) : (
+                      <div className="overflow-x-auto">
+                          <table className="w-full text-sm text-left">
+                              <thead className="text-slate-500 bg-slate-50/50">
+                                  <tr>
+                                      <th className="px-4 py-3">Date</th>
+                                      <th className="px-4 py-3">Party</th>
+                                      <th className="px-4 py-3">Mode</th>
+                                      <th className="px-4 py-3 text-right">Amount</th>
+                                      <th className="px-4 py-3 text-right">Settled</th>
+                                      <th className="px-4 py-3"></th>
+                                  </tr>
+                              </thead>
+                              <tbody>
+                                  {recent.map(p => {
+                                      const settled = p.allocations.reduce((acc, a) => acc + a.amount, 0);
+                                      return (
+                                          <tr key={p.id} className={`border-b border-slate-50 ${p.voidedAt ? 'opacity-50' : ''}`}>
+                                              <td className="px-4 py-3 font-mono text-xs text-slate-500">{p.date}</td>
+                                              <td className="px-4 py-3"><p className="font-medium text-slate-800">{p.partyName}</p><p className={`text-[10px] font-bold uppercase ${p.direction === 'RECEIVED' ? 'text-green-600' : 'text-blue-600'}`}>{p.direction === 'RECEIVED' ? 'Received' : 'Paid'}</p></td>
+                                              <td className="px-4 py-3 text-xs text-slate-600">{PAYMENT_MODE_LABELS[p.mode]}{p.reference && <span className="block font-mono text-slate-400">{p.reference}</span>}</td>
+                                              <td className="px-4 py-3 text-right font-mono text-slate-900">{formatCurrency(p.amount)}</td>
+                                              <td className="px-4 py-3 text-right font-mono text-slate-500">{formatCurrency(settled)}{settled < p.amount - 0.005 && <span className="block text-[10px] text-slate-400">{formatCurrency(p.amount - settled)} on account</span>}</td>
+                                              <td className="px-4 py-3 text-right">
+                                                  {p.voidedAt ? (
+                                                      <span className="text-[10px] font-bold uppercase px-2 py-1 bg-slate-100 text-slate-500 rounded">Void</span>
+                                                  ) : (
+                                                      <button onClick={() => handlePaymentVoid(p)} disabled={isLocked(p.date)} title={isLocked(p.date) ? `Locked up to ${lockDate}` : 'Void'} className="p-1.5 rounded-lg text-slate-400 hover:text-red-600 hover:bg-red-50 disabled:opacity-30 disabled:pointer-events-none transition-colors"><Ban className="w-4 h-4"/></button>
+                                                  )}
+                                              </td>
+                                          </tr>
+                                      );
+                                  })}
+                              </tbody>
+                          </table>
+                      </div>
+                  )}
+              </Card>
+          </div>
+      );
+  };
+
+  const CashBookView = () => {
+      const today = new Date().toISOString().split('T')[0];
+      const account = moneyAccounts.find(a => a.id === bookAccountId) || moneyAccounts[0];
+      const book = account ? dailyCashBook(account, postings, dateRange.start, dateRange.end) : [];
+      const entries = cashEntries.filter(e => e.date >= dateRange.start && e.date <= dateRange.end);
+      const accountName = new Map(moneyAccounts.map(a => [a.id, a.name]));
+      const postingById = new Map<string, Posting>(postings.map(p => [p.id, p]));
+      const bankAccounts = moneyAccounts.filter(a => a.kind === 'BANK');
+      const statementAccount = account?.kind === 'BANK' ? account : bankAccounts[0];
+      const lines = bankStatement.filter(l => l.accountId === statementAccount?.id).sort((a, b) => b.date.localeCompare(a.date));
+      const unmatched = lines.filter(l => !l.matchedId || !postingById.has(l.matchedId));
+
+      return (
+          <div className="space-y-6 animate-enter">
+              <SectionHeader title="Cash & Bank" subtitle="Daily book of every cash and bank account, manual expenses and receipts, and bank statement reconciliation." action={
+                  <div className="flex gap-2">
+                      <button onClick={() => setEditingAccount({ account: { id: generateId(), name: '', kind: 'BANK', openingBalance: 0, openingDate: today, createdAt: new Date().toISOString() }, isNew: true })} className="flex items-center gap-1.5 px-4 py-2 text-sm font-bold text-slate-600 bg-white border border-slate-200 rounded-lg hover:bg-slate-50 transition-colors"><Landmark className="w-4 h-4"/> New Account</button>
+                      <button onClick={() => setCashEntryDraft({ initial: { accountId: account?.id } })} disabled={moneyAccounts.length === 0} className="flex items-center gap-1.5 px-4 py-2 text-sm font-bold text-white bg-slate-900 rounded-lg hover:bg-slate-800 transition-colors shadow-sm disabled:opacity-40"><Plus className="w-4 h-4"/> New Entry</button>
+                  </div>
+              } />
+
+              <div className="grid grid-cols-2 md:grid-cols-4 gap-4">
+                  {moneyAccounts.map(a => (
+                      <button key={a.id} onClick={() => setBookAccountId(a.id)} className="text-left">
+                          <StatsCard title={a.name} value={formatCurrency(accountBalance(a, postings, today))} subValue={`${a.kind === 'CASH' ? 'Cash' : 'Bank'} · closing today`} icon={a.kind === 'CASH' ? Banknote : Landmark} isActive={a.id === account?.id} />
+                      </button>
+                  ))}
+              </div>
+
+              <Card title={<><Calendar className="w-5 h-5 text-gold-600"/> Day Book{account ? ` · ${account.name}` : ''}</>} action={
+                  <div className="flex gap-2 items-center">
+                      {account && <button onClick={() => setEditingAccount({ account, isNew: false })} className="flex items-center gap-1.5 px-3 py-2 text-xs font-bold text-slate-600 bg-white border border-slate-200 rounded-lg hover:bg-slate-50 transition-colors"><Pencil className="w-3.5 h-3.5"/> Edit Account</button>}
+                      {renderDateFilter()}
+                      {book.length > 0 && <ExportMenu onExport={handleCashBookExport} />}
+                  </div>
+              }>
+                  {book.length === 0 ? (
+                      <p className="text-sm text-slate-400 italic">No money moved through this account in the selected dates.</p>
+                  ) : (
+                      <div className="overflow-x-auto">
+                          <table className="w-full text-sm text-left">
+                              <thead className="text-slate-500 bg-slate-50/50">
+                                  <tr>
+                                      <th className="px-4 py-3">Date</th>
+                                      <th className="px-4 py-3">Particulars</th>
+                                      <th className="px-4 py-3 text-right">Opening</th>
+                                      <th className="px-4 py-3 text-right">In</th>
+                                      <th className="px-4 py-3 text-right">Out</th>
+                                      <th className="px-4 py-3 text-right">Closing</th>
+                                  </tr>
+                              </thead>
+                              <tbody>
+                                  {book.map(row => (
+                                      <tr key={row.date} className="border-b border-slate-50 align-top">
+                                          <td className="px-4 py-3 font-mono text-xs text-slate-500">{row.date}</td>
+                                          <td className="px-4 py-3 text-xs text-slate-600">
+                                              {row.postings.map(p => <p key={p.id} className="flex justify-between gap-4"><span>{p.particulars}</span><span className={`font-mono ${p.amount > 0 ? 'text-green-600' : 'text-slate-500'}`}>{formatCurrency(Math.abs(p.amount))}</span></p>)}
+                                          </td>
+                                          <td className="px-4 py-3 text-right font-mono text-slate-500">{formatCurrency(row.opening)}</td>
+                                          <td className="px-4 py-3 text-right font-mono text-green-600">{row.receipts ? formatCurrency(row.receipts) : '-'}</td>
+                                          <td className="px-4 py-3 text-right font-mono text-slate-600">{row.payments ? formatCurrency(row.payments) : '-'}</td>
+                                          <td className={`px-4 py-3 text-right font-mono font-bold ${row.closing < 0 ? 'text-red-600' : 'text-slate-900'}`}>{formatCurrency(row.closing)}</td>
+                                      </tr>
+                                  ))}
+                              </tbody>
+                          </table>
+                      </div>
+                  )}
+              </Card>
+
+              <Card title={<><Link2 className="w-5 h-5 text-gold-600"/> Bank Reconciliation{statementAccount ? ` · ${statementAccount.name}` : ''}</>} action={
+                  statementAccount && (
+                      <label className="flex items-center gap-1.5 px-3 py-2 text-xs font-bold text-slate-600 bg-white border border-slate-200 rounded-lg hover:bg-slate-50 transition-colors cursor-pointer">
+                          <Upload className="w-3.5 h-3.5"/> Import Statement
+                          <input type="file" accept=".csv,.txt" className="hidden" onChange={(e) => { const file = e.target.files?.[0]; e.target.value = ''; if (file) handleStatementImport(file, statementAccount); }} />
+                      </label>
+                  )
+              }>
+                  {!statementAccount ? (
+                      <p className="text-sm text-slate-400 italic">Add a bank account to reconcile its statement.</p>
+                  ) : lines.length === 0 ? (
+                      <p className="text-sm text-slate-400 italic">Import a CSV statement from the bank. Lines are matched to recorded payments and entries by amount, date and reference.</p>
+                  ) : (
+                      <>
+                          <p className="mb-3 text-xs font-bold text-slate-500">{lines.length - unmatched.length} of {lines.length} lines matched{unmatched.length > 0 ? ` · ${unmatched.length} to record or check` : ''}</p>
+                          <div className="overflow-x-auto">
+                              <table className="w-full text-sm text-left">
+                                  <thead className="text-slate-500 bg-slate-50/50">
+                                      <tr>
+                                          <th className="px-4 py-3">Date</th>
+                                          <th className="px-4 py-3">Description</th>
+                                          <th className="px-4 py-3 text-right">Amount</th>
+                                          <th className="px-4 py-3">Matched To</th>
+                                          <th className="px-4 py-3"></th>
+                                      </tr>
+                                  </thead>
+                                  <tbody>
+                                      {lines.map(line => {
+                                          const posting = line.matchedId ? postingById.get(line.matchedId) : undefined;
+                                          return (
+                                              <tr key={line.id} className="border-b border-slate-50">
+                                                  <td className="px-4 py-3 font-mono text-xs text-slate-500">{line.date}</td>
+                                                  <td className="px-4 py-3 text-xs text-slate-700">{line.description || '-'}{line.reference && <span className="block font-mono text-slate-400">{line.reference}</span>}</td>
+                                                  <td className={`px-4 py-3 text-right font-mono ${line.amount > 0 ? 'text-green-600' : 'text-slate-700'}`}>{formatCurrency(line.amount)}</td>
+                                                  <td className="px-4 py-3 text-xs">
+                                                      {posting ? <span className="text-slate-600">{posting.date} · {posting.particulars}</span> : <span className="text-[10px] font-bold uppercase px-2 py-1 bg-amber-50 text-amber-700 rounded">Unmatched</span>}
+                                                  </td>
+                                                  <td className="px-4 py-3 text-right">
+                                                      {posting ? (
+                                                          <button onClick={() => handleStatementUnmatch(line)} className="px-3 py-1.5 text-xs font-bold text-slate-600 bg-white border border-slate-200 rounded-lg hover:bg-slate-50 transition-colors">Unmatch</button>
+                                                      ) : (
+                                                          <button onClick={() => setCashEntryDraft({ lineId: line.id, initial: { date: line.date, accountId: line.accountId, direction: line.amount > 0 ? 'IN' : 'OUT', amount: Math.abs(line.amount), category: line.amount > 0 ? 'Other' : 'Bank Charges', note: line.description } })} disabled={isLocked(line.date)} className="px-3 py-1.5 text-xs font-bold text-white bg-slate-900 rounded-lg hover:bg-slate-800 transition-colors disabled:opacity-30">Record as Entry</button>
+                                                      )}
+                                                  </td>
+                                              </tr>
+                                          );
+                                      })}
+                                  </tbody>
+                              </table>
+                          </div>
+                      </>
+                  )}
+              </Card>
+
+              <Card title={<><Receipt className="w-5 h-5 text-gold-600"/> Manual Entries</>}>
+                  {entries.length === 0 ? (
+                      <p className="text-sm text-slate-400 italic">No manual entries in the selected dates.</p>
+                  ) : (
+                      <div className="overflow-x-auto">
+                          <table className="w-full text-sm text-left">
+                              <thead className="text-slate-500 bg-slate-50/50">
+                                  <tr>
+                                      <th className="px-4 py-3">Date</th>
+                                      <th className="px-4 py-3">Account</th>
+                                      <th className="px-4 py-3">Category</th>
+                                      <th className="px-4 py-3 text-right">Amount</th>
+                                      <th className="px-4 py-3"></th>
+                                  </tr>
+                              </thead>
+                              <tbody>
+                                  {entries.map(e => (
+                                      <tr key={e.id} className={`border-b border-slate-50 ${e.voidedAt ? 'opacity-50' : ''}`}>
+                                          <td className="px-4 py-3 font-mono text-xs text-slate-500">{e.date}</td>
+                                          <td className="px-4 py-3 text-xs text-slate-600">{accountName.get(e.accountId) || 'Removed account'}</td>
+                                          <td className="px-4 py-3"><p className="font-medium text-slate-800">{e.category}</p>{e.note && <p className="text-xs text-slate-400">{e.note}</p>}</td>
+                                          <td className={`px-4 py-3 text-right font-mono ${e.direction === 'IN' ? 'text-green-600' : 'text-slate-900'}`}>{e.direction === 'IN' ? '+' : '-'}{formatCurrency(e.amount)}</td>
+                                          <td className="px-4 py-3 text-right">
+                                              {e.voidedAt ? (
+                                                  <span className="text-[10px] font-bold uppercase px-2 py-1 bg-slate-100 text-slate-500 rounded">Void</span>
+                                              ) : (
+                                                  <button onClick={() => handleCashEntryVoid(e)} disabled={isLocked(e.date)} title={isLocked(e.date) ? `Locked up to ${lockDate}` : 'Void'} className="p-1.5 rounded-lg text-slate-400 hover:text-red-600 hover:bg-red-50 disabled:opacity-30 disabled:pointer-events-none transition-colors"><Ban className="w-4 h-4"/></button>
+                                              )}
+                                          </td>
+                                      </tr>
+                                  ))}
+                              </tbody>
+                          </table>
+                      </div>
+                  )}
+              </Card>
+          </div>
+      );
+  };
+
+  const MetalAccountView = () => {
+      const open = metalMovements.filter(m => isUnfixed(m.kind) && unfixedGrams(m, invoices) > 0);
+      const totals = metalBalanceRows.reduce((acc, r) => ({ out: acc.out + r.unfixedOut, in: acc.in + r.unfixedIn, loan: acc.loan + r.onLoan }), { out: 0, in: 0, loan: 0 });
+      const statement = metalStatementFor ? metalStatement(metalStatementFor.key, metalStatementFor.metal, metalMovements, invoices, resolveParty) : null;
+      const recent = metalMovements.slice(0, 20);
+      const fine = (v: number) => `${v.toFixed(3)} g`;
+
+      return (
+          <div className="space-y-6 animate-enter">
+              <SectionHeader title="Metal Account" subtitle="Metal received or delivered before its price is fixed, and metal lent out or given for job work. Owned stock changes only when a price is fixed." action={
+                  <button onClick={() => setShowMetalMovement(true)} className="flex items-center gap-1.5 px-4 py-2 text-sm font-bold text-white bg-slate-900 rounded-lg hover:bg-slate-800 transition-colors shadow-sm"><Plus className="w-4 h-4"/> Record Movement</button>
+              } />
+
+              <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+                  <StatsCard title="Unfixed Received" value={fine(totals.in)} subValue="Fine grams awaiting a purchase price" icon={ArrowDownLeft} isActive />
+                  <StatsCard title="Unfixed Delivered" value={fine(totals.out)} subValue="Fine grams awaiting a sale price" icon={ArrowUpRight} />
+                  <StatsCard title="With Parties" value={fine(totals.loan)} subValue="Fine grams on loan or job work" icon={Factory} />
+              </div>
+
+              <Card title={<><Hourglass className="w-5 h-5 text-gold-600"/> Awaiting Price Fixing</>}>
+                  {open.length === 0 ? (
+                      <p className="text-sm text-slate-400 italic">No unfixed deliveries.</p>
+                  ) : (
+                      <div className="overflow-x-auto">
+                          <table className="w-full text-sm text-left">
+                              <thead className="text-slate-500 bg-slate-50/50">
+                                  <tr>
+                                      <th className="px-4 py-3">Date</th>
+                                      <th className="px-4 py-3">Party</th>
+                                      <th className="px-4 py-3">Metal</th>
+                                      <th className="px-4 py-3 text-right">Delivered</th>
+                                      <th className="px-4 py-3 text-right">Unfixed</th>
+                                      <th className="px-4 py-3"></th>
+                                  </tr>
+                              </thead>
+                              <tbody>
+                                  {open.map(m => (
+                                      <tr key={m.id} className="border-b border-slate-50">
+                                          <td className="px-4 py-3 font-mono text-xs text-slate-500">{m.date}</td>
+                                          <td className="px-4 py-3"><p className="font-medium text-slate-800">{m.partyName}</p><p className={`text-[10px] font-bold uppercase ${m.kind === 'UNFIXED_IN' ? 'text-blue-600' : 'text-green-600'}`}>{m.kind === 'UNFIXED_IN' ? 'Received' : 'Delivered'}</p></td>
+                                          <td className="px-4 py-3 text-xs text-slate-600">{formatPool(m.metal, m.purity)}</td>
+                                          <td className="px-4 py-3 text-right font-mono text-slate-500">{formatGrams(m.grams)}</td>
+                                          <td className="px-4 py-3 text-right font-mono font-bold text-slate-900">{formatGrams(unfixedGrams(m, invoices))}</td>
+                                          <td className="px-4 py-3 text-right">
+                                              <button onClick={() => setFixingMovement(m)} className="px-3 py-1.5 text-xs font-bold text-white bg-slate-900 rounded-lg hover:bg-slate-800 transition-colors">Fix Price</button>
+                                          </td>
+                                      </tr>
+                                  ))}
+                              </tbody>
+                          </table>
+                      </div>
+                  )}
+              </Card>
+
+              <Card title={<><Scale className="w-5 h-5 text-gold-600"/> Party Metal Balances</>}>
+                  {metalBalanceRows.length === 0 ? (
+                      <p className="text-sm text-slate-400 italic">No metal held by or owed to any party.</p>
+                  ) : (
+                      <div className="overflow-x-auto">
+                          <table className="w-full text-sm text-left">
+                              <thead className="text-slate-500 bg-slate-50/50">
+                                  <tr>
+                                      <th className="px-4 py-3">Party</th>
+                                      <th className="px-4 py-3">Metal</th>
+                                      <th className="px-4 py-3 text-right">Unfixed Out</th>
+                                      <th className="px-4 py-3 text-right">Unfixed In</th>
+                                      <th className="px-4 py-3 text-right">On Loan</th>
+                                      <th className="px-4 py-3 text-right">Net (Fine)</th>
+                                      <th className="px-4 py-3"></th>
+                                  </tr>
+                              </thead>
+                              <tbody>
+                                  {metalBalanceRows.map(r => (
+                                      <tr key={`${r.key}|${r.metal}`} className="border-b border-slate-50">
+                                          <td className="px-4 py-3 font-bold text-slate-800">{r.name}</td>
+                                          <td className="px-4 py-3 text-xs text-slate-600">{METAL_LABELS[r.metal]}</td>
+                                          <td className="px-4 py-3 text-right font-mono text-slate-600">{r.unfixedOut ? fine(r.unfixedOut) : '-'}</td>
+                                          <td className="px-4 py-3 text-right font-mono text-slate-600">{r.unfixedIn ? fine(r.unfixedIn) : '-'}</td>
+                                          <td className="px-4 py-3 text-right font-mono text-slate-600">{r.onLoan ? fine(r.onLoan) : '-'}</td>
+                                          <td className={`px-4 py-3 text-right font-mono font-bold ${r.net < 0 ? 'text-red-600' : 'text-slate-900'}`}>{fine(Math.abs(r.net))} <span className="text-[10px] font-bold text-slate-400">{r.net >= 0 ? 'WITH PARTY' : 'OWED BY US'}</span></td>
+                                          <td className="px-4 py-3 text-right">
+                                              <button onClick={() => setMetalStatementFor({ key: r.key, name: r.name, metal: r.metal })} className="px-3 py-1.5 text-xs font-bold text-slate-600 bg-white border border-slate-200 rounded-lg hover:bg-slate-50 transition-colors">Statement</button>
+                                          </td>
+                                      </tr>
+                                  ))}
+                              </tbody>
+                          </table>
+                      </div>
+                  )}
+              </Card>
+
+              {metalStatementFor && statement && (
+                  <Card title={<><FileText className="w-5 h-5 text-gold-600"/> {metalStatementFor.name} · {METAL_LABELS[metalStatementFor.metal]} Account</>} action={
+                      <button onClick={() => setMetalStatementFor(null)} className="px-3 py-1.5 text-xs font-bold text-slate-600 bg-white border border-slate-200 rounded-lg hover:bg-slate-50 transition-colors">Close</button>
+                  }>
+                      <div className="overflow-x-auto">
+                          <table className="w-full text-sm text-left">
+                              <thead className="text-slate-500 bg-slate-50/50">
+                                  <tr>
+                                      <th className="px-4 py-3">Date</th>
+                                      <th className="px-4 py-3">Particulars</th>
+                                      <th className="px-4 py-3 text-right">Out (Fine)</th>
+                                      <th className="px-4 py-3 text-right">In (Fine)</th>
+                                      <th className="px-4 py-3 text-right">Balance</th>
+                                  </tr>
+                              </thead>
+                              <tbody>
+                                  {statement.map((l, i) => (
+                                      <tr key={i} className="border-b border-slate-50">
+                                          <td className="px-4 py-3 font-mono text-xs text-slate-500">{l.date}</td>
+                                          <td className="px-4 py-3 text-slate-700">{l.particulars}</td>
+                                          <td className="px-4 py-3 text-right font-mono text-slate-600">{l.out ? fine(l.out) : '-'}</td>
+                                          <td className="px-4 py-3 text-right font-mono text-slate-600">{l.in ? fine(l.in) : '-'}</td>
+                                          <td className={`px-4 py-3 text-right font-mono ${l.balance < 0 ? 'text-red-600' : 'text-slate-900'}`}>{fine(l.balance)}</td>
+                                      </tr>
+                                  ))}
+                              </tbody>
+                          </table>
+                      </div>
+                  </Card>
+              )}
+
+              <Card title={<><History className="w-5 h-5 text-gold-600"/> Recent Movements</>}>
+                  {recent.length === 0 ? (
+                      <p className="text-sm text-slate-400 italic">No metal movements recorded yet.</p>
+                  ) : (
+                      <div className="overflow-x-auto">
+                          <table className="w-full text-sm text-left">
+                              <thead className="text-slate-500 bg-slate-50/50">
+                                  <tr>
+                                      <th className="px-4 py-3">Date</th>
+                                      <th className="px-4 py-3">Party</th>
+                                      <th className="px-4 py-3">Movement</th>
+                                      <th className="px-4 py-3 text-right">Weight</th>
+                                      <th className="px-4 py-3"></th>
+                                  </tr>
+                              </thead>
+                              <tbody>
+                                  {recent.map(m => (
+                                      <tr key={m.id} className={`border-b border-slate-50 ${m.voidedAt ? 'opacity-50' : ''}`}>
+                                          <td className="px-4 py-3 font-mono text-xs text-slate-500">{m.date}</td>
+                                          <td className="px-4 py-3 font-medium text-slate-800">{m.partyName}</td>
+                                          <td className="px-4 py-3 text-xs text-slate-600">{METAL_MOVEMENT_LABELS[m.kind].label}{m.note && <span className="block text-slate-400">{m.note}</span>}</td>
+                                          <td className="px-4 py-3 text-right font-mono text-slate-900">{formatGrams(m.grams)}<span className="block text-[10px] text-slate-400">{formatPool(m.metal, m.purity)}{m.wastagePercent ? ` · ${m.wastagePercent}% wastage` : ''}</span></td>
+                                          <td className="px-4 py-3 text-right">
+                                              {m.voidedAt ? (
+                                                  <span className="text-[10px] font-bold uppercase px-2 py-1 bg-slate-100 text-slate-500 rounded">Void</span>
+                                              ) : (
+                                                  <button onClick={() => handleMetalMovementVoid(m)} disabled={isLocked(m.date)} title={isLocked(m.date) ? `Locked up to ${lockDate}` : 'Void'} className="p-1.5 rounded-lg text-slate-400 hover:text-red-600 hover:bg-red-50 disabled:opacity-30 disabled:pointer-events-none transition-colors"><Ban className="w-4 h-4"/></button>
+                                              )}
+                                          </td>
+                                      </tr>
+                                  ))}
+                              </tbody>
+                          </table>
+                      </div>
+                  )}
+              </Card>
+          </div>
+      );
+  };
+
+  const ComplianceView = () => {
+      const byId = new Map<string, Invoice>(invoices.map(inv => [inv.id, inv]));
+      const blocked = complianceFlags.filter(f => f.action === 'BLOCK').length;
+      const tcsTotal = complianceFlags.reduce((acc, f) => acc + (f.tcsAmount || 0), 0);
+      const missingPan = complianceFlags.filter(f => f.rule === 'PAN_REQUIRED').length;
+      const actionClass: Record<ComplianceAction, string> = {
+          BLOCK: 'bg-red-50 text-red-600',
+          WARN: 'bg-orange-50 text-orange-700',
+          OFF: 'bg-slate-100 text-slate-500',
+      };
+      const numberInput = "w-28 px-2 py-1.5 text-xs font-mono text-right text-slate-700 bg-white border border-slate-200 rounded-lg focus:outline-none focus:border-gold-500";
+
+      return (
+          <div className="space-y-6 animate-enter">
+              <SectionHeader title="Compliance" subtitle="PAN, cash-limit and TCS checks on every transaction. Blocking rules stop the entry; warnings ask before recording." action={
+                  <div className="flex gap-2 items-center">
+                      {renderDateFilter()}
+                      <ExportMenu onExport={handleComplianceExport} label="Report" />
+                  </div>
+              } />
+
+              <div className="grid grid-cols-2 md:grid-cols-4 gap-4">
+                  <StatsCard title="Flagged" value={complianceFlags.length.toString()} subValue="Breaches in the period" icon={ShieldAlert} isActive />
+                  <StatsCard title="Blocking Breaches" value={blocked.toString()} subValue="Recorded before the rule, or imported" icon={Ban} />
+                  <StatsCard title="Missing PAN" value={missingPan.toString()} subValue="High-value deals without a PAN" icon={BadgeAlert} />
+                  <StatsCard title="TCS to Collect" value={formatCurrency(tcsTotal)} subValue="From the TCS rules" icon={Percent} />
+              </div>
+
+              <Card title={<><ShieldCheck className="w-5 h-5 text-gold-600"/> Rules</>}>
+                  <div className="overflow-x-auto">
+                      <table className="w-full text-sm text-left">
+                          <thead className="text-slate-500 bg-slate-50/50">
+                              <tr>
+                                  <th className="px-4 py-3">Rule</th>
+                                  <th className="px-4 py-3">Action</th>
+                                  <th className="px-4 py-3 text-right">Threshold (INR)</th>
+                                  <th className="px-4 py-3 text-right">TCS Rate (%)</th>
+                              </tr>
+                          </thead>
+                          <tbody>
+                              {(Object.keys(COMPLIANCE_RULE_LABELS) as ComplianceRuleId[]).map(id => {
+                                  const rule = complianceRules[id];
+                                  return (
+                                      <tr key={id} className="border-b border-slate-50 align-top">
+                                          <td className="px-4 py-3"><p className="font-bold text-slate-800">{COMPLIANCE_RULE_LABELS[id].label}</p><p className="text-xs text-slate-400">{COMPLIANCE_RULE_LABELS[id].description}</p></td>
+                                          <td className="px-4 py-3">
+                                              <select value={rule.action} onChange={(e) => handleComplianceRuleChange(id, { action: e.target.value as ComplianceAction })} className={`px-2 py-1.5 text-xs font-bold rounded-lg border border-slate-200 focus:outline-none focus:border-gold-500 ${actionClass[rule.action]}`}>
+                                                  <option value="BLOCK">Block</option>
+                                                  <option value="WARN">Warn</option>
+                                                  <option value="OFF">Off</option>
+                                              </select>
+                                          </td>
+                                          <td className="px-4 py-3 text-right">
+                                              <input key={`${id}-${rule.threshold}`} type="number" min="0" defaultValue={rule.threshold} onBlur={(e) => { const v = parseFloat(e.target.value); if (v >= 0) handleComplianceRuleChange(id, { threshold: v }); }} className={numberInput} />
+                                          </td>
+                                          <td className="px-4 py-3 text-right">
+                                              {rule.rate !== undefined ? (
+                                                  <input key={`${id}-${rule.rate}`} type="number" min="0" step="0.01" defaultValue={rule.rate} onBlur={(e) => { const v = parseFloat(e.target.value); if (v >= 0) handleComplianceRuleChange(id, { rate: v }); }} className={numberInput} />
+                                              ) : <span className="text-slate-300">-</span>}
+                                          </td>
+                                      </tr>
+                                  );
+                              })}
+                          </tbody>
+                      </table>
+                  </div>
+              </Card>
+
+              <Card title={<><ShieldAlert className="w-5 h-5 text-gold-600"/> Flagged Transactions</>}>
+                  {complianceFlags.length === 0 ? (
+                      <p className="text-sm text-slate-400 italic">No transaction in this period breaches a rule.</p>
+                  ) : (
+                      <div className="overflow-x-auto">
+                          <table className="w-full text-sm text-left">
+                              <thead className="text-slate-500 bg-slate-50/50">
+                                  <tr>
+                                      <th className="px-4 py-3">Date</th>
+                                      <th className="px-4 py-3">Party</th>
+                                      <th className="px-4 py-3">Mode</th>
+                                      <th className="px-4 py-3 text-right">Amount</th>
+                                      <th className="px-4 py-3">Rule</th>
+                                      <th className="px-4 py-3 text-right">TCS</th>
+                                  </tr>
+                              </thead>
+                              <tbody>
+                                  {complianceFlags.map(f => {
+                                      const inv = byId.get(f.invoiceId)!;
+                                      return (
+                                          <tr key={`${f.invoiceId}-${f.rule}`} className="border-b border-slate-50 align-top">
+                                              <td className="px-4 py-3 font-mono text-xs text-slate-500">{inv.date}</td>
+                                              <td className="px-4 py-3"><p className="font-medium text-slate-800">{inv.partyName}</p><p className="text-[10px] font-bold uppercase text-slate-400">{inv.type === 'SALE' ? 'Sale' : 'Purchase'}{inv.invoiceNumber ? ` · ${inv.invoiceNumber}` : ''}</p></td>
+                                              <td className="px-4 py-3 text-xs text-slate-600">{inv.paymentMode ? PAYMENT_MODE_LABELS[inv.paymentMode] : 'Not recorded'}</td>
+                                              <td className="px-4 py-3 text-right font-mono text-slate-900">{formatCurrency(inv.totalAmount)}</td>
+                                              <td className="px-4 py-3">
+                                                  <span className={`px-2 py-0.5 rounded text-[10px] font-bold ${actionClass[f.action]}`}>{COMPLIANCE_RULE_LABELS[f.rule].label.toUpperCase()}</span>
+                                                  <p className="mt-1 text-xs text-slate-500">{f.message}</p>
+                                              </td>
+                                              <td className="px-4 py-3 text-right font-mono text-slate-600">{f.tcsAmount ? formatCurrency(f.tcsAmount) : '-'}</td>
+                                          </tr>
+                                      );
+                                  })}
+                              </tbody>
+                          </table>
+                      </div>
+                  )}
+              </Card>
+          </div>
+      );
+  };
+
+  const PartiesView = () => {
+      const counts: Record<string, number> = {};
+      let unregistered = 0;
+      invoices.filter(inv => !inv.voidedAt).forEach(inv => {
+          const party = resolveParty(inv);
+          if (party.party) counts[party.key] = (counts[party.key] || 0) + 1;
+          else unregistered += 1;
+      });
+      const query = searchQuery.toLowerCase();
+      const rows = parties
+          .filter(p => !query || [p.name, ...p.aliases, p.gstin || '', p.pan || ''].some(v => v.toLowerCase().includes(query)))
+          .sort((a, b) => a.name.localeCompare(b.name));
+      const kycClass: Record<Party['kycStatus'], string> = {
+          NOT_STARTED: 'bg-slate-100 text-slate-500',
+          PENDING: 'bg-orange-50 text-orange-700',
+          VERIFIED: 'bg-green-50 text-green-700',
+          REJECTED: 'bg-red-50 text-red-600',
+      };
+
+      return (
+          <div className="space-y-6 animate-enter">
+              <SectionHeader title="Parties" subtitle="Customers and suppliers with their GSTIN, PAN and KYC. Invoices are matched to a party by name or any of its other spellings." action={
+                  <div className="flex gap-2">
+                      <button onClick={() => setShowPartyMerge(true)} className="flex items-center gap-1.5 px-4 py-2 text-sm font-bold text-slate-600 bg-white border border-slate-200 rounded-lg hover:bg-slate-50 transition-colors"><GitMerge className="w-4 h-4"/> Import from Invoices</button>
+                      <button onClick={() => setEditingParty(emptyParty())} className="flex items-center gap-1.5 px-4 py-2 text-sm font-bold text-white bg-slate-900 rounded-lg hover:bg-slate-800 transition-colors shadow-sm"><Plus className="w-4 h-4"/> New Party</button>
+                  </div>
+              } />
+
+              <div className="grid grid-cols-2 md:grid-cols-4 gap-4">
+                  <StatsCard title="Registered" value={parties.length.toString()} subValue="Parties in the registry" icon={Contact} />
+                  <StatsCard title="KYC Verified" value={parties.filter(p => p.kycStatus === 'VERIFIED').length.toString()} subValue={`${parties.filter(p => p.kycStatus === 'PENDING').length} pending`} icon={ShieldCheck} />
+                  <StatsCard title="With GSTIN" value={parties.filter(p => p.gstin).length.toString()} subValue="Registered for GST" icon={Receipt} />
+                  <StatsCard title="Unmatched Invoices" value={unregistered.toString()} subValue="Party name not in the registry" icon={AlertTriangle} />
+              </div>
+
+              <Card title={<><Contact className="w-5 h-5 text-gold-600"/> Party Registry</>}>
+                  {rows.length === 0 ? (
+                      <p className="text-sm text-slate-400 italic">{parties.length === 0 ? 'No parties yet. Add one, or import the names already on your invoices.' : 'No party matches the search.'}</p>
+                  ) : (
+                      <div className="overflow-x-auto">
+                          <table className="w-full text-sm text-left">
+                              <thead className="text-slate-500 bg-slate-50/50">
+                                  <tr>
+                                      <th className="px-4 py-3">Party</th>
+                                      <th className="px-4 py-3">GSTIN / PAN</th>
+                                      <th className="px-4 py-3">State</th>
+                                      <th className="px-4 py-3">Contact</th>
+                                      <th className="px-4 py-3">KYC</th>
+                                      <th className="px-4 py-3 text-right">Invoices</th>
+                                      <th className="px-4 py-3"></th>
+                                  </tr>
+                              </thead>
+                              <tbody>
+                                  {rows.map(p => (
+                                      <tr key={p.id} className="border-b border-slate-50 align-top">
+                                          <td className="px-4 py-3">
+                                              <p className="font-bold text-slate-800">{p.name}</p>
+                                              {p.aliases.length > 0 && <p className="text-xs text-slate-400">Also: {p.aliases.join(', ')}</p>}
+                                          </td>
+                                          <td className="px-4 py-3 font-mono text-xs text-slate-600"><p>{p.gstin || '-'}</p><p className="text-slate-400">{p.pan || ''}</p></td>
+                                          <td className="px-4 py-3 text-xs text-slate-600">{p.state ? GST_STATES[p.state] || p.state : '-'}</td>
+                                          <td className="px-4 py-3 text-xs text-slate-600"><p>{p.phone || ''}</p><p className="text-slate-400">{p.email || ''}</p></td>
+                                          <td className="px-4 py-3"><span className={`px-2 py-0.5 rounded text-[10px] font-bold ${kycClass[p.kycStatus]}`}>{KYC_STATUS_LABELS[p.kycStatus].toUpperCase()}</span></td>
+                                          <td className="px-4 py-3 text-right font-mono text-slate-900">{counts[p.id] || 0}</td>
+                                          <td className="px-4 py-3 text-right"><button onClick={() => setEditingParty(p)} className="p-1.5 text-slate-400 hover:text-gold-600 hover:bg-gold-50 rounded-lg transition-colors" title="Edit party"><Pencil className="w-4 h-4"/></button></td>
+                                      </tr>
+                                  ))}
+                              </tbody>
+                          </table>
+                      </div>
+                  )}
+              </Card>
+          </div>
+      );
+  };
+
+  const AuditView = () => {
+      const entries = searchAuditLog(auditLog, searchQuery, auditActionFilter);
+      const clip = (text: string) => text.length > 60 ? `${text.slice(0, 60)}…` : text;
+      return (
+          <div className="space-y-6 animate-enter">
+              <SectionHeader title="Audit Log" subtitle="Every change to the books, in order. Entries are append-only and hash-chained; use the search box to filter." action={
+                  <div className="flex gap-2 items-center">
+                      <select value={auditActionFilter} onChange={(e) => setAuditActionFilter(e.target.value as AuditAction | 'ALL')} className="px-3 py-2 text-xs font-bold text-slate-600 bg-white border border-slate-200 rounded-lg hover:bg-slate-50 focus:outline-none focus:border-gold-500">
+                          <option value="ALL">All Actions</option>
+                          {(Object.keys(AUDIT_ACTION_LABELS) as AuditAction[]).map(a => <option key={a} value={a}>{AUDIT_ACTION_LABELS[a]}</option>)}
+                      </select>
+                      <ExportMenu onExport={handleAuditExport} />
+                  </div>
+              } />
+
+              {auditBrokenAt === null ? (
+                  <div className="flex items-center gap-3 p-4 bg-green-50 border border-green-100 rounded-xl text-sm text-green-800"><ShieldCheck className="w-5 h-5 flex-shrink-0"/> Hash chain verified across {auditLog.length} entries.</div>
+              ) : (
+                  <div className="flex items-center gap-3 p-4 bg-red-50 border border-red-100 rounded-xl text-sm text-red-700"><ShieldAlert className="w-5 h-5 flex-shrink-0"/> Tampering detected: entry #{auditBrokenAt} does not match its hash, so it and every later entry cannot be trusted.</div>
+              )}
+
+              <Card title={<><ScrollText className="w-5 h-5 text-gold-600"/> {entries.length === auditLog.length ? `${auditLog.length} Entries` : `${entries.length} of ${auditLog.length} Entries`}</>}>
+                  {entries.length === 0 ? (
+                      <p className="text-sm text-slate-400 italic">{auditLog.length === 0 ? 'No changes recorded yet.' : 'No entries match the search.'}</p>
+                  ) : (
+                      <div className="overflow-x-auto">
+                          <table className="w-full text-sm text-left">
+                              <thead className="text-slate-500 bg-slate-50/50">
+                                  <tr>
+                                      <th className="px-4 py-3">#</th>
+                                      <th className="px-4 py-3">Time</th>
+                                      <th className="px-4 py-3">Action</th>
+                                      <th className="px-4 py-3">Summary</th>
+                                      <th className="px-4 py-3">Changes</th>
+                                      <th className="px-4 py-3">Hash</th>
+                                  </tr>
+                              </thead>
+                              <tbody>
+                                  {entries.map(e => (
+                                      <tr key={e.seq} className={`border-b border-slate-50 align-top ${auditBrokenAt !== null && e.seq >= auditBrokenAt ? 'bg-red-50/50' : 'hover:bg-slate-50'}`}>
+                                          <td className="px-4 py-3 font-mono text-xs text-slate-400">{e.seq}</td>
+                                          <td className="px-4 py-3 font-mono text-xs text-slate-500 whitespace-nowrap">{new Date(e.at).toLocaleString()}</td>
+                                          <td className="px-4 py-3"><span className="px-2 py-0.5 rounded text-[10px] font-bold bg-slate-100 text-slate-600 whitespace-nowrap">{AUDIT_ACTION_LABELS[e.action]}</span></td>
+                                          <td className="px-4 py-3 font-medium text-slate-800">{e.summary}</td>
+                                          <td className="px-4 py-3 text-xs text-slate-500">
+                                              {describeAuditChanges(e).slice(0, 6).map(c => (
+                                                  <p key={c.field}><span className="font-bold text-slate-600">{c.field}</span>: <span className="line-through text-slate-400">{clip(c.before)}</span> → {clip(c.after)}</p>
+                                              ))}
+                                          </td>
+                                          <td className="px-4 py-3 font-mono text-[10px] text-slate-400" title={e.hash}>{e.hash.slice(0, 12)}</td>
+                                      </tr>
+                                  ))}
+                              </tbody>
+                          </table>
+                      </div>
+                  )}
+              </Card>
+          </div>
+      );
+  };
+
+  const TaxView = () => {
+      const taxTotal = (h: TaxHeads) => h.iamt + h.camt + h.samt + h.csamt;
+      const b2bTotals = gstr1.b2b.reduce((acc, r) => acc + r.heads.txval, 0);
+      const b2cTotals = [...gstr1.b2cl, ...gstr1.b2cs].reduce((acc, r) => acc + r.heads.txval, 0);
+      const headCells = (h: TaxHeads) => (
+          <>
+              <td className="px-4 py-3 text-right font-mono text-slate-900">{formatCurrency(h.txval)}</td>
+              <td className="px-4 py-3 text-right font-mono text-slate-600">{formatCurrency(h.iamt)}</td>
+              <td className="px-4 py-3 text-right font-mono text-slate-600">{formatCurrency(h.camt)}</td>
+              <td className="px-4 py-3 text-right font-mono text-slate-600">{formatCurrency(h.samt)}</td>
+          </>
+      );
+      const headHeaders = (
+          <>
+              <th className="px-4 py-3 text-right">Taxable</th>
+              <th className="px-4 py-3 text-right">IGST</th>
+              <th className="px-4 py-3 text-right">CGST</th>
+              <th className="px-4 py-3 text-right">SGST</th>
+          </>
+      );
+      const gains = gainsYears.find(y => y.financialYear === gainsYear) || gainsYears[0];
+      const numberInput = "w-24 px-2 py-1.5 text-right text-xs font-mono text-slate-700 bg-white border border-slate-200 rounded-lg focus:outline-none focus:border-gold-500";
+      const exportButtons = (form: 'GSTR1' | 'GSTR3B') => (
+          <div className="flex gap-2 items-center">
+              <button onClick={() => handleGstExport(form, 'JSON')} className="flex items-center gap-1.5 px-3 py-2 text-xs font-bold text-slate-600 bg-white border border-slate-200 rounded-lg hover:bg-slate-50 hover:text-slate-900 transition-colors"><FileJson className="w-4 h-4"/> JSON</button>
+              <ExportMenu onExport={(type) => handleGstExport(form, type)} />
+          </div>
+      );
+
+      return (
+          <div className="space-y-6 animate-enter">
+              <SectionHeader title="GST Returns" subtitle="Monthly GSTR-1 and GSTR-3B figures from the invoices on record. Voided invoices are excluded." action={
+                  <div className="flex gap-2 items-center">
+                      <input
+                          key={businessGstin}
+                          defaultValue={businessGstin}
+                          onBlur={(e) => {
+                              const value = e.target.value.trim().toUpperCase();
+                              if (value && !isValidGstin(value)) { addToast('ERROR', 'GSTIN is invalid: check the format (e.g. 27AAPFU0939F1ZV) and the last character.'); return; }
+                              setBusinessGstin(value);
+                          }}
+                          placeholder="Your GSTIN"
+                          maxLength={15}
+                          className="w-44 px-3 py-2 text-xs font-mono font-bold text-slate-700 bg-white border border-slate-200 rounded-lg focus:outline-none focus:border-gold-500 uppercase"
+                      />
+                      <input type="month" value={taxPeriod} onChange={(e) => e.target.value && setTaxPeriod(e.target.value)} className="px-3 py-2 text-xs font-bold text-slate-600 bg-white border border-slate-200 rounded-lg focus:outline-none focus:border-gold-500" />
+                  </div>
+              } />
+
+              <Card title={<><Printer className="w-5 h-5 text-gold-600"/> Seller Details</>} action={<span className="text-xs text-slate-400">Printed on tax invoices</span>}>
+                  <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+                      <input
+                          key={`name-${businessProfile.name}`}
+                          defaultValue={businessProfile.name}
+                          onBlur={(e) => e.target.value.trim() !== businessProfile.name && setBusinessProfile({ ...businessProfile, name: e.target.value.trim() })}
+                          placeholder="Business name"
+                          className="px-3 py-2 text-sm text-slate-700 bg-white border border-slate-200 rounded-lg focus:outline-none focus:border-gold-500"
+                      />
+                      <textarea
+                          key={`address-${businessProfile.address}`}
+                          defaultValue={businessProfile.address}
+                          onBlur={(e) => e.target.value.trim() !== businessProfile.address && setBusinessProfile({ ...businessProfile, address: e.target.value.trim() })}
+                          placeholder="Address"
+                          rows={2}
+                          className="px-3 py-2 text-sm text-slate-700 bg-white border border-slate-200 rounded-lg focus:outline-none focus:border-gold-500"
+                      />
+                  </div>
+              </Card>
+
+              <div className="grid grid-cols-2 md:grid-cols-4 gap-4">
+                  <StatsCard title="Outward Taxable" value={formatCurrency(gstr3b.outward.txval)} subValue={`B2B ${formatCurrency(b2bTotals)} · B2C ${formatCurrency(b2cTotals)}`} icon={ArrowUpRight} isActive />
+                  <StatsCard title="Output Tax" value={formatCurrency(taxTotal(gstr3b.outward))} subValue="On sales" icon={Receipt} />
+                  <StatsCard title="Input Tax Credit" value={formatCurrency(taxTotal(gstr3b.itc))} subValue="From purchases" icon={ArrowDownLeft} />
+                  <StatsCard title="Net Payable" value={formatCurrency(taxTotal(gstr3b.netPayable))} subValue={taxTotal(gstr3b.carryForward) > 0 ? `${formatCurrency(taxTotal(gstr3b.carryForward))} ITC carried forward` : 'Payable in cash'} icon={Wallet} />
+              </div>
+
+              <Card title={<><Receipt className="w-5 h-5 text-gold-600"/> GSTR-3B Summary</>} action={exportButtons('GSTR3B')}>
+                  <div className="overflow-x-auto">
+                      <table className="w-full text-sm text-left">
+                          <thead className="text-slate-500 bg-slate-50/50"><tr><th className="px-4 py-3">Table</th>{headHeaders}</tr></thead>
+                          <tbody>
+                              <tr className="border-b border-slate-50"><td className="px-4 py-3 font-medium text-slate-700">3.1(a) Outward taxable supplies</td>{headCells(gstr3b.outward)}</tr>
+                              <tr className="border-b border-slate-50"><td className="px-4 py-3 font-medium text-slate-700">4(A)(5) ITC - all other</td>{headCells(gstr3b.itc)}</tr>
+                              <tr className="border-b border-slate-50 font-bold"><td className="px-4 py-3 text-slate-900">Net tax payable</td>{headCells(gstr3b.netPayable)}</tr>
+                          </tbody>
+                      </table>
+                  </div>
+              </Card>
+
+              <Card title={<><FileText className="w-5 h-5 text-gold-600"/> GSTR-1 Outward Supplies</>} action={exportButtons('GSTR1')}>
+                  {!businessGstin && <p className="mb-4 p-3 text-xs text-orange-700 bg-orange-50 border border-orange-100 rounded-lg">Enter your GSTIN above: the place of supply and the JSON export depend on it.</p>}
+                  <div className="overflow-x-auto">
+                      <table className="w-full text-sm text-left">
+                          <thead className="text-slate-500 bg-slate-50/50"><tr><th className="px-4 py-3">Section</th><th className="px-4 py-3">Detail</th>{headHeaders}</tr></thead>
+                          <tbody>
+                              {gstr1.b2b.map(r => (
+                                  <tr key={r.invoice.id} className="border-b border-slate-50">
+                                      <td className="px-4 py-3"><span className="px-2 py-0.5 rounded text-[10px] font-bold bg-blue-50 text-blue-700">B2B</span></td>
+                                      <td className="px-4 py-3 text-slate-700"><p className="font-medium">{r.invoice.partyName}</p><p className="font-mono text-xs text-slate-400">{r.invoice.date} · {r.ctin}</p></td>
+                                      {headCells(r.heads)}
                                   </tr>
                               ))}
+                              {gstr1.b2cl.map(r => (
+                                  <tr key={r.invoice.id} className="border-b border-slate-50">
+                                      <td className="px-4 py-3"><span className="px-2 py-0.5 rounded text-[10px] font-bold bg-purple-50 text-purple-700">B2CL</span></td>
+                                      <td className="px-4 py-3 text-slate-700"><p className="font-medium">{r.invoice.partyName}</p><p className="font-mono text-xs text-slate-400">{r.invoice.date} · POS {r.pos}</p></td>
+                                      {headCells(r.heads)}
+                                  </tr>
+                              ))}
+                              {gstr1.b2cs.map(r => (
+                                  <tr key={`${r.supplyType}-${r.pos}-${r.rate}`} className="border-b border-slate-50">
+                                      <td className="px-4 py-3"><span className="px-2 py-0.5 rounded text-[10px] font-bold bg-green-50 text-green-700">B2CS</span></td>
+                                      <td className="px-4 py-3 text-slate-700">{r.count} invoice{r.count === 1 ? '' : 's'} @ {r.rate}% · {r.supplyType === 'INTER' ? 'Inter-state' : 'Intra-state'}{r.pos && <span className="font-mono text-xs text-slate-400"> · POS {r.pos}</span>}</td>
+                                      {headCells(r.heads)}
+                                  </tr>
+                              ))}
+                              {gstr1.b2b.length === 0 && gstr1.b2cl.length === 0 && gstr1.b2cs.length === 0 && <tr><td colSpan={6} className="px-4 py-6 text-center text-slate-400 italic">No sales in {taxPeriod}.</td></tr>}
                           </tbody>
                       </table>
                   </div>
+                  {gstr1.hsn.length > 0 && (
+                      <div className="overflow-x-auto mt-6">
+                          <h4 className="text-xs font-bold text-slate-500 uppercase mb-2">HSN Summary</h4>
+                          <table className="w-full text-sm text-left">
+                              <thead className="text-slate-500 bg-slate-50/50"><tr><th className="px-4 py-3">HSN</th><th className="px-4 py-3 text-right">Qty (GMS)</th>{headHeaders}</tr></thead>
+                              <tbody>
+                                  {gstr1.hsn.map(r => (
+                                      <tr key={`${r.hsn}-${r.rate}`} className="border-b border-slate-50">
+                                          <td className="px-4 py-3 text-slate-700"><p className="font-mono font-bold">{r.hsn} @ {r.rate}%</p><p className="text-xs text-slate-400">{r.description}</p></td>
+                                          <td className="px-4 py-3 text-right font-mono text-slate-600">{formatGrams(r.grams)}</td>
+                                          {headCells(r.heads)}
+                                      </tr>
+                                  ))}
+                              </tbody>
+                          </table>
+                      </div>
+                  )}
+              </Card>
+
+              <Card title={<><Hourglass className="w-5 h-5 text-gold-600"/> Capital Gains & Trading Income</>} action={
+                  gains && (
+                      <div className="flex gap-2 items-center">
+                          <select value={gains.financialYear} onChange={(e) => setGainsYear(e.target.value)} className="px-3 py-2 text-xs font-bold text-slate-600 bg-white border border-slate-200 rounded-lg hover:bg-slate-50 focus:outline-none focus:border-gold-500">
+                              {gainsYears.map(y => <option key={y.financialYear} value={y.financialYear}>FY {y.financialYear}</option>)}
+                          </select>
+                          <ExportMenu onExport={(type) => handleGainsExport(gains, type)} label="Schedule" />
+                      </div>
+                  )
+              }>
+                  <div className="flex flex-wrap gap-6 items-center mb-6 text-xs text-slate-500">
+                      <label className="flex items-center gap-2 font-bold uppercase">
+                          Long-term after
+                          <input key={`lt-${gainsRules.longTermMonths}`} type="number" min="1" defaultValue={gainsRules.longTermMonths} onBlur={(e) => { const v = parseInt(e.target.value); if (v > 0) handleGainsRuleChange({ longTermMonths: v }); }} className={numberInput} />
+                          months
+                      </label>
+                      <label className="flex items-center gap-2 font-bold uppercase">
+                          Trading income within
+                          <input key={`td-${gainsRules.tradingDays}`} type="number" min="0" defaultValue={gainsRules.tradingDays} onBlur={(e) => { const v = parseInt(e.target.value); if (v >= 0) handleGainsRuleChange({ tradingDays: v }); }} className={numberInput} />
+                          days
+                      </label>
+                      <span>Holding runs from the purchase date of each lot a sale drew from to the sale date. 0 days reports every lot as a capital gain.</span>
+                  </div>
+                  {!gains ? (
+                      <p className="text-sm text-slate-400 italic">No sales on record.</p>
+                  ) : (
+                      <div className="overflow-x-auto">
+                          <table className="w-full text-sm text-left">
+                              <thead className="text-slate-500 bg-slate-50/50">
+                                  <tr>
+                                      <th className="px-4 py-3">Head</th>
+                                      <th className="px-4 py-3 text-right">Lots</th>
+                                      <th className="px-4 py-3 text-right">Grams</th>
+                                      <th className="px-4 py-3 text-right">Proceeds</th>
+                                      <th className="px-4 py-3 text-right">Cost</th>
+                                      <th className="px-4 py-3 text-right">Gain</th>
+                                  </tr>
+                              </thead>
+                              <tbody>
+                                  {[...(Object.keys(GAINS_TERM_LABELS) as GainsTerm[]).map(t => ({ key: t, label: GAINS_TERM_LABELS[t], totals: gains.byTerm[t] })), { key: 'TOTAL', label: `Total FY ${gains.financialYear}`, totals: gains.total }].map(row => (
+                                      <tr key={row.key} className={`border-b border-slate-50 ${row.key === 'TOTAL' ? 'font-bold' : ''}`}>
+                                          <td className="px-4 py-3 text-slate-800">{row.label}</td>
+                                          <td className="px-4 py-3 text-right font-mono text-slate-600">{row.totals.lots}</td>
+                                          <td className="px-4 py-3 text-right font-mono text-slate-600">{formatGrams(row.totals.grams)}</td>
+                                          <td className="px-4 py-3 text-right font-mono text-slate-900">{formatCurrency(row.totals.proceeds)}</td>
+                                          <td className="px-4 py-3 text-right font-mono text-slate-600">{formatCurrency(row.totals.cost)}</td>
+                                          <td className={`px-4 py-3 text-right font-mono ${row.totals.gain < 0 ? 'text-red-600' : 'text-slate-900'}`}>{formatCurrency(row.totals.gain)}</td>
+                                      </tr>
+                                  ))}
+                              </tbody>
+                          </table>
+                          {Math.abs(gains.total.gain - gains.recordedProfit) > 0.5 && (
+                              <p className="mt-4 flex items-center gap-2 text-xs font-bold text-orange-600"><AlertTriangle className="w-3.5 h-3.5"/> Realized profit on the year's sales is {formatCurrency(gains.recordedProfit)}: some sales were short of stock and have grams not matched to a lot.</p>
+                          )}
+                      </div>
+                  )}
               </Card>
           </div>
       );
   };
 
   const renderDateFilter = () => (
-      <DateRangePicker startDate={dateRange.start} endDate={dateRange.end} onChange={(start, end) => setDateRange({ start, end })} />
+      <div className="flex gap-2 items-center">
+          {poolOptions.length > 1 && (
+              <select value={poolFilter} onChange={(e) => setPoolFilter(e.target.value)} className="px-3 py-2 text-xs font-bold text-slate-600 bg-white border border-slate-200 rounded-lg hover:bg-slate-50 focus:outline-none focus:border-gold-500">
+                  <option value="ALL">All Metals</option>
+                  {poolOptions.map(p => <option key={p.key} value={p.key}>{p.label}</option>)}
+              </select>
+          )}
+          <DateRangePicker startDate={dateRange.start} endDate={dateRange.end} onChange={(start, end) => setDateRange({ start, end })} />
+      </div>
   );
 
   return (
     <Layout activeTab={activeTab} onTabChange={setActiveTab} searchQuery={searchQuery} onSearch={setSearchQuery}>
         <Toast toasts={toasts} removeToast={removeToast} />
+        {lotTrail && <LotTrailModal invoices={invoices} sale={lotTrail.sale} batch={lotTrail.batch} onClose={() => setLotTrail(null)} />}
+        {editingParty && <PartyFormModal party={editingParty} parties={parties} onSave={handlePartySave} onCancel={() => setEditingParty(null)} />}
+        {showPartyMerge && <PartyMergeModal invoices={invoices.filter(inv => !inv.voidedAt)} parties={parties} onRegister={handlePartyMerge} onCancel={() => setShowPartyMerge(false)} />}
+        {editingAccount && <MoneyAccountModal account={editingAccount.account} isNew={editingAccount.isNew} lockDate={lockDate} onSave={handleAccountSave} onCancel={() => setEditingAccount(null)} />}
+        {cashEntryDraft && <CashEntryModal accounts={moneyAccounts} initial={cashEntryDraft.initial} lockDate={lockDate} onSave={handleCashEntrySave} onCancel={() => setCashEntryDraft(null)} />}
+        {showMetalMovement && <MetalMovementModal parties={parties} partyNames={partyOptions.map(o => o.name)} stockByPool={stockByPool} lockDate={lockDate} onSave={handleMetalMovementSave} onCancel={() => setShowMetalMovement(false)} />}
+        {fixingMovement && <PriceFixingModal movement={fixingMovement} invoices={invoices} lockDate={lockDate} onSave={(fixing, gstRate) => handlePriceFix(fixingMovement, fixing, gstRate)} onCancel={() => setFixingMovement(null)} />}
+        {paymentDraft && <PaymentModal invoices={invoices} payments={payments} resolve={resolveParty} partyOptions={partyOptions} accounts={moneyAccounts} initialPartyKey={paymentDraft.partyKey} initialDirection={paymentDraft.direction} lockDate={lockDate} onSave={handlePaymentSave} onCancel={() => setPaymentDraft(null)} />}
+        {pendingRestore && <RestoreBackupModal archive={pendingRestore} invoices={invoices} lockDate={lockDate} onReplace={handleRestoreReplace} onMerge={handleRestoreMerge} onCancel={() => setPendingRestore(null)} />}
+        {showPeriodClose && <PeriodCloseModal invoices={invoices} closes={periodCloses} costingMethod={costingMethod} operatorName={operatorName} onConfirm={handlePeriodClose} onCancel={() => setShowPeriodClose(false)} />}
+        {reopening && <ReopenPeriodModal close={reopening} operatorName={operatorName} onConfirm={handlePeriodReopen} onCancel={() => setReopening(null)} />}
+        {showImport && <ImportWizardModal invoices={invoices} lockDate={lockDate} ourState={ourState} reservedByPool={reservedByPool} onImport={handleImportInvoices} onClose={() => setShowImport(false)} />}
+        {pendingRecost && <RecostPreviewModal changes={pendingRecost.changes} costingMethod={costingMethod} onConfirm={confirmRecost} onCancel={() => setPendingRecost(null)} />}
         <div className="min-h-full pb-10">
             {activeTab === 'dashboard' && <DashboardView />}
             {activeTab === 'invoices' && <InvoicesView />}
@@ -1014,12 +3439,13 @@ function App() {
                         title="Inventory Management" 
                         action={
                             <div className="flex gap-2 items-center">
+                                <ExportMenu label="Lot Matching" onExport={handleLotMatchingExport} />
                                 <ExportMenu onExport={handleInventoryExport} />
                                 {renderDateFilter()}
                             </div>
                         }
                     />
-                    <InventoryTable batches={filteredInventory}/>
+                    <InventoryTable batches={filteredInventory} costingMethod={costingMethod} onBatchClick={(batch) => setLotTrail({ batch })} marketRates={marketRates} onSaveRate={handleRateSave}/>
                 </div>
             )}
             {activeTab === 'analytics' && <AnalyticsView />}
@@ -1027,6 +3453,15 @@ function App() {
             {activeTab === 'customer-insights' && <CustomerInsightsView />}
             {activeTab === 'supplier-insights' && <SupplierInsightsView />}
             {activeTab === 'business-ledger' && <BusinessLedgerView />}
+            {activeTab === 'parties' && <PartiesView />}
+            {activeTab === 'tax' && <TaxView />}
+            {activeTab === 'compliance' && <ComplianceView />}
+            {activeTab === 'payments' && <PaymentsView />}
+            {activeTab === 'cash-book' && <CashBookView />}
+            {activeTab === 'metal-account' && <MetalAccountView />}
+            {activeTab === 'period-close' && <PeriodCloseView />}
+            {activeTab === 'audit' && <AuditView />}
+            {activeTab === 'data' && <DataManagementView />}
         </div>
     </Layout>
   );
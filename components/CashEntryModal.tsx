@@ -0,0 +1,88 @@
+
+import React, { useState } from 'react';
+import { CashEntry, MoneyAccount } from '../types';
+import { CASH_ENTRY_CATEGORIES } from '../services/cashBookService';
+import { generateId } from '../utils';
+import { Banknote, AlertTriangle, CheckCircle } from 'lucide-react';
+import Modal from './Modal';
+
+interface CashEntryModalProps {
+  accounts: MoneyAccount[];
+  initial?: Partial<CashEntry>; // Prefilled from an unmatched statement line
+  lockDate: string | null;
+  onSave: (entry: CashEntry) => void;
+  onCancel: () => void;
+}
+
+const CashEntryModal: React.FC<CashEntryModalProps> = ({ accounts, initial = {} as Partial<CashEntry>, lockDate, onSave, onCancel }) => {
+  const [date, setDate] = useState(initial.date || new Date().toISOString().split('T')[0]);
+  const [accountId, setAccountId] = useState(initial.accountId || accounts[0]?.id || '');
+  const [direction, setDirection] = useState<CashEntry['direction']>(initial.direction || 'OUT');
+  const [amount, setAmount] = useState(initial.amount ? initial.amount.toString() : '');
+  const [category, setCategory] = useState(initial.category || 'Expense');
+  const [note, setNote] = useState(initial.note || '');
+  const [error, setError] = useState('');
+
+  const handleSave = () => {
+    const value = parseFloat(amount);
+    if (!accountId) { setError('Pick an account.'); return; }
+    if (!(value > 0)) { setError('Amount must be more than zero.'); return; }
+    if (!category.trim()) { setError('Category is required.'); return; }
+    if (lockDate && date <= lockDate) { setError(`Books are closed up to ${lockDate}. Pick a later date.`); return; }
+    onSave({ id: generateId(), date, accountId, direction, amount: value, category: category.trim(), note: note.trim() || undefined, createdAt: new Date().toISOString() });
+  };
+
+  const inputClass = "w-full px-3 py-2 text-sm bg-slate-50 border border-slate-200 rounded-lg focus:outline-none focus:ring-2 focus:ring-gold-500/20 focus:border-gold-500";
+  const labelClass = "block text-xs font-bold text-slate-500 uppercase mb-1";
+
+  return (
+    <Modal
+      title={<><Banknote className="w-5 h-5 text-gold-600"/> New Cash / Bank Entry</>}
+      onClose={onCancel}
+      footer={
+        <>
+          <button onClick={onCancel} className="px-4 py-2 text-sm font-bold text-slate-600 bg-white border border-slate-200 rounded-lg hover:bg-slate-50 transition-colors">Cancel</button>
+          <button onClick={handleSave} className="flex items-center gap-1.5 px-4 py-2 text-sm font-bold text-white bg-slate-900 rounded-lg hover:bg-slate-800 transition-colors shadow-sm"><CheckCircle className="w-4 h-4"/> Save Entry</button>
+        </>
+      }
+    >
+      {error && <div className="mb-4 p-3 bg-red-50 border border-red-100 text-red-700 text-xs rounded-lg flex items-center gap-2"><AlertTriangle className="w-3.5 h-3.5 flex-shrink-0"/>{error}</div>}
+      <div className="grid grid-cols-2 gap-4">
+        <div>
+          <label className={labelClass}>Date</label>
+          <input type="date" value={date} onChange={(e) => setDate(e.target.value)} className={inputClass} />
+        </div>
+        <div>
+          <label className={labelClass}>Account</label>
+          <select value={accountId} onChange={(e) => setAccountId(e.target.value)} className={inputClass}>
+            {accounts.map(a => <option key={a.id} value={a.id}>{a.name}</option>)}
+          </select>
+        </div>
+        <div>
+          <label className={labelClass}>Direction</label>
+          <select value={direction} onChange={(e) => setDirection(e.target.value as CashEntry['direction'])} className={inputClass}>
+            <option value="OUT">Money out (expense, drawings)</option>
+            <option value="IN">Money in (receipt, capital)</option>
+          </select>
+        </div>
+        <div>
+          <label className={labelClass}>Amount (INR)</label>
+          <input type="number" min="0" step="0.01" value={amount} onChange={(e) => setAmount(e.target.value)} className={`${inputClass} font-mono`} />
+        </div>
+        <div>
+          <label className={labelClass}>Category</label>
+          <input list="cash-entry-categories" value={category} onChange={(e) => setCategory(e.target.value)} className={inputClass} />
+          <datalist id="cash-entry-categories">
+            {CASH_ENTRY_CATEGORIES.map(c => <option key={c} value={c} />)}
+          </datalist>
+        </div>
+        <div>
+          <label className={labelClass}>Note</label>
+          <input value={note} onChange={(e) => setNote(e.target.value)} className={inputClass} />
+        </div>
+      </div>
+    </Modal>
+  );
+};
+
+export default CashEntryModal;
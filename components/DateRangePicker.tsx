@@ -3,6 +3,8 @@ import React, { useState, useEffect, useRef, useLayoutEffect } from 'react';
 import { createPortal } from 'react-dom';
 import { Calendar as CalendarIcon, ChevronLeft, ChevronRight, Clock } from 'lucide-react';
 
+type Preset = 'TODAY' | 'LAST_7' | 'LAST_30' | 'THIS_MONTH' | 'LAST_MONTH' | 'THIS_QUARTER' | 'LAST_QUARTER' | 'THIS_FY' | 'LAST_FY';
+
 interface DateRangePickerProps {
   startDate: string;
   endDate: string;
@@ -162,10 +164,13 @@ export const DateRangePicker: React.FC<DateRangePickerProps> = ({ startDate, end
       setActiveInput('end');
   };
 
-  const handlePreset = (type: 'TODAY' | 'LAST_7' | 'LAST_30' | 'THIS_MONTH' | 'LAST_MONTH') => {
+  const handlePreset = (type: Preset) => {
       const today = new Date();
       let start = new Date();
       let end = new Date();
+      // Indian financial year (April to March) and its quarters (Apr-Jun, Jul-Sep, Oct-Dec, Jan-Mar)
+      const fyStartYear = today.getMonth() >= 3 ? today.getFullYear() : today.getFullYear() - 1;
+      const quarterStartMonth = today.getMonth() - ((today.getMonth() + 9) % 12) % 3;
 
       switch (type) {
           case 'TODAY':
@@ -183,6 +188,20 @@ export const DateRangePicker: React.FC<DateRangePickerProps> = ({ startDate, end
               start = new Date(today.getFullYear(), today.getMonth() - 1, 1);
               end = new Date(today.getFullYear(), today.getMonth(), 0);
               break;
+          case 'THIS_QUARTER':
+              start = new Date(today.getFullYear(), quarterStartMonth, 1);
+              break;
+          case 'LAST_QUARTER':
+              start = new Date(today.getFullYear(), quarterStartMonth - 3, 1);
+              end = new Date(today.getFullYear(), quarterStartMonth, 0);
+              break;
+          case 'THIS_FY':
+              start = new Date(fyStartYear, 3, 1);
+              break;
+          case 'LAST_FY':
+              start = new Date(fyStartYear - 1, 3, 1);
+              end = new Date(fyStartYear, 2, 31);
+              break;
       }
       setTempStart(toLocalISO(start));
       setTempEnd(toLocalISO(end));
@@ -355,11 +374,15 @@ export const DateRangePicker: React.FC<DateRangePickerProps> = ({ startDate, end
                         { label: 'Last 7 Days', type: 'LAST_7' },
                         { label: 'Last 30 Days', type: 'LAST_30' },
                         { label: 'This Month', type: 'THIS_MONTH' },
-                        { label: 'Last Month', type: 'LAST_MONTH' }
-                    ].map((preset) => (
+                        { label: 'Last Month', type: 'LAST_MONTH' },
+                        { label: 'This Quarter', type: 'THIS_QUARTER' },
+                        { label: 'Last Quarter', type: 'LAST_QUARTER' },
+                        { label: 'This FY', type: 'THIS_FY' },
+                        { label: 'Last FY', type: 'LAST_FY' }
+                    ].map((preset: { label: string; type: Preset }) => (
                         <button
                             key={preset.type}
-                            onClick={() => handlePreset(preset.type as any)}
+                            onClick={() => handlePreset(preset.type)}
                             className="whitespace-nowrap text-left px-3 py-2 text-xs font-medium text-slate-600 hover:bg-white hover:text-gold-700 hover:shadow-sm rounded-lg transition-all flex items-center gap-2"
                         >
                             <Clock className="w-3 h-3 opacity-50"/>
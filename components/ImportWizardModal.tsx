@@ -0,0 +1,159 @@
+
+import React, { useState, useMemo } from 'react';
+import { Invoice } from '../types';
+import { IMPORT_FIELDS, ColumnMapping, ImportRowStatus, parseDelimited, guessColumnMapping, validateImportRows, orderImportedInvoices } from '../services/importService';
+import { formatCurrency, formatGrams } from '../utils';
+import { FileUp, ArrowLeft, ArrowRight, CheckCircle } from 'lucide-react';
+import Modal from './Modal';
+
+interface ImportWizardModalProps {
+  invoices: Invoice[];
+  lockDate: string | null;
+  ourState?: string; // Our GST state code, to split imported GST into CGST/SGST or IGST
+  reservedByPool: Record<string, number>; // Grams per pool out on unfixed deliveries, which imported sales may not draw
+  onImport: (imported: Invoice[], onSaved: () => void) => void; // onSaved runs once the import is committed, after any recost preview
+  onClose: () => void;
+}
+
+const STATUS_STYLES: Record<ImportRowStatus, string> = {
+  READY: 'bg-green-100 text-green-700',
+  INVALID: 'bg-red-100 text-red-700',
+  LOCKED: 'bg-slate-200 text-slate-600',
+  OVERSELL: 'bg-orange-100 text-orange-700',
+};
+
+const ImportWizardModal: React.FC<ImportWizardModalProps> = ({ invoices, lockDate, ourState, reservedByPool, onImport, onClose }) => {
+  const [step, setStep] = useState<'SOURCE' | 'MAP' | 'REVIEW'>('SOURCE');
+  const [text, setText] = useState('');
+  const [mapping, setMapping] = useState<ColumnMapping>({});
+
+  const table = useMemo(() => parseDelimited(text), [text]);
+  const headers = table[0] || [];
+  const dataRows = table.slice(1);
+  const rows = useMemo(
+    () => step === 'REVIEW' ? validateImportRows(dataRows, mapping, invoices, lockDate, ourState, reservedByPool) : [],
+    [step, table, mapping, invoices, lockDate, ourState, reservedByPool]
+  );
+  const accepted = rows.filter(r => r.status === 'READY');
+  const missingRequired = IMPORT_FIELDS.filter(f => f.required && mapping[f.field] === undefined);
+
+  const handleFile = async (file: File) => {
+    setText(await file.text());
+  };
+
+  const goToMapping = () => {
+    setMapping(guessColumnMapping(headers));
+    setStep('MAP');
+  };
+
+  const handleImport = () => {
+    onImport(orderImportedInvoices(rows), onClose);
+  };
+
+  const footer = (
+    <>
+      {step !== 'SOURCE' && <button onClick={() => setStep(step === 'REVIEW' ? 'MAP' : 'SOURCE')} className="mr-auto flex items-center gap-1.5 px-4 py-2 text-sm font-bold text-slate-600 bg-white border border-slate-200 rounded-lg hover:bg-slate-50 transition-colors"><ArrowLeft className="w-4 h-4"/> Back</button>}
+      <button onClick={onClose} className="px-4 py-2 text-sm font-bold text-slate-600 bg-white border border-slate-200 rounded-lg hover:bg-slate-50 transition-colors">Cancel</button>
+      {step === 'SOURCE' && <button onClick={goToMapping} disabled={dataRows.length === 0} className="flex items-center gap-1.5 px-4 py-2 text-sm font-bold text-white bg-slate-900 rounded-lg hover:bg-slate-800 transition-colors shadow-sm disabled:opacity-40 disabled:cursor-not-allowed">Map Columns <ArrowRight className="w-4 h-4"/></button>}
+      {step === 'MAP' && <button onClick={() => setStep('REVIEW')} disabled={missingRequired.length > 0} className="flex items-center gap-1.5 px-4 py-2 text-sm font-bold text-white bg-slate-900 rounded-lg hover:bg-slate-800 transition-colors shadow-sm disabled:opacity-40 disabled:cursor-not-allowed">Validate Rows <ArrowRight className="w-4 h-4"/></button>}
+      {step === 'REVIEW' && <button onClick={handleImport} disabled={accepted.length === 0} className="flex items-center gap-1.5 px-4 py-2 text-sm font-bold text-white bg-slate-900 rounded-lg hover:bg-slate-800 transition-colors shadow-sm disabled:opacity-40 disabled:cursor-not-allowed"><CheckCircle className="w-4 h-4"/> Import {accepted.length} Row{accepted.length === 1 ? '' : 's'}</button>}
+    </>
+  );
+
+  return (
+    <Modal wide onClose={onClose} footer={footer} title={<><FileUp className="w-5 h-5 text-gold-600"/> Import Invoices</>}>
+      {step === 'SOURCE' && (
+        <div className="space-y-4">
+          <p className="text-sm text-slate-500">Choose a CSV file, or copy the rows from a spreadsheet and paste them below. The first row must hold the column headers.</p>
+          <label className="flex items-center justify-center gap-2 px-4 py-2.5 text-sm font-bold text-slate-700 bg-white border border-slate-200 rounded-lg hover:bg-slate-50 transition-colors cursor-pointer">
+            <FileUp className="w-4 h-4"/> Choose CSV File
+            <input type="file" accept=".csv,.tsv,.txt,text/csv" className="hidden" onChange={(e) => { const file = e.target.files?.[0]; e.target.value = ''; if (file) handleFile(file); }} />
+          </label>
+          <textarea
+            value={text}
+            onChange={(e) => setText(e.target.value)}
+            placeholder={'Date,Type,Party,Qty,Rate,GST\n01-04-2021,Purchase,Acme Refinery,100,4650,3'}
+            className="w-full h-48 p-3 font-mono text-xs bg-slate-50 border border-slate-200 rounded-lg focus:outline-none focus:ring-2 focus:ring-gold-500/20 focus:border-gold-500"
+          />
+          {dataRows.length > 0 && <p className="text-xs text-slate-500">{dataRows.length} data row{dataRows.length === 1 ? '' : 's'} across {headers.length} columns detected.</p>}
+        </div>
+      )}
+
+      {step === 'MAP' && (
+        <div className="space-y-4">
+          <p className="text-sm text-slate-500">Match each invoice field to a column. Dates may be DD-MM-YYYY, DD/MM/YY, DD Mon YYYY or YYYY-MM-DD; types may read Purchase/Buy or Sale/Sell. GST defaults to 3% when unmapped and is split into IGST when the party's state differs from ours.</p>
+          <div className="grid grid-cols-1 md:grid-cols-2 gap-3">
+            {IMPORT_FIELDS.map(({ field, label, required }) => (
+              <label key={field} className="flex items-center justify-between gap-3 p-3 bg-slate-50 rounded-lg">
+                <span className="text-sm font-bold text-slate-700">{label}{required && <span className="text-red-500"> *</span>}</span>
+                <select
+                  value={mapping[field] ?? ''}
+                  onChange={(e) => setMapping({ ...mapping, [field]: e.target.value === '' ? undefined : Number(e.target.value) })}
+                  className="w-44 px-2 py-1.5 text-sm bg-white border border-slate-200 rounded-lg focus:outline-none focus:border-gold-500"
+                >
+                  <option value="">— Not mapped —</option>
+                  {headers.map((h, i) => <option key={i} value={i}>{h || `Column ${i + 1}`}</option>)}
+                </select>
+              </label>
+            ))}
+          </div>
+          <div className="overflow-x-auto">
+            <table className="w-full text-xs text-left">
+              <thead className="text-slate-500 bg-slate-50/50">
+                <tr>{headers.map((h, i) => <th key={i} className="px-3 py-2">{h}</th>)}</tr>
+              </thead>
+              <tbody>
+                {dataRows.slice(0, 5).map((r, i) => (
+                  <tr key={i} className="border-b border-slate-50">{headers.map((_, j) => <td key={j} className="px-3 py-2 font-mono text-slate-600">{r[j]}</td>)}</tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        </div>
+      )}
+
+      {step === 'REVIEW' && (
+        <div className="space-y-4">
+          <div className="flex flex-wrap gap-2 text-xs font-bold">
+            {(Object.keys(STATUS_STYLES) as ImportRowStatus[]).map(status => (
+              <span key={status} className={`px-2 py-1 rounded ${STATUS_STYLES[status]}`}>{status}: {rows.filter(r => r.status === status).length}</span>
+            ))}
+          </div>
+          <p className="text-sm text-slate-500">Only <span className="font-bold text-slate-900">READY</span> rows are imported. They are replayed with the existing ledger in date order, so later sales may be re-costed.</p>
+          <div className="overflow-x-auto">
+            <table className="w-full text-sm text-left">
+              <thead className="text-slate-500 bg-slate-50/50">
+                <tr>
+                  <th className="px-3 py-2">Row</th>
+                  <th className="px-3 py-2">Status</th>
+                  <th className="px-3 py-2">Date</th>
+                  <th className="px-3 py-2">Type</th>
+                  <th className="px-3 py-2">Party</th>
+                  <th className="px-3 py-2 text-right">Qty</th>
+                  <th className="px-3 py-2 text-right">Total</th>
+                  <th className="px-3 py-2">Issues</th>
+                </tr>
+              </thead>
+              <tbody>
+                {rows.map(r => (
+                  <tr key={r.rowNumber} className="border-b border-slate-50">
+                    <td className="px-3 py-2 font-mono text-xs text-slate-400">{r.rowNumber}</td>
+                    <td className="px-3 py-2"><span className={`px-2 py-0.5 rounded text-[10px] font-bold ${STATUS_STYLES[r.status]}`}>{r.status}</span></td>
+                    <td className="px-3 py-2 font-mono text-xs text-slate-500">{r.invoice?.date || '-'}</td>
+                    <td className="px-3 py-2 text-xs text-slate-600">{r.invoice?.type || '-'}</td>
+                    <td className="px-3 py-2 font-medium text-slate-800">{r.invoice?.partyName || '-'}</td>
+                    <td className="px-3 py-2 text-right font-mono text-slate-600">{r.invoice ? formatGrams(r.invoice.quantityGrams) : '-'}</td>
+                    <td className="px-3 py-2 text-right font-mono text-slate-600">{r.invoice ? formatCurrency(r.invoice.totalAmount) : '-'}</td>
+                    <td className="px-3 py-2 text-xs text-red-600">{r.issues.join('; ')}</td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        </div>
+      )}
+    </Modal>
+  );
+};
+
+export default ImportWizardModal;
@@ -1,32 +1,78 @@
 
-import React, { useState } from 'react';
+import React, { useState, useEffect } from 'react';
 import { GoogleGenAI, Type } from "@google/genai";
-import { Invoice, TransactionType } from '../types';
-import { generateId, parseInvoiceOCR } from '../utils';
-import { CheckCircle, AlertTriangle, ScanLine, Calculator, RefreshCw, ArrowRightLeft, Lock, Loader2, Sparkles, X } from 'lucide-react';
+import { Invoice, InventoryBatch, TransactionType, CostingMethod, Metal, Party, PaymentMode, ComplianceFlag } from '../types';
+import { generateId, parseInvoiceOCR, formatCurrency, formatGrams, METAL_LABELS, PURITY_PRESETS, toFineGrams } from '../utils';
+import { poolKey } from '../services/ledgerEngine';
+import { isValidGstin, isValidPan, panOfGstin, isInterState, splitGst, stateCodeOf, GST_STATES } from '../services/gstService';
+import { PAYMENT_MODE_LABELS } from '../services/complianceService';
+import { suggestParties, findPartyByName } from '../services/partyService';
+import { CheckCircle, AlertTriangle, ScanLine, Calculator, RefreshCw, ArrowRightLeft, Lock, Loader2, Sparkles, X, Pencil } from 'lucide-react';
 import { SingleDatePicker } from './SingleDatePicker';
 
 interface InvoiceFormProps {
-  onAdd: (invoice: Invoice) => void;
-  currentStock: number;
+  onAdd: (invoice: Invoice, onSaved: () => void) => void; // onSaved runs once the entry is committed, after any recost preview
+  onUpdate?: (invoice: Invoice, onSaved: () => void) => void;
+  onCancelEdit?: () => void;
+  editingInvoice?: Invoice | null;
+  stockByPool: Record<string, number>; // Grams free to sell per metal/purity pool: on hand less open unfixed deliveries
   lockDate: string | null;
+  ourState?: string; // Our GST state code, from the business GSTIN
+  costingMethod?: CostingMethod;
+  availableBatches?: InventoryBatch[]; // Open lots offered for specific identification
+  parties?: Party[]; // Registry offered as suggestions for the party name
+  checkCompliance?: (invoice: Invoice) => ComplianceFlag[]; // Blocking flags stop the entry; warnings ask first
 }
 
-const InvoiceForm: React.FC<InvoiceFormProps> = ({ onAdd, currentStock, lockDate }) => {
+const emptyForm = () => ({
+  date: new Date().toISOString().split('T')[0],
+  type: 'PURCHASE' as TransactionType,
+  partyName: '',
+  partyId: '', // Set when a registry entry is picked; cleared when the name is retyped
+  partyGstin: '',
+  partyState: '', // Empty: same state as ours
+  partyPan: '',
+  paymentMode: 'BANK' as PaymentMode,
+  metal: 'GOLD' as Metal,
+  purity: '999',
+  quantityGrams: '',
+  ratePerGram: '',
+  gstRate: '3',
+  specificBatchId: '',
+});
+
+const formFromInvoice = (inv: Invoice) => ({
+  date: inv.date,
+  type: inv.type,
+  partyName: inv.partyName,
+  partyId: inv.partyId || '',
+  partyGstin: inv.partyGstin || '',
+  partyState: inv.partyState && inv.partyState !== inv.ourState ? inv.partyState : '',
+  partyPan: inv.partyPan || '',
+  paymentMode: inv.paymentMode || 'BANK',
+  metal: inv.metal,
+  purity: inv.purity.toString(),
+  quantityGrams: inv.quantityGrams.toString(),
+  ratePerGram: inv.ratePerGram.toString(),
+  gstRate: inv.gstRate.toString(),
+  specificBatchId: inv.specificBatchId || '',
+});
+
+const InvoiceForm: React.FC<InvoiceFormProps> = ({ onAdd, onUpdate, onCancelEdit, editingInvoice, stockByPool, lockDate, ourState, costingMethod = 'FIFO', availableBatches = [], parties = [], checkCompliance }) => {
   const [mode, setMode] = useState<'MANUAL' | 'UPLOAD'>('MANUAL');
   const [ocrText, setOcrText] = useState('');
   const [isProcessing, setIsProcessing] = useState(false);
   
-  const [formData, setFormData] = useState({
-    date: new Date().toISOString().split('T')[0],
-    type: 'PURCHASE' as TransactionType,
-    partyName: '',
-    quantityGrams: '',
-    ratePerGram: '',
-    gstRate: '3',
-  });
+  const [formData, setFormData] = useState(() => editingInvoice ? formFromInvoice(editingInvoice) : emptyForm());
 
   const [error, setError] = useState('');
+  const [showSuggestions, setShowSuggestions] = useState(false);
+
+  useEffect(() => {
+      setFormData(editingInvoice ? formFromInvoice(editingInvoice) : emptyForm());
+      setError('');
+      if (editingInvoice) setMode('MANUAL');
+  }, [editingInvoice?.id]);
 
   const getTaxableTotal = () => {
       const qty = parseFloat(formData.quantityGrams);
@@ -73,6 +119,7 @@ const InvoiceForm: React.FC<InvoiceFormProps> = ({ onAdd, currentStock, lockDate
           const data = JSON.parse(response.text || "{}");
           if (data && data.partyName) {
                setFormData({
+                  ...emptyForm(),
                   date: data.date || new Date().toISOString().split('T')[0],
                   type: (data.type as TransactionType) || 'PURCHASE',
                   partyName: data.partyName || '',
@@ -91,12 +138,14 @@ const InvoiceForm: React.FC<InvoiceFormProps> = ({ onAdd, currentStock, lockDate
                   ...formData,
                   date: result.date || formData.date,
                   partyName: result.partyName || formData.partyName,
+                  partyId: result.partyName ? '' : formData.partyId,
                   quantityGrams: result.quantity > 0 ? result.quantity.toString() : '',
                   ratePerGram: result.rate > 0 ? result.rate.toString() : '',
                   gstRate: result.gstRate ? result.gstRate.toString() : formData.gstRate,
                   type: result.isSale ? 'SALE' : 'PURCHASE'
               });
-              setMode('MANUAL'); 
+              setMode('MANUAL');
+              if (result.isInterState && ourState && !formData.partyState) setError("Scanned invoice charges IGST: pick the party's state."); 
           } else {
               setError('Could not extract data automatically. Please enter manually.');
           }
@@ -113,22 +162,70 @@ const InvoiceForm: React.FC<InvoiceFormProps> = ({ onAdd, currentStock, lockDate
   };
 
   const { taxable, gstAmt, total } = calculateTotals();
+  const partyState = formData.partyState || ourState; // Place of supply for sales
+  const interState = isInterState(partyState, ourState);
+  const gstSplit = splitGst(gstAmt, partyState, ourState);
+  const pool = { metal: formData.metal, purity: parseInt(formData.purity) };
+  const poolStock = stockByPool[poolKey(pool)] || 0;
+  const poolBatches = availableBatches.filter(b => poolKey(b) === poolKey(pool));
+  const fineGrams = toFineGrams(parseFloat(formData.quantityGrams) || 0, pool.purity || 0);
+  const purityOptions = PURITY_PRESETS[formData.metal];
+  const dateLocked = !!lockDate && formData.date <= lockDate; // Falls in a closed period
+  const suggestions = showSuggestions && !formData.partyId ? suggestParties(parties, formData.partyName) : [];
+
+  // Picking a registered party fills in its GST details
+  const pickParty = (party: Party) => {
+    const state = party.state || (party.gstin ? stateCodeOf(party.gstin) : '');
+    setFormData({ ...formData, partyName: party.name, partyId: party.id, partyGstin: party.gstin || '', partyPan: party.pan || '', partyState: state === ourState ? '' : state });
+    setShowSuggestions(false);
+  };
 
   const handleSubmit = (e: React.FormEvent) => {
     e.preventDefault();
     setError('');
-    if (lockDate && formData.date <= lockDate) { setError(`Date Locked! Cannot add before ${lockDate}.`); return; }
+    if (dateLocked) { setError(`Date Locked! Cannot add before ${lockDate}.`); return; }
     if (!formData.partyName || !formData.quantityGrams || !formData.ratePerGram) { setError('Fill all required fields.'); return; }
     const qty = parseFloat(formData.quantityGrams);
-    if (formData.type === 'SALE' && qty > currentStock) { setError(`Insufficient Inventory! Avail: ${currentStock.toFixed(3)}g`); return; }
+    // Edited sales are validated by the ledger replay, which knows the stock on the sale date.
+    const partyGstin = formData.partyGstin.trim().toUpperCase();
+    if (partyGstin && !isValidGstin(partyGstin)) { setError('GSTIN is invalid: check the format (e.g. 27AAPFU0939F1ZV) and the last character.'); return; }
+    const partyPan = formData.partyPan.trim().toUpperCase();
+    if (partyPan && !isValidPan(partyPan)) { setError('PAN must read like ABCDE1234F.'); return; }
+    if (!(pool.purity > 0 && pool.purity <= 1000)) { setError('Purity must be between 1 and 1000.'); return; }
+    if (!editingInvoice && formData.type === 'SALE' && qty > poolStock) { setError(`Insufficient ${METAL_LABELS[pool.metal]} ${pool.purity} Inventory! Avail: ${poolStock.toFixed(3)}g`); return; }
+
+    const pickLot = formData.type === 'SALE' && costingMethod === 'SPECIFIC_ID';
+    if (pickLot && !formData.specificBatchId) { setError('Pick the lot this sale is drawn from.'); return; }
 
-    onAdd({
-        id: generateId(), date: formData.date, type: formData.type, partyName: formData.partyName,
+    // Typed names that match a registry entry or alias are linked to it as well
+    const party = parties.find(p => p.id === formData.partyId) || findPartyByName(parties, formData.partyName);
+
+    const fields = {
+        date: formData.date, type: formData.type, partyName: formData.partyName, partyId: party?.id, partyGstin: partyGstin || undefined,
+        partyPan: partyPan || undefined, paymentMode: formData.paymentMode,
+        partyState: partyState || undefined, ourState: ourState || undefined,
+        metal: pool.metal, purity: pool.purity,
         quantityGrams: qty, ratePerGram: parseFloat(formData.ratePerGram), gstRate: parseFloat(formData.gstRate),
-        gstAmount: gstAmt, taxableAmount: taxable, totalAmount: total
-    });
-    setFormData({ date: new Date().toISOString().split('T')[0], type: 'PURCHASE', partyName: '', quantityGrams: '', ratePerGram: '', gstRate: '3' });
-    setOcrText('');
+        gstAmount: gstAmt, ...gstSplit, taxableAmount: taxable, totalAmount: total,
+        specificBatchId: pickLot ? formData.specificBatchId : undefined
+    };
+    const invoice: Invoice = editingInvoice
+        ? { ...editingInvoice, ...fields, cogs: undefined, profit: undefined, allocations: undefined }
+        : { id: generateId(), ...fields };
+
+    const flags = checkCompliance ? checkCompliance(invoice) : [];
+    const blocking = flags.filter(f => f.action === 'BLOCK');
+    if (blocking.length > 0) { setError(blocking.map(f => f.message).join(' ')); return; }
+    const warnings = flags.filter(f => f.action === 'WARN');
+    if (warnings.length > 0 && !window.confirm(`${warnings.map(f => f.message).join('\n')}\n\nRecord this transaction anyway?`)) return;
+
+    // The form keeps its input until the entry is committed, so cancelling a recost preview loses nothing
+    const onSaved = () => {
+      setFormData(emptyForm());
+      setOcrText('');
+    };
+    if (editingInvoice && onUpdate) onUpdate(invoice, onSaved);
+    else onAdd(invoice, onSaved);
   };
 
   const inputClass = "w-full px-4 py-2.5 bg-slate-50 border border-slate-200 rounded-xl text-sm font-medium focus:ring-2 focus:ring-gold-500/20 focus:border-gold-500 outline-none transition-all placeholder:text-slate-400 hover:border-slate-300";
@@ -140,18 +237,23 @@ const InvoiceForm: React.FC<InvoiceFormProps> = ({ onAdd, currentStock, lockDate
         <div className="px-5 py-4 border-b border-slate-50 flex justify-between items-center bg-white">
             <h2 className="font-bold text-slate-900 flex items-center gap-2">
                 <div className="p-2 bg-gradient-to-br from-gold-100 to-gold-50 text-gold-700 rounded-lg"><Calculator className="w-4 h-4"/></div>
-                <span className="hidden sm:inline">Transaction Entry</span>
-                <span className="sm:hidden">Entry</span>
+                <span className="hidden sm:inline">{editingInvoice ? 'Edit Transaction' : 'Transaction Entry'}</span>
+                <span className="sm:hidden">{editingInvoice ? 'Edit' : 'Entry'}</span>
             </h2>
+            {editingInvoice ? (
+                <button onClick={onCancelEdit} className="flex items-center gap-1 px-3 py-1.5 rounded-lg text-xs font-bold text-slate-500 hover:text-slate-900 hover:bg-slate-100 transition-all"><X className="w-3.5 h-3.5"/> Cancel</button>
+            ) : (
             <div className="flex bg-slate-100 p-1 rounded-xl scale-90 origin-right">
                 {['MANUAL', 'UPLOAD'].map(m => (
                     <button key={m} onClick={() => setMode(m as any)} className={`px-3 py-1.5 rounded-lg text-xs font-bold transition-all ${mode === m ? 'bg-white text-slate-900 shadow-sm' : 'text-slate-500 hover:text-slate-900'}`}>{m === 'MANUAL' ? 'Manual' : 'AI Scan'}</button>
                 ))}
             </div>
+            )}
         </div>
 
         <div className="p-5 flex flex-col gap-4">
             {error && <div className="p-3 bg-red-50 border border-red-100 text-red-700 text-xs rounded-xl flex items-center gap-2 animate-fade-in"><AlertTriangle className="w-4 h-4 flex-shrink-0" />{error}</div>}
+            {dateLocked && !error && <div className="p-3 bg-slate-100 border border-slate-200 text-slate-600 text-xs rounded-xl flex items-center gap-2 animate-fade-in"><Lock className="w-4 h-4 flex-shrink-0" />Books are closed up to {lockDate}. Pick a later date or reopen the period.</div>}
             
             {mode === 'UPLOAD' ? (
                 <div className="space-y-4 animate-fade-in">
@@ -184,10 +286,74 @@ const InvoiceForm: React.FC<InvoiceFormProps> = ({ onAdd, currentStock, lockDate
                             />
                         </div>
                     </div>
+                    {formData.date < new Date().toISOString().split('T')[0] && (
+                        <div className="p-2.5 bg-gold-50 border border-gold-100 text-gold-800 text-[11px] rounded-xl flex items-center gap-2"><RefreshCw className="w-3.5 h-3.5 flex-shrink-0" />Backdated entry: it is slotted in by date and any later sales are re-costed.</div>
+                    )}
 
-                    <div>
+                    <div className="relative">
                         <label className={labelClass}>{formData.type === 'PURCHASE' ? 'Supplier Name' : 'Customer Name'}</label>
-                        <input type="text" placeholder="Enter Name..." value={formData.partyName} onChange={(e) => setFormData({...formData, partyName: e.target.value})} className={inputClass} />
+                        <input type="text" placeholder="Enter Name..." value={formData.partyName} onChange={(e) => { setFormData({...formData, partyName: e.target.value, partyId: ''}); setShowSuggestions(true); }} onFocus={() => setShowSuggestions(true)} onBlur={() => setShowSuggestions(false)} className={inputClass} />
+                        {suggestions.length > 0 && (
+                            <ul className="absolute z-20 left-0 right-0 mt-1 bg-white border border-slate-200 rounded-xl shadow-lg overflow-hidden">
+                                {suggestions.map(p => (
+                                    <li key={p.id}>
+                                        <button type="button" onMouseDown={(e) => { e.preventDefault(); pickParty(p); }} className="w-full px-4 py-2 text-left text-sm hover:bg-gold-50 transition-colors">
+                                            <span className="font-medium text-slate-800">{p.name}</span>
+                                            {p.gstin && <span className="ml-2 font-mono text-[10px] text-slate-400">{p.gstin}</span>}
+                                        </button>
+                                    </li>
+                                ))}
+                            </ul>
+                        )}
+                        {formData.partyId && <p className="mt-1 text-[10px] text-green-600 flex items-center gap-1"><CheckCircle className="w-3 h-3"/> Registered party</p>}
+                    </div>
+
+                    <div>
+                        <label className={labelClass}>GSTIN <span className="normal-case font-medium text-slate-400">(optional, registered parties)</span></label>
+                        <input type="text" placeholder="e.g. 27AAPFU0939F1ZV" maxLength={15} value={formData.partyGstin} onChange={(e) => {
+                            const gstin = e.target.value.toUpperCase();
+                            const state = isValidGstin(gstin) && GST_STATES[stateCodeOf(gstin)] ? stateCodeOf(gstin) : formData.partyState;
+                            const pan = isValidGstin(gstin) && !formData.partyPan ? panOfGstin(gstin) : formData.partyPan;
+                            setFormData({...formData, partyGstin: gstin, partyPan: pan, partyState: state === ourState ? '' : state});
+                        }} className={`${inputClass} font-mono`} />
+                    </div>
+
+                    <div className="grid grid-cols-2 gap-3">
+                        <div>
+                            <label className={labelClass}>PAN</label>
+                            <input type="text" placeholder="ABCDE1234F" maxLength={10} value={formData.partyPan} onChange={(e) => setFormData({...formData, partyPan: e.target.value.toUpperCase()})} className={`${inputClass} font-mono`} />
+                        </div>
+                        <div>
+                            <label className={labelClass}>{formData.type === 'SALE' ? 'Received Via' : 'Paid Via'}</label>
+                            <select value={formData.paymentMode} onChange={(e) => setFormData({...formData, paymentMode: e.target.value as PaymentMode})} className={inputClass}>
+                                {(Object.keys(PAYMENT_MODE_LABELS) as PaymentMode[]).map(m => <option key={m} value={m}>{PAYMENT_MODE_LABELS[m]}</option>)}
+                            </select>
+                        </div>
+                    </div>
+
+                    <div>
+                        <label className={labelClass}>Party State <span className="normal-case font-medium text-slate-400">({interState ? 'inter-state: IGST' : 'intra-state: CGST + SGST'})</span></label>
+                        <select value={formData.partyState} onChange={(e) => setFormData({...formData, partyState: e.target.value})} className={inputClass}>
+                            <option value="">{ourState ? `Same as ours (${GST_STATES[ourState] || ourState})` : 'Same state'}</option>
+                            {Object.entries(GST_STATES).filter(([code]) => code !== ourState).map(([code, name]) => <option key={code} value={code}>{code} · {name}</option>)}
+                        </select>
+                        {!ourState && formData.partyState && <p className="mt-1 text-[10px] text-orange-600">Set your GSTIN on the Tax tab so inter-state supplies are taxed as IGST.</p>}
+                    </div>
+
+                    <div className="grid grid-cols-2 gap-3">
+                        <div>
+                             <label className={labelClass}>Metal</label>
+                             <select value={formData.metal} onChange={(e) => { const metal = e.target.value as Metal; setFormData({...formData, metal, purity: PURITY_PRESETS[metal][0].purity.toString(), specificBatchId: ''}); }} className={inputClass}>
+                                 {(Object.keys(METAL_LABELS) as Metal[]).map(m => <option key={m} value={m}>{METAL_LABELS[m]}</option>)}
+                             </select>
+                        </div>
+                        <div>
+                             <label className={labelClass}>Purity</label>
+                             <select value={formData.purity} onChange={(e) => setFormData({...formData, purity: e.target.value, specificBatchId: ''})} className={`${inputClass} font-mono`}>
+                                 {!purityOptions.some(p => p.purity.toString() === formData.purity) && <option value={formData.purity}>{formData.purity}</option>}
+                                 {purityOptions.map(p => <option key={p.purity} value={p.purity}>{p.label}</option>)}
+                             </select>
+                        </div>
                     </div>
 
                     <div className="grid grid-cols-3 gap-3">
@@ -205,6 +371,21 @@ const InvoiceForm: React.FC<InvoiceFormProps> = ({ onAdd, currentStock, lockDate
                         </div>
                     </div>
                     
+                    {formData.type === 'SALE' && costingMethod === 'SPECIFIC_ID' && (
+                        <div>
+                            <label className={labelClass}>Lot (Specific Identification)</label>
+                            <select value={formData.specificBatchId} onChange={(e) => setFormData({...formData, specificBatchId: e.target.value})} className={`${inputClass} font-mono`}>
+                                <option value="">Select lot...</option>
+                                {formData.specificBatchId && !poolBatches.some(b => b.id === formData.specificBatchId) && (
+                                    <option value={formData.specificBatchId}>Current lot ({formData.specificBatchId})</option>
+                                )}
+                                {poolBatches.map(b => (
+                                    <option key={b.id} value={b.id}>{b.date} · {formatGrams(b.remainingQuantity)} @ {formatCurrency(b.costPerGram)}</option>
+                                ))}
+                            </select>
+                        </div>
+                    )}
+
                     <div className="pt-2">
                         <label className={labelClass}>Taxable Total (Auto-Calc Rate)</label>
                         <input type="number" value={getTaxableTotal()} onChange={(e) => handleTotalChange(e.target.value)} disabled={!parseFloat(formData.quantityGrams)} className={`${inputClass} font-mono ${!parseFloat(formData.quantityGrams) ? 'bg-slate-100' : 'bg-gold-50/30 border-gold-200 text-gold-900'}`} />
@@ -213,13 +394,21 @@ const InvoiceForm: React.FC<InvoiceFormProps> = ({ onAdd, currentStock, lockDate
                     <div className="mt-4 bg-slate-900 rounded-xl p-5 text-white relative overflow-hidden shadow-lg">
                         <div className="absolute top-0 right-0 w-32 h-32 bg-gold-500/20 rounded-full blur-3xl -mr-10 -mt-10"></div>
                         <div className="relative z-10 space-y-1">
+                            <div className="flex justify-between text-xs text-slate-400"><span>Fine Weight</span><span className="font-mono text-slate-200">{formatGrams(fineGrams)}</span></div>
                             <div className="flex justify-between text-xs text-slate-400"><span>Taxable</span><span className="font-mono text-slate-200">{taxable.toLocaleString('en-IN', {style: 'currency', currency: 'INR'})}</span></div>
-                            <div className="flex justify-between text-xs text-slate-400"><span>GST</span><span className="font-mono text-slate-200">{gstAmt.toLocaleString('en-IN', {style: 'currency', currency: 'INR'})}</span></div>
+                            {interState ? (
+                                <div className="flex justify-between text-xs text-slate-400"><span>IGST</span><span className="font-mono text-slate-200">{gstSplit.igstAmount.toLocaleString('en-IN', {style: 'currency', currency: 'INR'})}</span></div>
+                            ) : (
+                                <>
+                                    <div className="flex justify-between text-xs text-slate-400"><span>CGST</span><span className="font-mono text-slate-200">{gstSplit.cgstAmount.toLocaleString('en-IN', {style: 'currency', currency: 'INR'})}</span></div>
+                                    <div className="flex justify-between text-xs text-slate-400"><span>SGST</span><span className="font-mono text-slate-200">{gstSplit.sgstAmount.toLocaleString('en-IN', {style: 'currency', currency: 'INR'})}</span></div>
+                                </>
+                            )}
                             <div className="my-2 border-t border-slate-700"></div>
                             <div className="flex justify-between items-center"><span className="font-bold text-gold-400 uppercase tracking-widest text-[10px]">Net Payable</span><span className="font-mono text-xl font-bold">{total.toLocaleString('en-IN', {style: 'currency', currency: 'INR'})}</span></div>
                         </div>
                     </div>
-                    <button type="submit" className="w-full bg-gradient-to-r from-gold-500 to-gold-600 text-white font-bold py-3.5 rounded-xl shadow-lg shadow-gold-500/20 hover:shadow-gold-500/30 hover:-translate-y-0.5 transition-all flex items-center justify-center gap-2 text-sm"><CheckCircle className="w-4 h-4" /> Confirm Transaction</button>
+                    <button type="submit" disabled={dateLocked} className="w-full disabled:opacity-50 disabled:pointer-events-none bg-gradient-to-r from-gold-500 to-gold-600 text-white font-bold py-3.5 rounded-xl shadow-lg shadow-gold-500/20 hover:shadow-gold-500/30 hover:-translate-y-0.5 transition-all flex items-center justify-center gap-2 text-sm">{editingInvoice ? <><Pencil className="w-4 h-4" /> Save &amp; Re-cost Ledger</> : <><CheckCircle className="w-4 h-4" /> Confirm Transaction</>}</button>
                 </form>
             )}
         </div>
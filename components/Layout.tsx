@@ -1,6 +1,6 @@
 
 import React from 'react';
-import { LayoutDashboard, FileText, Package, PieChart, ShieldCheck, LineChart, Users, Briefcase, Factory, Search } from 'lucide-react';
+import { LayoutDashboard, FileText, Package, PieChart, ShieldCheck, LineChart, Users, Briefcase, Factory, Search, Database, CalendarCheck, ScrollText, Receipt, Contact, ShieldAlert, Wallet, Landmark, Gem } from 'lucide-react';
 
 interface LayoutProps {
   children: React.ReactNode;
@@ -19,7 +19,16 @@ const Layout: React.FC<LayoutProps> = ({ children, activeTab, onTabChange, searc
     { id: 'price-analysis', label: 'Prices', icon: LineChart },
     { id: 'customer-insights', label: 'Customers', icon: Users },
     { id: 'supplier-insights', label: 'Suppliers', icon: Factory },
+    { id: 'parties', label: 'Parties', icon: Contact },
     { id: 'business-ledger', label: 'Ledger', icon: Briefcase },
+    { id: 'payments', label: 'Payments', icon: Wallet },
+    { id: 'cash-book', label: 'Cash & Bank', icon: Landmark },
+    { id: 'metal-account', label: 'Metal A/c', icon: Gem },
+    { id: 'tax', label: 'Tax', icon: Receipt },
+    { id: 'compliance', label: 'Compliance', icon: ShieldAlert },
+    { id: 'period-close', label: 'Close', icon: CalendarCheck },
+    { id: 'audit', label: 'Audit', icon: ScrollText },
+    { id: 'data', label: 'Data', icon: Database },
   ];
 
   const formatTitle = (id: string) => {
@@ -131,7 +140,7 @@ const Layout: React.FC<LayoutProps> = ({ children, activeTab, onTabChange, searc
                 <input
                     type="text"
                     className="block w-full pl-10 pr-3 py-2.5 border border-slate-200 rounded-xl leading-5 bg-slate-50 text-slate-900 placeholder-slate-400 focus:outline-none focus:bg-white focus:ring-2 focus:ring-gold-500/20 focus:border-gold-500 sm:text-sm transition-all shadow-inner-light"
-                    placeholder="Search customers or suppliers..."
+                    placeholder={activeTab === 'audit' ? 'Search the audit log...' : 'Search customers or suppliers...'}
                     value={searchQuery}
                     onChange={(e) => onSearch?.(e.target.value)}
                 />
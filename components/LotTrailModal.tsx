@@ -0,0 +1,84 @@
+
+import React from 'react';
+import { Invoice, InventoryBatch } from '../types';
+import { formatCurrency, formatGrams } from '../utils';
+import { Layers } from 'lucide-react';
+import Modal from './Modal';
+
+interface LotTrailModalProps {
+  invoices: Invoice[];
+  sale?: Invoice; // Show the lots a sale drew from...
+  batch?: InventoryBatch; // ...or the sales that consumed a lot
+  onClose: () => void;
+}
+
+const LotTrailModal: React.FC<LotTrailModalProps> = ({ invoices, sale, batch, onClose }) => {
+  const byId = new Map<string, Invoice>(invoices.map(inv => [inv.id, inv]));
+
+  const rows = sale
+    ? (sale.allocations || []).map(a => {
+        const purchase = byId.get(a.batchId);
+        return { key: a.batchId, date: purchase?.date || '-', party: purchase?.partyName || a.batchId, grams: a.grams, costPerGram: a.costPerGram, salePrice: sale.ratePerGram };
+      })
+    : invoices
+        .filter(inv => inv.type === 'SALE' && !inv.voidedAt)
+        .flatMap(inv => (inv.allocations || []).filter(a => a.batchId === batch?.id).map(a => ({ key: inv.id, date: inv.date, party: inv.partyName, grams: a.grams, costPerGram: a.costPerGram, salePrice: inv.ratePerGram })))
+        .sort((a, b) => new Date(a.date).getTime() - new Date(b.date).getTime());
+
+  const totalGrams = rows.reduce((acc, r) => acc + r.grams, 0);
+  const totalCost = rows.reduce((acc, r) => acc + r.grams * r.costPerGram, 0);
+  const totalMargin = rows.reduce((acc, r) => acc + r.grams * (r.salePrice - r.costPerGram), 0);
+  const source = batch ? byId.get(batch.id) : undefined;
+
+  return (
+    <Modal wide onClose={onClose} title={<><Layers className="w-5 h-5 text-gold-600"/> {sale ? 'Lots Consumed by Sale' : 'Sales Drawn from Lot'}</>}>
+      <div className="grid grid-cols-2 md:grid-cols-4 gap-4 mb-6 text-sm">
+        <div><p className="text-[10px] font-bold uppercase text-slate-400 mb-1">{sale ? 'Customer' : 'Supplier'}</p><p className="font-bold text-slate-900">{sale ? sale.partyName : source?.partyName || '-'}</p></div>
+        <div><p className="text-[10px] font-bold uppercase text-slate-400 mb-1">Date</p><p className="font-mono text-slate-700">{sale ? sale.date : batch?.date}</p></div>
+        <div><p className="text-[10px] font-bold uppercase text-slate-400 mb-1">{sale ? 'Sold' : 'Lot Size'}</p><p className="font-mono text-slate-700">{formatGrams(sale ? sale.quantityGrams : batch?.originalQuantity || 0)}</p></div>
+        <div><p className="text-[10px] font-bold uppercase text-slate-400 mb-1">{sale ? 'COGS' : 'Remaining'}</p><p className="font-mono text-slate-700">{sale ? formatCurrency(sale.cogs || 0) : formatGrams(batch?.remainingQuantity || 0)}</p></div>
+      </div>
+      <div className="overflow-x-auto">
+        <table className="w-full text-sm text-left">
+          <thead className="text-slate-500 bg-slate-50/50">
+            <tr>
+              <th className="px-4 py-3">{sale ? 'Lot Date' : 'Sale Date'}</th>
+              <th className="px-4 py-3">{sale ? 'Supplier' : 'Customer'}</th>
+              <th className="px-4 py-3 text-right">Grams</th>
+              <th className="px-4 py-3 text-right">Cost/g</th>
+              <th className="px-4 py-3 text-right">Sale Rate/g</th>
+              <th className="px-4 py-3 text-right">Margin</th>
+            </tr>
+          </thead>
+          <tbody>
+            {rows.length === 0 ? (
+              <tr><td colSpan={6} className="text-center py-8 text-slate-400">{sale ? 'No lot allocations recorded for this sale.' : 'No sales have drawn from this lot yet.'}</td></tr>
+            ) : rows.map((r, i) => (
+              <tr key={`${r.key}-${i}`} className="border-b border-slate-50 hover:bg-slate-50">
+                <td className="px-4 py-3 font-mono text-xs text-slate-500">{r.date}</td>
+                <td className="px-4 py-3 font-medium text-slate-800">{r.party}</td>
+                <td className="px-4 py-3 text-right font-mono text-slate-700">{formatGrams(r.grams)}</td>
+                <td className="px-4 py-3 text-right font-mono text-slate-500">{formatCurrency(r.costPerGram)}</td>
+                <td className="px-4 py-3 text-right font-mono text-slate-500">{formatCurrency(r.salePrice)}</td>
+                <td className={`px-4 py-3 text-right font-mono font-bold ${r.salePrice >= r.costPerGram ? 'text-green-600' : 'text-red-600'}`}>{formatCurrency(r.grams * (r.salePrice - r.costPerGram))}</td>
+              </tr>
+            ))}
+          </tbody>
+          {rows.length > 0 && (
+            <tfoot>
+              <tr className="font-bold text-slate-900">
+                <td className="px-4 py-3" colSpan={2}>Total</td>
+                <td className="px-4 py-3 text-right font-mono">{formatGrams(totalGrams)}</td>
+                <td className="px-4 py-3 text-right font-mono">{formatCurrency(totalGrams > 0 ? totalCost / totalGrams : 0)}</td>
+                <td className="px-4 py-3"></td>
+                <td className="px-4 py-3 text-right font-mono text-green-600">{formatCurrency(totalMargin)}</td>
+              </tr>
+            </tfoot>
+          )}
+        </table>
+      </div>
+    </Modal>
+  );
+};
+
+export default LotTrailModal;
@@ -0,0 +1,103 @@
+
+import React, { useState } from 'react';
+import { MarketRate, Metal, StockPool } from '../types';
+import { rateOn } from '../services/marketRateService';
+import { formatCurrency, formatPool, METAL_LABELS, PURITY_PRESETS } from '../utils';
+import { Card } from './Shared';
+import { CandlestickChart, Upload, RefreshCw, Plus } from 'lucide-react';
+
+interface MarketRatesCardProps {
+  rates: MarketRate[];
+  pools: StockPool[]; // Stock on hand; each gets its latest rate shown
+  providerLabel: string;
+  onSave: (rate: MarketRate) => void;
+  onImport: (file: File) => void;
+  onFetch: () => void;
+}
+
+const MarketRatesCard: React.FC<MarketRatesCardProps> = ({ rates, pools, providerLabel, onSave, onImport, onFetch }) => {
+  const today = new Date().toISOString().split('T')[0];
+  const [date, setDate] = useState(today);
+  const [metal, setMetal] = useState<Metal>('GOLD');
+  const [purity, setPurity] = useState(PURITY_PRESETS.GOLD[0].purity.toString());
+  const [rate, setRate] = useState('');
+  const recent = [...rates].reverse().slice(0, 8);
+
+  const handleSave = () => {
+    const ratePerGram = parseFloat(rate);
+    if (!(ratePerGram > 0)) return;
+    onSave({ date, metal, purity: parseInt(purity), ratePerGram, source: 'MANUAL' });
+    setRate('');
+  };
+
+  const inputClass = "px-3 py-2 text-sm bg-slate-50 border border-slate-200 rounded-lg focus:outline-none focus:ring-2 focus:ring-gold-500/20 focus:border-gold-500";
+
+  return (
+    <Card title={<><CandlestickChart className="w-5 h-5 text-gold-600"/> Market Rates</>} action={
+      <div className="flex gap-2">
+        <button onClick={onFetch} title={providerLabel} className="flex items-center gap-1.5 px-3 py-2 text-xs font-bold text-slate-600 bg-white border border-slate-200 rounded-lg hover:bg-slate-50 transition-colors"><RefreshCw className="w-3.5 h-3.5"/> Fetch Today</button>
+        <label className="flex items-center gap-1.5 px-3 py-2 text-xs font-bold text-slate-600 bg-white border border-slate-200 rounded-lg hover:bg-slate-50 transition-colors cursor-pointer">
+          <Upload className="w-3.5 h-3.5"/> Import CSV
+          <input type="file" accept=".csv,.txt" className="hidden" onChange={(e) => { const file = e.target.files?.[0]; e.target.value = ''; if (file) onImport(file); }} />
+        </label>
+      </div>
+    }>
+      <div className="flex flex-wrap gap-2 items-end mb-6">
+        <input type="date" value={date} onChange={(e) => setDate(e.target.value)} className={inputClass} />
+        <select value={metal} onChange={(e) => { const m = e.target.value as Metal; setMetal(m); setPurity(PURITY_PRESETS[m][0].purity.toString()); }} className={inputClass}>
+          {(Object.keys(METAL_LABELS) as Metal[]).map(m => <option key={m} value={m}>{METAL_LABELS[m]}</option>)}
+        </select>
+        <select value={purity} onChange={(e) => setPurity(e.target.value)} className={inputClass}>
+          {PURITY_PRESETS[metal].map(p => <option key={p.purity} value={p.purity}>{p.label}</option>)}
+        </select>
+        <input type="number" min="0" step="0.01" value={rate} onChange={(e) => setRate(e.target.value)} onKeyDown={(e) => { if (e.key === 'Enter') handleSave(); }} placeholder="Rate (₹/g)" className={`${inputClass} w-32 font-mono`} />
+        <button onClick={handleSave} disabled={!(parseFloat(rate) > 0)} className="flex items-center gap-1.5 px-4 py-2 text-sm font-bold text-white bg-slate-900 rounded-lg hover:bg-slate-800 transition-colors shadow-sm disabled:opacity-40"><Plus className="w-4 h-4"/> Save Rate</button>
+      </div>
+
+      <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
+        <div>
+          <h4 className="text-xs font-bold text-slate-500 uppercase mb-2">Stock on Hand</h4>
+          {pools.length === 0 ? (
+            <p className="text-sm text-slate-400 italic">No stock to value.</p>
+          ) : (
+            <table className="w-full text-sm text-left">
+              <tbody>
+                {pools.map(pool => {
+                  const quote = rateOn(rates, pool.metal, pool.purity, today);
+                  return (
+                    <tr key={pool.key} className="border-b border-slate-50">
+                      <td className="py-2 font-medium text-slate-700">{formatPool(pool.metal, pool.purity)}</td>
+                      <td className="py-2 text-right font-mono text-slate-900">{quote ? formatCurrency(quote.ratePerGram) : <span className="text-amber-600 text-xs font-bold">No rate</span>}</td>
+                      <td className="py-2 pl-3 text-right text-[10px] text-slate-400">{quote ? `${quote.date}${quote.derived ? ' · scaled' : ''}` : ''}</td>
+                    </tr>
+                  );
+                })}
+              </tbody>
+            </table>
+          )}
+        </div>
+        <div>
+          <h4 className="text-xs font-bold text-slate-500 uppercase mb-2">Latest Entries</h4>
+          {recent.length === 0 ? (
+            <p className="text-sm text-slate-400 italic">No rates recorded yet.</p>
+          ) : (
+            <table className="w-full text-sm text-left">
+              <tbody>
+                {recent.map(r => (
+                  <tr key={`${r.date}|${r.metal}|${r.purity}`} className="border-b border-slate-50">
+                    <td className="py-2 font-mono text-xs text-slate-500">{r.date}</td>
+                    <td className="py-2 text-slate-700">{formatPool(r.metal, r.purity)}</td>
+                    <td className="py-2 text-right font-mono text-slate-900">{formatCurrency(r.ratePerGram)}</td>
+                    <td className="py-2 pl-3 text-right text-[10px] font-bold uppercase text-slate-400">{r.source}</td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          )}
+        </div>
+      </div>
+    </Card>
+  );
+};
+
+export default MarketRatesCard;
@@ -0,0 +1,126 @@
+
+import React, { useState } from 'react';
+import { Metal, MetalMovement, MetalMovementKind, Party } from '../types';
+import { METAL_MOVEMENT_LABELS, validateMovement } from '../services/metalAccountService';
+import { findPartyByName } from '../services/partyService';
+import { poolKey } from '../services/ledgerEngine';
+import { generateId, METAL_LABELS, PURITY_PRESETS, toFineGrams } from '../utils';
+import { Gem, AlertTriangle, CheckCircle } from 'lucide-react';
+import Modal from './Modal';
+
+interface MetalMovementModalProps {
+  parties: Party[];
+  partyNames: string[]; // Every known party, registered or not, offered as suggestions
+  stockByPool: Record<string, number>; // Grams free to deliver per pool, open unfixed deliveries already deducted
+  lockDate: string | null;
+  onSave: (movement: MetalMovement) => void;
+  onCancel: () => void;
+}
+
+const MetalMovementModal: React.FC<MetalMovementModalProps> = ({ parties, partyNames, stockByPool, lockDate, onSave, onCancel }) => {
+  const [kind, setKind] = useState<MetalMovementKind>('UNFIXED_IN');
+  const [date, setDate] = useState(new Date().toISOString().split('T')[0]);
+  const [partyName, setPartyName] = useState('');
+  const [metal, setMetal] = useState<Metal>('GOLD');
+  const [purity, setPurity] = useState(PURITY_PRESETS.GOLD[0].purity.toString());
+  const [grams, setGrams] = useState('');
+  const [wastage, setWastage] = useState('');
+  const [note, setNote] = useState('');
+  const [issues, setIssues] = useState<string[]>([]);
+
+  const handleSave = () => {
+    if (lockDate && date <= lockDate) { setIssues([`Books are closed up to ${lockDate}. Pick a later date.`]); return; }
+    const party = findPartyByName(parties, partyName);
+    const movement: MetalMovement = {
+      id: generateId(),
+      date,
+      kind,
+      partyName: partyName.trim(),
+      partyId: party?.id,
+      metal,
+      purity: parseInt(purity) || 0,
+      grams: parseFloat(grams) || 0,
+      wastagePercent: kind === 'RECEIPT' && parseFloat(wastage) ? parseFloat(wastage) : undefined,
+      note: note.trim() || undefined,
+      fixings: [],
+      createdAt: new Date().toISOString()
+    };
+    const problems = validateMovement(movement);
+    const available = stockByPool[poolKey(movement)] || 0;
+    if (kind === 'UNFIXED_OUT' && movement.grams > available + 0.0005) problems.push(`Only ${available.toFixed(3)} g of ${METAL_LABELS[metal]} ${movement.purity} is free to deliver.`);
+    setIssues(problems);
+    if (problems.length === 0) onSave(movement);
+  };
+
+  const inputClass = "w-full px-3 py-2 text-sm bg-slate-50 border border-slate-200 rounded-lg focus:outline-none focus:ring-2 focus:ring-gold-500/20 focus:border-gold-500";
+  const labelClass = "block text-xs font-bold text-slate-500 uppercase mb-1";
+  const fine = toFineGrams(parseFloat(grams) || 0, parseInt(purity) || 0);
+
+  return (
+    <Modal
+      title={<><Gem className="w-5 h-5 text-gold-600"/> Record Metal Movement</>}
+      onClose={onCancel}
+      footer={
+        <>
+          <button onClick={onCancel} className="px-4 py-2 text-sm font-bold text-slate-600 bg-white border border-slate-200 rounded-lg hover:bg-slate-50 transition-colors">Cancel</button>
+          <button onClick={handleSave} className="flex items-center gap-1.5 px-4 py-2 text-sm font-bold text-white bg-slate-900 rounded-lg hover:bg-slate-800 transition-colors shadow-sm"><CheckCircle className="w-4 h-4"/> Save Movement</button>
+        </>
+      }
+    >
+      {issues.length > 0 && (
+        <div className="mb-4 p-3 bg-red-50 border border-red-100 text-red-700 text-xs rounded-lg space-y-1">
+          {issues.map(issue => <p key={issue} className="flex items-center gap-2"><AlertTriangle className="w-3.5 h-3.5 flex-shrink-0"/>{issue}</p>)}
+        </div>
+      )}
+      <div className="grid grid-cols-2 gap-4">
+        <div className="col-span-2">
+          <label className={labelClass}>Movement</label>
+          <select value={kind} onChange={(e) => setKind(e.target.value as MetalMovementKind)} className={inputClass}>
+            {(Object.keys(METAL_MOVEMENT_LABELS) as MetalMovementKind[]).map(k => <option key={k} value={k}>{METAL_MOVEMENT_LABELS[k].label}</option>)}
+          </select>
+          <p className="mt-1 text-xs text-slate-400">{METAL_MOVEMENT_LABELS[kind].hint}</p>
+        </div>
+        <div>
+          <label className={labelClass}>Date</label>
+          <input type="date" value={date} onChange={(e) => setDate(e.target.value)} className={inputClass} />
+        </div>
+        <div>
+          <label className={labelClass}>Party</label>
+          <input list="metal-movement-parties" value={partyName} onChange={(e) => setPartyName(e.target.value)} className={inputClass} />
+          <datalist id="metal-movement-parties">
+            {partyNames.map(name => <option key={name} value={name} />)}
+          </datalist>
+        </div>
+        <div>
+          <label className={labelClass}>Metal</label>
+          <select value={metal} onChange={(e) => { const m = e.target.value as Metal; setMetal(m); setPurity(PURITY_PRESETS[m][0].purity.toString()); }} className={inputClass}>
+            {(Object.keys(METAL_LABELS) as Metal[]).map(m => <option key={m} value={m}>{METAL_LABELS[m]}</option>)}
+          </select>
+        </div>
+        <div>
+          <label className={labelClass}>Purity</label>
+          <select value={purity} onChange={(e) => setPurity(e.target.value)} className={inputClass}>
+            {PURITY_PRESETS[metal].map(p => <option key={p.purity} value={p.purity}>{p.label}</option>)}
+          </select>
+        </div>
+        <div>
+          <label className={labelClass}>Gross Weight (g)</label>
+          <input type="number" min="0" step="0.001" value={grams} onChange={(e) => setGrams(e.target.value)} className={`${inputClass} font-mono`} />
+          {fine > 0 && <p className="mt-1 text-xs text-slate-400">{fine.toFixed(3)} g fine</p>}
+        </div>
+        {kind === 'RECEIPT' && (
+          <div>
+            <label className={labelClass}>Wastage Allowance (%)</label>
+            <input type="number" min="0" step="0.01" value={wastage} onChange={(e) => setWastage(e.target.value)} placeholder="0" className={`${inputClass} font-mono`} />
+          </div>
+        )}
+        <div className="col-span-2">
+          <label className={labelClass}>Note</label>
+          <input value={note} onChange={(e) => setNote(e.target.value)} placeholder="e.g. 22K bangles, lot 14" className={inputClass} />
+        </div>
+      </div>
+    </Modal>
+  );
+};
+
+export default MetalMovementModal;
@@ -0,0 +1,39 @@
+
+import React, { useEffect } from 'react';
+import { createPortal } from 'react-dom';
+import { X } from 'lucide-react';
+
+interface ModalProps {
+  title: React.ReactNode;
+  onClose: () => void;
+  children: React.ReactNode;
+  footer?: React.ReactNode;
+  wide?: boolean;
+}
+
+const Modal: React.FC<ModalProps> = ({ title, onClose, children, footer, wide = false }) => {
+  useEffect(() => {
+    const handleKey = (e: KeyboardEvent) => { if (e.key === 'Escape') onClose(); };
+    document.addEventListener('keydown', handleKey);
+    return () => document.removeEventListener('keydown', handleKey);
+  }, [onClose]);
+
+  return createPortal(
+    <div className="fixed inset-0 z-[9998] flex items-center justify-center p-4 bg-slate-950/40 backdrop-blur-sm animate-in fade-in duration-200" onMouseDown={onClose}>
+      <div
+        className={`bg-white rounded-2xl shadow-2xl border border-slate-100 w-full ${wide ? 'max-w-4xl' : 'max-w-xl'} max-h-[90vh] flex flex-col overflow-hidden animate-in zoom-in-95 duration-200`}
+        onMouseDown={(e) => e.stopPropagation()}
+      >
+        <div className="px-6 py-4 border-b border-slate-50 flex justify-between items-center">
+          <h3 className="font-bold text-slate-800 text-lg flex items-center gap-2">{title}</h3>
+          <button onClick={onClose} className="p-1.5 rounded-lg text-slate-400 hover:text-slate-900 hover:bg-slate-100 transition-colors"><X className="w-5 h-5"/></button>
+        </div>
+        <div className="p-6 overflow-auto flex-1">{children}</div>
+        {footer && <div className="px-6 py-4 border-t border-slate-50 bg-slate-50/50 flex justify-end gap-2">{footer}</div>}
+      </div>
+    </div>,
+    document.body
+  );
+};
+
+export default Modal;
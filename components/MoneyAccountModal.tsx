@@ -0,0 +1,74 @@
+
+import React, { useState } from 'react';
+import { MoneyAccount } from '../types';
+import { Landmark, AlertTriangle, CheckCircle } from 'lucide-react';
+import Modal from './Modal';
+
+interface MoneyAccountModalProps {
+  account: MoneyAccount;
+  isNew: boolean;
+  lockDate: string | null;
+  onSave: (account: MoneyAccount) => void;
+  onCancel: () => void;
+}
+
+const MoneyAccountModal: React.FC<MoneyAccountModalProps> = ({ account, isNew, lockDate, onSave, onCancel }) => {
+  const [name, setName] = useState(account.name);
+  const [kind, setKind] = useState(account.kind);
+  const [openingBalance, setOpeningBalance] = useState(account.openingBalance.toString());
+  const [openingDate, setOpeningDate] = useState(account.openingDate);
+  const [error, setError] = useState('');
+  // The opening balance feeds every closing after it, so it is fixed once a closed period covers it
+  const openingLocked = !isNew && !!lockDate && account.openingDate <= lockDate;
+
+  const handleSave = () => {
+    const balance = parseFloat(openingBalance);
+    if (!name.trim()) { setError('Name is required.'); return; }
+    if (isNaN(balance)) { setError('Opening balance must be a number.'); return; }
+    if (!openingDate) { setError('Pick the opening date.'); return; }
+    if (!openingLocked && lockDate && openingDate <= lockDate) { setError(`Books are closed up to ${lockDate}. Open the account after that.`); return; }
+    onSave({ ...account, name: name.trim(), kind, openingBalance: openingLocked ? account.openingBalance : balance, openingDate: openingLocked ? account.openingDate : openingDate });
+  };
+
+  const inputClass = "w-full px-3 py-2 text-sm bg-slate-50 border border-slate-200 rounded-lg focus:outline-none focus:ring-2 focus:ring-gold-500/20 focus:border-gold-500 disabled:opacity-50";
+  const labelClass = "block text-xs font-bold text-slate-500 uppercase mb-1";
+
+  return (
+    <Modal
+      title={<><Landmark className="w-5 h-5 text-gold-600"/> {isNew ? 'New Account' : `Edit ${account.name}`}</>}
+      onClose={onCancel}
+      footer={
+        <>
+          <button onClick={onCancel} className="px-4 py-2 text-sm font-bold text-slate-600 bg-white border border-slate-200 rounded-lg hover:bg-slate-50 transition-colors">Cancel</button>
+          <button onClick={handleSave} className="flex items-center gap-1.5 px-4 py-2 text-sm font-bold text-white bg-slate-900 rounded-lg hover:bg-slate-800 transition-colors shadow-sm"><CheckCircle className="w-4 h-4"/> Save Account</button>
+        </>
+      }
+    >
+      {error && <div className="mb-4 p-3 bg-red-50 border border-red-100 text-red-700 text-xs rounded-lg flex items-center gap-2"><AlertTriangle className="w-3.5 h-3.5 flex-shrink-0"/>{error}</div>}
+      <div className="grid grid-cols-2 gap-4">
+        <div className="col-span-2">
+          <label className={labelClass}>Name</label>
+          <input value={name} onChange={(e) => setName(e.target.value)} placeholder="e.g. HDFC Current A/c" className={inputClass} />
+        </div>
+        <div className="col-span-2">
+          <label className={labelClass}>Kind</label>
+          <select value={kind} onChange={(e) => setKind(e.target.value as MoneyAccount['kind'])} className={inputClass}>
+            <option value="CASH">Cash</option>
+            <option value="BANK">Bank</option>
+          </select>
+        </div>
+        <div>
+          <label className={labelClass}>Opening Balance (INR)</label>
+          <input type="number" step="0.01" value={openingBalance} onChange={(e) => setOpeningBalance(e.target.value)} disabled={openingLocked} className={`${inputClass} font-mono`} />
+        </div>
+        <div>
+          <label className={labelClass}>As At</label>
+          <input type="date" value={openingDate} onChange={(e) => setOpeningDate(e.target.value)} disabled={openingLocked} className={inputClass} />
+        </div>
+      </div>
+      {openingLocked && <p className="mt-3 text-xs text-slate-500">The opening balance falls in a closed period and can no longer change.</p>}
+    </Modal>
+  );
+};
+
+export default MoneyAccountModal;
@@ -0,0 +1,101 @@
+
+import React, { useMemo, useState } from 'react';
+import { CostingMethod, Invoice, MarketRate } from '../types';
+import { lastYearEnd, lowerOfCostOrNrv, NrvReport } from '../services/nrvService';
+import { COSTING_METHOD_LABELS, formatCurrency, formatGrams, formatPool } from '../utils';
+import { Card, ExportMenu } from './Shared';
+import { Scale, AlertTriangle } from 'lucide-react';
+
+interface NrvValuationCardProps {
+  invoices: Invoice[];
+  rates: MarketRate[];
+  method: CostingMethod;
+  onExport: (report: NrvReport, type: 'CSV' | 'PDF') => void;
+}
+
+const NrvValuationCard: React.FC<NrvValuationCardProps> = ({ invoices, rates, method, onExport }) => {
+  const [closingDate, setClosingDate] = useState(() => lastYearEnd(new Date().toISOString().split('T')[0]));
+  const [sellingCost, setSellingCost] = useState('0');
+  const report = useMemo(
+    () => lowerOfCostOrNrv(invoices, rates, closingDate, method, Math.max(0, parseFloat(sellingCost) || 0)),
+    [invoices, rates, closingDate, method, sellingCost]
+  );
+
+  const inputClass = "px-3 py-2 text-sm bg-slate-50 border border-slate-200 rounded-lg focus:outline-none focus:ring-2 focus:ring-gold-500/20 focus:border-gold-500";
+  const labelClass = "block text-xs font-bold text-slate-500 uppercase mb-1";
+
+  return (
+    <Card title={<><Scale className="w-5 h-5 text-gold-600"/> Year-End Valuation (Lower of Cost or NRV)</>} action={
+      <ExportMenu onExport={(type) => onExport(report, type)} />
+    }>
+      <div className="flex flex-wrap gap-4 items-end mb-6">
+        <div>
+          <label className={labelClass}>Closing Date</label>
+          <input type="date" value={closingDate} onChange={(e) => e.target.value && setClosingDate(e.target.value)} className={inputClass} />
+        </div>
+        <div>
+          <label className={labelClass}>Selling Costs (%)</label>
+          <input type="number" min="0" step="0.01" value={sellingCost} onChange={(e) => setSellingCost(e.target.value)} className={`${inputClass} w-28 font-mono`} />
+        </div>
+        <p className="text-xs text-slate-400 pb-2">Cost under {COSTING_METHOD_LABELS[method]}; NRV is the market rate on the closing date less selling costs.</p>
+      </div>
+
+      <div className="grid grid-cols-2 md:grid-cols-4 gap-4 mb-6">
+        {[
+          { label: 'Cost', value: formatCurrency(report.cost) },
+          { label: 'Net Realisable Value', value: formatCurrency(report.nrv) },
+          { label: 'Write-Down', value: formatCurrency(report.writeDown), warn: report.writeDown > 0 },
+          { label: 'Closing Stock', value: formatCurrency(report.carryingValue) }
+        ].map(stat => (
+          <div key={stat.label} className="p-3 bg-slate-50 rounded-lg">
+            <p className="text-xs font-bold text-slate-500 uppercase">{stat.label}</p>
+            <p className={`font-mono font-bold ${stat.warn ? 'text-red-600' : 'text-slate-900'}`}>{stat.value}</p>
+          </div>
+        ))}
+      </div>
+
+      {report.unpriced > 0 && (
+        <p className="mb-4 flex items-center gap-2 text-xs font-bold text-amber-600"><AlertTriangle className="w-3.5 h-3.5"/> {report.unpriced} batch{report.unpriced > 1 ? 'es have' : ' has'} no market rate on or before {closingDate} and {report.unpriced > 1 ? 'are' : 'is'} carried at cost.</p>
+      )}
+
+      {report.lines.length === 0 ? (
+        <p className="text-sm text-slate-400 italic">No stock on hand on {closingDate}.</p>
+      ) : (
+        <div className="overflow-x-auto">
+          <table className="w-full text-sm text-left">
+            <thead className="text-slate-500 bg-slate-50/50">
+              <tr>
+                <th className="px-4 py-3">Batch</th>
+                <th className="px-4 py-3">Pool</th>
+                <th className="px-4 py-3 text-right">Remaining</th>
+                <th className="px-4 py-3 text-right">Cost</th>
+                <th className="px-4 py-3 text-right">NRV</th>
+                <th className="px-4 py-3 text-right">Write-Down</th>
+                <th className="px-4 py-3 text-right">Carried At</th>
+              </tr>
+            </thead>
+            <tbody>
+              {report.lines.map(line => (
+                <tr key={line.batch.id} className="border-b border-slate-50">
+                  <td className="px-4 py-3"><p className="font-mono text-xs text-slate-700">{line.batch.id}</p><p className="font-mono text-xs text-slate-400">{line.batch.date}</p></td>
+                  <td className="px-4 py-3 text-slate-700">{formatPool(line.batch.metal, line.batch.purity)}</td>
+                  <td className="px-4 py-3 text-right font-mono text-slate-900">{formatGrams(line.grams)}</td>
+                  <td className="px-4 py-3 text-right font-mono"><p className="text-slate-900">{formatCurrency(line.cost)}</p><p className="text-xs text-slate-400">{formatCurrency(line.costPerGram)}/g</p></td>
+                  <td className="px-4 py-3 text-right font-mono">
+                    {line.rate ? (
+                      <><p className="text-slate-900">{formatCurrency(line.nrv!)}</p><p className="text-xs text-slate-400">{formatCurrency(line.nrvPerGram!)}/g · {line.rate.date}{line.rate.derived ? ' · scaled' : ''}</p></>
+                    ) : <span className="text-amber-600 text-xs font-bold">No rate</span>}
+                  </td>
+                  <td className={`px-4 py-3 text-right font-mono ${line.writeDown > 0 ? 'font-bold text-red-600' : 'text-slate-400'}`}>{line.writeDown > 0 ? formatCurrency(line.writeDown) : '-'}</td>
+                  <td className="px-4 py-3 text-right font-mono font-bold text-slate-900">{formatCurrency(line.carryingValue)}</td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+      )}
+    </Card>
+  );
+};
+
+export default NrvValuationCard;
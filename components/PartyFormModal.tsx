@@ -0,0 +1,118 @@
+
+import React, { useState } from 'react';
+import { Party, KycStatus } from '../types';
+import { validateParty, KYC_STATUS_LABELS } from '../services/partyService';
+import { GST_STATES, isValidGstin, panOfGstin, stateCodeOf } from '../services/gstService';
+import { Contact, AlertTriangle, CheckCircle } from 'lucide-react';
+import Modal from './Modal';
+
+interface PartyFormModalProps {
+  party: Party;
+  parties: Party[];
+  onSave: (party: Party) => void;
+  onCancel: () => void;
+}
+
+const PartyFormModal: React.FC<PartyFormModalProps> = ({ party, parties, onSave, onCancel }) => {
+  const [draft, setDraft] = useState<Party>(party);
+  const [aliasText, setAliasText] = useState(party.aliases.join('\n'));
+  const [issues, setIssues] = useState<string[]>([]);
+  const isNew = !parties.some(p => p.id === party.id);
+
+  const set = (fields: Partial<Party>) => setDraft(prev => ({ ...prev, ...fields }));
+
+  // A valid GSTIN fills in the PAN and state it embeds
+  const handleGstin = (value: string) => {
+    const gstin = value.toUpperCase().trim();
+    if (isValidGstin(gstin)) set({ gstin, pan: draft.pan || panOfGstin(gstin), state: draft.state || stateCodeOf(gstin) });
+    else set({ gstin });
+  };
+
+  const handleSave = () => {
+    const clean = (v?: string) => v && v.trim() ? v.trim() : undefined;
+    const next: Party = {
+      ...draft,
+      name: draft.name.trim(),
+      aliases: Array.from(new Set(aliasText.split('\n').map(a => a.trim()).filter(a => a && a !== draft.name.trim()))),
+      gstin: clean(draft.gstin)?.toUpperCase(),
+      pan: clean(draft.pan)?.toUpperCase(),
+      state: clean(draft.state),
+      address: clean(draft.address),
+      phone: clean(draft.phone),
+      email: clean(draft.email),
+      kycUpdatedAt: draft.kycStatus !== party.kycStatus ? new Date().toISOString() : draft.kycUpdatedAt
+    };
+    const problems = validateParty(next, parties);
+    setIssues(problems);
+    if (problems.length === 0) onSave(next);
+  };
+
+  const inputClass = "w-full px-3 py-2 text-sm bg-slate-50 border border-slate-200 rounded-lg focus:outline-none focus:ring-2 focus:ring-gold-500/20 focus:border-gold-500";
+  const labelClass = "block text-xs font-bold text-slate-500 uppercase mb-1";
+
+  return (
+    <Modal
+      wide
+      title={<><Contact className="w-5 h-5 text-gold-600"/> {isNew ? 'New Party' : `Edit ${party.name}`}</>}
+      onClose={onCancel}
+      footer={
+        <>
+          <button onClick={onCancel} className="px-4 py-2 text-sm font-bold text-slate-600 bg-white border border-slate-200 rounded-lg hover:bg-slate-50 transition-colors">Cancel</button>
+          <button onClick={handleSave} className="flex items-center gap-1.5 px-4 py-2 text-sm font-bold text-white bg-slate-900 rounded-lg hover:bg-slate-800 transition-colors shadow-sm"><CheckCircle className="w-4 h-4"/> Save Party</button>
+        </>
+      }
+    >
+      {issues.length > 0 && (
+        <div className="mb-4 p-3 bg-red-50 border border-red-100 text-red-700 text-xs rounded-lg space-y-1">
+          {issues.map(issue => <p key={issue} className="flex items-center gap-2"><AlertTriangle className="w-3.5 h-3.5 flex-shrink-0"/>{issue}</p>)}
+        </div>
+      )}
+      <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+        <div className="md:col-span-2">
+          <label className={labelClass}>Name <span className="text-red-500">*</span></label>
+          <input value={draft.name} onChange={(e) => set({ name: e.target.value })} className={inputClass} />
+        </div>
+        <div>
+          <label className={labelClass}>GSTIN</label>
+          <input value={draft.gstin || ''} onChange={(e) => handleGstin(e.target.value)} maxLength={15} placeholder="27AAPFU0939F1ZV" className={`${inputClass} font-mono uppercase`} />
+          {draft.gstin && draft.gstin.length === 15 && <p className={`mt-1 text-[10px] font-bold ${isValidGstin(draft.gstin) ? 'text-green-600' : 'text-red-600'}`}>{isValidGstin(draft.gstin) ? 'Check digit verified' : 'Check digit does not match'}</p>}
+        </div>
+        <div>
+          <label className={labelClass}>PAN</label>
+          <input value={draft.pan || ''} onChange={(e) => set({ pan: e.target.value.toUpperCase() })} maxLength={10} placeholder="AAPFU0939F" className={`${inputClass} font-mono uppercase`} />
+        </div>
+        <div>
+          <label className={labelClass}>State</label>
+          <select value={draft.state || ''} onChange={(e) => set({ state: e.target.value || undefined })} className={inputClass}>
+            <option value="">Not set</option>
+            {Object.entries(GST_STATES).map(([code, name]) => <option key={code} value={code}>{code} · {name}</option>)}
+          </select>
+        </div>
+        <div>
+          <label className={labelClass}>KYC Status</label>
+          <select value={draft.kycStatus} onChange={(e) => set({ kycStatus: e.target.value as KycStatus })} className={inputClass}>
+            {(Object.keys(KYC_STATUS_LABELS) as KycStatus[]).map(k => <option key={k} value={k}>{KYC_STATUS_LABELS[k]}</option>)}
+          </select>
+        </div>
+        <div>
+          <label className={labelClass}>Phone</label>
+          <input value={draft.phone || ''} onChange={(e) => set({ phone: e.target.value })} className={inputClass} />
+        </div>
+        <div>
+          <label className={labelClass}>Email</label>
+          <input value={draft.email || ''} onChange={(e) => set({ email: e.target.value })} className={inputClass} />
+        </div>
+        <div className="md:col-span-2">
+          <label className={labelClass}>Address</label>
+          <textarea value={draft.address || ''} onChange={(e) => set({ address: e.target.value })} className={`${inputClass} h-16`} />
+        </div>
+        <div className="md:col-span-2">
+          <label className={labelClass}>Other Spellings <span className="normal-case font-medium text-slate-400">(one per line; invoices under these names count as this party)</span></label>
+          <textarea value={aliasText} onChange={(e) => setAliasText(e.target.value)} className={`${inputClass} h-16 font-mono text-xs`} />
+        </div>
+      </div>
+    </Modal>
+  );
+};
+
+export default PartyFormModal;
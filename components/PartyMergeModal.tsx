@@ -0,0 +1,87 @@
+
+import React, { useState, useMemo } from 'react';
+import { Invoice, Party } from '../types';
+import { groupNameVariants, NameVariantGroup } from '../services/partyService';
+import { GitMerge, CheckCircle } from 'lucide-react';
+import Modal from './Modal';
+
+interface PartyMergeModalProps {
+  invoices: Invoice[];
+  parties: Party[];
+  onRegister: (groups: NameVariantGroup[]) => void;
+  onCancel: () => void;
+}
+
+const PartyMergeModal: React.FC<PartyMergeModalProps> = ({ invoices, parties, onRegister, onCancel }) => {
+  const groups = useMemo(() => groupNameVariants(invoices, parties), [invoices, parties]);
+  const [skipped, setSkipped] = useState<Set<string>>(new Set());
+  const [primary, setPrimary] = useState<Record<string, string>>({}); // Group key -> chosen spelling
+
+  const selected = groups.filter(g => !skipped.has(g.key));
+  const toggle = (key: string) => setSkipped(prev => {
+    const next = new Set(prev);
+    if (next.has(key)) next.delete(key); else next.add(key);
+    return next;
+  });
+
+  // The chosen spelling goes first; it becomes the party name
+  const handleRegister = () => onRegister(selected.map(g => {
+    const name = primary[g.key];
+    return name ? { ...g, variants: [...g.variants.filter(v => v.name === name), ...g.variants.filter(v => v.name !== name)] } : g;
+  }));
+
+  return (
+    <Modal
+      wide
+      title={<><GitMerge className="w-5 h-5 text-gold-600"/> Register Parties from Invoices</>}
+      onClose={onCancel}
+      footer={
+        <>
+          <button onClick={onCancel} className="px-4 py-2 text-sm font-bold text-slate-600 bg-white border border-slate-200 rounded-lg hover:bg-slate-50 transition-colors">Cancel</button>
+          <button onClick={handleRegister} disabled={selected.length === 0} className="flex items-center gap-1.5 px-4 py-2 text-sm font-bold text-white bg-slate-900 rounded-lg hover:bg-slate-800 transition-colors shadow-sm disabled:opacity-40 disabled:cursor-not-allowed"><CheckCircle className="w-4 h-4"/> Register {selected.length} Part{selected.length === 1 ? 'y' : 'ies'}</button>
+        </>
+      }
+    >
+      <p className="text-sm text-slate-500 mb-4">
+        Names that differ only in case, spacing, punctuation or a leading "M/s" are grouped. Each group becomes one party, with the other spellings kept as aliases so past invoices count towards it. Invoices themselves are not changed.
+      </p>
+      {groups.length === 0 ? (
+        <p className="text-sm text-slate-400 italic">Every party name on the invoices is already registered.</p>
+      ) : (
+        <div className="overflow-x-auto">
+          <table className="w-full text-sm text-left">
+            <thead className="text-slate-500 bg-slate-50/50">
+              <tr>
+                <th className="px-4 py-3"></th>
+                <th className="px-4 py-3">Register As</th>
+                <th className="px-4 py-3">Spellings on Invoices</th>
+              </tr>
+            </thead>
+            <tbody>
+              {groups.map(g => (
+                <tr key={g.key} className={`border-b border-slate-50 align-top ${skipped.has(g.key) ? 'opacity-40' : ''}`}>
+                  <td className="px-4 py-3"><input type="checkbox" checked={!skipped.has(g.key)} onChange={() => toggle(g.key)} className="accent-gold-600" /></td>
+                  <td className="px-4 py-3">
+                    {g.party ? (
+                      <p className="font-medium text-slate-800">{g.party.name} <span className="ml-1 px-2 py-0.5 rounded text-[10px] font-bold bg-blue-50 text-blue-700">EXISTING</span></p>
+                    ) : (
+                      <select value={primary[g.key] || g.variants[0].name} onChange={(e) => setPrimary({ ...primary, [g.key]: e.target.value })} className="px-2 py-1.5 text-sm bg-white border border-slate-200 rounded-lg focus:outline-none focus:border-gold-500">
+                        {g.variants.map(v => <option key={v.name} value={v.name}>{v.name}</option>)}
+                      </select>
+                    )}
+                    {g.gstin && <p className="mt-1 font-mono text-xs text-slate-400">{g.gstin}</p>}
+                  </td>
+                  <td className="px-4 py-3 text-xs text-slate-600">
+                    {g.variants.map(v => <p key={v.name}><span className="font-mono">"{v.name}"</span> <span className="text-slate-400">× {v.count}</span></p>)}
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+      )}
+    </Modal>
+  );
+};
+
+export default PartyMergeModal;
@@ -0,0 +1,172 @@
+
+import React, { useState } from 'react';
+import { Invoice, Payment, Party, PaymentMode, MoneyAccount } from '../types';
+import { openInvoices, allocateOldestFirst, validatePayment } from '../services/paymentService';
+import { PAYMENT_MODE_LABELS } from '../services/complianceService';
+import { formatCurrency, generateId } from '../utils';
+import { Wallet, AlertTriangle, CheckCircle } from 'lucide-react';
+import Modal from './Modal';
+
+interface PaymentModalProps {
+  invoices: Invoice[];
+  payments: Payment[];
+  resolve: (entry: Pick<Invoice, 'partyName' | 'partyId'>) => { key: string; name: string; party?: Party };
+  partyOptions: { key: string; name: string; party?: Party }[];
+  accounts?: MoneyAccount[];
+  initialPartyKey?: string;
+  initialDirection?: Payment['direction'];
+  lockDate: string | null;
+  onSave: (payment: Payment) => void;
+  onCancel: () => void;
+}
+
+const PaymentModal: React.FC<PaymentModalProps> = ({ invoices, payments, resolve, partyOptions, accounts = [], initialPartyKey, initialDirection = 'RECEIVED', lockDate, onSave, onCancel }) => {
+  const [partyKey, setPartyKey] = useState(initialPartyKey || '');
+  const [direction, setDirection] = useState<Payment['direction']>(initialDirection);
+  const [date, setDate] = useState(new Date().toISOString().split('T')[0]);
+  const [amount, setAmount] = useState('');
+  const [mode, setMode] = useState<PaymentMode>('BANK');
+  const [reference, setReference] = useState('');
+  const [accountId, setAccountId] = useState(''); // Empty posts to the default account for the mode
+  const [allocations, setAllocations] = useState<Record<string, string>>({}); // Invoice id -> amount typed
+  const [issues, setIssues] = useState<string[]>([]);
+
+  const open = partyKey
+    ? openInvoices(invoices, payments, resolve, partyKey).filter(row => (row.invoice.type === 'SALE') === (direction === 'RECEIVED'))
+    : [];
+  const allocated = open.reduce((acc, row) => acc + (parseFloat(allocations[row.invoice.id]) || 0), 0);
+  const total = parseFloat(amount) || 0;
+
+  const autoAllocate = () => {
+    setAllocations(Object.fromEntries(allocateOldestFirst(total, open).map(a => [a.invoiceId, a.amount.toString()])));
+  };
+
+  const handleSave = () => {
+    const option = partyOptions.find(o => o.key === partyKey);
+    if (lockDate && date <= lockDate) { setIssues([`Books are closed up to ${lockDate}. Pick a later date.`]); return; }
+    const payment: Payment = {
+      id: generateId(),
+      date,
+      direction,
+      partyName: option?.name || '',
+      partyId: option?.party?.id,
+      amount: total,
+      mode,
+      reference: reference.trim() || undefined,
+      accountId: accountId || undefined,
+      allocations: open
+        .map(row => ({ invoiceId: row.invoice.id, amount: parseFloat(allocations[row.invoice.id]) || 0 }))
+        .filter(a => a.amount > 0),
+      createdAt: new Date().toISOString()
+    };
+    const problems = validatePayment(payment, invoices, payments);
+    setIssues(problems);
+    if (problems.length === 0) onSave(payment);
+  };
+
+  const inputClass = "w-full px-3 py-2 text-sm bg-slate-50 border border-slate-200 rounded-lg focus:outline-none focus:ring-2 focus:ring-gold-500/20 focus:border-gold-500";
+  const labelClass = "block text-xs font-bold text-slate-500 uppercase mb-1";
+
+  return (
+    <Modal
+      wide
+      title={<><Wallet className="w-5 h-5 text-gold-600"/> Record Payment</>}
+      onClose={onCancel}
+      footer={
+        <>
+          <button onClick={onCancel} className="px-4 py-2 text-sm font-bold text-slate-600 bg-white border border-slate-200 rounded-lg hover:bg-slate-50 transition-colors">Cancel</button>
+          <button onClick={handleSave} className="flex items-center gap-1.5 px-4 py-2 text-sm font-bold text-white bg-slate-900 rounded-lg hover:bg-slate-800 transition-colors shadow-sm"><CheckCircle className="w-4 h-4"/> Save Payment</button>
+        </>
+      }
+    >
+      {issues.length > 0 && (
+        <div className="mb-4 p-3 bg-red-50 border border-red-100 text-red-700 text-xs rounded-lg space-y-1">
+          {issues.map(issue => <p key={issue} className="flex items-center gap-2"><AlertTriangle className="w-3.5 h-3.5 flex-shrink-0"/>{issue}</p>)}
+        </div>
+      )}
+      <div className="grid grid-cols-1 md:grid-cols-3 gap-4 mb-6">
+        <div className="md:col-span-2">
+          <label className={labelClass}>Party</label>
+          <select value={partyKey} onChange={(e) => { setPartyKey(e.target.value); setAllocations({}); }} className={inputClass}>
+            <option value="">Select a party…</option>
+            {partyOptions.map(o => <option key={o.key} value={o.key}>{o.name}</option>)}
+          </select>
+        </div>
+        <div>
+          <label className={labelClass}>Direction</label>
+          <select value={direction} onChange={(e) => { setDirection(e.target.value as Payment['direction']); setAllocations({}); }} className={inputClass}>
+            <option value="RECEIVED">Received from party</option>
+            <option value="PAID">Paid to party</option>
+          </select>
+        </div>
+        <div>
+          <label className={labelClass}>Date</label>
+          <input type="date" value={date} onChange={(e) => setDate(e.target.value)} className={inputClass} />
+        </div>
+        <div>
+          <label className={labelClass}>Amount (INR)</label>
+          <input type="number" min="0" step="0.01" value={amount} onChange={(e) => setAmount(e.target.value)} className={`${inputClass} font-mono`} />
+        </div>
+        <div>
+          <label className={labelClass}>Mode</label>
+          <select value={mode} onChange={(e) => setMode(e.target.value as PaymentMode)} className={inputClass}>
+            {(Object.keys(PAYMENT_MODE_LABELS) as PaymentMode[]).map(m => <option key={m} value={m}>{PAYMENT_MODE_LABELS[m]}</option>)}
+          </select>
+        </div>
+        <div className={accounts.length > 0 ? 'md:col-span-2' : 'md:col-span-3'}>
+          <label className={labelClass}>Reference <span className="normal-case font-medium text-slate-400">(cheque no., UTR or UPI id)</span></label>
+          <input value={reference} onChange={(e) => setReference(e.target.value)} className={inputClass} />
+        </div>
+        {accounts.length > 0 && (
+          <div>
+            <label className={labelClass}>Cash / Bank Account</label>
+            <select value={accountId} onChange={(e) => setAccountId(e.target.value)} className={inputClass}>
+              <option value="">Default for mode</option>
+              {accounts.map(a => <option key={a.id} value={a.id}>{a.name}</option>)}
+            </select>
+          </div>
+        )}
+      </div>
+
+      <div className="flex justify-between items-center mb-2">
+        <h4 className="text-sm font-bold text-slate-800">Settles Invoices</h4>
+        <button onClick={autoAllocate} disabled={!total || open.length === 0} className="px-3 py-1.5 text-xs font-bold text-slate-600 bg-white border border-slate-200 rounded-lg hover:bg-slate-50 transition-colors disabled:opacity-40 disabled:cursor-not-allowed">Oldest First</button>
+      </div>
+      {!partyKey ? (
+        <p className="text-sm text-slate-400 italic">Pick a party to see its open invoices.</p>
+      ) : open.length === 0 ? (
+        <p className="text-sm text-slate-400 italic">No open {direction === 'RECEIVED' ? 'sales' : 'purchases'}. The payment will stand as an advance.</p>
+      ) : (
+        <table className="w-full text-sm text-left">
+          <thead className="text-slate-500 bg-slate-50/50">
+            <tr>
+              <th className="px-3 py-2">Invoice</th>
+              <th className="px-3 py-2 text-right">Total</th>
+              <th className="px-3 py-2 text-right">Outstanding</th>
+              <th className="px-3 py-2 text-right">Allocate</th>
+            </tr>
+          </thead>
+          <tbody>
+            {open.map(row => (
+              <tr key={row.invoice.id} className="border-b border-slate-50">
+                <td className="px-3 py-2"><p className="font-mono text-xs text-slate-600">{row.invoice.date}</p><p className="text-[10px] text-slate-400">{row.invoice.invoiceNumber || row.invoice.id}</p></td>
+                <td className="px-3 py-2 text-right font-mono text-slate-500">{formatCurrency(row.invoice.totalAmount)}</td>
+                <td className="px-3 py-2 text-right font-mono text-slate-900">{formatCurrency(row.outstanding)}</td>
+                <td className="px-3 py-2 text-right">
+                  <input type="number" min="0" step="0.01" value={allocations[row.invoice.id] || ''} onChange={(e) => setAllocations({ ...allocations, [row.invoice.id]: e.target.value })} className="w-32 px-2 py-1.5 text-xs font-mono text-right bg-white border border-slate-200 rounded-lg focus:outline-none focus:border-gold-500" />
+                </td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      )}
+      {total > 0 && (
+        <p className={`mt-3 text-xs font-bold text-right ${allocated > total + 0.005 ? 'text-red-600' : 'text-slate-500'}`}>
+          Allocated {formatCurrency(allocated)} of {formatCurrency(total)}{allocated < total - 0.005 ? ` · ${formatCurrency(total - allocated)} on account` : ''}
+        </p>
+      )}
+    </Modal>
+  );
+};
+
+export default PaymentModal;
@@ -0,0 +1,123 @@
+
+import React, { useState, useMemo } from 'react';
+import { Invoice, PeriodClose, ClosePeriodKind, CostingMethod } from '../types';
+import { closablePeriods, createPeriodClose, deriveLockDate } from '../services/periodCloseService';
+import { formatCurrency, formatGrams, formatPool, COSTING_METHOD_LABELS } from '../utils';
+import { CalendarCheck, Lock } from 'lucide-react';
+import Modal from './Modal';
+
+interface PeriodCloseModalProps {
+  invoices: Invoice[];
+  closes: PeriodClose[];
+  costingMethod: CostingMethod;
+  operatorName: string;
+  onConfirm: (close: PeriodClose) => void;
+  onCancel: () => void;
+}
+
+const PeriodCloseModal: React.FC<PeriodCloseModalProps> = ({ invoices, closes, costingMethod, operatorName, onConfirm, onCancel }) => {
+  const [kind, setKind] = useState<ClosePeriodKind>('MONTH');
+  const [closedBy, setClosedBy] = useState(operatorName);
+  const lockDate = deriveLockDate(closes);
+  const today = new Date().toISOString().split('T')[0];
+  const earliest = invoices.filter(inv => !inv.voidedAt).map(inv => inv.date).sort()[0];
+  const options = useMemo(() => closablePeriods(kind, lockDate, today, earliest), [kind, lockDate, today, earliest]);
+  const [periodEnd, setPeriodEnd] = useState('');
+  const selected = options.find(o => o.periodEnd === periodEnd) || options[0];
+
+  const preview = useMemo(() => selected ? createPeriodClose({
+    invoices, closes, kind, label: selected.label, periodEnd: selected.periodEnd, closedBy: closedBy.trim(), method: costingMethod
+  }) : null, [invoices, closes, kind, selected, closedBy, costingMethod]);
+
+  const inputClass = "w-full px-3 py-2 text-sm bg-slate-50 border border-slate-200 rounded-lg focus:outline-none focus:ring-2 focus:ring-gold-500/20 focus:border-gold-500";
+
+  return (
+    <Modal
+      wide
+      title={<><CalendarCheck className="w-5 h-5 text-gold-600"/> Close Period</>}
+      onClose={onCancel}
+      footer={
+        <>
+          <button onClick={onCancel} className="px-4 py-2 text-sm font-bold text-slate-600 bg-white border border-slate-200 rounded-lg hover:bg-slate-50 transition-colors">Cancel</button>
+          <button onClick={() => preview && onConfirm(preview)} disabled={!preview || !closedBy.trim()} className="flex items-center gap-1.5 px-4 py-2 text-sm font-bold text-white bg-slate-900 rounded-lg hover:bg-slate-800 transition-colors shadow-sm disabled:opacity-40 disabled:cursor-not-allowed"><Lock className="w-4 h-4"/> Close {selected?.label || 'Period'}</button>
+        </>
+      }
+    >
+      <div className="grid grid-cols-1 md:grid-cols-3 gap-3 mb-4">
+        <label className="space-y-1">
+          <span className="text-xs font-bold text-slate-500 uppercase">Period</span>
+          <div className="flex bg-slate-100 p-1 rounded-lg">
+            {(['MONTH', 'QUARTER'] as ClosePeriodKind[]).map(k => (
+              <button key={k} onClick={() => { setKind(k); setPeriodEnd(''); }} className={`flex-1 py-1.5 text-xs font-bold rounded-md transition-colors ${kind === k ? 'bg-white text-slate-900 shadow-sm' : 'text-slate-500'}`}>{k === 'MONTH' ? 'Month' : 'Quarter'}</button>
+            ))}
+          </div>
+        </label>
+        <label className="space-y-1">
+          <span className="text-xs font-bold text-slate-500 uppercase">Ending</span>
+          <select value={selected?.periodEnd || ''} onChange={(e) => setPeriodEnd(e.target.value)} disabled={options.length === 0} className={inputClass}>
+            {options.length === 0 && <option value="">No period to close</option>}
+            {options.map(o => <option key={o.periodEnd} value={o.periodEnd}>{o.label} (to {o.periodEnd})</option>)}
+          </select>
+        </label>
+        <label className="space-y-1">
+          <span className="text-xs font-bold text-slate-500 uppercase">Closed By</span>
+          <input value={closedBy} onChange={(e) => setClosedBy(e.target.value)} placeholder="Your name" className={inputClass} />
+        </label>
+      </div>
+
+      {!preview ? (
+        <p className="text-sm text-slate-400 italic">Every finished {kind === 'MONTH' ? 'month' : 'quarter'} is already closed{lockDate ? ` (books locked up to ${lockDate})` : ''}.</p>
+      ) : (
+        <>
+          <p className="text-sm text-slate-500 mb-4">
+            Closing locks every entry up to <span className="font-mono font-bold text-slate-900">{preview.periodEnd}</span> and freezes the figures below, costed by {COSTING_METHOD_LABELS[costingMethod]}.
+            Undo history is cleared; the period can only be reopened with a recorded reason.
+          </p>
+          <div className="grid grid-cols-2 md:grid-cols-4 gap-3 mb-4">
+            {[
+              { label: `Sales ${preview.periodStart} → ${preview.periodEnd}`, value: `${preview.frozen.salesCount} · ${formatGrams(preview.frozen.gramsSold)}` },
+              { label: 'Taxable Sales', value: formatCurrency(preview.frozen.taxableSales) },
+              { label: 'Cost of Sales', value: formatCurrency(preview.frozen.cogs) },
+              { label: 'Profit', value: formatCurrency(preview.frozen.profit) },
+            ].map(s => (
+              <div key={s.label} className="p-3 bg-slate-50 rounded-lg">
+                <p className="text-[10px] font-bold text-slate-400 uppercase">{s.label}</p>
+                <p className="font-mono font-bold text-slate-900">{s.value}</p>
+              </div>
+            ))}
+          </div>
+          <div className="overflow-x-auto">
+            <table className="w-full text-sm text-left">
+              <thead className="text-slate-500 bg-slate-50/50">
+                <tr>
+                  <th className="px-4 py-3">Closing Stock</th>
+                  <th className="px-4 py-3 text-right">Grams</th>
+                  <th className="px-4 py-3 text-right">Fine Wt</th>
+                  <th className="px-4 py-3 text-right">Value</th>
+                </tr>
+              </thead>
+              <tbody>
+                {preview.closingStock.pools.map(p => (
+                  <tr key={p.key} className="border-b border-slate-50">
+                    <td className="px-4 py-3 font-medium text-slate-700">{formatPool(p.metal, p.purity)}</td>
+                    <td className="px-4 py-3 text-right font-mono text-slate-600">{formatGrams(p.grams)}</td>
+                    <td className="px-4 py-3 text-right font-mono text-slate-600">{formatGrams(p.fineGrams)}</td>
+                    <td className="px-4 py-3 text-right font-mono text-slate-900">{formatCurrency(p.value)}</td>
+                  </tr>
+                ))}
+                <tr className="font-bold">
+                  <td className="px-4 py-3 text-slate-900">{preview.closingStock.batches.length} open lot{preview.closingStock.batches.length === 1 ? '' : 's'}</td>
+                  <td className="px-4 py-3 text-right font-mono text-slate-900">{formatGrams(preview.closingStock.grams)}</td>
+                  <td className="px-4 py-3 text-right font-mono text-slate-900">{formatGrams(preview.closingStock.fineGrams)}</td>
+                  <td className="px-4 py-3 text-right font-mono text-slate-900">{formatCurrency(preview.closingStock.value)}</td>
+                </tr>
+              </tbody>
+            </table>
+          </div>
+        </>
+      )}
+    </Modal>
+  );
+};
+
+export default PeriodCloseModal;
@@ -0,0 +1,85 @@
+
+import React, { useState } from 'react';
+import { Invoice, MetalMovement, PriceFixing } from '../types';
+import { unfixedGrams, validateFixing } from '../services/metalAccountService';
+import { formatCurrency, formatPool } from '../utils';
+import { Lock, AlertTriangle, CheckCircle } from 'lucide-react';
+import Modal from './Modal';
+
+interface PriceFixingModalProps {
+  movement: MetalMovement;
+  invoices: Invoice[];
+  lockDate: string | null;
+  onSave: (fixing: Pick<PriceFixing, 'date' | 'grams' | 'ratePerGram'>, gstRate: number) => void;
+  onCancel: () => void;
+}
+
+const PriceFixingModal: React.FC<PriceFixingModalProps> = ({ movement, invoices, lockDate, onSave, onCancel }) => {
+  const open = unfixedGrams(movement, invoices);
+  const [date, setDate] = useState(new Date().toISOString().split('T')[0]);
+  const [grams, setGrams] = useState(open.toString());
+  const [rate, setRate] = useState('');
+  const [gstRate, setGstRate] = useState('3');
+  const [issues, setIssues] = useState<string[]>([]);
+
+  const fixing = { date, grams: parseFloat(grams) || 0, ratePerGram: parseFloat(rate) || 0 };
+  const taxable = fixing.grams * fixing.ratePerGram;
+  const isPurchase = movement.kind === 'UNFIXED_IN';
+
+  const handleSave = () => {
+    if (lockDate && date <= lockDate) { setIssues([`Books are closed up to ${lockDate}. Pick a later date.`]); return; }
+    const problems = validateFixing(movement, fixing, invoices);
+    setIssues(problems);
+    if (problems.length === 0) onSave(fixing, parseFloat(gstRate) || 0);
+  };
+
+  const inputClass = "w-full px-3 py-2 text-sm bg-slate-50 border border-slate-200 rounded-lg focus:outline-none focus:ring-2 focus:ring-gold-500/20 focus:border-gold-500";
+  const labelClass = "block text-xs font-bold text-slate-500 uppercase mb-1";
+
+  return (
+    <Modal
+      title={<><Lock className="w-5 h-5 text-gold-600"/> Fix Price</>}
+      onClose={onCancel}
+      footer={
+        <>
+          <button onClick={onCancel} className="px-4 py-2 text-sm font-bold text-slate-600 bg-white border border-slate-200 rounded-lg hover:bg-slate-50 transition-colors">Cancel</button>
+          <button onClick={handleSave} className="flex items-center gap-1.5 px-4 py-2 text-sm font-bold text-white bg-slate-900 rounded-lg hover:bg-slate-800 transition-colors shadow-sm"><CheckCircle className="w-4 h-4"/> Fix & Create {isPurchase ? 'Purchase' : 'Sale'}</button>
+        </>
+      }
+    >
+      {issues.length > 0 && (
+        <div className="mb-4 p-3 bg-red-50 border border-red-100 text-red-700 text-xs rounded-lg space-y-1">
+          {issues.map(issue => <p key={issue} className="flex items-center gap-2"><AlertTriangle className="w-3.5 h-3.5 flex-shrink-0"/>{issue}</p>)}
+        </div>
+      )}
+      <p className="mb-4 text-sm text-slate-600">
+        {movement.grams.toFixed(3)} g {formatPool(movement.metal, movement.purity)} {isPurchase ? 'received from' : 'delivered to'} <span className="font-bold text-slate-900">{movement.partyName}</span> on {movement.date}; <span className="font-bold">{open.toFixed(3)} g</span> still unfixed.
+      </p>
+      <div className="grid grid-cols-2 gap-4">
+        <div>
+          <label className={labelClass}>Fixing Date</label>
+          <input type="date" value={date} onChange={(e) => setDate(e.target.value)} className={inputClass} />
+        </div>
+        <div>
+          <label className={labelClass}>Weight to Fix (g)</label>
+          <input type="number" min="0" step="0.001" value={grams} onChange={(e) => setGrams(e.target.value)} className={`${inputClass} font-mono`} />
+        </div>
+        <div>
+          <label className={labelClass}>Rate per Gram (INR)</label>
+          <input type="number" min="0" step="0.01" value={rate} onChange={(e) => setRate(e.target.value)} className={`${inputClass} font-mono`} />
+        </div>
+        <div>
+          <label className={labelClass}>GST (%)</label>
+          <input type="number" min="0" step="0.01" value={gstRate} onChange={(e) => setGstRate(e.target.value)} className={`${inputClass} font-mono`} />
+        </div>
+      </div>
+      {taxable > 0 && (
+        <p className="mt-4 text-xs font-bold text-right text-slate-500">
+          {isPurchase ? 'Purchase' : 'Sale'} invoice of {formatCurrency(taxable * (1 + (parseFloat(gstRate) || 0) / 100))} incl. GST, dated {date}
+        </p>
+      )}
+    </Modal>
+  );
+};
+
+export default PriceFixingModal;
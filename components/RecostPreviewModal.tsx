@@ -0,0 +1,68 @@
+
+import React from 'react';
+import { CostingMethod } from '../types';
+import { CostingChange } from '../services/ledgerEngine';
+import { COSTING_METHOD_LABELS, formatCurrency, formatGrams } from '../utils';
+import { History, CheckCircle } from 'lucide-react';
+import Modal from './Modal';
+
+interface RecostPreviewModalProps {
+  changes: CostingChange[];
+  costingMethod: CostingMethod; // The method the ledger is replayed under
+  onConfirm: () => void;
+  onCancel: () => void;
+}
+
+const RecostPreviewModal: React.FC<RecostPreviewModalProps> = ({ changes, costingMethod, onConfirm, onCancel }) => {
+  const netDelta = changes.reduce((acc, c) => acc + (c.newProfit - c.previousProfit), 0);
+
+  return (
+    <Modal
+      wide
+      title={<><History className="w-5 h-5 text-gold-600"/> Review Re-costed Sales</>}
+      onClose={onCancel}
+      footer={
+        <>
+          <button onClick={onCancel} className="px-4 py-2 text-sm font-bold text-slate-600 bg-white border border-slate-200 rounded-lg hover:bg-slate-50 transition-colors">Cancel</button>
+          <button onClick={onConfirm} className="flex items-center gap-1.5 px-4 py-2 text-sm font-bold text-white bg-slate-900 rounded-lg hover:bg-slate-800 transition-colors shadow-sm"><CheckCircle className="w-4 h-4"/> Confirm &amp; Re-cost</button>
+        </>
+      }
+    >
+      <p className="text-sm text-slate-500 mb-4">
+        This change reaches back before sales already on record. The ledger will be replayed in date order under {COSTING_METHOD_LABELS[costingMethod]} and the profit of <span className="font-bold text-slate-900">{changes.length}</span> sale{changes.length === 1 ? '' : 's'} will change
+        by <span className={`font-mono font-bold ${netDelta >= 0 ? 'text-green-600' : 'text-red-600'}`}>{formatCurrency(netDelta)}</span> in total.
+      </p>
+      <div className="overflow-x-auto">
+        <table className="w-full text-sm text-left">
+          <thead className="text-slate-500 bg-slate-50/50">
+            <tr>
+              <th className="px-4 py-3">Date</th>
+              <th className="px-4 py-3">Customer</th>
+              <th className="px-4 py-3 text-right">Qty</th>
+              <th className="px-4 py-3 text-right">Old Profit</th>
+              <th className="px-4 py-3 text-right">New Profit</th>
+              <th className="px-4 py-3 text-right">Change</th>
+            </tr>
+          </thead>
+          <tbody>
+            {changes.map(c => {
+              const delta = c.newProfit - c.previousProfit;
+              return (
+                <tr key={c.invoice.id} className="border-b border-slate-50 hover:bg-slate-50">
+                  <td className="px-4 py-3 font-mono text-xs text-slate-500">{c.invoice.date}</td>
+                  <td className="px-4 py-3 font-medium text-slate-800">{c.invoice.partyName}</td>
+                  <td className="px-4 py-3 text-right font-mono text-slate-600">{formatGrams(c.invoice.quantityGrams)}</td>
+                  <td className="px-4 py-3 text-right font-mono text-slate-400">{formatCurrency(c.previousProfit)}</td>
+                  <td className="px-4 py-3 text-right font-mono text-slate-900">{formatCurrency(c.newProfit)}</td>
+                  <td className={`px-4 py-3 text-right font-mono font-bold ${delta >= 0 ? 'text-green-600' : 'text-red-600'}`}>{delta >= 0 ? '+' : ''}{formatCurrency(delta)}</td>
+                </tr>
+              );
+            })}
+          </tbody>
+        </table>
+      </div>
+    </Modal>
+  );
+};
+
+export default RecostPreviewModal;
@@ -0,0 +1,50 @@
+
+import React, { useState } from 'react';
+import { PeriodClose } from '../types';
+import { Unlock } from 'lucide-react';
+import Modal from './Modal';
+
+interface ReopenPeriodModalProps {
+  close: PeriodClose;
+  operatorName: string;
+  onConfirm: (reopenedBy: string, reason: string) => void;
+  onCancel: () => void;
+}
+
+const ReopenPeriodModal: React.FC<ReopenPeriodModalProps> = ({ close, operatorName, onConfirm, onCancel }) => {
+  const [reopenedBy, setReopenedBy] = useState(operatorName);
+  const [reason, setReason] = useState('');
+  const valid = reopenedBy.trim() && reason.trim();
+
+  const inputClass = "w-full px-3 py-2 text-sm bg-slate-50 border border-slate-200 rounded-lg focus:outline-none focus:ring-2 focus:ring-gold-500/20 focus:border-gold-500";
+
+  return (
+    <Modal
+      title={<><Unlock className="w-5 h-5 text-red-500"/> Reopen {close.label}</>}
+      onClose={onCancel}
+      footer={
+        <>
+          <button onClick={onCancel} className="px-4 py-2 text-sm font-bold text-slate-600 bg-white border border-slate-200 rounded-lg hover:bg-slate-50 transition-colors">Cancel</button>
+          <button onClick={() => onConfirm(reopenedBy.trim(), reason.trim())} disabled={!valid} className="flex items-center gap-1.5 px-4 py-2 text-sm font-bold text-white bg-red-600 rounded-lg hover:bg-red-700 transition-colors shadow-sm disabled:opacity-40 disabled:cursor-not-allowed"><Unlock className="w-4 h-4"/> Reopen Period</button>
+        </>
+      }
+    >
+      <p className="text-sm text-slate-500 mb-4">
+        Entries from <span className="font-mono text-slate-700">{close.periodStart}</span> to <span className="font-mono text-slate-700">{close.periodEnd}</span> become editable again.
+        The close stays on record with its frozen figures, and the reason below is kept in the audit trail.
+      </p>
+      <div className="space-y-3">
+        <label className="block space-y-1">
+          <span className="text-xs font-bold text-slate-500 uppercase">Reopened By</span>
+          <input value={reopenedBy} onChange={(e) => setReopenedBy(e.target.value)} placeholder="Your name" className={inputClass} />
+        </label>
+        <label className="block space-y-1">
+          <span className="text-xs font-bold text-slate-500 uppercase">Reason <span className="text-red-500">*</span></span>
+          <textarea value={reason} onChange={(e) => setReason(e.target.value)} placeholder="e.g. Supplier credit note for March received late" className={`${inputClass} h-24`} />
+        </label>
+      </div>
+    </Modal>
+  );
+};
+
+export default ReopenPeriodModal;
@@ -0,0 +1,83 @@
+
+import React from 'react';
+import { Invoice } from '../types';
+import { BackupArchive, summarizeLedger, planMerge } from '../services/backupService';
+import { deriveLockDate } from '../services/periodCloseService';
+import { formatCurrency, formatGrams, COSTING_METHOD_LABELS } from '../utils';
+import { ArchiveRestore, GitMerge, Replace } from 'lucide-react';
+import Modal from './Modal';
+
+interface RestoreBackupModalProps {
+  archive: BackupArchive;
+  invoices: Invoice[];
+  lockDate: string | null;
+  onReplace: () => void;
+  onMerge: () => void;
+  onCancel: () => void;
+}
+
+const RestoreBackupModal: React.FC<RestoreBackupModalProps> = ({ archive, invoices, lockDate, onReplace, onMerge, onCancel }) => {
+  const current = summarizeLedger(invoices);
+  const incoming = summarizeLedger(archive.data.invoices);
+  const merge = planMerge(invoices, archive.data.invoices, lockDate);
+  const range = (s: typeof current) => s.firstDate ? `${s.firstDate} → ${s.lastDate}` : '-';
+
+  const rows: { label: string; current: string; backup: string }[] = [
+    { label: 'Invoices', current: String(current.invoiceCount), backup: String(incoming.invoiceCount) },
+    { label: 'Purchases / Sales', current: `${current.purchaseCount} / ${current.saleCount}`, backup: `${incoming.purchaseCount} / ${incoming.saleCount}` },
+    { label: 'Date Range', current: range(current), backup: range(incoming) },
+    { label: 'Grams Bought', current: formatGrams(current.gramsPurchased), backup: formatGrams(incoming.gramsPurchased) },
+    { label: 'Grams Sold', current: formatGrams(current.gramsSold), backup: formatGrams(incoming.gramsSold) },
+    { label: 'Invoice Total', current: formatCurrency(current.totalAmount), backup: formatCurrency(incoming.totalAmount) },
+    { label: 'Realized Profit', current: formatCurrency(current.totalProfit), backup: formatCurrency(incoming.totalProfit) },
+    { label: 'Locked Up To', current: lockDate || 'None', backup: deriveLockDate(archive.data.periodCloses || []) || 'None' },
+  ];
+
+  return (
+    <Modal
+      wide
+      title={<><ArchiveRestore className="w-5 h-5 text-gold-600"/> Restore Backup</>}
+      onClose={onCancel}
+      footer={
+        <>
+          <button onClick={onCancel} className="px-4 py-2 text-sm font-bold text-slate-600 bg-white border border-slate-200 rounded-lg hover:bg-slate-50 transition-colors">Cancel</button>
+          <button onClick={onMerge} disabled={merge.added.length === 0} className="flex items-center gap-1.5 px-4 py-2 text-sm font-bold text-slate-700 bg-white border border-slate-200 rounded-lg hover:bg-slate-50 transition-colors disabled:opacity-40 disabled:cursor-not-allowed"><GitMerge className="w-4 h-4"/> Merge ({merge.added.length})</button>
+          <button onClick={onReplace} className="flex items-center gap-1.5 px-4 py-2 text-sm font-bold text-white bg-red-600 rounded-lg hover:bg-red-700 transition-colors shadow-sm"><Replace className="w-4 h-4"/> Replace All Data</button>
+        </>
+      }
+    >
+      <p className="text-sm text-slate-500 mb-4">
+        Backup created <span className="font-mono text-slate-700">{new Date(archive.createdAt).toLocaleString()}</span> with {COSTING_METHOD_LABELS[archive.data.settings.costingMethod] || archive.data.settings.costingMethod} costing. Checksum verified.
+      </p>
+      <div className="overflow-x-auto mb-4">
+        <table className="w-full text-sm text-left">
+          <thead className="text-slate-500 bg-slate-50/50">
+            <tr>
+              <th className="px-4 py-3"></th>
+              <th className="px-4 py-3 text-right">Current</th>
+              <th className="px-4 py-3 text-right">Backup</th>
+            </tr>
+          </thead>
+          <tbody>
+            {rows.map(r => (
+              <tr key={r.label} className="border-b border-slate-50">
+                <td className="px-4 py-3 font-medium text-slate-700">{r.label}</td>
+                <td className="px-4 py-3 text-right font-mono text-slate-500">{r.current}</td>
+                <td className={`px-4 py-3 text-right font-mono ${r.current !== r.backup ? 'font-bold text-slate-900' : 'text-slate-500'}`}>{r.backup}</td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      </div>
+      <div className="text-xs text-slate-500 space-y-1 bg-slate-50 rounded-xl p-4">
+        <p><span className="font-bold text-slate-700">Replace</span> discards the current ledger and restores the backup, including its period closes and costing method. Undo history is cleared.</p>
+        <p><span className="font-bold text-slate-700">Merge</span> adds {merge.added.length} invoice{merge.added.length === 1 ? '' : 's'} not already on record
+          {merge.duplicates > 0 && <>; {merge.duplicates} already present will be kept as they are</>}
+          {merge.locked > 0 && <>; {merge.locked} dated in the locked period will be skipped</>}.
+        </p>
+      </div>
+    </Modal>
+  );
+};
+
+export default RestoreBackupModal;
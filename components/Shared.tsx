@@ -0,0 +1,42 @@
+
+import React from 'react';
+import { FileSpreadsheet, FileText } from 'lucide-react';
+
+// --- Shared UI Components ---
+
+export const Card: React.FC<{ children: React.ReactNode; className?: string; title?: React.ReactNode; action?: React.ReactNode, delay?: number }> = ({ children, className = '', title, action, delay = 0 }) => (
+  <div 
+    className={`bg-white rounded-2xl border border-slate-100 shadow-card flex flex-col overflow-hidden animate-slide-up ${className}`}
+    style={{ animationDelay: `${delay}ms` }}
+  >
+    {title && (
+      <div className="px-4 md:px-6 py-4 border-b border-slate-50 flex flex-wrap justify-between items-center bg-white/50 backdrop-blur-sm sticky top-0 z-10 gap-2">
+        <h3 className="font-bold text-slate-800 text-lg flex items-center gap-2">{title}</h3>
+        {action && <div>{action}</div>}
+      </div>
+    )}
+    <div className="p-4 md:p-6 flex-1 overflow-auto">{children}</div>
+  </div>
+);
+
+export const SectionHeader: React.FC<{ title: string; subtitle?: string; action?: React.ReactNode }> = ({ title, subtitle, action }) => (
+  <div className="flex flex-col md:flex-row md:items-end justify-between gap-4 mb-6 animate-slide-up">
+    <div>
+      <h2 className="text-2xl font-bold text-slate-900 tracking-tight">{title}</h2>
+      {subtitle && <p className="text-slate-500 text-sm mt-1 font-medium">{subtitle}</p>}
+    </div>
+    {action && <div className="flex gap-2 w-full md:w-auto">{action}</div>}
+  </div>
+);
+
+export const ExportMenu: React.FC<{ onExport: (type: 'CSV' | 'PDF') => void; label?: string }> = ({ onExport, label }) => (
+    <div className="flex gap-2 items-center">
+        {label && <span className="text-[10px] font-bold uppercase tracking-wider text-slate-400">{label}</span>}
+        <button onClick={() => onExport('CSV')} className="flex items-center gap-1.5 px-3 py-2 text-xs font-bold text-slate-600 bg-white border border-slate-200 rounded-lg hover:bg-slate-50 hover:text-slate-900 transition-colors">
+            <FileSpreadsheet className="w-4 h-4" /> CSV
+        </button>
+        <button onClick={() => onExport('PDF')} className="flex items-center gap-1.5 px-3 py-2 text-xs font-bold text-white bg-slate-900 border border-slate-900 rounded-lg hover:bg-slate-800 transition-colors shadow-sm">
+            <FileText className="w-4 h-4" /> PDF
+        </button>
+    </div>
+);
@@ -6,6 +6,7 @@ export interface ToastMessage {
   id: string;
   type: 'SUCCESS' | 'ERROR';
   message: string;
+  action?: { label: string; onClick: () => void }; // e.g. "Undo"
 }
 
 interface ToastProps {
@@ -27,7 +28,7 @@ const ToastItem: React.FC<{ toast: ToastMessage; removeToast: (id: string) => vo
   useEffect(() => {
     const timer = setTimeout(() => {
       removeToast(toast.id);
-    }, 4000);
+    }, toast.action ? 6000 : 4000);
     return () => clearTimeout(timer);
   }, [toast.id, removeToast]);
 
@@ -41,6 +42,9 @@ const ToastItem: React.FC<{ toast: ToastMessage; removeToast: (id: string) => vo
     }`}>
         {isSuccess ? <CheckCircle className="w-5 h-5"/> : <AlertTriangle className="w-5 h-5"/>}
         <span className="text-sm font-medium text-slate-200">{toast.message}</span>
+        {toast.action && (
+          <button onClick={() => { toast.action!.onClick(); removeToast(toast.id); }} className="ml-2 px-2 py-1 rounded-lg text-xs font-bold uppercase tracking-wider text-gold-400 hover:bg-slate-800 transition-colors">{toast.action.label}</button>
+        )}
     </div>
   );
 };
@@ -0,0 +1,94 @@
+import { AuditEntry, AuditAction } from '../types';
+import { sha256 } from '../utils';
+
+export const AUDIT_ACTION_LABELS: Record<AuditAction, string> = {
+  CREATE: 'Created',
+  EDIT: 'Edited',
+  VOID: 'Voided',
+  IMPORT: 'Imported',
+  MERGE: 'Merged',
+  RESTORE: 'Restored',
+  RESET: 'Reset',
+  UNDO: 'Undone',
+  REDO: 'Redone',
+  PERIOD_CLOSE: 'Period Closed',
+  PERIOD_REOPEN: 'Period Reopened',
+  COSTING_METHOD: 'Costing Method',
+  PARTY: 'Party Master',
+  COMPLIANCE_RULES: 'Compliance Rules',
+  PAYMENT: 'Payment',
+  CASH_BOOK: 'Cash Book',
+  METAL_ACCOUNT: 'Metal Account',
+  GAINS_RULES: 'Gains Rules',
+};
+
+export const GENESIS_HASH = '0'.repeat(64);
+
+// What a caller records; sequence, timestamp and hashes are filled in by the log
+export interface AuditEvent {
+  action: AuditAction;
+  summary: string;
+  before?: unknown;
+  after?: unknown;
+}
+
+const hashEntry = (entry: Omit<AuditEntry, 'hash'>) =>
+  sha256(entry.prevHash + JSON.stringify([entry.seq, entry.at, entry.action, entry.summary, entry.before, entry.after]));
+
+/**
+ * Chains a new entry onto the last one in the log.
+ */
+export const buildAuditEntry = async (previous: AuditEntry | undefined, event: AuditEvent): Promise<AuditEntry> => {
+  const entry = {
+    seq: (previous?.seq || 0) + 1,
+    at: new Date().toISOString(),
+    action: event.action,
+    summary: event.summary,
+    before: event.before ?? null,
+    after: event.after ?? null,
+    prevHash: previous?.hash || GENESIS_HASH
+  };
+  return { ...entry, hash: await hashEntry(entry) };
+};
+
+/**
+ * Recomputes every hash in order. Returns the sequence number of the first entry that was
+ * altered, removed or reordered, or null when the chain is intact.
+ */
+export const verifyAuditChain = async (log: AuditEntry[]): Promise<number | null> => {
+  let prevHash = GENESIS_HASH;
+  for (let i = 0; i < log.length; i++) {
+    const { hash, ...entry } = log[i];
+    if (entry.seq !== i + 1 || entry.prevHash !== prevHash || await hashEntry(entry) !== hash) return entry.seq ?? i + 1;
+    prevHash = hash;
+  }
+  return null;
+};
+
+/**
+ * Top-level fields that differ between the before and after values, for display. Scalars
+ * compare as a single "value" field.
+ */
+export const describeAuditChanges = (entry: AuditEntry): { field: string; before: string; after: string }[] => {
+  const show = (v: unknown) => v === undefined || v === null ? '-' : typeof v === 'object' ? JSON.stringify(v) : String(v);
+  const isRecord = (v: unknown): v is Record<string, unknown> => !!v && typeof v === 'object' && !Array.isArray(v);
+  const { before, after } = entry;
+  if (!isRecord(before) && !isRecord(after)) return show(before) === show(after) ? [] : [{ field: 'value', before: show(before), after: show(after) }];
+
+  const b = isRecord(before) ? before : {};
+  const a = isRecord(after) ? after : {};
+  return Array.from(new Set([...Object.keys(b), ...Object.keys(a)]))
+    .filter(field => show(b[field]) !== show(a[field]))
+    .map(field => ({ field, before: show(b[field]), after: show(a[field]) }));
+};
+
+/**
+ * Matches entries on their summary, action and before/after values, newest first.
+ */
+export const searchAuditLog = (log: AuditEntry[], query: string, action: AuditAction | 'ALL'): AuditEntry[] => {
+  const q = query.trim().toLowerCase();
+  return log
+    .filter(e => action === 'ALL' || e.action === action)
+    .filter(e => !q || `${e.summary} ${AUDIT_ACTION_LABELS[e.action]} ${JSON.stringify(e.before)} ${JSON.stringify(e.after)}`.toLowerCase().includes(q))
+    .reverse();
+};
@@ -0,0 +1,123 @@
+import { Invoice, InventoryBatch, CostingMethod, PeriodClose, Party, Payment, MoneyAccount, CashEntry, BankStatementLine, MetalMovement, MarketRate, BusinessProfile, ComplianceRules, GainsRules } from '../types';
+import { SCHEMA_VERSION, migrateSnapshot } from './storeService';
+import { sha256 } from '../utils';
+
+export const BACKUP_FORMAT = 'bullionkeep-backup';
+export const BACKUP_VERSION = 1;
+
+export interface BackupData {
+  invoices: Invoice[];
+  inventory: InventoryBatch[]; // Derived snapshot, kept for reference; restore replays the invoices
+  lockDate: string | null; // Derived from the period closes; kept for reference
+  periodCloses?: PeriodClose[]; // Absent in backups made before period closes; parseBackup migrates the lock date
+  parties?: Party[]; // Absent in backups made before the party registry
+  payments?: Payment[];
+  moneyAccounts?: MoneyAccount[];
+  cashEntries?: CashEntry[];
+  bankStatement?: BankStatementLine[];
+  metalMovements?: MetalMovement[];
+  marketRates?: MarketRate[];
+  settings: {
+    costingMethod: CostingMethod;
+    businessGstin?: string; // The rest are absent in backups made before they were included
+    businessProfile?: BusinessProfile;
+    complianceRules?: ComplianceRules;
+    gainsRules?: GainsRules;
+  };
+}
+
+export interface BackupArchive {
+  format: typeof BACKUP_FORMAT;
+  version: number;
+  schemaVersion: number;
+  createdAt: string;
+  checksumAlgorithm: 'SHA-256';
+  checksum: string; // Hex digest of JSON.stringify(data)
+  data: BackupData;
+}
+
+export interface LedgerSummary {
+  invoiceCount: number;
+  purchaseCount: number;
+  saleCount: number;
+  firstDate: string | null;
+  lastDate: string | null;
+  gramsPurchased: number;
+  gramsSold: number;
+  totalAmount: number;
+  totalProfit: number;
+}
+
+export interface MergePlan {
+  invoices: Invoice[]; // Current invoices with the accepted incoming ones on top
+  added: Invoice[];
+  duplicates: number; // Same id already present; the current version is kept
+  locked: number; // Dated on or before the lock date; skipped
+}
+
+export const createBackup = async (data: BackupData): Promise<BackupArchive> => ({
+  format: BACKUP_FORMAT,
+  version: BACKUP_VERSION,
+  schemaVersion: SCHEMA_VERSION,
+  createdAt: new Date().toISOString(),
+  checksumAlgorithm: 'SHA-256',
+  checksum: await sha256(JSON.stringify(data)),
+  data
+});
+
+/**
+ * Parses and verifies a backup file. Throws with a user-facing message when the file is not a
+ * BullionKeep backup, comes from a newer version, or fails its checksum.
+ */
+export const parseBackup = async (text: string): Promise<BackupArchive> => {
+  let archive: BackupArchive;
+  try {
+    archive = JSON.parse(text);
+  } catch {
+    throw new Error('File is not valid JSON.');
+  }
+  if (!archive || archive.format !== BACKUP_FORMAT || !archive.data) throw new Error('File is not a BullionKeep backup.');
+  if (archive.version > BACKUP_VERSION || archive.schemaVersion > SCHEMA_VERSION) throw new Error('Backup was made by a newer version of BullionKeep.');
+  if (await sha256(JSON.stringify(archive.data)) !== archive.checksum) throw new Error('Checksum mismatch: the backup was modified or is corrupted.');
+  if (Array.isArray(archive.data.invoices) && archive.schemaVersion < SCHEMA_VERSION) {
+    const { lockDate, periodCloses, settings } = archive.data;
+    const migrated = migrateSnapshot({ invoices: archive.data.invoices, settings: { lockDate, periodCloses, costingMethod: settings?.costingMethod } }, archive.schemaVersion);
+    archive = { ...archive, data: { ...archive.data, invoices: migrated.invoices, periodCloses: migrated.settings.periodCloses as PeriodClose[] | undefined } };
+  }
+
+  const invalid = (archive.data.invoices || []).find(inv =>
+    !inv.id || !inv.date || (inv.type !== 'PURCHASE' && inv.type !== 'SALE') || !(inv.quantityGrams > 0) || isNaN(inv.ratePerGram)
+  );
+  if (!Array.isArray(archive.data.invoices) || invalid) throw new Error(`Backup contains an invalid invoice${invalid ? ` (${invalid.id || 'missing id'})` : ''}.`);
+  return archive;
+};
+
+export const summarizeLedger = (invoices: Invoice[]): LedgerSummary => {
+  const active = invoices.filter(inv => !inv.voidedAt);
+  const dates = active.map(inv => inv.date).sort();
+  const purchases = active.filter(inv => inv.type === 'PURCHASE');
+  const sales = active.filter(inv => inv.type === 'SALE');
+  return {
+    invoiceCount: active.length,
+    purchaseCount: purchases.length,
+    saleCount: sales.length,
+    firstDate: dates[0] || null,
+    lastDate: dates[dates.length - 1] || null,
+    gramsPurchased: purchases.reduce((acc, inv) => acc + inv.quantityGrams, 0),
+    gramsSold: sales.reduce((acc, inv) => acc + inv.quantityGrams, 0),
+    totalAmount: active.reduce((acc, inv) => acc + inv.totalAmount, 0),
+    totalProfit: sales.reduce((acc, inv) => acc + (inv.profit || 0), 0)
+  };
+};
+
+/**
+ * Adds backup invoices the current ledger does not have yet. Entries inside the locked period
+ * are skipped so a merge can never rewrite closed books.
+ */
+export const planMerge = (current: Invoice[], incoming: Invoice[], lockDate: string | null): MergePlan => {
+  const existing = new Set(current.map(inv => inv.id));
+  const duplicates = incoming.filter(inv => existing.has(inv.id)).length;
+  const fresh = incoming.filter(inv => !existing.has(inv.id));
+  const added = fresh.filter(inv => !lockDate || inv.date > lockDate);
+  return { invoices: [...added, ...current], added, duplicates, locked: fresh.length - added.length };
+};
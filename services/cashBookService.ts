@@ -0,0 +1,183 @@
+import { MoneyAccount, CashEntry, Payment, BankStatementLine } from '../types';
+import { parseDelimited } from './importService';
+import { PAYMENT_MODE_LABELS } from './complianceService';
+import { normalizeDate, isRealDate, generateId } from '../utils';
+
+// Categories offered for manual entries; free text is accepted too
+export const CASH_ENTRY_CATEGORIES = ['Expense', 'Salary', 'Rent', 'Hallmarking', 'Freight', 'Bank Charges', 'Capital', 'Drawings', 'Transfer', 'Other'];
+
+const round2 = (n: number) => Math.round(n * 100) / 100;
+
+/**
+ * Accounts every book starts with, so payments have somewhere to post before any are set up.
+ */
+export const defaultMoneyAccounts = (): MoneyAccount[] => {
+  const createdAt = new Date().toISOString();
+  const openingDate = createdAt.split('T')[0];
+  return [
+    { id: generateId(), name: 'Cash in Hand', kind: 'CASH', openingBalance: 0, openingDate, createdAt },
+    { id: generateId(), name: 'Bank', kind: 'BANK', openingBalance: 0, openingDate, createdAt },
+  ];
+};
+
+/**
+ * Account a payment posts to: the one picked on it, else the first cash account for cash and
+ * the first bank account for every other mode.
+ */
+export const accountForPayment = (payment: Payment, accounts: MoneyAccount[]): MoneyAccount | undefined =>
+  accounts.find(a => a.id === payment.accountId) || accounts.find(a => a.kind === (payment.mode === 'CASH' ? 'CASH' : 'BANK'));
+
+export interface Posting {
+  id: string; // Id of the payment or entry
+  source: 'PAYMENT' | 'ENTRY';
+  date: string;
+  accountId: string;
+  amount: number; // Positive for money in
+  particulars: string;
+  reference?: string;
+}
+
+/**
+ * Every movement of money: payments post automatically, manual entries as recorded. Voided ones
+ * are left out. Sorted by date.
+ */
+export const cashBookPostings = (accounts: MoneyAccount[], payments: Payment[], entries: CashEntry[]): Posting[] => [
+  ...payments.filter(p => !p.voidedAt).flatMap(p => {
+    const account = accountForPayment(p, accounts);
+    return account ? [{
+      id: p.id, source: 'PAYMENT' as const, date: p.date, accountId: account.id,
+      amount: p.direction === 'RECEIVED' ? p.amount : -p.amount,
+      particulars: `${p.direction === 'RECEIVED' ? 'Received from' : 'Paid to'} ${p.partyName} (${PAYMENT_MODE_LABELS[p.mode]})`,
+      reference: p.reference
+    }] : [];
+  }),
+  ...entries.filter(e => !e.voidedAt).map(e => ({
+    id: e.id, source: 'ENTRY' as const, date: e.date, accountId: e.accountId,
+    amount: e.direction === 'IN' ? e.amount : -e.amount,
+    particulars: e.note ? `${e.category}: ${e.note}` : e.category
+  }))
+].sort((a, b) => a.date.localeCompare(b.date));
+
+/**
+ * Balance of an account at the end of `asOf`. Postings before the opening date are taken as
+ * already included in the opening balance.
+ */
+export const accountBalance = (account: MoneyAccount, postings: Posting[], asOf: string) => {
+  if (asOf < account.openingDate) return 0;
+  return round2(postings
+    .filter(p => p.accountId === account.id && p.date >= account.openingDate && p.date <= asOf)
+    .reduce((acc, p) => acc + p.amount, account.openingBalance));
+};
+
+export interface DailyBookRow {
+  date: string;
+  opening: number;
+  receipts: number;
+  payments: number;
+  closing: number;
+  postings: Posting[];
+}
+
+/**
+ * Day-by-day book of one account over a range: opening, money in, money out and closing. Days
+ * without postings are skipped, so each closing carries to the next listed opening.
+ */
+export const dailyCashBook = (account: MoneyAccount, postings: Posting[], start: string, end: string): DailyBookRow[] => {
+  const dayBefore = new Date(start);
+  dayBefore.setDate(dayBefore.getDate() - 1);
+  let balance = accountBalance(account, postings, dayBefore.toISOString().split('T')[0]);
+  const from = start > account.openingDate ? start : account.openingDate;
+  if (start <= account.openingDate && account.openingDate <= end) balance = account.openingBalance;
+
+  const byDate = new Map<string, Posting[]>();
+  postings
+    .filter(p => p.accountId === account.id && p.date >= from && p.date <= end)
+    .forEach(p => byDate.set(p.date, [...(byDate.get(p.date) || []), p]));
+
+  return Array.from(byDate.entries()).map(([date, list]) => {
+    const receipts = list.filter(p => p.amount > 0).reduce((acc, p) => acc + p.amount, 0);
+    const paid = list.filter(p => p.amount < 0).reduce((acc, p) => acc - p.amount, 0);
+    const row = { date, opening: balance, receipts: round2(receipts), payments: round2(paid), closing: round2(balance + receipts - paid), postings: list };
+    balance = row.closing;
+    return row;
+  });
+};
+
+const STATEMENT_ALIASES = {
+  date: ['date', 'txn date', 'transaction date', 'value date', 'posting date'],
+  description: ['description', 'narration', 'particulars', 'details', 'remarks'],
+  debit: ['debit', 'withdrawal', 'withdrawals', 'withdrawal amt', 'dr', 'debit amount'],
+  credit: ['credit', 'deposit', 'deposits', 'deposit amt', 'cr', 'credit amount'],
+  amount: ['amount', 'txn amount', 'transaction amount'],
+  reference: ['reference', 'ref no', 'ref', 'cheque no', 'chq no', 'chq ref no', 'utr', 'reference no'],
+};
+
+const parseAmount = (value: string) => {
+  const n = parseFloat((value || '').replace(/[₹,\s]|rs\.?|inr/gi, ''));
+  return isNaN(n) ? 0 : n;
+};
+
+/**
+ * Reads a bank statement export. Headers are matched by common names; a single signed amount
+ * column works as well as separate debit and credit columns. Throws when no date or amount
+ * column is found; rows whose date cannot be read are dropped.
+ */
+export const parseBankStatement = (text: string, accountId: string): BankStatementLine[] => {
+  const rows = parseDelimited(text);
+  // Statements often open with account details; the header is the first row naming a date column
+  const headerIndex = rows.findIndex(r => r.some(c => STATEMENT_ALIASES.date.includes(c.toLowerCase().replace(/[._]/g, ' ').trim())));
+  if (headerIndex === -1) throw new Error('No date column found in the statement.');
+  const headers = rows[headerIndex].map(h => h.toLowerCase().replace(/[._()]/g, ' ').replace(/\s+/g, ' ').trim());
+  const column = (field: keyof typeof STATEMENT_ALIASES) => headers.findIndex(h => STATEMENT_ALIASES[field].includes(h));
+  const cols = { date: column('date'), description: column('description'), debit: column('debit'), credit: column('credit'), amount: column('amount'), reference: column('reference') };
+  if (cols.amount === -1 && cols.debit === -1 && cols.credit === -1) throw new Error('No amount, debit or credit column found in the statement.');
+
+  return rows.slice(headerIndex + 1).flatMap(cells => {
+    const date = normalizeDate(cells[cols.date] || '');
+    const amount = cols.amount !== -1 ? parseAmount(cells[cols.amount]) : parseAmount(cells[cols.credit]) - parseAmount(cells[cols.debit]);
+    if (!isRealDate(date) || amount === 0) return [];
+    return [{
+      id: generateId(), accountId, date, amount: round2(amount),
+      description: cols.description !== -1 ? cells[cols.description] || '' : '',
+      reference: cols.reference !== -1 && cells[cols.reference] ? cells[cols.reference] : undefined
+    }];
+  });
+};
+
+const daysApart = (a: string, b: string) => Math.abs(new Date(a).getTime() - new Date(b).getTime()) / 86400000;
+
+const statementKey = (line: BankStatementLine) =>
+  `${line.accountId}|${line.date}|${line.amount.toFixed(2)}|${(line.reference || line.description).trim().toLowerCase()}`;
+
+/**
+ * Splits imported lines into those not yet stored and those already on record for the account
+ * (same date, amount and reference, or description when there is no reference), so importing the
+ * same statement twice adds nothing.
+ */
+export const dropStoredLines = (stored: BankStatementLine[], incoming: BankStatementLine[]): { lines: BankStatementLine[]; duplicates: number } => {
+  const known = new Set(stored.map(statementKey));
+  const lines = incoming.filter(line => !known.has(statementKey(line)));
+  return { lines, duplicates: incoming.length - lines.length };
+};
+
+/**
+ * Matches unmatched statement lines to postings on the same account with the same signed
+ * amount, dated within `toleranceDays`. Lines quoting a posting's reference are matched first,
+ * then the rest by closest date. Each posting is matched at most once, counting earlier matches.
+ */
+export const matchStatementLines = (lines: BankStatementLine[], postings: Posting[], toleranceDays = 3): BankStatementLine[] => {
+  const taken = new Set(lines.filter(l => l.matchedId).map(l => l.matchedId!));
+  const matched = new Map<string, string>(); // Line id -> posting id
+  const candidatesFor = (line: BankStatementLine) => postings.filter(p =>
+    p.accountId === line.accountId && !taken.has(p.id) && Math.abs(p.amount - line.amount) < 0.01 && daysApart(p.date, line.date) <= toleranceDays);
+  const quotes = (line: BankStatementLine, p: Posting) =>
+    !!p.reference && `${line.description} ${line.reference || ''}`.toLowerCase().includes(p.reference.toLowerCase());
+  const take = (line: BankStatementLine, p?: Posting) => { if (p) { taken.add(p.id); matched.set(line.id, p.id); } };
+
+  const open = lines.filter(l => !l.matchedId);
+  open.forEach(line => take(line, candidatesFor(line).find(p => quotes(line, p))));
+  open.filter(l => !matched.has(l.id)).forEach(line =>
+    take(line, candidatesFor(line).sort((a, b) => daysApart(a.date, line.date) - daysApart(b.date, line.date))[0]));
+
+  return lines.map(line => matched.has(line.id) ? { ...line, matchedId: matched.get(line.id) } : line);
+};
@@ -0,0 +1,123 @@
+import { Invoice, Party, PaymentMode, ComplianceRuleId, ComplianceRules, ComplianceFlag } from '../types';
+import { panOfGstin, isValidGstin } from './gstService';
+import { orderLedgerEntries } from './ledgerEngine';
+import { formatCurrency, getFinancialYear } from '../utils';
+
+export const PAYMENT_MODE_LABELS: Record<PaymentMode, string> = {
+  CASH: 'Cash',
+  BANK: 'Bank Transfer',
+  UPI: 'UPI',
+  CARD: 'Card',
+  CHEQUE: 'Cheque',
+};
+
+export const COMPLIANCE_RULE_LABELS: Record<ComplianceRuleId, { label: string; description: string }> = {
+  PAN_REQUIRED: { label: 'PAN on high-value deals', description: "Buying or selling bullion above the threshold needs the party's PAN (Rule 114B)." },
+  CASH_RECEIPT: { label: 'Cash receipt limit', description: 'Cash received from one party in a day must stay below the threshold (Section 269ST).' },
+  CASH_PAYMENT: { label: 'Cash payment limit', description: 'Cash paid to one supplier in a day above the threshold is not deductible (Section 40A(3)).' },
+  TCS_CASH_BULLION: { label: 'TCS on cash bullion sales', description: 'Cash sales of bullion above the threshold attract TCS at the rate set (Section 206C(1D)).' },
+  TCS_SALE_OF_GOODS: { label: 'TCS on sale of goods', description: "Receipts from one buyer above the threshold in a financial year attract TCS on the excess (Section 206C(1H), withdrawn from April 2025)." },
+};
+
+export const DEFAULT_COMPLIANCE_RULES: ComplianceRules = {
+  PAN_REQUIRED: { action: 'BLOCK', threshold: 200000 },
+  CASH_RECEIPT: { action: 'BLOCK', threshold: 200000 },
+  CASH_PAYMENT: { action: 'WARN', threshold: 10000 },
+  TCS_CASH_BULLION: { action: 'WARN', threshold: 200000, rate: 1 },
+  TCS_SALE_OF_GOODS: { action: 'OFF', threshold: 5000000, rate: 0.1 },
+};
+
+type PartyResolver = (inv: Invoice) => { key: string; party?: Party };
+
+// PAN as captured on the invoice, else from the registry entry or the GSTIN
+export const panForInvoice = (invoice: Invoice, party?: Party) =>
+  invoice.partyPan || party?.pan || (invoice.partyGstin && isValidGstin(invoice.partyGstin) ? panOfGstin(invoice.partyGstin) : undefined);
+
+interface ComplianceTotals {
+  party?: Party;
+  sameDayCash: number; // The party's cash invoices of the same type that day, this one included
+  earlierInYear: number; // The party's sales earlier in the financial year, in ledger order
+}
+
+const evaluate = (invoice: Invoice, totals: ComplianceTotals, rules: ComplianceRules): ComplianceFlag[] => {
+  const flags: ComplianceFlag[] = [];
+  const flag = (rule: ComplianceRuleId, message: string, tcsAmount?: number) => {
+    const action = rules[rule].action;
+    if (action !== 'OFF') flags.push({ invoiceId: invoice.id, rule, action, message, tcsAmount });
+  };
+  const { party, sameDayCash, earlierInYear } = totals;
+  const amount = invoice.totalAmount;
+  const isCash = invoice.paymentMode === 'CASH';
+
+  if (amount > rules.PAN_REQUIRED.threshold && !panForInvoice(invoice, party)) {
+    flag('PAN_REQUIRED', `${formatCurrency(amount)} ${invoice.type === 'SALE' ? 'sale to' : 'purchase from'} ${invoice.partyName} is above ${formatCurrency(rules.PAN_REQUIRED.threshold)} without a PAN.`);
+  }
+
+  if (isCash) {
+    if (invoice.type === 'SALE' && sameDayCash >= rules.CASH_RECEIPT.threshold) {
+      flag('CASH_RECEIPT', `Cash received from ${invoice.partyName} on ${invoice.date} totals ${formatCurrency(sameDayCash)}, at or above the ${formatCurrency(rules.CASH_RECEIPT.threshold)} limit.`);
+    }
+    if (invoice.type === 'PURCHASE' && sameDayCash > rules.CASH_PAYMENT.threshold) {
+      flag('CASH_PAYMENT', `Cash paid to ${invoice.partyName} on ${invoice.date} totals ${formatCurrency(sameDayCash)}, above the ${formatCurrency(rules.CASH_PAYMENT.threshold)} limit.`);
+    }
+  }
+
+  if (invoice.type === 'SALE' && isCash && amount > rules.TCS_CASH_BULLION.threshold) {
+    const tcs = amount * (rules.TCS_CASH_BULLION.rate || 0) / 100;
+    flag('TCS_CASH_BULLION', `Cash bullion sale of ${formatCurrency(amount)} to ${invoice.partyName}: collect TCS of ${formatCurrency(tcs)}.`, tcs);
+  }
+
+  if (invoice.type === 'SALE') {
+    const excess = earlierInYear + amount - Math.max(earlierInYear, rules.TCS_SALE_OF_GOODS.threshold);
+    if (excess > 0) {
+      const tcs = excess * (rules.TCS_SALE_OF_GOODS.rate || 0) / 100;
+      flag('TCS_SALE_OF_GOODS', `Sales to ${invoice.partyName} in FY ${getFinancialYear(invoice.date)} pass ${formatCurrency(rules.TCS_SALE_OF_GOODS.threshold)}: collect TCS of ${formatCurrency(tcs)} on ${formatCurrency(excess)}.`, tcs);
+    }
+  }
+
+  return flags;
+};
+
+/**
+ * Breaches of every invoice in the book, keyed by invoice id, in one pass per rule total: daily
+ * cash totals cover the party's whole day, while the yearly TCS total only counts sales the ledger
+ * takes before the invoice (earlier days, and on the same day those recorded first). Voided
+ * invoices never count.
+ */
+const flagsByInvoice = (invoices: Invoice[], rules: ComplianceRules, resolve: PartyResolver): Map<string, ComplianceFlag[]> => {
+  const entries = orderLedgerEntries(invoices).map(inv => ({ inv, ...resolve(inv) }));
+  const dayCash = new Map<string, number>();
+  const dayKey = (inv: Invoice, key: string) => `${key}|${inv.type}|${inv.date}`;
+  entries.forEach(({ inv, key }) => {
+    if (inv.paymentMode === 'CASH') dayCash.set(dayKey(inv, key), (dayCash.get(dayKey(inv, key)) || 0) + inv.totalAmount);
+  });
+
+  const yearSales = new Map<string, number>();
+  const flags = new Map<string, ComplianceFlag[]>();
+  entries.forEach(({ inv, key, party }) => {
+    const yearKey = `${key}|${getFinancialYear(inv.date)}`;
+    const earlierInYear = yearSales.get(yearKey) || 0;
+    flags.set(inv.id, evaluate(inv, { party, sameDayCash: dayCash.get(dayKey(inv, key)) || 0, earlierInYear }, rules));
+    if (inv.type === 'SALE') yearSales.set(yearKey, earlierInYear + inv.totalAmount);
+  });
+  return flags;
+};
+
+/**
+ * Rules breached by one invoice, given the rest of the book. An invoice not on record yet is
+ * checked as the latest entry of its day; an edited one keeps its place.
+ */
+export const checkCompliance = (invoice: Invoice, invoices: Invoice[], rules: ComplianceRules, resolve: PartyResolver): ComplianceFlag[] => {
+  const book = invoices.some(inv => inv.id === invoice.id)
+    ? invoices.map(inv => inv.id === invoice.id ? invoice : inv)
+    : [invoice, ...invoices]; // Stored newest-first
+  return flagsByInvoice(book, rules, resolve).get(invoice.id) || [];
+};
+
+/**
+ * Every breach across the book, newest invoice first, for alerts and the compliance report.
+ */
+export const scanCompliance = (invoices: Invoice[], rules: ComplianceRules, resolve: PartyResolver): ComplianceFlag[] => {
+  const flags = flagsByInvoice(invoices, rules, resolve);
+  return invoices.flatMap(inv => flags.get(inv.id) || []);
+};
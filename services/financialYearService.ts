@@ -0,0 +1,72 @@
+import { CostingMethod, Invoice } from '../types';
+import { runLedger, inventoryValue } from './ledgerEngine';
+import { financialYearRange, getFinancialYear } from '../utils';
+
+export interface StockPosition {
+  grams: number;
+  value: number; // Book value under the costing method
+}
+
+export interface FinancialYearSummary {
+  financialYear: string; // e.g. "2025-26"
+  start: string;
+  end: string;
+  sales: number;
+  turnover: number; // Including GST, as on the monthly ledger
+  tax: number;
+  profit: number;
+  cogs: number;
+  qtySold: number;
+  purchases: number; // Taxable value bought in
+  qtyPurchased: number;
+  openingStock: StockPosition; // The previous year's closing stock, carried forward
+  closingStock: StockPosition; // As at 31 March; a running year's closing is its stock so far
+}
+
+/**
+ * Per financial year (April to March) totals with opening and closing stock, latest year first.
+ * Every year from the first invoice to the last is listed, so a year without trade still carries
+ * its stock forward. Stock is replayed to each year end under the costing method, so opening stock
+ * plus purchases less COGS gives the closing stock.
+ */
+export const financialYearSummaries = (invoices: Invoice[], method: CostingMethod): FinancialYearSummary[] => {
+  const entries = invoices.filter(inv => !inv.voidedAt);
+  if (entries.length === 0) return [];
+  const dates = entries.map(inv => inv.date).sort();
+  const first = parseInt(getFinancialYear(dates[0]).slice(0, 4));
+  const last = parseInt(getFinancialYear(dates[dates.length - 1]).slice(0, 4));
+
+  const years: FinancialYearSummary[] = [];
+  let opening: StockPosition = { grams: 0, value: 0 };
+  for (let year = first; year <= last; year++) {
+    const financialYear = getFinancialYear(`${year}-04-01`);
+    const { start, end } = financialYearRange(financialYear);
+    const inYear = entries.filter(inv => inv.date >= start && inv.date <= end);
+    const sales = inYear.filter(inv => inv.type === 'SALE');
+    const purchases = inYear.filter(inv => inv.type === 'PURCHASE');
+    const { inventory } = runLedger(entries, { asOfDate: end, method });
+    const closingStock = { grams: inventory.reduce((acc, b) => acc + b.remainingQuantity, 0), value: inventoryValue(inventory) };
+
+    years.push({
+      financialYear, start, end,
+      sales: sales.length,
+      turnover: sales.reduce((acc, inv) => acc + inv.totalAmount, 0),
+      tax: sales.reduce((acc, inv) => acc + inv.gstAmount, 0),
+      profit: sales.reduce((acc, inv) => acc + (inv.profit || 0), 0),
+      cogs: sales.reduce((acc, inv) => acc + (inv.cogs || 0), 0),
+      qtySold: sales.reduce((acc, inv) => acc + inv.quantityGrams, 0),
+      purchases: purchases.reduce((acc, inv) => acc + inv.taxableAmount, 0),
+      qtyPurchased: purchases.reduce((acc, inv) => acc + inv.quantityGrams, 0),
+      openingStock: opening,
+      closingStock
+    });
+    opening = closingStock;
+  }
+  return years.reverse();
+};
+
+/**
+ * Year-over-year change in percent; null when there is no earlier figure to compare with.
+ */
+export const yoyChange = (current: number, previous: number | undefined): number | null =>
+  previous ? (current - previous) / Math.abs(previous) * 100 : null;
@@ -0,0 +1,128 @@
+import { GainsRules, GainsTerm, Invoice } from '../types';
+import { getFinancialYear } from '../utils';
+
+// Unlisted movable assets such as bullion turn long-term after 24 months
+export const DEFAULT_GAINS_RULES: GainsRules = { longTermMonths: 24, tradingDays: 0 };
+
+export const GAINS_TERM_LABELS: Record<GainsTerm, string> = {
+  TRADING: 'Trading Income',
+  SHORT_TERM: 'Short-Term Capital Gain',
+  LONG_TERM: 'Long-Term Capital Gain',
+};
+
+// One sold lot: the grams a sale drew from one purchase batch
+export interface GainsLine {
+  sale: Invoice;
+  batchId: string;
+  purchaseDate: string;
+  supplier: string;
+  grams: number;
+  costPerGram: number; // Book cost under the costing method the sale was replayed with
+  cost: number;
+  proceeds: number; // Excluding GST, as in the sale's profit
+  gain: number;
+  holdingDays: number;
+  term: GainsTerm;
+  financialYear: string; // Of the sale
+}
+
+export interface GainsTotals {
+  lots: number;
+  grams: number;
+  proceeds: number;
+  cost: number;
+  gain: number;
+}
+
+export interface GainsYear {
+  financialYear: string;
+  byTerm: Record<GainsTerm, GainsTotals>;
+  total: GainsTotals;
+  recordedProfit: number; // Sum of the year's Invoice.profit; differs from the total only for sales short of stock
+}
+
+// Day arithmetic in UTC so time zones never move a holding across a threshold
+const dayNumber = (date: string) => Date.parse(`${date}T00:00:00Z`) / 86400000;
+const addMonths = (date: string, months: number) => {
+  const d = new Date(`${date}T00:00:00Z`);
+  const day = d.getUTCDate();
+  d.setUTCDate(1);
+  d.setUTCMonth(d.getUTCMonth() + months);
+  const lastDay = new Date(Date.UTC(d.getUTCFullYear(), d.getUTCMonth() + 1, 0)).getUTCDate();
+  d.setUTCDate(Math.min(day, lastDay));
+  return d.toISOString().split('T')[0];
+};
+
+export const holdingDays = (purchaseDate: string, saleDate: string) => Math.round(dayNumber(saleDate) - dayNumber(purchaseDate));
+
+/**
+ * Trading when sold within the trading window, long-term when held for more than the long-term
+ * months (a lot bought on 10 Jan 2022 turns long-term on 11 Jan 2024 at 24 months), short-term otherwise.
+ */
+export const classifyHolding = (purchaseDate: string, saleDate: string, rules: GainsRules): GainsTerm => {
+  if (rules.tradingDays > 0 && holdingDays(purchaseDate, saleDate) <= rules.tradingDays) return 'TRADING';
+  return saleDate > addMonths(purchaseDate, rules.longTermMonths) ? 'LONG_TERM' : 'SHORT_TERM';
+};
+
+/**
+ * Splits every sale on record into the lots it was matched to by the ledger and classifies each
+ * by its holding period, oldest sale first. Invoices must be replayed so their allocations are current.
+ */
+export const gainsSchedule = (invoices: Invoice[], rules: GainsRules): GainsLine[] => {
+  const byId = new Map(invoices.map(inv => [inv.id, inv]));
+  return invoices
+    .filter(inv => inv.type === 'SALE' && !inv.voidedAt)
+    .sort((a, b) => a.date.localeCompare(b.date))
+    .flatMap(sale => (sale.allocations || []).map(a => {
+      const purchase = byId.get(a.batchId);
+      const purchaseDate = purchase?.date || sale.date;
+      const cost = a.grams * a.costPerGram;
+      const proceeds = a.grams * sale.ratePerGram;
+      return {
+        sale,
+        batchId: a.batchId,
+        purchaseDate,
+        supplier: purchase?.partyName || '',
+        grams: a.grams,
+        costPerGram: a.costPerGram,
+        cost,
+        proceeds,
+        gain: proceeds - cost,
+        holdingDays: holdingDays(purchaseDate, sale.date),
+        term: classifyHolding(purchaseDate, sale.date, rules),
+        financialYear: getFinancialYear(sale.date)
+      };
+    }));
+};
+
+const emptyTotals = (): GainsTotals => ({ lots: 0, grams: 0, proceeds: 0, cost: 0, gain: 0 });
+const addLine = (totals: GainsTotals, line: GainsLine) => {
+  totals.lots++;
+  totals.grams += line.grams;
+  totals.proceeds += line.proceeds;
+  totals.cost += line.cost;
+  totals.gain += line.gain;
+};
+
+/**
+ * Totals per financial year and head, latest year first.
+ */
+export const summarizeGains = (lines: GainsLine[], invoices: Invoice[]): GainsYear[] => {
+  const years = new Map<string, GainsYear>();
+  const yearOf = (financialYear: string) => years.get(financialYear) || years.set(financialYear, {
+    financialYear,
+    byTerm: { TRADING: emptyTotals(), SHORT_TERM: emptyTotals(), LONG_TERM: emptyTotals() },
+    total: emptyTotals(),
+    recordedProfit: 0
+  }).get(financialYear)!;
+
+  lines.forEach(line => {
+    const year = yearOf(line.financialYear);
+    addLine(year.byTerm[line.term], line);
+    addLine(year.total, line);
+  });
+  invoices
+    .filter(inv => inv.type === 'SALE' && !inv.voidedAt)
+    .forEach(inv => { yearOf(getFinancialYear(inv.date)).recordedProfit += inv.profit || 0; });
+  return Array.from(years.values()).sort((a, b) => b.financialYear.localeCompare(a.financialYear));
+};
@@ -0,0 +1,247 @@
+import { Invoice, Metal } from '../types';
+
+// HSN chapters for unwrought/semi-manufactured precious metal
+export const HSN_BY_METAL: Record<Metal, { code: string; description: string }> = {
+  GOLD: { code: '7108', description: 'Gold, unwrought or semi-manufactured' },
+  SILVER: { code: '7106', description: 'Silver, unwrought or semi-manufactured' },
+  PLATINUM: { code: '7110', description: 'Platinum, unwrought or semi-manufactured' },
+};
+
+const GSTIN_PATTERN = /^\d{2}[A-Z]{5}\d{4}[A-Z][1-9A-Z]Z[0-9A-Z]$/;
+
+export const isValidGstinFormat = (gstin: string) => GSTIN_PATTERN.test(gstin.trim().toUpperCase());
+
+const GSTIN_CHARS = '0123456789ABCDEFGHIJKLMNOPQRSTUVWXYZ';
+
+// Check character of a GSTIN: base-36 Luhn over the first 14 characters
+export const gstinCheckChar = (gstin: string) => {
+  const sum = gstin.slice(0, 14).toUpperCase().split('').reduce((acc, ch, i) => {
+    const product = GSTIN_CHARS.indexOf(ch) * (i % 2 === 0 ? 1 : 2);
+    return acc + Math.floor(product / 36) + (product % 36);
+  }, 0);
+  return GSTIN_CHARS[(36 - (sum % 36)) % 36];
+};
+
+export const isValidGstin = (gstin: string) => {
+  const value = gstin.trim().toUpperCase();
+  return isValidGstinFormat(value) && gstinCheckChar(value) === value[14];
+};
+
+const PAN_PATTERN = /^[A-Z]{5}\d{4}[A-Z]$/;
+
+export const isValidPan = (pan: string) => PAN_PATTERN.test(pan.trim().toUpperCase());
+
+export const panOfGstin = (gstin: string) => gstin.slice(2, 12);
+
+export const stateCodeOf = (gstin: string) => gstin.slice(0, 2);
+
+// GST state codes, as used in GSTINs and place of supply
+export const GST_STATES: Record<string, string> = {
+  '01': 'Jammu & Kashmir', '02': 'Himachal Pradesh', '03': 'Punjab', '04': 'Chandigarh', '05': 'Uttarakhand',
+  '06': 'Haryana', '07': 'Delhi', '08': 'Rajasthan', '09': 'Uttar Pradesh', '10': 'Bihar',
+  '11': 'Sikkim', '12': 'Arunachal Pradesh', '13': 'Nagaland', '14': 'Manipur', '15': 'Mizoram',
+  '16': 'Tripura', '17': 'Meghalaya', '18': 'Assam', '19': 'West Bengal', '20': 'Jharkhand',
+  '21': 'Odisha', '22': 'Chhattisgarh', '23': 'Madhya Pradesh', '24': 'Gujarat', '26': 'Dadra & Nagar Haveli and Daman & Diu',
+  '27': 'Maharashtra', '29': 'Karnataka', '30': 'Goa', '31': 'Lakshadweep', '32': 'Kerala',
+  '33': 'Tamil Nadu', '34': 'Puducherry', '35': 'Andaman & Nicobar Islands', '36': 'Telangana', '37': 'Andhra Pradesh',
+  '38': 'Ladakh', '97': 'Other Territory',
+};
+
+// Inter-state B2C invoices above this value are reported invoice by invoice (B2CL)
+export const B2CL_LIMIT = 100000;
+
+/**
+ * A supply is inter-state when the party's state differs from ours. With either state unknown
+ * it is treated as intra-state, as every invoice was before states were recorded.
+ */
+export const isInterState = (partyState?: string, ourState?: string) => !!partyState && !!ourState && partyState !== ourState;
+
+export const splitGst = (gstAmount: number, partyState?: string, ourState?: string) => isInterState(partyState, ourState)
+  ? { cgstAmount: 0, sgstAmount: 0, igstAmount: gstAmount }
+  : { cgstAmount: gstAmount / 2, sgstAmount: gstAmount / 2, igstAmount: 0 };
+
+export interface TaxHeads {
+  txval: number; // Taxable value
+  iamt: number; // IGST
+  camt: number; // CGST
+  samt: number; // SGST/UTGST
+  csamt: number; // Cess; always 0 for bullion
+}
+
+const EMPTY_HEADS: TaxHeads = { txval: 0, iamt: 0, camt: 0, samt: 0, csamt: 0 };
+
+const round2 = (n: number) => Math.round(n * 100) / 100;
+
+const addHeads = (a: TaxHeads, b: TaxHeads): TaxHeads => ({
+  txval: a.txval + b.txval, iamt: a.iamt + b.iamt, camt: a.camt + b.camt, samt: a.samt + b.samt, csamt: a.csamt + b.csamt
+});
+
+export const invoiceTaxHeads = (inv: Invoice): TaxHeads => ({
+  txval: inv.taxableAmount, iamt: inv.igstAmount, camt: inv.cgstAmount, samt: inv.sgstAmount, csamt: 0
+});
+
+export interface Gstr1B2BInvoice {
+  invoice: Invoice;
+  ctin: string; // Recipient GSTIN
+  pos: string; // Place of supply state code
+  heads: TaxHeads;
+}
+
+export interface Gstr1B2CLInvoice {
+  invoice: Invoice;
+  pos: string;
+  heads: TaxHeads;
+}
+
+export interface Gstr1B2CSRow {
+  supplyType: 'INTRA' | 'INTER';
+  pos: string;
+  rate: number;
+  heads: TaxHeads;
+  count: number;
+}
+
+export interface Gstr1HsnRow {
+  hsn: string;
+  description: string;
+  rate: number;
+  grams: number;
+  value: number; // Invoice value including tax
+  heads: TaxHeads;
+}
+
+export interface Gstr1Summary {
+  period: string; // YYYY-MM
+  b2b: Gstr1B2BInvoice[];
+  b2cl: Gstr1B2CLInvoice[];
+  b2cs: Gstr1B2CSRow[];
+  hsn: Gstr1HsnRow[];
+  totals: TaxHeads;
+}
+
+export interface Gstr3BSummary {
+  period: string;
+  outward: TaxHeads; // 3.1(a) outward taxable supplies
+  itc: TaxHeads; // 4(A)(5) all other ITC, from purchase invoices
+  netPayable: TaxHeads; // Output tax less ITC per head, never below zero
+  carryForward: TaxHeads; // ITC left over per head
+}
+
+const inPeriod = (period: string) => (inv: Invoice) => !inv.voidedAt && inv.date.slice(0, 7) === period;
+
+/**
+ * GSTR-1 outward supplies for a month: sales to a registered party (with a GSTIN) are B2B and
+ * listed invoice by invoice, as are large inter-state B2C sales (B2CL); the rest are B2C small,
+ * grouped by place of supply and rate.
+ */
+export const buildGstr1 = (invoices: Invoice[], period: string, ourGstin: string): Gstr1Summary => {
+  const sales = invoices.filter(inv => inv.type === 'SALE').filter(inPeriod(period));
+  const placeOfSupply = (inv: Invoice) => inv.partyState || inv.ourState || stateCodeOf(ourGstin);
+  const isLarge = (inv: Invoice) => inv.igstAmount > 0 && inv.totalAmount > B2CL_LIMIT;
+
+  const b2b = sales
+    .filter(inv => inv.partyGstin)
+    .map(inv => ({ invoice: inv, ctin: inv.partyGstin!, pos: placeOfSupply(inv), heads: invoiceTaxHeads(inv) }));
+
+  const b2c = sales.filter(inv => !inv.partyGstin);
+  const b2cl = b2c.filter(isLarge).map(inv => ({ invoice: inv, pos: placeOfSupply(inv), heads: invoiceTaxHeads(inv) }));
+
+  const b2csMap = new Map<string, Gstr1B2CSRow>();
+  b2c.filter(inv => !isLarge(inv)).forEach(inv => {
+    const supplyType = inv.igstAmount > 0 ? 'INTER' : 'INTRA';
+    const key = `${supplyType}-${placeOfSupply(inv)}-${inv.gstRate}`;
+    const row = b2csMap.get(key) || { supplyType, pos: placeOfSupply(inv), rate: inv.gstRate, heads: EMPTY_HEADS, count: 0 };
+    b2csMap.set(key, { ...row, heads: addHeads(row.heads, invoiceTaxHeads(inv)), count: row.count + 1 });
+  });
+
+  const hsnMap = new Map<string, Gstr1HsnRow>();
+  sales.forEach(inv => {
+    const { code, description } = HSN_BY_METAL[inv.metal];
+    const key = `${code}-${inv.gstRate}`;
+    const row = hsnMap.get(key) || { hsn: code, description, rate: inv.gstRate, grams: 0, value: 0, heads: EMPTY_HEADS };
+    hsnMap.set(key, { ...row, grams: row.grams + inv.quantityGrams, value: row.value + inv.totalAmount, heads: addHeads(row.heads, invoiceTaxHeads(inv)) });
+  });
+
+  return {
+    period,
+    b2b: b2b.sort((a, b) => a.invoice.date.localeCompare(b.invoice.date)),
+    b2cl: b2cl.sort((a, b) => a.invoice.date.localeCompare(b.invoice.date)),
+    b2cs: Array.from(b2csMap.values()),
+    hsn: Array.from(hsnMap.values()),
+    totals: sales.map(invoiceTaxHeads).reduce(addHeads, EMPTY_HEADS)
+  };
+};
+
+/**
+ * GSTR-3B for a month. Input tax credit is set off head by head; cross-utilisation between
+ * IGST, CGST and SGST is left to the filer.
+ */
+export const buildGstr3B = (invoices: Invoice[], period: string): Gstr3BSummary => {
+  const active = invoices.filter(inPeriod(period));
+  const outward = active.filter(inv => inv.type === 'SALE').map(invoiceTaxHeads).reduce(addHeads, EMPTY_HEADS);
+  const itc = active.filter(inv => inv.type === 'PURCHASE').map(invoiceTaxHeads).reduce(addHeads, EMPTY_HEADS);
+  const heads: (keyof TaxHeads)[] = ['iamt', 'camt', 'samt', 'csamt'];
+  const netPayable = { ...EMPTY_HEADS, txval: outward.txval };
+  const carryForward = { ...EMPTY_HEADS };
+  heads.forEach(h => {
+    netPayable[h] = Math.max(outward[h] - itc[h], 0);
+    carryForward[h] = Math.max(itc[h] - outward[h], 0);
+  });
+  return { period, outward, itc, netPayable, carryForward };
+};
+
+// --- Offline tool JSON ---
+
+const returnPeriod = (period: string) => `${period.slice(5, 7)}${period.slice(0, 4)}`; // MMYYYY
+const portalDate = (date: string) => date.split('-').reverse().join('-'); // DD-MM-YYYY
+const roundHeads = (h: TaxHeads) => ({ txval: round2(h.txval), iamt: round2(h.iamt), camt: round2(h.camt), samt: round2(h.samt), csamt: round2(h.csamt) });
+
+export const gstr1ToJson = (summary: Gstr1Summary, ourGstin: string) => {
+  const byParty = new Map<string, Gstr1B2BInvoice[]>();
+  summary.b2b.forEach(row => byParty.set(row.ctin, [...(byParty.get(row.ctin) || []), row]));
+  return {
+    gstin: ourGstin,
+    fp: returnPeriod(summary.period),
+    b2b: Array.from(byParty.entries()).map(([ctin, rows]) => ({
+      ctin,
+      inv: rows.map(({ invoice, pos, heads }) => ({
+        inum: invoice.invoiceNumber || invoice.id,
+        idt: portalDate(invoice.date),
+        val: round2(invoice.totalAmount),
+        pos,
+        rchrg: 'N',
+        inv_typ: 'R',
+        itms: [{ num: 1, itm_det: { rt: invoice.gstRate, ...roundHeads(heads) } }]
+      }))
+    })),
+    b2cl: Array.from(new Set(summary.b2cl.map(row => row.pos))).map(pos => ({
+      pos,
+      inv: summary.b2cl.filter(row => row.pos === pos).map(({ invoice, heads }) => ({
+        inum: invoice.invoiceNumber || invoice.id,
+        idt: portalDate(invoice.date),
+        val: round2(invoice.totalAmount),
+        itms: [{ num: 1, itm_det: { rt: invoice.gstRate, txval: round2(heads.txval), iamt: round2(heads.iamt), csamt: 0 } }]
+      }))
+    })),
+    b2cs: summary.b2cs.map(row => ({ sply_ty: row.supplyType, pos: row.pos, typ: 'OE', rt: row.rate, ...roundHeads(row.heads) })),
+    hsn: {
+      data: summary.hsn.map((row, i) => ({
+        num: i + 1, hsn_sc: row.hsn, desc: row.description, uqc: 'GMS', qty: Math.round(row.grams * 1000) / 1000,
+        val: round2(row.value), rt: row.rate, ...roundHeads(row.heads)
+      }))
+    }
+  };
+};
+
+export const gstr3BToJson = (summary: Gstr3BSummary, ourGstin: string) => {
+  const { txval, ...itcTax } = roundHeads(summary.itc);
+  return {
+    gstin: ourGstin,
+    ret_period: returnPeriod(summary.period),
+    sup_details: { osup_det: roundHeads(summary.outward) },
+    itc_elg: {
+      itc_avl: [{ ty: 'OTH', ...itcTax }],
+      itc_net: itcTax
+    }
+  };
+};
@@ -0,0 +1,100 @@
+import { Invoice } from '../types';
+import { generateId } from '../utils';
+
+export const HISTORY_LIMIT = 25; // Operations kept (and persisted) on each stack
+export const HISTORY_MAX_CHARS = 1_000_000; // Serialized size kept; the oldest operations go first
+
+// Everything an undoable operation can change. Period closes are left out: closing, reopening or
+// restoring them clears the history instead, so undo never reopens a period without a reason on record.
+export interface LedgerState {
+  invoices: Invoice[];
+}
+
+// How to get from one ledger state to another: the invoice ids in stored order, and only the
+// invoices that differ. Invoices not listed in `changed` are taken from the state it is applied to.
+export interface LedgerPatch {
+  order: string[];
+  changed: Invoice[];
+}
+
+export interface HistoryEntry {
+  id: string;
+  label: string; // e.g. "Sale to Ramesh Jewellers"
+  at: string; // ISO timestamp of the operation
+  patch: LedgerPatch; // Leads to the other side of the operation: before it on the undo stack, after it on redo
+}
+
+export interface HistoryStacks {
+  undo: HistoryEntry[]; // Most recent last
+  redo: HistoryEntry[];
+}
+
+export const EMPTY_HISTORY: HistoryStacks = { undo: [], redo: [] };
+
+/**
+ * Stored history as loaded. Entries written before patches (whole-ledger copies) are dropped.
+ */
+export const loadedHistory = (stored?: HistoryStacks): HistoryStacks =>
+  stored && [...stored.undo, ...stored.redo].every(e => e.patch) ? stored : EMPTY_HISTORY;
+
+export const diffLedger = (from: LedgerState, to: LedgerState): LedgerPatch => {
+  const before = new Map(from.invoices.map(inv => [inv.id, inv]));
+  return {
+    order: to.invoices.map(inv => inv.id),
+    changed: to.invoices.filter(inv => {
+      const old = before.get(inv.id);
+      return old !== inv && (!old || JSON.stringify(old) !== JSON.stringify(inv));
+    })
+  };
+};
+
+export const applyPatch = (state: LedgerState, patch: LedgerPatch): LedgerState => {
+  const byId = new Map(state.invoices.map(inv => [inv.id, inv]));
+  patch.changed.forEach(inv => byId.set(inv.id, inv));
+  return { invoices: patch.order.flatMap(id => byId.get(id) || []) };
+};
+
+// Drops the oldest entries, undo first, until the stacks fit the size budget
+const capHistory = (history: HistoryStacks): HistoryStacks => {
+  let { undo, redo } = history;
+  while ((undo.length > 0 || redo.length > 0) && JSON.stringify({ undo, redo }).length > HISTORY_MAX_CHARS) {
+    if (undo.length > 0) undo = undo.slice(1);
+    else redo = redo.slice(1);
+  }
+  return { undo, redo };
+};
+
+/**
+ * Records an operation from the state it replaced to the one it produced. A new operation always
+ * clears the redo stack.
+ */
+export const pushHistory = (history: HistoryStacks, label: string, previous: LedgerState, next: LedgerState): HistoryStacks => capHistory({
+  undo: [...history.undo, { id: generateId(), label, at: new Date().toISOString(), patch: diffLedger(next, previous) }].slice(-HISTORY_LIMIT),
+  redo: []
+});
+
+/**
+ * Pops the latest operation. Returns the state to restore and the stacks with the way back to the
+ * current state moved onto redo, or null when there is nothing to undo.
+ */
+export const undoHistory = (history: HistoryStacks, current: LedgerState): { state: LedgerState; entry: HistoryEntry; history: HistoryStacks } | null => {
+  const entry = history.undo[history.undo.length - 1];
+  if (!entry) return null;
+  const state = applyPatch(current, entry.patch);
+  return {
+    state,
+    entry,
+    history: capHistory({ undo: history.undo.slice(0, -1), redo: [...history.redo, { ...entry, patch: diffLedger(state, current) }].slice(-HISTORY_LIMIT) })
+  };
+};
+
+export const redoHistory = (history: HistoryStacks, current: LedgerState): { state: LedgerState; entry: HistoryEntry; history: HistoryStacks } | null => {
+  const entry = history.redo[history.redo.length - 1];
+  if (!entry) return null;
+  const state = applyPatch(current, entry.patch);
+  return {
+    state,
+    entry,
+    history: capHistory({ undo: [...history.undo, { ...entry, patch: diffLedger(state, current) }].slice(-HISTORY_LIMIT), redo: history.redo.slice(0, -1) })
+  };
+};
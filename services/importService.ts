@@ -0,0 +1,215 @@
+import { Invoice, TransactionType, Metal } from '../types';
+import { orderLedgerEntries, poolKey } from './ledgerEngine';
+import { GST_STATES, splitGst } from './gstService';
+import { generateId, normalizeDate, isRealDate } from '../utils';
+
+export type ImportField = 'date' | 'type' | 'partyName' | 'partyState' | 'metal' | 'purity' | 'quantityGrams' | 'ratePerGram' | 'gstRate';
+
+export const IMPORT_FIELDS: { field: ImportField; label: string; required: boolean; aliases: string[] }[] = [
+  { field: 'date', label: 'Date', required: true, aliases: ['date', 'invoice date', 'bill date', 'dated'] },
+  { field: 'type', label: 'Type', required: true, aliases: ['type', 'transaction', 'txn type', 'buy/sell', 'side'] },
+  { field: 'partyName', label: 'Party Name', required: true, aliases: ['party', 'party name', 'name', 'customer', 'supplier', 'vendor'] },
+  { field: 'partyState', label: 'Party State', required: false, aliases: ['state', 'party state', 'place of supply', 'pos', 'state code'] },
+  { field: 'metal', label: 'Metal', required: false, aliases: ['metal', 'commodity', 'item'] },
+  { field: 'purity', label: 'Purity', required: false, aliases: ['purity', 'fineness', 'karat', 'carat', 'touch'] },
+  { field: 'quantityGrams', label: 'Quantity (g)', required: true, aliases: ['qty', 'quantity', 'grams', 'weight', 'gms', 'quantity grams'] },
+  { field: 'ratePerGram', label: 'Rate / g', required: true, aliases: ['rate', 'rate per gram', 'price', 'rate/g', 'rate/gm'] },
+  { field: 'gstRate', label: 'GST %', required: false, aliases: ['gst', 'gst rate', 'gst %', 'tax', 'tax rate'] },
+];
+
+export type ColumnMapping = Partial<Record<ImportField, number>>; // Field -> column index
+
+export type ImportRowStatus = 'READY' | 'INVALID' | 'LOCKED' | 'OVERSELL';
+
+export interface ImportRow {
+  rowNumber: number; // 1-based line in the source file, header included
+  invoice?: Invoice; // Absent when the row could not be parsed
+  status: ImportRowStatus;
+  issues: string[];
+}
+
+/**
+ * Splits CSV (or tab-separated text pasted from a spreadsheet) into rows of cells. Handles quoted
+ * cells with embedded delimiters, newlines and doubled quotes. Blank lines are dropped.
+ */
+export const parseDelimited = (text: string): string[][] => {
+  const firstLine = text.split(/\r?\n/, 1)[0] || '';
+  const delimiter = firstLine.includes('\t') ? '\t' : firstLine.split(';').length > firstLine.split(',').length ? ';' : ',';
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let cell = '';
+  let quoted = false;
+
+  for (let i = 0; i < text.length; i++) {
+    const ch = text[i];
+    if (quoted) {
+      if (ch === '"' && text[i + 1] === '"') { cell += '"'; i++; }
+      else if (ch === '"') quoted = false;
+      else cell += ch;
+    } else if (ch === '"' && cell === '') {
+      quoted = true;
+    } else if (ch === delimiter) {
+      row.push(cell); cell = '';
+    } else if (ch === '\n' || ch === '\r') {
+      if (ch === '\r' && text[i + 1] === '\n') i++;
+      row.push(cell); cell = '';
+      if (row.some(c => c.trim() !== '')) rows.push(row);
+      row = [];
+    } else {
+      cell += ch;
+    }
+  }
+  row.push(cell);
+  if (row.some(c => c.trim() !== '')) rows.push(row);
+  return rows.map(r => r.map(c => c.trim()));
+};
+
+export const guessColumnMapping = (headers: string[]): ColumnMapping => {
+  const normalized = headers.map(h => h.toLowerCase().replace(/[_\s]+/g, ' ').replace(/[()]/g, '').trim());
+  const mapping: ColumnMapping = {};
+  IMPORT_FIELDS.forEach(({ field, aliases }) => {
+    const index = normalized.findIndex((h, i) => aliases.includes(h) && !Object.values(mapping).includes(i));
+    if (index !== -1) mapping[field] = index;
+  });
+  return mapping;
+};
+
+const parseType = (value: string): TransactionType | null => {
+  const v = value.trim().toLowerCase();
+  if (['purchase', 'buy', 'p', 'b', 'in', 'bought'].includes(v)) return 'PURCHASE';
+  if (['sale', 'sell', 's', 'out', 'sold'].includes(v)) return 'SALE';
+  return null;
+};
+
+const parseMetal = (value: string): Metal | null => {
+  const v = value.trim().toLowerCase();
+  if (['gold', 'au', 'g'].includes(v)) return 'GOLD';
+  if (['silver', 'ag', 's'].includes(v)) return 'SILVER';
+  if (['platinum', 'pt', 'p'].includes(v)) return 'PLATINUM';
+  return null;
+};
+
+// BIS hallmark grades
+const KARAT_FINENESS: Record<number, number> = { 24: 999, 23: 958, 22: 916, 20: 833, 18: 750, 14: 585, 9: 375 };
+const MIN_FINENESS = 375; // 9K, the lowest hallmarked standard; anything below is a misread value
+
+// Accepts fineness (916), percentage (91.6), fraction (0.916) or karats (22K, or a bare 22 as
+// karat columns hold it). A bare hallmark grade such as 22 is always read as karats: as a
+// percentage it would be far below any traded purity.
+const parsePurity = (value: string): number | null => {
+  const karat = value.trim().match(/^(\d{1,2})\s*(k|kt|ct|carat|karat)?$/i);
+  if (karat && (karat[2] || KARAT_FINENESS[Number(karat[1])])) return KARAT_FINENESS[Number(karat[1])] || null;
+  const n = parseFloat(value.replace(/%/g, ''));
+  if (isNaN(n) || n <= 0) return null;
+  const fineness = Math.round(n <= 1 ? n * 1000 : n <= 100 ? n * 10 : n);
+  return fineness >= MIN_FINENESS && fineness <= 1000 ? fineness : null;
+};
+
+// Accepts a GST state code (27, 7) or a state name (Maharashtra)
+const parseState = (value: string): string | null => {
+  const v = value.trim().toLowerCase();
+  if (/^\d{1,2}$/.test(v)) return GST_STATES[v.padStart(2, '0')] ? v.padStart(2, '0') : null;
+  return Object.keys(GST_STATES).find(code => GST_STATES[code].toLowerCase() === v) || null;
+};
+
+const parseNumber = (value: string) => parseFloat(value.replace(/[₹,\s]|rs\.?|%/gi, ''));
+
+const parseRow = (cells: string[], mapping: ColumnMapping, rowNumber: number, ourState?: string): ImportRow => {
+  const cell = (field: ImportField) => mapping[field] !== undefined ? cells[mapping[field]!] || '' : '';
+  const issues: string[] = [];
+
+  const date = normalizeDate(cell('date'));
+  if (!isRealDate(date)) issues.push(`Unrecognised date "${cell('date')}"`);
+  const type = parseType(cell('type'));
+  if (!type) issues.push(`Unknown type "${cell('type')}"`);
+  const partyName = cell('partyName');
+  if (!partyName) issues.push('Missing party name');
+  const partyState = cell('partyState') ? parseState(cell('partyState')) : undefined;
+  if (partyState === null) issues.push(`Unknown state "${cell('partyState')}"`);
+  const metal = cell('metal') ? parseMetal(cell('metal')) : 'GOLD';
+  if (!metal) issues.push(`Unknown metal "${cell('metal')}"`);
+  const purity = cell('purity') ? parsePurity(cell('purity')) : 999;
+  if (!purity) issues.push(`Invalid purity "${cell('purity')}"`);
+  const qty = parseNumber(cell('quantityGrams'));
+  if (!(qty > 0)) issues.push('Quantity must be a positive number');
+  const rate = parseNumber(cell('ratePerGram'));
+  if (!(rate > 0)) issues.push('Rate must be a positive number');
+  const gst = cell('gstRate') ? parseNumber(cell('gstRate')) : 3;
+  if (isNaN(gst) || gst < 0) issues.push(`Invalid GST rate "${cell('gstRate')}"`);
+
+  if (issues.length > 0) return { rowNumber, status: 'INVALID', issues };
+
+  // Same arithmetic as InvoiceForm
+  const taxable = qty * rate;
+  const gstAmount = taxable * (gst / 100);
+  return {
+    rowNumber,
+    status: 'READY',
+    issues,
+    invoice: {
+      id: generateId(), date: date!, type: type!, partyName, partyState: partyState || undefined, ourState, metal: metal!, purity: purity!,
+      quantityGrams: qty, ratePerGram: rate, gstRate: gst,
+      gstAmount, ...splitGst(gstAmount, partyState || undefined, ourState), taxableAmount: taxable, totalAmount: taxable + gstAmount
+    }
+  };
+};
+
+// Flags imported sales that do not fit in one pool's stock, given its entries in replay order
+// `reserved` grams are out on unfixed deliveries and will be drawn when they are priced, so they
+// come off the pool's closing balance
+const checkPoolStock = (ordered: Invoice[], byInvoice: Map<Invoice, ImportRow>, reserved: number) => {
+  const deltas = ordered.map(inv => byInvoice.has(inv) && inv.type === 'SALE' ? 0 : inv.type === 'PURCHASE' ? inv.quantityGrams : -inv.quantityGrams);
+  const balances: number[] = [];
+  deltas.reduce((acc, d, i) => (balances[i] = acc + d), 0);
+
+  // Imported sales are admitted oldest first; each must fit under every later balance
+  ordered.forEach((inv, i) => {
+    const row = byInvoice.get(inv);
+    if (!row || inv.type !== 'SALE') return;
+    let headroom = balances[balances.length - 1] - reserved;
+    for (let k = i; k < balances.length; k++) headroom = Math.min(headroom, balances[k]);
+    if (headroom - inv.quantityGrams < -0.001) {
+      row.status = 'OVERSELL';
+      row.issues.push(`Would oversell ${inv.metal.toLowerCase()} ${inv.purity} stock by ${(inv.quantityGrams - Math.max(headroom, 0)).toFixed(3)}g${reserved > 0 ? ` (${reserved.toFixed(3)}g is out on unfixed deliveries)` : ''}`);
+      return;
+    }
+    for (let k = i; k < balances.length; k++) balances[k] -= inv.quantityGrams;
+  });
+};
+
+/**
+ * Parses the data rows and flags the ones that cannot be imported: unparseable rows, rows on or
+ * before the lock date, and sales that would leave stock negative at any point of the combined
+ * ledger of its metal/purity pool or eat into the grams `reserved` per pool for open unfixed
+ * deliveries. Oversell is checked on grams alone, which every costing method depletes the same way.
+ */
+export const validateImportRows = (rows: string[][], mapping: ColumnMapping, existing: Invoice[], lockDate: string | null, ourState?: string, reserved: Record<string, number> = {}): ImportRow[] => {
+  const parsed = rows.map((cells, i) => parseRow(cells, mapping, i + 2, ourState));
+
+  parsed.forEach(row => {
+    if (row.invoice && lockDate && row.invoice.date <= lockDate) {
+      row.status = 'LOCKED';
+      row.issues.push(`Dated on or before the lock date (${lockDate})`);
+    }
+  });
+
+  // Walk each pool of the combined ledger in replay order, tracking the stock balance after every entry
+  const candidates = parsed.filter(row => row.status === 'READY');
+  const byInvoice = new Map<Invoice, ImportRow>(candidates.map(row => [row.invoice!, row]));
+  const combined = orderLedgerEntries([...candidates.map(row => row.invoice!).reverse(), ...existing]);
+  new Set(combined.map(poolKey)).forEach(key => checkPoolStock(combined.filter(inv => poolKey(inv) === key), byInvoice, reserved[key] || 0));
+
+  return parsed;
+};
+
+/**
+ * Orders accepted rows for storage: newest-first like the rest of the invoice list, keeping the
+ * file order within a day so same-day entries replay as they were listed.
+ */
+export const orderImportedInvoices = (rows: ImportRow[]): Invoice[] => {
+  return rows
+    .filter(row => row.status === 'READY')
+    .map(row => row.invoice!)
+    .sort((a, b) => new Date(a.date).getTime() - new Date(b.date).getTime())
+    .reverse();
+};
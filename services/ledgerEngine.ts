@@ -0,0 +1,168 @@
+import { Invoice, InventoryBatch, SaleAllocation, SaleCosting, CostingMethod, Metal, StockPool } from '../types';
+
+export interface LedgerRun {
+  inventory: InventoryBatch[];
+  costings: Record<string, SaleCosting>; // Keyed by SALE invoice id
+  error?: string; // First stock shortfall encountered, if any
+}
+
+export interface LedgerReplayResult {
+  invoices: Invoice[];
+  inventory: InventoryBatch[];
+  costings: Record<string, SaleCosting>;
+  error?: string;
+}
+
+/**
+ * Returns the non-voided invoices in the order the ledger consumes them: by date, and within a
+ * date in the order they were recorded (invoices are stored newest-first).
+ */
+export const orderLedgerEntries = (invoices: Invoice[], asOfDate?: string): Invoice[] => {
+  return [...invoices].reverse()
+    .filter(inv => !inv.voidedAt && (!asOfDate || inv.date <= asOfDate))
+    .sort((a, b) => new Date(a.date).getTime() - new Date(b.date).getTime());
+};
+
+/**
+ * Stock is pooled per metal and purity: a 22K sale can only draw from 22K gold batches.
+ */
+export const poolKey = (item: { metal: Metal; purity: number }): string => `${item.metal}-${item.purity}`;
+
+export interface LedgerOptions {
+  asOfDate?: string; // Only replay invoices dated on or before this day
+  method?: CostingMethod; // Defaults to FIFO
+}
+
+/**
+ * Pure costing engine. Replays the invoice list and returns the resulting batches along with each
+ * sale's COGS, profit and batch allocations. The same input always yields the same output, so
+ * inventory is never stored, only derived.
+ *
+ * Each metal/purity pool is replayed independently. Within a pool, grams always leave the oldest
+ * batches first (a specific-identification sale starts with the lot picked on the invoice and falls
+ * back to FIFO for any remainder). The method only decides the cost: batch cost for FIFO and
+ * specific identification, the moving average of the pool for weighted average.
+ */
+export const runLedger = (invoices: Invoice[], options: LedgerOptions = {}): LedgerRun => {
+  const method = options.method || 'FIFO';
+  const inventory: InventoryBatch[] = [];
+  const costings: Record<string, SaleCosting> = {};
+  let error: string | undefined;
+  const pools: Record<string, { grams: number; value: number }> = {};
+
+  for (const inv of orderLedgerEntries(invoices, options.asOfDate)) {
+    const key = poolKey(inv);
+    const pool = pools[key] || (pools[key] = { grams: 0, value: 0 });
+
+    if (inv.type === 'PURCHASE') {
+      inventory.push({ id: inv.id, date: inv.date, metal: inv.metal, purity: inv.purity, originalQuantity: inv.quantityGrams, remainingQuantity: inv.quantityGrams, costPerGram: inv.ratePerGram, carryingCostPerGram: inv.ratePerGram });
+      pool.grams += inv.quantityGrams;
+      pool.value += inv.quantityGrams * inv.ratePerGram;
+      continue;
+    }
+
+    let remainingToSell = inv.quantityGrams;
+    let totalCOGS = 0;
+    const allocations: SaleAllocation[] = [];
+    const averageCost = pool.grams > 0 ? pool.value / pool.grams : 0;
+
+    const poolBatches = inventory.filter(b => poolKey(b) === key);
+    const picked = method === 'SPECIFIC_ID' && inv.specificBatchId ? poolBatches.find(b => b.id === inv.specificBatchId) : undefined;
+    const drawOrder = picked ? [picked, ...poolBatches.filter(b => b !== picked)] : poolBatches;
+
+    for (const batch of drawOrder) {
+      if (remainingToSell <= 0) break;
+      if (batch.remainingQuantity > 0) {
+        const take = Math.min(batch.remainingQuantity, remainingToSell);
+        const unitCost = method === 'WEIGHTED_AVERAGE' ? averageCost : batch.costPerGram;
+        batch.totalRevenue = (batch.totalRevenue || 0) + (take * inv.ratePerGram);
+        batch.remainingQuantity -= take;
+        remainingToSell -= take;
+        totalCOGS += (take * unitCost);
+        allocations.push({ batchId: batch.id, grams: take, costPerGram: unitCost });
+        if (batch.remainingQuantity < 0.0001) {
+          batch.remainingQuantity = 0;
+          batch.closedDate = inv.date;
+        }
+      }
+    }
+
+    pool.grams -= (inv.quantityGrams - remainingToSell);
+    pool.value -= totalCOGS;
+    if (pool.grams < 0.0001) { pool.grams = 0; pool.value = 0; }
+
+    if (remainingToSell > 0.001 && !error) {
+      error = `Insufficient ${inv.metal.toLowerCase()} ${inv.purity} stock for sale to ${inv.partyName} on ${inv.date} (short ${remainingToSell.toFixed(3)}g)`;
+    }
+    costings[inv.id] = { cogs: totalCOGS, profit: (inv.quantityGrams * inv.ratePerGram) - totalCOGS, allocations };
+  }
+
+  if (method === 'WEIGHTED_AVERAGE') {
+    inventory.forEach(batch => {
+      const pool = pools[poolKey(batch)];
+      if (pool.grams > 0) batch.carryingCostPerGram = pool.value / pool.grams;
+    });
+  }
+
+  return { inventory, costings, error };
+};
+
+/**
+ * Book value of the remaining stock under whichever method produced the batches.
+ */
+export const inventoryValue = (inventory: InventoryBatch[]): number => {
+  return inventory.reduce((sum, batch) => sum + (batch.remainingQuantity * batch.carryingCostPerGram), 0);
+};
+
+/**
+ * Remaining stock and book value per metal/purity pool, in a stable order (metal, then finest first).
+ * Pools that have been sold out are omitted.
+ */
+export const summarizePools = (inventory: InventoryBatch[]): StockPool[] => {
+  const pools: Record<string, StockPool> = {};
+  inventory.filter(batch => batch.remainingQuantity > 0).forEach(batch => {
+    const key = poolKey(batch);
+    const pool = pools[key] || (pools[key] = { key, metal: batch.metal, purity: batch.purity, grams: 0, fineGrams: 0, value: 0 });
+    pool.grams += batch.remainingQuantity;
+    pool.fineGrams += batch.remainingQuantity * batch.purity / 1000;
+    pool.value += batch.remainingQuantity * batch.carryingCostPerGram;
+  });
+  const metalOrder: Metal[] = ['GOLD', 'SILVER', 'PLATINUM'];
+  return Object.values(pools).sort((a, b) => metalOrder.indexOf(a.metal) - metalOrder.indexOf(b.metal) || b.purity - a.purity);
+};
+
+/**
+ * Runs the full ledger and writes each sale's COGS, profit and lot allocations back onto its invoice.
+ * Callers must reject the result when `error` is set.
+ */
+export const replayLedger = (invoices: Invoice[], method?: CostingMethod): LedgerReplayResult => {
+  const { inventory, costings, error } = runLedger(invoices, { method });
+  return {
+    invoices: invoices.map(inv => {
+      const costing = costings[inv.id];
+      return costing ? { ...inv, cogs: costing.cogs, profit: costing.profit, allocations: costing.allocations } : inv;
+    }),
+    inventory,
+    costings,
+    error
+  };
+};
+
+export interface CostingChange {
+  invoice: Invoice; // The sale as it will be after the change
+  previousProfit: number;
+  newProfit: number;
+}
+
+/**
+ * Lists the already-recorded sales whose profit differs between two costed invoice lists,
+ * oldest first. Used to preview the knock-on effect of backdated entries, edits and voids.
+ */
+export const diffSaleCostings = (before: Invoice[], after: Invoice[]): CostingChange[] => {
+  const previous = new Map<string, number>(before.filter(inv => inv.type === 'SALE' && !inv.voidedAt).map(inv => [inv.id, inv.profit || 0]));
+  return after
+    .filter(inv => inv.type === 'SALE' && !inv.voidedAt && previous.has(inv.id))
+    .map(inv => ({ invoice: inv, previousProfit: previous.get(inv.id)!, newProfit: inv.profit || 0 }))
+    .filter(change => Math.abs(change.newProfit - change.previousProfit) > 0.005)
+    .sort((a, b) => new Date(a.invoice.date).getTime() - new Date(b.invoice.date).getTime());
+};
@@ -0,0 +1,114 @@
+import { MarketRate, Metal, StockPool } from '../types';
+import { parseDelimited } from './importService';
+import { normalizeDate, isRealDate } from '../utils';
+
+/**
+ * A source of market rates. Providers are asked for the rates of one day; whatever they return
+ * is merged into the stored series, so a provider only has to know how to fetch, not how to store.
+ */
+export interface MarketRateProvider {
+  id: string;
+  label: string;
+  fetchRates: (date: string, pools: { metal: Metal; purity: number }[]) => Promise<MarketRate[]>;
+}
+
+/**
+ * Offline provider: carries the latest known rate of each pool forward to the requested day.
+ * Stands in until a live feed is wired up, and keeps a daily series unbroken over holidays.
+ */
+export const createLocalRateProvider = (series: MarketRate[]): MarketRateProvider => ({
+  id: 'LOCAL',
+  label: 'Carry forward last rate',
+  fetchRates: async (date, pools) => pools.flatMap(pool => {
+    const known = rateOn(series, pool.metal, pool.purity, date);
+    return known ? [{ date, metal: pool.metal, purity: pool.purity, ratePerGram: known.ratePerGram, source: 'LOCAL' }] : [];
+  })
+});
+
+const rateKey = (r: Pick<MarketRate, 'date' | 'metal' | 'purity'>) => `${r.date}|${r.metal}|${r.purity}`;
+
+/**
+ * Merges rates into the series. A rate for a day and pool already present replaces it. Sorted by date.
+ */
+export const upsertRates = (series: MarketRate[], incoming: MarketRate[]): MarketRate[] => {
+  const byKey = new Map(series.map(r => [rateKey(r), r]));
+  incoming.forEach(r => byKey.set(rateKey(r), r));
+  return Array.from(byKey.values()).sort((a, b) => a.date.localeCompare(b.date) || a.metal.localeCompare(b.metal) || b.purity - a.purity);
+};
+
+export interface RateLookup {
+  ratePerGram: number;
+  date: string; // Day the rate was quoted; earlier than asked when carried forward
+  derived: boolean; // Scaled from another purity of the same metal
+}
+
+/**
+ * Rate of a pool as at a day: the latest quote on or before it. Without a quote for the exact
+ * purity, the latest quote of the same metal is scaled by fineness (a 916 rate from a 999 one).
+ */
+export const rateOn = (series: MarketRate[], metal: Metal, purity: number, date: string): RateLookup | undefined => {
+  let exact: MarketRate | undefined;
+  let sameMetal: MarketRate | undefined;
+  series.forEach(r => {
+    if (r.metal !== metal || r.date > date) return;
+    if (r.purity === purity && (!exact || r.date >= exact.date)) exact = r;
+    if (!sameMetal || r.date > sameMetal.date || (r.date === sameMetal.date && r.purity > sameMetal.purity)) sameMetal = r;
+  });
+  if (exact) return { ratePerGram: exact.ratePerGram, date: exact.date, derived: false };
+  if (sameMetal) return { ratePerGram: sameMetal.ratePerGram * purity / sameMetal.purity, date: sameMetal.date, derived: true };
+  return undefined;
+};
+
+export interface MarketValuation {
+  bookValue: number;
+  marketValue: number; // Pools without any rate are carried at book value
+  unrealized: number; // Market less book, over the priced pools
+  unpriced: StockPool[];
+}
+
+export const valueAtMarket = (pools: StockPool[], series: MarketRate[], date: string): MarketValuation => {
+  const unpriced: StockPool[] = [];
+  let bookValue = 0;
+  let marketValue = 0;
+  pools.forEach(pool => {
+    const rate = rateOn(series, pool.metal, pool.purity, date);
+    bookValue += pool.value;
+    if (rate) marketValue += pool.grams * rate.ratePerGram;
+    else { marketValue += pool.value; unpriced.push(pool); }
+  });
+  return { bookValue, marketValue, unrealized: marketValue - bookValue, unpriced };
+};
+
+const METAL_ALIASES: Record<string, Metal> = { gold: 'GOLD', au: 'GOLD', silver: 'SILVER', ag: 'SILVER', platinum: 'PLATINUM', pt: 'PLATINUM' };
+
+const RATE_ALIASES = {
+  date: ['date', 'rate date', 'as of'],
+  metal: ['metal', 'commodity'],
+  purity: ['purity', 'fineness'],
+  rate: ['rate', 'rate per gram', 'price', 'price per gram', 'rate/g'], // Units in brackets are ignored
+};
+
+/**
+ * Reads a rate history export: date, metal, rate per gram and optionally purity (999 when
+ * absent). Throws when a required column is missing; rows that cannot be read are skipped and
+ * counted.
+ */
+export const parseRateCsv = (text: string): { rates: MarketRate[]; skipped: number } => {
+  const [header, ...rows] = parseDelimited(text);
+  const headers = (header || []).map(h => h.toLowerCase().replace(/\(.*?\)/g, ' ').replace(/_/g, ' ').replace(/\s+/g, ' ').trim());
+  const column = (field: keyof typeof RATE_ALIASES) => headers.findIndex(h => RATE_ALIASES[field].includes(h));
+  const cols = { date: column('date'), metal: column('metal'), purity: column('purity'), rate: column('rate') };
+  const missing = (['date', 'metal', 'rate'] as const).filter(f => cols[f] === -1);
+  if (missing.length > 0) throw new Error(`Missing column${missing.length > 1 ? 's' : ''}: ${missing.join(', ')}.`);
+
+  let skipped = 0;
+  const rates = rows.flatMap(cells => {
+    const date = normalizeDate(cells[cols.date] || '');
+    const metal = METAL_ALIASES[(cells[cols.metal] || '').trim().toLowerCase()];
+    const purity = cols.purity !== -1 && cells[cols.purity] ? parseInt(cells[cols.purity]) : 999;
+    const ratePerGram = parseFloat((cells[cols.rate] || '').replace(/[₹,\s]/g, ''));
+    if (!isRealDate(date) || !metal || !(purity > 0 && purity <= 1000) || !(ratePerGram > 0)) { skipped++; return []; }
+    return [{ date, metal, purity, ratePerGram, source: 'IMPORT' }];
+  });
+  return { rates, skipped };
+};
@@ -0,0 +1,186 @@
+import { InventoryBatch, Invoice, Metal, MetalMovement, MetalMovementKind, Party, PriceFixing } from '../types';
+import { splitGst } from './gstService';
+import { poolKey, summarizePools } from './ledgerEngine';
+import { formatPool, generateId, toFineGrams } from '../utils';
+
+type PartyResolver = (entry: Pick<Invoice, 'partyName' | 'partyId'>) => { key: string; name: string; party?: Party };
+
+export const METAL_MOVEMENT_LABELS: Record<MetalMovementKind, { label: string; hint: string }> = {
+  UNFIXED_IN: { label: 'Received, Rate Unfixed', hint: 'Supplier delivered metal; the purchase is priced later' },
+  UNFIXED_OUT: { label: 'Delivered, Rate Unfixed', hint: 'Metal sent to a customer; the sale is priced later' },
+  ISSUE: { label: 'Issued on Loan / Job Work', hint: 'Our metal handed to a karigar or lent out' },
+  RECEIPT: { label: 'Received Back / Borrowed', hint: 'Metal returned by a karigar, or lent to us' },
+};
+
+export const isUnfixed = (kind: MetalMovementKind) => kind === 'UNFIXED_IN' || kind === 'UNFIXED_OUT';
+
+const round3 = (n: number) => Math.round(n * 1000) / 1000;
+
+/**
+ * Fixings whose invoice is still live. Voiding a fixing's invoice, or undoing it, reopens the grams.
+ */
+export const liveFixings = (movement: MetalMovement, invoices: Invoice[]): PriceFixing[] => {
+  const live = new Set(invoices.filter(inv => !inv.voidedAt).map(inv => inv.id));
+  return movement.fixings.filter(f => live.has(f.invoiceId));
+};
+
+// Gross grams of an unfixed movement still awaiting a price
+export const unfixedGrams = (movement: MetalMovement, invoices: Invoice[]) =>
+  isUnfixed(movement.kind) && !movement.voidedAt
+    ? round3(movement.grams - liveFixings(movement, invoices).reduce((acc, f) => acc + f.grams, 0))
+    : 0;
+
+/**
+ * Gross grams per pool delivered unfixed and not priced yet. The metal is still in owned stock
+ * until its fixing invoice, but it has left the premises, so sales and further deliveries must
+ * not count on it.
+ */
+export const reservedStock = (movements: MetalMovement[], invoices: Invoice[]): Record<string, number> => {
+  const reserved: Record<string, number> = {};
+  movements.filter(m => m.kind === 'UNFIXED_OUT').forEach(m => {
+    const open = unfixedGrams(m, invoices);
+    if (open > 0) reserved[poolKey(m)] = round3((reserved[poolKey(m)] || 0) + open);
+  });
+  return reserved;
+};
+
+/**
+ * Pools where a ledger change leaves less stock than the open unfixed deliveries hold back. Only
+ * pools the change made worse are reported, so a shortfall already on record never blocks an
+ * unrelated entry. `after.movements` carries any fixing recorded with the change.
+ */
+export const reservationIssues = (
+  before: { invoices: Invoice[]; inventory: InventoryBatch[]; movements: MetalMovement[] },
+  after: { invoices: Invoice[]; inventory: InventoryBatch[]; movements: MetalMovement[] }
+): string[] => {
+  const free = (state: typeof before) => {
+    const reserved = reservedStock(state.movements, state.invoices);
+    const onHand = Object.fromEntries(summarizePools(state.inventory).map(p => [p.key, p.grams]));
+    return (key: string) => round3((onHand[key] || 0) - (reserved[key] || 0));
+  };
+  const freeBefore = free(before);
+  const freeAfter = free(after);
+  const pools = new Map(after.movements.filter(m => m.kind === 'UNFIXED_OUT').map(m => [poolKey(m), m]));
+  return Array.from(pools)
+    .filter(([key]) => freeAfter(key) < 0 && freeAfter(key) < freeBefore(key))
+    .map(([key, m]) => `${formatPool(m.metal, m.purity)} stock would fall ${(-freeAfter(key)).toFixed(3)}g short of the metal out on unfixed deliveries.`);
+};
+
+// Gross grams credited to the party for a receipt, wastage allowance included
+export const creditedGrams = (movement: MetalMovement) => round3(movement.grams * (1 + (movement.wastagePercent || 0) / 100));
+
+export const validateMovement = (movement: MetalMovement): string[] => {
+  const issues: string[] = [];
+  if (!movement.partyName.trim()) issues.push('Pick the party.');
+  if (!(movement.grams > 0)) issues.push('Weight must be more than zero.');
+  if (!(movement.purity > 0 && movement.purity <= 1000)) issues.push('Purity must be between 1 and 1000.');
+  const wastage = movement.wastagePercent || 0;
+  if (wastage < 0 || wastage >= 100) issues.push('Wastage allowance must be between 0 and 100%.');
+  return issues;
+};
+
+export const validateFixing = (movement: MetalMovement, fixing: Pick<PriceFixing, 'date' | 'grams' | 'ratePerGram'>, invoices: Invoice[]): string[] => {
+  const issues: string[] = [];
+  if (fixing.date < movement.date) issues.push(`Price cannot be fixed before the ${movement.date} delivery.`);
+  if (!(fixing.grams > 0)) issues.push('Weight to fix must be more than zero.');
+  if (fixing.grams > unfixedGrams(movement, invoices) + 0.0005) issues.push(`Only ${unfixedGrams(movement, invoices).toFixed(3)} g is still unfixed.`);
+  if (!(fixing.ratePerGram > 0)) issues.push('Rate must be more than zero.');
+  return issues;
+};
+
+/**
+ * The invoice a price fixing generates: a purchase for metal received, a sale for metal
+ * delivered, dated on the fixing date. It enters the ledger like any other invoice, so only
+ * then does the metal join (or leave) owned stock.
+ */
+export const buildFixingInvoice = (movement: MetalMovement, fixing: Pick<PriceFixing, 'date' | 'grams' | 'ratePerGram'>, gstRate: number, partyState?: string, ourState?: string): Invoice => {
+  const taxableAmount = fixing.grams * fixing.ratePerGram;
+  const gstAmount = taxableAmount * gstRate / 100;
+  const placeOfSupply = partyState || ourState;
+  return {
+    id: generateId(),
+    date: fixing.date,
+    type: movement.kind === 'UNFIXED_IN' ? 'PURCHASE' : 'SALE',
+    partyName: movement.partyName,
+    partyId: movement.partyId,
+    partyState: placeOfSupply,
+    ourState,
+    metal: movement.metal,
+    purity: movement.purity,
+    quantityGrams: fixing.grams,
+    ratePerGram: fixing.ratePerGram,
+    gstRate,
+    gstAmount,
+    ...splitGst(gstAmount, placeOfSupply, ourState),
+    taxableAmount,
+    totalAmount: taxableAmount + gstAmount
+  };
+};
+
+export interface MetalBalance {
+  key: string;
+  name: string;
+  metal: Metal;
+  unfixedOut: number; // Fine grams delivered awaiting a price; the party owes us their value
+  unfixedIn: number; // Fine grams received awaiting a price; we owe the party their value
+  onLoan: number; // Fine grams issued less received back with wastage; positive: held by the party
+  net: number; // Positive: the party holds our metal
+}
+
+/**
+ * Metal balance of each party, in fine grams per metal so returns of a different purity from
+ * the issue (22K ornaments against 24K bars) net off.
+ */
+export const metalBalances = (movements: MetalMovement[], invoices: Invoice[], resolve: PartyResolver): MetalBalance[] => {
+  const rows = new Map<string, MetalBalance>();
+  movements.filter(m => !m.voidedAt).forEach(m => {
+    const { key, name } = resolve(m);
+    const id = `${key}|${m.metal}`;
+    const row = rows.get(id) || { key, name, metal: m.metal, unfixedOut: 0, unfixedIn: 0, onLoan: 0, net: 0 };
+    if (m.kind === 'UNFIXED_OUT') row.unfixedOut += toFineGrams(unfixedGrams(m, invoices), m.purity);
+    else if (m.kind === 'UNFIXED_IN') row.unfixedIn += toFineGrams(unfixedGrams(m, invoices), m.purity);
+    else if (m.kind === 'ISSUE') row.onLoan += toFineGrams(m.grams, m.purity);
+    else row.onLoan -= toFineGrams(creditedGrams(m), m.purity);
+    rows.set(id, row);
+  });
+  return Array.from(rows.values())
+    .map(r => ({ ...r, unfixedOut: round3(r.unfixedOut), unfixedIn: round3(r.unfixedIn), onLoan: round3(r.onLoan), net: round3(r.unfixedOut - r.unfixedIn + r.onLoan) }))
+    .filter(r => r.unfixedOut !== 0 || r.unfixedIn !== 0 || r.onLoan !== 0)
+    .sort((a, b) => a.name.localeCompare(b.name) || a.metal.localeCompare(b.metal));
+};
+
+export interface MetalStatementLine {
+  date: string;
+  particulars: string;
+  out: number; // Fine grams to the party, or unfixed receipts priced
+  in: number; // Fine grams from the party, or unfixed deliveries priced
+  balance: number; // Running; positive: held by the party
+}
+
+/**
+ * Running metal account of one party for one metal, in fine grams. A fixing turns metal into
+ * an invoice, so it reverses the unfixed grams it prices.
+ */
+export const metalStatement = (partyKey: string, metal: Metal, movements: MetalMovement[], invoices: Invoice[], resolve: PartyResolver): MetalStatementLine[] => {
+  const entries = movements
+    .filter(m => !m.voidedAt && m.metal === metal && resolve(m).key === partyKey)
+    .flatMap(m => {
+      const pool = formatPool(m.metal, m.purity);
+      const fine = toFineGrams(m.kind === 'RECEIPT' ? creditedGrams(m) : m.grams, m.purity);
+      const toParty = m.kind === 'UNFIXED_OUT' || m.kind === 'ISSUE';
+      const wastage = m.kind === 'RECEIPT' && m.wastagePercent ? ` incl. ${m.wastagePercent}% wastage` : '';
+      return [
+        { date: m.date, particulars: `${METAL_MOVEMENT_LABELS[m.kind].label}: ${m.grams.toFixed(3)} g ${pool}${wastage}`, out: toParty ? fine : 0, in: toParty ? 0 : fine },
+        ...liveFixings(m, invoices).map(f => {
+          const priced = toFineGrams(f.grams, m.purity);
+          return { date: f.date, particulars: `Price fixed: ${f.grams.toFixed(3)} g ${pool} @ ${f.ratePerGram}/g`, out: toParty ? 0 : priced, in: toParty ? priced : 0 };
+        })
+      ];
+    })
+    .sort((a, b) => a.date.localeCompare(b.date));
+  let balance = 0;
+  return entries.map(e => {
+    balance = round3(balance + e.out - e.in);
+    return { ...e, out: round3(e.out), in: round3(e.in), balance };
+  });
+};
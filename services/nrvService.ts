@@ -0,0 +1,70 @@
+import { CostingMethod, InventoryBatch, Invoice, MarketRate } from '../types';
+import { runLedger } from './ledgerEngine';
+import { rateOn, RateLookup } from './marketRateService';
+
+export interface NrvLine {
+  batch: InventoryBatch;
+  grams: number; // Remaining on the closing date
+  costPerGram: number; // Carrying cost under the costing method
+  cost: number;
+  rate?: RateLookup; // Market rate on the closing date; absent when the metal has never been quoted
+  nrvPerGram?: number; // Market rate less estimated selling costs
+  nrv?: number;
+  carryingValue: number; // Lower of cost and NRV; cost when unpriced
+  writeDown: number;
+}
+
+export interface NrvReport {
+  closingDate: string;
+  method: CostingMethod;
+  sellingCostPercent: number;
+  lines: NrvLine[];
+  grams: number;
+  cost: number;
+  nrv: number; // Unpriced batches count at cost
+  carryingValue: number;
+  writeDown: number;
+  unpriced: number; // Batches carried at cost for want of a rate
+}
+
+/**
+ * Last 31 March on or before a day: the closing date of the latest financial year that has ended.
+ */
+export const lastYearEnd = (today: string): string => {
+  const year = Number(today.slice(0, 4));
+  const marchEnd = `${year}-03-31`;
+  return today >= marchEnd ? marchEnd : `${year - 1}-03-31`;
+};
+
+/**
+ * Closing stock at the lower of cost and net realisable value, batch by batch. Stock is replayed as
+ * at the closing date under the costing method, and each batch is compared with the market rate on
+ * that day less estimated selling costs. A batch is never written up: where NRV exceeds cost it stays
+ * at cost.
+ */
+export const lowerOfCostOrNrv = (invoices: Invoice[], rates: MarketRate[], closingDate: string, method: CostingMethod, sellingCostPercent = 0): NrvReport => {
+  const { inventory } = runLedger(invoices, { asOfDate: closingDate, method });
+  const lines = inventory.filter(b => b.remainingQuantity > 0).map((batch): NrvLine => {
+    const grams = batch.remainingQuantity;
+    const cost = grams * batch.carryingCostPerGram;
+    const rate = rateOn(rates, batch.metal, batch.purity, closingDate);
+    if (!rate) return { batch, grams, costPerGram: batch.carryingCostPerGram, cost, carryingValue: cost, writeDown: 0 };
+    const nrvPerGram = rate.ratePerGram * (1 - sellingCostPercent / 100);
+    const nrv = grams * nrvPerGram;
+    const carryingValue = Math.min(cost, nrv);
+    return { batch, grams, costPerGram: batch.carryingCostPerGram, cost, rate, nrvPerGram, nrv, carryingValue, writeDown: cost - carryingValue };
+  });
+
+  return {
+    closingDate,
+    method,
+    sellingCostPercent,
+    lines,
+    grams: lines.reduce((acc, l) => acc + l.grams, 0),
+    cost: lines.reduce((acc, l) => acc + l.cost, 0),
+    nrv: lines.reduce((acc, l) => acc + (l.nrv ?? l.cost), 0),
+    carryingValue: lines.reduce((acc, l) => acc + l.carryingValue, 0),
+    writeDown: lines.reduce((acc, l) => acc + l.writeDown, 0),
+    unpriced: lines.filter(l => !l.rate).length
+  };
+};
@@ -0,0 +1,149 @@
+import { Invoice, Party, KycStatus } from '../types';
+import { isValidGstin, isValidPan, panOfGstin, stateCodeOf, GST_STATES } from './gstService';
+import { generateId } from '../utils';
+
+export const KYC_STATUS_LABELS: Record<KycStatus, string> = {
+  NOT_STARTED: 'Not Started',
+  PENDING: 'Pending',
+  VERIFIED: 'Verified',
+  REJECTED: 'Rejected',
+};
+
+/**
+ * Matching key for party names: case, spacing, punctuation and a leading "M/s" are ignored,
+ * and "&" reads as "and". "M/s. Sharma & Sons " and "sharma and sons" share a key.
+ */
+export const normalizePartyName = (name: string) => name
+  .toLowerCase()
+  .replace(/^\s*m\/s\.?\s*/, '')
+  .replace(/&/g, ' and ')
+  .replace(/[.,'"()-]/g, ' ')
+  .replace(/\s+/g, ' ')
+  .trim();
+
+const partyKeys = (party: Party) => [party.name, ...party.aliases].map(normalizePartyName);
+
+export const findPartyByName = (parties: Party[], name: string): Party | undefined => {
+  const key = normalizePartyName(name);
+  return key ? parties.find(p => partyKeys(p).includes(key)) : undefined;
+};
+
+/**
+ * Resolves each invoice to a stable grouping key and display name: the registry entry when one
+ * matches, otherwise the normalized name with the first spelling seen.
+ */
+export const createPartyResolver = (parties: Party[]) => {
+  const byId = new Map<string, Party>(parties.map(p => [p.id, p]));
+  const byKey = new Map<string, Party>();
+  parties.forEach(p => partyKeys(p).forEach(k => { if (!byKey.has(k)) byKey.set(k, p); }));
+  const firstSpelling = new Map<string, string>();
+
+  return (inv: Pick<Invoice, 'partyName' | 'partyId'>): { key: string; name: string; party?: Party } => {
+    const normalized = normalizePartyName(inv.partyName);
+    const party = (inv.partyId && byId.get(inv.partyId)) || byKey.get(normalized);
+    if (party) return { key: party.id, name: party.name, party };
+    if (!firstSpelling.has(normalized)) firstSpelling.set(normalized, inv.partyName.trim());
+    return { key: `name:${normalized}`, name: firstSpelling.get(normalized)! };
+  };
+};
+
+/**
+ * Parties whose name or alias contains the query, best matches (prefix) first.
+ */
+export const suggestParties = (parties: Party[], query: string, limit = 6): Party[] => {
+  const q = normalizePartyName(query);
+  if (!q) return [];
+  const score = (p: Party) => {
+    const keys = partyKeys(p);
+    if (keys.some(k => k.startsWith(q))) return 0;
+    return keys.some(k => k.includes(q)) ? 1 : 2;
+  };
+  return parties
+    .filter(p => score(p) < 2)
+    .sort((a, b) => score(a) - score(b) || a.name.localeCompare(b.name))
+    .slice(0, limit);
+};
+
+/**
+ * Problems that block saving a party: a missing or duplicate name, a GSTIN failing its
+ * checksum, a malformed PAN, or a PAN/state that contradicts the GSTIN.
+ */
+export const validateParty = (party: Party, others: Party[]): string[] => {
+  const issues: string[] = [];
+  if (!party.name.trim()) issues.push('Name is required.');
+  const clash = others.filter(o => o.id !== party.id).find(o => partyKeys(o).includes(normalizePartyName(party.name)));
+  if (party.name.trim() && clash) issues.push(`"${party.name}" is already registered as ${clash.name}.`);
+  if (party.gstin) {
+    if (!isValidGstin(party.gstin)) issues.push('GSTIN is invalid (format or check digit).');
+    else {
+      if (party.pan && panOfGstin(party.gstin) !== party.pan) issues.push('PAN does not match the one embedded in the GSTIN.');
+      if (party.state && stateCodeOf(party.gstin) !== party.state) issues.push(`State does not match the GSTIN (${GST_STATES[stateCodeOf(party.gstin)] || stateCodeOf(party.gstin)}).`);
+    }
+  }
+  if (party.pan && !isValidPan(party.pan)) issues.push('PAN must read like ABCDE1234F.');
+  if (party.email && !/^[^\s@]+@[^\s@]+\.[^\s@]+$/.test(party.email)) issues.push('Email address is invalid.');
+  return issues;
+};
+
+export const emptyParty = (name = ''): Party => ({
+  id: generateId(), name, aliases: [], kycStatus: 'NOT_STARTED', createdAt: new Date().toISOString()
+});
+
+export interface NameVariantGroup {
+  key: string; // Normalized name
+  variants: { name: string; count: number }[]; // Spellings on invoices, most used first
+  party?: Party; // Registry entry the group already belongs to
+  gstin?: string; // Latest GSTIN recorded on the group's invoices
+  state?: string;
+}
+
+/**
+ * Groups the party names on invoices by normalized name, for registering them in one step.
+ * Groups whose every spelling is already on a registry entry are left out.
+ */
+export const groupNameVariants = (invoices: Invoice[], parties: Party[]): NameVariantGroup[] => {
+  const groups = new Map<string, NameVariantGroup>();
+  // Oldest first, so the GSTIN and state kept are the most recent ones
+  [...invoices].reverse().forEach(inv => {
+    const key = normalizePartyName(inv.partyName);
+    if (!key) return;
+    const group = groups.get(key) || { key, variants: [], party: findPartyByName(parties, inv.partyName) };
+    const name = inv.partyName.trim();
+    const variant = group.variants.find(v => v.name === name);
+    if (variant) variant.count += 1;
+    else group.variants.push({ name, count: 1 });
+    if (inv.partyGstin) group.gstin = inv.partyGstin;
+    if (inv.partyState) group.state = inv.partyState;
+    groups.set(key, group);
+  });
+
+  return Array.from(groups.values())
+    .map(g => ({ ...g, variants: g.variants.sort((a, b) => b.count - a.count) }))
+    .filter(g => !g.party || g.variants.some(v => v.name !== g.party!.name && !g.party!.aliases.includes(v.name)))
+    .sort((a, b) => a.key.localeCompare(b.key));
+};
+
+/**
+ * Registers the groups: new parties take the most used spelling as their name and the rest as
+ * aliases; groups matching an existing party add their spellings to its aliases.
+ */
+export const registerNameVariants = (parties: Party[], groups: NameVariantGroup[]): Party[] => {
+  const next = parties.map(p => ({ ...p, aliases: [...p.aliases] }));
+  groups.forEach(group => {
+    const existing = group.party && next.find(p => p.id === group.party!.id);
+    if (existing) {
+      group.variants.forEach(v => { if (v.name !== existing.name && !existing.aliases.includes(v.name)) existing.aliases.push(v.name); });
+      return;
+    }
+    const [primary, ...rest] = group.variants;
+    const gstin = group.gstin && isValidGstin(group.gstin) ? group.gstin : undefined;
+    next.push({
+      ...emptyParty(primary.name),
+      aliases: rest.map(v => v.name),
+      gstin,
+      pan: gstin ? panOfGstin(gstin) : undefined,
+      state: gstin ? stateCodeOf(gstin) : group.state
+    });
+  });
+  return next;
+};
@@ -0,0 +1,185 @@
+import { Invoice, Payment, Party } from '../types';
+import { PAYMENT_MODE_LABELS } from './complianceService';
+import { formatPool } from '../utils';
+
+type PartyResolver = (entry: Pick<Invoice, 'partyName' | 'partyId'>) => { key: string; name: string; party?: Party };
+
+// A sale is settled by money received, a purchase by money paid
+export const directionFor = (invoice: Invoice): Payment['direction'] => invoice.type === 'SALE' ? 'RECEIVED' : 'PAID';
+
+const round2 = (n: number) => Math.round(n * 100) / 100;
+
+/**
+ * Amount paid against each invoice, from live payments. Allocations to voided invoices are
+ * ignored, so that money falls back to the party's advance.
+ */
+export const paidByInvoice = (invoices: Invoice[], payments: Payment[]): Map<string, number> => {
+  const live = new Set(invoices.filter(inv => !inv.voidedAt).map(inv => inv.id));
+  const paid = new Map<string, number>();
+  payments.filter(p => !p.voidedAt).forEach(p => p.allocations.forEach(a => {
+    if (live.has(a.invoiceId)) paid.set(a.invoiceId, (paid.get(a.invoiceId) || 0) + a.amount);
+  }));
+  return paid;
+};
+
+export interface OpenInvoice {
+  invoice: Invoice;
+  paid: number;
+  outstanding: number;
+}
+
+/**
+ * Invoices not yet fully settled, oldest first. Pass `partyKey` to limit them to one party.
+ */
+export const openInvoices = (invoices: Invoice[], payments: Payment[], resolve: PartyResolver, partyKey?: string): OpenInvoice[] => {
+  const paid = paidByInvoice(invoices, payments);
+  return invoices
+    .filter(inv => !inv.voidedAt && (!partyKey || resolve(inv).key === partyKey))
+    .map(invoice => ({ invoice, paid: paid.get(invoice.id) || 0, outstanding: round2(invoice.totalAmount - (paid.get(invoice.id) || 0)) }))
+    .filter(row => row.outstanding > 0.005)
+    .sort((a, b) => a.invoice.date.localeCompare(b.invoice.date));
+};
+
+/**
+ * Spreads an amount over open invoices oldest first, the usual way a lump-sum payment is applied.
+ */
+export const allocateOldestFirst = (amount: number, open: OpenInvoice[]): Payment['allocations'] => {
+  let left = round2(amount);
+  const allocations: Payment['allocations'] = [];
+  open.forEach(row => {
+    if (left <= 0) return;
+    const share = Math.min(left, row.outstanding);
+    allocations.push({ invoiceId: row.invoice.id, amount: share });
+    left = round2(left - share);
+  });
+  return allocations;
+};
+
+/**
+ * Problems that block saving a payment: a non-positive amount, allocations that exceed the
+ * payment or an invoice's outstanding balance, or that settle an invoice of the wrong kind.
+ */
+export const validatePayment = (payment: Payment, invoices: Invoice[], payments: Payment[]): string[] => {
+  const issues: string[] = [];
+  if (!payment.partyName.trim()) issues.push('Pick the party.');
+  if (!(payment.amount > 0)) issues.push('Amount must be more than zero.');
+  const allocated = payment.allocations.reduce((acc, a) => acc + a.amount, 0);
+  if (allocated > payment.amount + 0.005) issues.push('Allocations add up to more than the payment.');
+  const paid = paidByInvoice(invoices, payments.filter(p => p.id !== payment.id));
+  payment.allocations.forEach(a => {
+    const inv = invoices.find(i => i.id === a.invoiceId);
+    if (!inv || inv.voidedAt) { issues.push('An allocated invoice no longer exists.'); return; }
+    if (a.amount < 0) issues.push(`Allocation to ${inv.invoiceNumber || inv.date} is negative.`);
+    if (directionFor(inv) !== payment.direction) issues.push(`${inv.type === 'SALE' ? 'Sales' : 'Purchases'} are settled by money ${inv.type === 'SALE' ? 'received' : 'paid'}.`);
+    if (a.amount > inv.totalAmount - (paid.get(inv.id) || 0) + 0.005) issues.push(`Allocation to the ${inv.date} invoice is more than its outstanding balance.`);
+  });
+  return Array.from(new Set(issues));
+};
+
+export interface PartyBalance {
+  key: string;
+  name: string;
+  receivable: number; // Outstanding on sales
+  payable: number; // Outstanding on purchases
+  advanceReceived: number; // Money received but not allocated to a sale
+  advancePaid: number; // Money paid but not allocated to a purchase
+  net: number; // Positive: the party owes us
+}
+
+export const partyBalances = (invoices: Invoice[], payments: Payment[], resolve: PartyResolver): PartyBalance[] => {
+  const balances = new Map<string, PartyBalance>();
+  const get = (entry: Pick<Invoice, 'partyName' | 'partyId'>) => {
+    const { key, name } = resolve(entry);
+    if (!balances.has(key)) balances.set(key, { key, name, receivable: 0, payable: 0, advanceReceived: 0, advancePaid: 0, net: 0 });
+    return balances.get(key)!;
+  };
+  openInvoices(invoices, payments, resolve).forEach(({ invoice, outstanding }) => {
+    const row = get(invoice);
+    if (invoice.type === 'SALE') row.receivable += outstanding;
+    else row.payable += outstanding;
+  });
+  const live = new Set(invoices.filter(inv => !inv.voidedAt).map(inv => inv.id));
+  payments.filter(p => !p.voidedAt).forEach(p => {
+    const unallocated = p.amount - p.allocations.filter(a => live.has(a.invoiceId)).reduce((acc, a) => acc + a.amount, 0);
+    if (unallocated <= 0.005) return;
+    const row = get(p);
+    if (p.direction === 'RECEIVED') row.advanceReceived += unallocated;
+    else row.advancePaid += unallocated;
+  });
+  return Array.from(balances.values())
+    .map(b => ({ ...b, net: round2(b.receivable - b.payable - b.advanceReceived + b.advancePaid) }))
+    .sort((a, b) => Math.abs(b.net) - Math.abs(a.net));
+};
+
+export const AGING_BUCKETS = ['0-30', '31-60', '61-90', '90+'] as const;
+export type AgingBucket = typeof AGING_BUCKETS[number];
+
+export interface AgingRow {
+  key: string;
+  name: string;
+  buckets: Record<AgingBucket, number>;
+  total: number;
+}
+
+const daysBetween = (from: string, to: string) => Math.floor((new Date(to).getTime() - new Date(from).getTime()) / 86400000);
+
+/**
+ * Outstanding receivables (or payables) per party, bucketed by days since the invoice date.
+ */
+export const agingReport = (invoices: Invoice[], payments: Payment[], resolve: PartyResolver, asOf: string, type: Invoice['type']): AgingRow[] => {
+  const rows = new Map<string, AgingRow>();
+  openInvoices(invoices, payments, resolve)
+    .filter(({ invoice }) => invoice.type === type && invoice.date <= asOf)
+    .forEach(({ invoice, outstanding }) => {
+      const { key, name } = resolve(invoice);
+      const row = rows.get(key) || { key, name, buckets: { '0-30': 0, '31-60': 0, '61-90': 0, '90+': 0 }, total: 0 };
+      const days = daysBetween(invoice.date, asOf);
+      const bucket: AgingBucket = days <= 30 ? '0-30' : days <= 60 ? '31-60' : days <= 90 ? '61-90' : '90+';
+      row.buckets[bucket] += outstanding;
+      row.total += outstanding;
+      rows.set(key, row);
+    });
+  return Array.from(rows.values()).sort((a, b) => b.total - a.total);
+};
+
+export interface LedgerLine {
+  date: string;
+  particulars: string;
+  reference: string;
+  debit: number; // Sales invoiced and money paid to the party
+  credit: number; // Purchases invoiced and money received from the party
+  balance: number; // Running; positive is a debit balance (the party owes us)
+}
+
+/**
+ * Running account of one party from our books. Entries before `start` roll into the opening
+ * balance; invoices come before payments on the same day.
+ */
+export const partyLedger = (partyKey: string, invoices: Invoice[], payments: Payment[], resolve: PartyResolver, start: string, end: string) => {
+  const entries = [
+    ...invoices.filter(inv => !inv.voidedAt && resolve(inv).key === partyKey).map(inv => ({
+      date: inv.date, order: 0,
+      particulars: `${inv.type === 'SALE' ? 'Sale' : 'Purchase'} of ${inv.quantityGrams.toFixed(3)} g ${formatPool(inv.metal, inv.purity)}`,
+      reference: inv.invoiceNumber || inv.id,
+      debit: inv.type === 'SALE' ? inv.totalAmount : 0,
+      credit: inv.type === 'PURCHASE' ? inv.totalAmount : 0
+    })),
+    ...payments.filter(p => !p.voidedAt && resolve(p).key === partyKey).map(p => ({
+      date: p.date, order: 1,
+      particulars: `${p.direction === 'RECEIVED' ? 'Received' : 'Paid'} via ${PAYMENT_MODE_LABELS[p.mode]}`,
+      reference: p.reference || p.id,
+      debit: p.direction === 'PAID' ? p.amount : 0,
+      credit: p.direction === 'RECEIVED' ? p.amount : 0
+    }))
+  ].sort((a, b) => a.date.localeCompare(b.date) || a.order - b.order);
+
+  const opening = round2(entries.filter(e => e.date < start).reduce((acc, e) => acc + e.debit - e.credit, 0));
+  let balance = opening;
+  const lines: LedgerLine[] = entries
+    .filter(e => e.date >= start && e.date <= end)
+    .map(({ order, ...e }) => {
+      balance = round2(balance + e.debit - e.credit);
+      return { ...e, balance };
+    });
+  return { opening, lines, closing: balance };
+};
@@ -0,0 +1,117 @@
+import { Invoice, PeriodClose, ClosePeriodKind, CostingMethod } from '../types';
+import { runLedger, inventoryValue, summarizePools } from './ledgerEngine';
+
+const MONTHS = ['January', 'February', 'March', 'April', 'May', 'June', 'July', 'August', 'September', 'October', 'November', 'December'];
+
+// Date arithmetic on YYYY-MM-DD strings in UTC, so local time zones never shift a period boundary
+const toDay = (date: Date) => date.toISOString().split('T')[0];
+const addDays = (day: string, days: number) => {
+  const d = new Date(`${day}T00:00:00Z`);
+  d.setUTCDate(d.getUTCDate() + days);
+  return toDay(d);
+};
+const monthEnd = (year: number, month: number) => toDay(new Date(Date.UTC(year, month + 1, 0)));
+
+export const activeCloses = (closes: PeriodClose[]) => closes.filter(c => !c.reopenedAt);
+
+/**
+ * The lock date is the end of the latest period still closed.
+ */
+export const deriveLockDate = (closes: PeriodClose[]): string | null => {
+  const ends = activeCloses(closes).map(c => c.periodEnd).sort();
+  return ends.length > 0 ? ends[ends.length - 1] : null;
+};
+
+/**
+ * Month or quarter ends (Indian financial-year quarters: Apr-Jun, Jul-Sep, Oct-Dec, Jan-Mar)
+ * that fall after the current lock date and before today, latest first.
+ */
+export const closablePeriods = (kind: ClosePeriodKind, lockDate: string | null, today: string, earliestDate?: string): { label: string; periodEnd: string }[] => {
+  const options: { label: string; periodEnd: string }[] = [];
+  const start = lockDate ? addDays(lockDate, 1) : (earliestDate || today);
+  let year = Number(start.slice(0, 4));
+  let month = Number(start.slice(5, 7)) - 1;
+
+  while (true) {
+    const end = kind === 'MONTH' ? monthEnd(year, month) : monthEnd(year, month + 2 - (month % 3));
+    if (end >= today) break;
+    const endMonth = Number(end.slice(5, 7)) - 1;
+    const endYear = Number(end.slice(0, 4));
+    if (kind === 'MONTH') {
+      options.push({ label: `${MONTHS[endMonth]} ${endYear}`, periodEnd: end });
+    } else {
+      const fyStart = endMonth >= 3 ? endYear : endYear - 1;
+      const quarter = Math.floor(((endMonth + 9) % 12) / 3) + 1;
+      options.push({ label: `Q${quarter} FY ${fyStart}-${String(fyStart + 1).slice(2)}`, periodEnd: end });
+    }
+    const next = addDays(end, 1);
+    year = Number(next.slice(0, 4));
+    month = Number(next.slice(5, 7)) - 1;
+  }
+  return options.reverse();
+};
+
+interface CloseRequest {
+  invoices: Invoice[];
+  closes: PeriodClose[];
+  kind: PeriodClose['kind'];
+  label: string;
+  periodEnd: string;
+  closedBy: string;
+  method: CostingMethod;
+}
+
+/**
+ * Builds the close record: closing stock as at the period end and the period's sales figures,
+ * both costed by the engine under the active method.
+ */
+export const createPeriodClose = ({ invoices, closes, kind, label, periodEnd, closedBy, method }: CloseRequest): PeriodClose => {
+  const lockDate = deriveLockDate(closes);
+  const active = invoices.filter(inv => !inv.voidedAt);
+  const firstDate = active.map(inv => inv.date).sort()[0];
+  const periodStart = lockDate ? addDays(lockDate, 1) : (firstDate && firstDate < periodEnd ? firstDate : periodEnd);
+
+  const run = runLedger(invoices, { asOfDate: periodEnd, method });
+  const openBatches = run.inventory.filter(b => b.remainingQuantity > 0);
+  const pools = summarizePools(openBatches);
+  const sales = active.filter(inv => inv.type === 'SALE' && inv.date >= periodStart && inv.date <= periodEnd && run.costings[inv.id]);
+  const cogs = sales.reduce((acc, inv) => acc + run.costings[inv.id].cogs, 0);
+  const taxableSales = sales.reduce((acc, inv) => acc + inv.quantityGrams * inv.ratePerGram, 0);
+
+  return {
+    id: `close-${periodEnd}-${Date.now().toString(36)}`,
+    kind,
+    label,
+    periodStart,
+    periodEnd,
+    closedAt: new Date().toISOString(),
+    closedBy,
+    costingMethod: method,
+    closingStock: {
+      grams: pools.reduce((acc, p) => acc + p.grams, 0),
+      fineGrams: pools.reduce((acc, p) => acc + p.fineGrams, 0),
+      value: inventoryValue(openBatches),
+      pools,
+      batches: openBatches
+    },
+    frozen: {
+      salesCount: sales.length,
+      gramsSold: sales.reduce((acc, inv) => acc + inv.quantityGrams, 0),
+      taxableSales,
+      gstCollected: sales.reduce((acc, inv) => acc + inv.gstAmount, 0),
+      cogs,
+      profit: taxableSales - cogs
+    }
+  };
+};
+
+/**
+ * Reopens the latest close. Earlier closes cannot be reopened while a later one stands, and a
+ * reason is mandatory; the close stays on record with who reopened it and why.
+ */
+export const reopenPeriodClose = (closes: PeriodClose[], id: string, reopenedBy: string, reason: string): PeriodClose[] => {
+  const latest = activeCloses(closes).sort((a, b) => b.periodEnd.localeCompare(a.periodEnd))[0];
+  if (!latest || latest.id !== id) throw new Error('Only the most recent closed period can be reopened.');
+  if (!reason.trim()) throw new Error('A reason is required to reopen a closed period.');
+  return closes.map(c => c.id === id ? { ...c, reopenedAt: new Date().toISOString(), reopenedBy, reopenReason: reason.trim() } : c);
+};
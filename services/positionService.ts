@@ -0,0 +1,128 @@
+import { CostingMethod, Invoice, MarketRate, Metal, MoneyAccount, Payment } from '../types';
+import { runLedger, orderLedgerEntries, poolKey } from './ledgerEngine';
+import { Posting } from './cashBookService';
+
+export interface PositionInput {
+  invoices: Invoice[];
+  method: CostingMethod;
+  rates: MarketRate[];
+  payments: Payment[];
+  accounts: MoneyAccount[];
+  postings: Posting[];
+}
+
+export interface PositionPoint {
+  date: string;
+  grams: number; // Stock on hand, gross
+  bookValue: number; // Under the costing method
+  marketValue: number | null; // Null while no stock on hand has a rate; unpriced pools count at book
+  unrealized: number | null;
+  realizedToDate: number; // Profit of sales from the start of the range
+  cashAndBank: number;
+  netReceivable: number; // Owed to us less owed by us, advances included
+  netWorth: number; // Stock at market, cash and bank, and net receivable
+}
+
+/**
+ * Walks the latest quote of each purity of one metal forward through time. Quotes on the same
+ * day are taken lowest purity first, so the "latest of the metal" matches rateOn's choice.
+ */
+const createRateCursor = (rates: MarketRate[], metal: Metal) => {
+  const quotes = rates.filter(r => r.metal === metal).sort((a, b) => a.date.localeCompare(b.date) || a.purity - b.purity);
+  const byPurity = new Map<number, number>();
+  let latest: MarketRate | undefined;
+  let i = 0;
+  return {
+    advanceTo: (date: string) => {
+      for (; i < quotes.length && quotes[i].date <= date; i++) {
+        byPurity.set(quotes[i].purity, quotes[i].ratePerGram);
+        latest = quotes[i];
+      }
+    },
+    rateFor: (purity: number): number | undefined =>
+      byPurity.get(purity) ?? (latest ? latest.ratePerGram * purity / latest.purity : undefined)
+  };
+};
+
+/**
+ * Daily mark-to-market position over a range. The ledger is costed once and every figure is then
+ * carried forward day by day, applying only that day's invoices, payments, postings and rates,
+ * so the cost grows with the number of days plus entries rather than their product. Values are
+ * end of day.
+ */
+export const positionSeries = (input: PositionInput, start: string, end: string): PositionPoint[] => {
+  const { costings } = runLedger(input.invoices, { method: input.method });
+  const entries = orderLedgerEntries(input.invoices);
+  const payments = input.payments.filter(p => !p.voidedAt).sort((a, b) => a.date.localeCompare(b.date));
+  const openingDate = new Map(input.accounts.map(a => [a.id, a.openingDate]));
+  // Postings before an account's opening date are already in its opening balance
+  const cashEvents = [
+    ...input.accounts.map(a => ({ date: a.openingDate, amount: a.openingBalance })),
+    ...input.postings.filter(p => openingDate.has(p.accountId) && p.date >= openingDate.get(p.accountId)!)
+  ].sort((a, b) => a.date.localeCompare(b.date));
+
+  const pools = new Map<string, { metal: Metal; purity: number; grams: number; value: number }>();
+  const cursors = new Map<Metal, ReturnType<typeof createRateCursor>>();
+  const cursorFor = (metal: Metal) => cursors.get(metal) || cursors.set(metal, createRateCursor(input.rates, metal)).get(metal)!;
+  let realized = 0;
+  let cash = 0;
+  let receivable = 0;
+  let e = 0, p = 0, c = 0;
+
+  // Applies everything dated on or before `date` not applied yet
+  const applyUpTo = (date: string, countRealized: boolean) => {
+    for (; e < entries.length && entries[e].date <= date; e++) {
+      const inv = entries[e];
+      const key = poolKey(inv);
+      const pool = pools.get(key) || pools.set(key, { metal: inv.metal, purity: inv.purity, grams: 0, value: 0 }).get(key)!;
+      if (inv.type === 'PURCHASE') {
+        pool.grams += inv.quantityGrams;
+        pool.value += inv.quantityGrams * inv.ratePerGram;
+        receivable -= inv.totalAmount;
+      } else {
+        const costing = costings[inv.id];
+        pool.grams -= costing ? costing.allocations.reduce((acc, a) => acc + a.grams, 0) : 0;
+        pool.value -= costing ? costing.cogs : 0;
+        if (pool.grams < 0.0001) { pool.grams = 0; pool.value = 0; }
+        receivable += inv.totalAmount;
+        if (countRealized && costing) realized += costing.profit;
+      }
+    }
+    for (; p < payments.length && payments[p].date <= date; p++) {
+      receivable += payments[p].direction === 'RECEIVED' ? -payments[p].amount : payments[p].amount;
+    }
+    for (; c < cashEvents.length && cashEvents[c].date <= date; c++) cash += cashEvents[c].amount;
+  };
+
+  const dayBefore = new Date(start);
+  dayBefore.setDate(dayBefore.getDate() - 1);
+  applyUpTo(dayBefore.toISOString().split('T')[0], false);
+
+  const points: PositionPoint[] = [];
+  for (let d = new Date(start); d <= new Date(end); d.setDate(d.getDate() + 1)) {
+    const date = d.toISOString().split('T')[0];
+    applyUpTo(date, true);
+    let grams = 0, bookValue = 0, marketValue = 0, priced = 0;
+    pools.forEach(pool => {
+      if (pool.grams <= 0) return;
+      const cursor = cursorFor(pool.metal);
+      cursor.advanceTo(date);
+      const rate = cursor.rateFor(pool.purity);
+      grams += pool.grams;
+      bookValue += pool.value;
+      marketValue += rate !== undefined ? pool.grams * rate : pool.value;
+      if (rate !== undefined) priced++;
+    });
+    const hasMarket = priced > 0;
+    points.push({
+      date, grams, bookValue,
+      marketValue: hasMarket ? marketValue : null,
+      unrealized: hasMarket ? marketValue - bookValue : null,
+      realizedToDate: realized,
+      cashAndBank: cash,
+      netReceivable: receivable,
+      netWorth: marketValue + cash + receivable
+    });
+  }
+  return points;
+};
@@ -1,29 +1,284 @@
-import { Invoice, InventoryBatch } from '../types';
+import { Invoice, CostingMethod, AuditEntry } from '../types';
+import { createPeriodClose } from './periodCloseService';
 
-const STORAGE_KEYS = {
+/**
+ * Storage lives behind this interface so the app never touches a backend directly.
+ * Invoices are the only ledger data persisted; inventory is derived by the ledger engine.
+ */
+export interface LedgerRepository {
+  loadInvoices: () => Promise<Invoice[]>;
+  saveInvoices: (invoices: Invoice[]) => Promise<void>;
+  loadSetting: <T>(key: SettingKey) => Promise<T | undefined>;
+  saveSetting: <T>(key: SettingKey, value: T | null) => Promise<void>;
+  resetData: () => Promise<void>;
+  loadAuditLog: () => Promise<AuditEntry[]>;
+  appendAuditEntry: (entry: AuditEntry) => Promise<void>; // Rejects if an entry with the same seq exists
+}
+
+export type SettingKey =
+  | 'lockDate' | 'costingMethod' | 'history' | 'periodCloses' | 'operatorName' | 'businessGstin' | 'parties'
+  | 'businessProfile' | 'complianceRules' | 'payments' | 'moneyAccounts' | 'cashEntries' | 'bankStatement'
+  | 'metalMovements' | 'marketRates' | 'gainsRules';
+const SETTING_KEYS: SettingKey[] = [
+  'lockDate', 'costingMethod', 'history', 'periodCloses', 'operatorName', 'businessGstin', 'parties',
+  'businessProfile', 'complianceRules', 'payments', 'moneyAccounts', 'cashEntries', 'bankStatement', 'metalMovements', 'marketRates', 'gainsRules'
+];
+
+export interface StoreSnapshot {
+  invoices: Invoice[];
+  settings: Partial<Record<SettingKey, unknown>>;
+}
+
+interface Migration {
+  version: number;
+  description: string;
+  migrate: (snapshot: StoreSnapshot) => StoreSnapshot;
+}
+
+// Pre-repository localStorage keys, imported once by the first migration
+const LEGACY_KEYS = {
   INVOICES: 'bullion_invoices',
   INVENTORY: 'bullion_inventory',
+  LOCK_DATE: 'bullion_lock_date',
+  COSTING_METHOD: 'bullion_costing_method',
 };
 
-export const loadInvoices = (): Invoice[] => {
-  const data = localStorage.getItem(STORAGE_KEYS.INVOICES);
-  return data ? JSON.parse(data) : [];
-};
+/**
+ * Forward-only data migrations. Each runs once, in order, against the stored snapshot and the
+ * schema version is bumped after every step. Append new steps; never edit a shipped one.
+ */
+const MIGRATIONS: Migration[] = [
+  {
+    version: 1,
+    description: 'Import legacy localStorage ledger',
+    migrate: (snapshot) => {
+      const legacyInvoices = localStorage.getItem(LEGACY_KEYS.INVOICES);
+      if (snapshot.invoices.length > 0 || !legacyInvoices) return snapshot;
+      return {
+        invoices: JSON.parse(legacyInvoices),
+        settings: {
+          ...snapshot.settings,
+          lockDate: localStorage.getItem(LEGACY_KEYS.LOCK_DATE) || undefined,
+          costingMethod: localStorage.getItem(LEGACY_KEYS.COSTING_METHOD) || undefined,
+        }
+      };
+    }
+  },
+  {
+    version: 2,
+    description: 'Tag existing invoices as 24K gold',
+    migrate: (snapshot) => ({
+      ...snapshot,
+      invoices: snapshot.invoices.map(inv => ({ ...inv, metal: inv.metal || 'GOLD', purity: inv.purity || 999 }))
+    })
+  },
+  {
+    version: 3,
+    description: 'Turn the bare lock date into a period close; drop undo history that predates closes',
+    migrate: (snapshot) => {
+      const lockDate = snapshot.settings.lockDate as string | undefined;
+      const settings = { ...snapshot.settings, lockDate: undefined, history: undefined };
+      if (!lockDate || snapshot.settings.periodCloses) return { ...snapshot, settings };
+      const close = createPeriodClose({
+        invoices: snapshot.invoices, closes: [], kind: 'LEGACY', label: `Up to ${lockDate}`, periodEnd: lockDate,
+        closedBy: 'Migrated lock date', method: (snapshot.settings.costingMethod as CostingMethod) || 'FIFO'
+      });
+      return { ...snapshot, settings: { ...settings, periodCloses: [close] } };
+    }
+  },
+  {
+    version: 4,
+    description: 'Split stored GST into CGST and SGST (intra-state)',
+    migrate: (snapshot) => ({
+      ...snapshot,
+      invoices: snapshot.invoices.map(inv => inv.cgstAmount !== undefined ? inv : { ...inv, cgstAmount: inv.gstAmount / 2, sgstAmount: inv.gstAmount / 2, igstAmount: 0 })
+    })
+  },
+];
 
-export const loadInventory = (): InventoryBatch[] => {
-  const data = localStorage.getItem(STORAGE_KEYS.INVENTORY);
-  return data ? JSON.parse(data) : [];
+export const SCHEMA_VERSION = MIGRATIONS[MIGRATIONS.length - 1].version;
+
+/**
+ * Brings data written under an older schema (e.g. a backup file) up to date. The legacy import
+ * step is skipped since it reads from this browser's storage rather than from the snapshot.
+ */
+export const migrateSnapshot = (snapshot: StoreSnapshot, fromVersion: number): StoreSnapshot => {
+  return MIGRATIONS.filter(m => m.version > Math.max(fromVersion, 1)).reduce((snap, step) => step.migrate(snap), snapshot);
 };
+const SCHEMA_VERSION_KEY = 'bullion_schema_version';
+
+const DB_NAME = 'bullionkeep';
+const DB_VERSION = 2;
+const STORES = { INVOICES: 'invoices', SETTINGS: 'settings', META: 'meta', AUDIT: 'audit' };
+const AUDIT_LOG_KEY = 'bullion_audit_log';
+
+const promisify = <T>(request: IDBRequest<T>) => new Promise<T>((resolve, reject) => {
+  request.onsuccess = () => resolve(request.result);
+  request.onerror = () => reject(request.error);
+});
+
+const completion = (tx: IDBTransaction) => new Promise<void>((resolve, reject) => {
+  tx.oncomplete = () => resolve();
+  tx.onerror = () => reject(tx.error);
+  tx.onabort = () => reject(tx.error);
+});
 
-export const saveInvoices = (invoices: Invoice[]) => {
-  localStorage.setItem(STORAGE_KEYS.INVOICES, JSON.stringify(invoices));
+const openDatabase = () => new Promise<IDBDatabase>((resolve, reject) => {
+  const request = indexedDB.open(DB_NAME, DB_VERSION);
+  request.onupgradeneeded = () => {
+    const db = request.result;
+    if (!db.objectStoreNames.contains(STORES.INVOICES)) db.createObjectStore(STORES.INVOICES, { keyPath: 'id' });
+    if (!db.objectStoreNames.contains(STORES.SETTINGS)) db.createObjectStore(STORES.SETTINGS);
+    if (!db.objectStoreNames.contains(STORES.META)) db.createObjectStore(STORES.META);
+    if (!db.objectStoreNames.contains(STORES.AUDIT)) db.createObjectStore(STORES.AUDIT, { keyPath: 'seq' });
+  };
+  request.onsuccess = () => resolve(request.result);
+  request.onerror = () => reject(request.error);
+});
+
+/**
+ * Invoice records keep their newest-first order through a stored `seq`, since the ledger
+ * engine relies on it to replay same-day entries in the order they were recorded.
+ */
+export const createIndexedDbRepository = (): LedgerRepository => {
+  let ready: Promise<IDBDatabase> | null = null;
+
+  const readSnapshot = async (db: IDBDatabase): Promise<StoreSnapshot> => {
+    const tx = db.transaction([STORES.INVOICES, STORES.SETTINGS], 'readonly');
+    const settingsStore = tx.objectStore(STORES.SETTINGS);
+    const [rows, keys, values] = await Promise.all([
+      promisify(tx.objectStore(STORES.INVOICES).getAll()) as Promise<(Invoice & { seq: number })[]>,
+      promisify(settingsStore.getAllKeys()) as Promise<SettingKey[]>,
+      promisify(settingsStore.getAll())
+    ]);
+    return {
+      invoices: rows.sort((a, b) => a.seq - b.seq).map(({ seq, ...inv }) => inv as Invoice),
+      settings: Object.fromEntries(keys.map((k, i) => [k, values[i]]))
+    };
+  };
+
+  const writeSnapshot = async (db: IDBDatabase, snapshot: StoreSnapshot, version?: number) => {
+    const tx = db.transaction([STORES.INVOICES, STORES.SETTINGS, STORES.META], 'readwrite');
+    const invoiceStore = tx.objectStore(STORES.INVOICES);
+    invoiceStore.clear();
+    snapshot.invoices.forEach((inv, seq) => invoiceStore.put({ ...inv, seq }));
+    const settingsStore = tx.objectStore(STORES.SETTINGS);
+    settingsStore.clear();
+    Object.entries(snapshot.settings).forEach(([key, value]) => { if (value !== undefined && value !== null) settingsStore.put(value, key); });
+    if (version !== undefined) tx.objectStore(STORES.META).put(version, 'schemaVersion');
+    await completion(tx);
+  };
+
+  const migrate = async (db: IDBDatabase) => {
+    const stored = (await promisify(db.transaction(STORES.META, 'readonly').objectStore(STORES.META).get('schemaVersion')) as number | undefined) || 0;
+    const pending = MIGRATIONS.filter(m => m.version > stored);
+    if (pending.length === 0) return;
+    let snapshot = await readSnapshot(db);
+    for (const step of pending) {
+      snapshot = step.migrate(snapshot);
+      await writeSnapshot(db, snapshot, step.version);
+    }
+  };
+
+  const getDb = () => {
+    if (!ready) ready = openDatabase().then(async db => { await migrate(db); return db; });
+    return ready;
+  };
+
+  return {
+    loadInvoices: async () => (await readSnapshot(await getDb())).invoices,
+    saveInvoices: async (invoices) => {
+      const db = await getDb();
+      const tx = db.transaction(STORES.INVOICES, 'readwrite');
+      const store = tx.objectStore(STORES.INVOICES);
+      store.clear();
+      invoices.forEach((inv, seq) => store.put({ ...inv, seq }));
+      await completion(tx);
+    },
+    loadSetting: async <T>(key: SettingKey) => {
+      const db = await getDb();
+      return await promisify(db.transaction(STORES.SETTINGS, 'readonly').objectStore(STORES.SETTINGS).get(key)) as T | undefined;
+    },
+    saveSetting: async (key, value) => {
+      const db = await getDb();
+      const tx = db.transaction(STORES.SETTINGS, 'readwrite');
+      if (value === null || value === undefined) tx.objectStore(STORES.SETTINGS).delete(key);
+      else tx.objectStore(STORES.SETTINGS).put(value, key);
+      await completion(tx);
+    },
+    resetData: async () => {
+      const db = await getDb();
+      const tx = db.transaction(STORES.INVOICES, 'readwrite');
+      tx.objectStore(STORES.INVOICES).clear();
+      await completion(tx);
+      localStorage.removeItem(LEGACY_KEYS.INVOICES);
+      localStorage.removeItem(LEGACY_KEYS.INVENTORY);
+    },
+    // The audit store is only ever added to: nothing here clears it or overwrites an entry
+    loadAuditLog: async () => {
+      const db = await getDb();
+      return await promisify(db.transaction(STORES.AUDIT, 'readonly').objectStore(STORES.AUDIT).getAll()) as AuditEntry[];
+    },
+    appendAuditEntry: async (entry) => {
+      const db = await getDb();
+      const tx = db.transaction(STORES.AUDIT, 'readwrite');
+      tx.objectStore(STORES.AUDIT).add(entry);
+      await completion(tx);
+    }
+  };
 };
 
-export const saveInventory = (inventory: InventoryBatch[]) => {
-  localStorage.setItem(STORAGE_KEYS.INVENTORY, JSON.stringify(inventory));
+/**
+ * Fallback for browsers without IndexedDB (e.g. some private modes): the original localStorage
+ * layout, with the same migrations applied on first load.
+ */
+export const createLocalStorageRepository = (): LedgerRepository => {
+  const legacySettingKeys: Partial<Record<SettingKey, string>> = { lockDate: LEGACY_KEYS.LOCK_DATE, costingMethod: LEGACY_KEYS.COSTING_METHOD };
+  const settingKey = (key: SettingKey) => legacySettingKeys[key] || `bullion_setting_${key}`;
+
+  // Legacy settings were stored as bare strings; newer ones are JSON
+  const readSetting = (key: SettingKey) => {
+    const data = localStorage.getItem(settingKey(key));
+    if (data === null) return undefined;
+    return legacySettingKeys[key] ? data : JSON.parse(data);
+  };
+  const writeSetting = (key: SettingKey, value: unknown) => {
+    if (value === null || value === undefined) localStorage.removeItem(settingKey(key));
+    else localStorage.setItem(settingKey(key), legacySettingKeys[key] ? String(value) : JSON.stringify(value));
+  };
+  const readInvoices = (): Invoice[] => {
+    const data = localStorage.getItem(LEGACY_KEYS.INVOICES);
+    return data ? JSON.parse(data) : [];
+  };
+
+  const migrate = () => {
+    const stored = Number(localStorage.getItem(SCHEMA_VERSION_KEY) || 0);
+    if (stored >= SCHEMA_VERSION) return;
+    const initial: StoreSnapshot = { invoices: readInvoices(), settings: Object.fromEntries(SETTING_KEYS.map(k => [k, readSetting(k)])) };
+    const snapshot = MIGRATIONS.filter(m => m.version > stored).reduce((snap, step) => step.migrate(snap), initial);
+    localStorage.setItem(LEGACY_KEYS.INVOICES, JSON.stringify(snapshot.invoices));
+    SETTING_KEYS.forEach(k => writeSetting(k, snapshot.settings[k]));
+    localStorage.setItem(SCHEMA_VERSION_KEY, String(SCHEMA_VERSION));
+  };
+
+  return {
+    loadInvoices: async () => { migrate(); return readInvoices(); },
+    saveInvoices: async (invoices) => {
+      localStorage.setItem(LEGACY_KEYS.INVOICES, JSON.stringify(invoices));
+    },
+    loadSetting: async <T>(key: SettingKey) => { migrate(); return readSetting(key) as T | undefined; },
+    saveSetting: async (key, value) => writeSetting(key, value),
+    resetData: async () => {
+      localStorage.removeItem(LEGACY_KEYS.INVOICES);
+      localStorage.removeItem(LEGACY_KEYS.INVENTORY);
+    },
+    loadAuditLog: async () => JSON.parse(localStorage.getItem(AUDIT_LOG_KEY) || '[]'),
+    appendAuditEntry: async (entry) => {
+      const log: AuditEntry[] = JSON.parse(localStorage.getItem(AUDIT_LOG_KEY) || '[]');
+      if (log.some(e => e.seq === entry.seq)) throw new Error(`Audit entry ${entry.seq} already exists.`);
+      localStorage.setItem(AUDIT_LOG_KEY, JSON.stringify([...log, entry]));
+    }
+  };
 };
 
-export const resetData = () => {
-    localStorage.removeItem(STORAGE_KEYS.INVOICES);
-    localStorage.removeItem(STORAGE_KEYS.INVENTORY);
-}
\ No newline at end of file
+export const repository: LedgerRepository = typeof indexedDB !== 'undefined' ? createIndexedDbRepository() : createLocalStorageRepository();
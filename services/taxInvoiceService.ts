@@ -0,0 +1,74 @@
+import { Invoice } from '../types';
+import { HSN_BY_METAL } from './gstService';
+import { getFinancialYear } from '../utils';
+
+// Series prefix for tax invoice numbers. "BK/2025-26/0001" stays within the 16 characters GST allows.
+export const INVOICE_SERIES_PREFIX = 'BK';
+
+const INVOICE_NUMBER_PATTERN = /^([A-Z]+)\/(\d{4}-\d{2})\/(\d+)$/;
+
+export const formatInvoiceNumber = (financialYear: string, seq: number) =>
+  `${INVOICE_SERIES_PREFIX}/${financialYear}/${String(seq).padStart(4, '0')}`;
+
+/**
+ * Next number in the financial year of `date`. Voided sales keep their numbers, so the series
+ * never reuses one that was issued.
+ */
+export const nextInvoiceNumber = (invoices: Invoice[], date: string) => {
+  const fy = getFinancialYear(date);
+  let last = 0;
+  invoices.forEach(inv => {
+    const match = inv.invoiceNumber?.match(INVOICE_NUMBER_PATTERN);
+    if (match && match[1] === INVOICE_SERIES_PREFIX && match[2] === fy) last = Math.max(last, parseInt(match[3]));
+  });
+  return formatInvoiceNumber(fy, last + 1);
+};
+
+const ONES = ['', 'One', 'Two', 'Three', 'Four', 'Five', 'Six', 'Seven', 'Eight', 'Nine', 'Ten', 'Eleven', 'Twelve', 'Thirteen', 'Fourteen', 'Fifteen', 'Sixteen', 'Seventeen', 'Eighteen', 'Nineteen'];
+const TENS = ['', '', 'Twenty', 'Thirty', 'Forty', 'Fifty', 'Sixty', 'Seventy', 'Eighty', 'Ninety'];
+
+const belowHundred = (n: number) => n < 20 ? ONES[n] : `${TENS[Math.floor(n / 10)]} ${ONES[n % 10]}`.trim();
+
+const belowThousand = (n: number) => {
+  const hundreds = Math.floor(n / 100);
+  return [hundreds ? `${ONES[hundreds]} Hundred` : '', belowHundred(n % 100)].filter(Boolean).join(' ');
+};
+
+// Indian grouping: crore, lakh, thousand, then hundreds
+const integerInWords = (n: number): string => {
+  if (n === 0) return 'Zero';
+  const crore = Math.floor(n / 10000000);
+  const lakh = Math.floor((n % 10000000) / 100000);
+  const thousand = Math.floor((n % 100000) / 1000);
+  return [
+    crore ? `${integerInWords(crore)} Crore` : '',
+    lakh ? `${belowHundred(lakh)} Lakh` : '',
+    thousand ? `${belowHundred(thousand)} Thousand` : '',
+    belowThousand(n % 1000)
+  ].filter(Boolean).join(' ');
+};
+
+/**
+ * Amount as printed on an invoice, e.g. "Rupees One Lakh Two Thousand Three Hundred and Fifty Paise Only".
+ */
+export const amountInWords = (amount: number) => {
+  const paiseTotal = Math.round(Math.abs(amount) * 100);
+  const rupees = Math.floor(paiseTotal / 100);
+  const paise = paiseTotal % 100;
+  return `Rupees ${integerInWords(rupees)}${paise ? ` and ${belowHundred(paise)} Paise` : ''} Only`;
+};
+
+/**
+ * Fields of the invoice QR code, named as in the e-invoice signed QR so a scanner reads them the
+ * same way. Without an IRN it is a plain payload, not a signed one.
+ */
+export const buildInvoiceQrPayload = (invoice: Invoice, sellerGstin: string) => JSON.stringify({
+  SellerGstin: sellerGstin || 'URP',
+  BuyerGstin: invoice.partyGstin || 'URP',
+  DocNo: invoice.invoiceNumber || invoice.id,
+  DocTyp: 'INV',
+  DocDt: invoice.date.split('-').reverse().join('/'),
+  TotInvVal: Math.round(invoice.totalAmount * 100) / 100,
+  ItemCnt: 1,
+  MainHsnCode: HSN_BY_METAL[invoice.metal].code
+});
@@ -1,33 +1,166 @@
 
 export type TransactionType = 'PURCHASE' | 'SALE';
 
+export type CostingMethod = 'FIFO' | 'WEIGHTED_AVERAGE' | 'SPECIFIC_ID';
+
+export type Metal = 'GOLD' | 'SILVER' | 'PLATINUM';
+
 export interface Invoice {
   id: string;
   date: string; // ISO string YYYY-MM-DD
   type: TransactionType;
   partyName: string; // Supplier or Customer
-  quantityGrams: number;
+  partyId?: string; // Registry entry picked at entry time; older invoices resolve by name
+  invoiceNumber?: string; // Tax invoice number for sales, sequential per financial year
+  paymentMode?: PaymentMode; // How the invoice is settled; absent on invoices recorded before it was asked
+  partyPan?: string; // PAN captured at entry for high-value transactions
+  partyGstin?: string; // Registered party's GSTIN; sales with one are B2B in GSTR-1
+  partyState?: string; // GST state code of the party; for sales this is the place of supply
+  ourState?: string; // Our GST state code when the invoice was recorded
+  metal: Metal;
+  purity: number; // Fineness in parts per thousand (999 = 24K, 916 = 22K, 925 = sterling)
+  quantityGrams: number; // Gross weight
   ratePerGram: number;
   gstRate: number; // Percentage (e.g., 3)
-  gstAmount: number;
+  gstAmount: number; // CGST + SGST + IGST
+  cgstAmount: number; // Intra-state: half the GST each to CGST and SGST
+  sgstAmount: number;
+  igstAmount: number; // Inter-state: all of the GST
   taxableAmount: number; // Qty * Rate
   totalAmount: number; // Taxable + GST
   
   // Specific to Sales (Calculated via FIFO)
   cogs?: number; // Cost of Goods Sold
   profit?: number; // Total Amount (Excl GST) - COGS
+  allocations?: SaleAllocation[]; // Batches (lots) this sale drew from
+  specificBatchId?: string; // Lot picked at sale time under specific identification
+
+  voidedAt?: string; // ISO timestamp; voided invoices stay on record but are excluded from the ledger
 }
 
 export interface InventoryBatch {
   id: string; // Usually links to the Purchase Invoice ID
   date: string; // Purchase Date
+  metal: Metal;
+  purity: number; // Batches only ever serve sales of the same metal and purity
   originalQuantity: number;
   remainingQuantity: number;
-  costPerGram: number;
+  costPerGram: number; // Purchase rate
+  carryingCostPerGram: number; // Book cost under the active costing method (moving average for WEIGHTED_AVERAGE)
   closedDate?: string; // Date when remainingQuantity hit 0
   totalRevenue?: number; // Total revenue generated from this batch
 }
 
+// Stock of one metal/purity combination; each pool is costed independently
+export interface StockPool {
+  key: string;
+  metal: Metal;
+  purity: number;
+  grams: number;
+  fineGrams: number; // grams × purity / 1000
+  value: number; // Book value under the active costing method
+}
+
+// Market price of one metal/purity on one day; the series values stock at market
+export interface MarketRate {
+  date: string;
+  metal: Metal;
+  purity: number;
+  ratePerGram: number;
+  source: string; // MANUAL, IMPORT, or the id of the provider that supplied it
+}
+
+export interface SaleAllocation {
+  batchId: string; // InventoryBatch the grams were drawn from
+  grams: number;
+  costPerGram: number;
+}
+
+export interface SaleCosting {
+  cogs: number;
+  profit: number;
+  allocations: SaleAllocation[];
+}
+
+export type ClosePeriodKind = 'MONTH' | 'QUARTER';
+
+/**
+ * A closed accounting period. The lock date is the end of the latest close that has not been
+ * reopened; reopened closes are kept, with the reason, as the audit trail.
+ */
+export interface PeriodClose {
+  id: string;
+  kind: ClosePeriodKind | 'LEGACY'; // LEGACY: converted from a bare lock date
+  label: string; // e.g. "March 2024", "Q4 FY 2023-24"
+  periodStart: string; // YYYY-MM-DD, day after the previous close
+  periodEnd: string; // YYYY-MM-DD, becomes the lock date
+  closedAt: string; // ISO timestamp
+  closedBy: string;
+  costingMethod: CostingMethod;
+  closingStock: {
+    grams: number;
+    fineGrams: number;
+    value: number;
+    pools: StockPool[];
+    batches: InventoryBatch[]; // Open batches as at periodEnd
+  };
+  frozen: { // Sales figures for the period, as at closing
+    salesCount: number;
+    gramsSold: number;
+    taxableSales: number;
+    gstCollected: number;
+    cogs: number;
+    profit: number;
+  };
+  reopenedAt?: string;
+  reopenedBy?: string;
+  reopenReason?: string;
+}
+
+export type AuditAction = 'CREATE' | 'EDIT' | 'VOID' | 'IMPORT' | 'MERGE' | 'RESTORE' | 'RESET' | 'UNDO' | 'REDO' | 'PERIOD_CLOSE' | 'PERIOD_REOPEN' | 'COSTING_METHOD' | 'PARTY' | 'COMPLIANCE_RULES' | 'PAYMENT' | 'CASH_BOOK' | 'METAL_ACCOUNT' | 'GAINS_RULES';
+
+/**
+ * One entry of the append-only audit log. Each hash covers the entry and the previous hash, so
+ * editing or deleting any stored entry breaks the chain from that point on.
+ */
+export interface AuditEntry {
+  seq: number; // 1-based position in the log
+  at: string; // ISO timestamp
+  action: AuditAction;
+  summary: string; // e.g. "Sale to Ramesh Jewellers"
+  before: unknown; // Value replaced by the change, null for creations
+  after: unknown; // Value after the change, null for removals
+  prevHash: string;
+  hash: string; // SHA-256 hex of prevHash + the entry's other fields
+}
+
+// Seller details printed on tax invoices
+export interface BusinessProfile {
+  name: string;
+  address: string;
+}
+
+export type KycStatus = 'NOT_STARTED' | 'PENDING' | 'VERIFIED' | 'REJECTED';
+
+/**
+ * A customer or supplier in the party registry. Invoices keep their own partyName as entered;
+ * they are matched to a party by partyId, or by name against the party's name and aliases.
+ */
+export interface Party {
+  id: string;
+  name: string;
+  aliases: string[]; // Name variants merged into this party, as they appear on invoices
+  gstin?: string;
+  pan?: string;
+  state?: string; // GST state code
+  address?: string;
+  phone?: string;
+  email?: string;
+  kycStatus: KycStatus;
+  kycUpdatedAt?: string; // ISO timestamp of the last KYC status change
+  createdAt: string;
+}
+
 export interface DailyStockSnapshot {
   date: string;
   quantity: number;
@@ -51,6 +184,8 @@ export interface AgingStats {
 
 export interface SupplierStat {
   name: string;
+  metal: Metal;
+  purity: number;
   totalGramsPurchased: number;
   avgRate: number;
   minRate: number;
@@ -59,6 +194,121 @@ export interface SupplierStat {
   txCount: number;
 }
 
+export type PaymentMode = 'CASH' | 'BANK' | 'UPI' | 'CARD' | 'CHEQUE';
+
+/**
+ * Money received from a customer or paid to a supplier. Allocations settle invoices, wholly or
+ * in part; any amount left unallocated stands as an advance on the party's account.
+ */
+export interface Payment {
+  id: string;
+  date: string; // ISO string YYYY-MM-DD
+  direction: 'RECEIVED' | 'PAID';
+  partyName: string;
+  partyId?: string;
+  amount: number;
+  mode: PaymentMode;
+  reference?: string; // Cheque number, UTR or UPI reference
+  accountId?: string; // Cash or bank account it went through; absent means the default for its mode
+  allocations: { invoiceId: string; amount: number }[];
+  createdAt: string;
+  voidedAt?: string;
+}
+
+export interface MoneyAccount {
+  id: string;
+  name: string;
+  kind: 'CASH' | 'BANK';
+  openingBalance: number; // Balance at the start of openingDate; earlier postings are taken as included
+  openingDate: string;
+  createdAt: string;
+}
+
+// Money in or out that is not an invoice payment: expenses, capital, transfers and the like
+export interface CashEntry {
+  id: string;
+  date: string;
+  accountId: string;
+  direction: 'IN' | 'OUT';
+  amount: number;
+  category: string;
+  note?: string;
+  createdAt: string;
+  voidedAt?: string;
+}
+
+// One line of an imported bank statement, matched to the payment or entry it records
+export interface BankStatementLine {
+  id: string;
+  accountId: string;
+  date: string;
+  description: string;
+  amount: number; // Positive for credits (money in), negative for debits
+  reference?: string;
+  matchedId?: string; // Payment or CashEntry id
+}
+
+export type MetalMovementKind = 'UNFIXED_IN' | 'UNFIXED_OUT' | 'ISSUE' | 'RECEIPT';
+
+// Part of an unfixed delivery priced later; the invoice it generated carries it into the ledger
+export interface PriceFixing {
+  id: string;
+  date: string;
+  grams: number; // Gross weight priced
+  ratePerGram: number;
+  invoiceId: string;
+}
+
+/**
+ * Metal that changes hands without a price: deliveries in or out awaiting rate fixing, and metal
+ * issued to or received from a party on loan or for job work. Movements never touch owned
+ * stock; only the invoices generated by price fixing do.
+ */
+export interface MetalMovement {
+  id: string;
+  date: string;
+  kind: MetalMovementKind;
+  partyName: string;
+  partyId?: string;
+  metal: Metal;
+  purity: number;
+  grams: number; // Gross weight
+  wastagePercent?: number; // RECEIPT only: allowance credited to the party on top of the grams received
+  note?: string;
+  fixings: PriceFixing[]; // UNFIXED_IN and UNFIXED_OUT only
+  createdAt: string;
+  voidedAt?: string;
+}
+
+export type ComplianceRuleId = 'PAN_REQUIRED' | 'CASH_RECEIPT' | 'CASH_PAYMENT' | 'TCS_CASH_BULLION' | 'TCS_SALE_OF_GOODS';
+
+// BLOCK stops the entry, WARN asks for confirmation, OFF skips the rule
+export type ComplianceAction = 'BLOCK' | 'WARN' | 'OFF';
+
+export interface ComplianceRule {
+  action: ComplianceAction;
+  threshold: number; // INR
+  rate?: number; // TCS rate in percent, for the TCS rules
+}
+
+export type ComplianceRules = Record<ComplianceRuleId, ComplianceRule>;
+
+// Income-tax head a sold lot's gain falls under, by how long the lot was held
+export type GainsTerm = 'TRADING' | 'SHORT_TERM' | 'LONG_TERM';
+
+export interface GainsRules {
+  longTermMonths: number; // Lots held longer than this are long-term capital assets
+  tradingDays: number; // Lots sold within this many days of purchase are trading income; 0 turns it off
+}
+
+export interface ComplianceFlag {
+  invoiceId: string;
+  rule: ComplianceRuleId;
+  action: 'BLOCK' | 'WARN';
+  message: string;
+  tcsAmount?: number; // Tax to collect at source, for the TCS rules
+}
+
 export interface RiskAlert {
   id: string;
   severity: 'HIGH' | 'MEDIUM' | 'LOW';
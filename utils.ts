@@ -1,5 +1,6 @@
 
-import { InventoryBatch, Invoice, AgingStats, SupplierStat, TurnoverStats } from './types';
+import { InventoryBatch, Invoice, AgingStats, SupplierStat, TurnoverStats, CostingMethod, Metal } from './types';
+import { runLedger, inventoryValue, poolKey } from './services/ledgerEngine';
 
 export const formatCurrency = (amount: number) => {
   return new Intl.NumberFormat('en-IN', {
@@ -16,8 +17,64 @@ export const formatGrams = (grams: number) => {
   }).format(grams) + ' g';
 };
 
+export const COSTING_METHOD_LABELS: Record<CostingMethod, string> = {
+  FIFO: 'FIFO',
+  WEIGHTED_AVERAGE: 'Weighted Average',
+  SPECIFIC_ID: 'Specific Identification',
+};
+
+export const METAL_LABELS: Record<Metal, string> = {
+  GOLD: 'Gold',
+  SILVER: 'Silver',
+  PLATINUM: 'Platinum',
+};
+
+// Standard fineness grades offered when entering an invoice (parts per thousand)
+export const PURITY_PRESETS: Record<Metal, { purity: number; label: string }[]> = {
+  GOLD: [
+    { purity: 999, label: '24K (999)' },
+    { purity: 995, label: '24K (995)' },
+    { purity: 916, label: '22K (916)' },
+    { purity: 750, label: '18K (750)' },
+    { purity: 585, label: '14K (585)' },
+  ],
+  SILVER: [
+    { purity: 999, label: 'Fine (999)' },
+    { purity: 925, label: 'Sterling (925)' },
+  ],
+  PLATINUM: [
+    { purity: 999, label: 'Fine (999)' },
+    { purity: 950, label: 'PT950' },
+  ],
+};
+
+export const formatPool = (metal: Metal, purity: number) => {
+  const preset = PURITY_PRESETS[metal].find(p => p.purity === purity);
+  return `${METAL_LABELS[metal]} ${preset ? preset.label : purity}`;
+};
+
+export const toFineGrams = (grams: number, purity: number) => grams * purity / 1000;
+
 export const generateId = () => Math.random().toString(36).substr(2, 9);
 
+export const sha256 = async (text: string) => {
+  const digest = await crypto.subtle.digest('SHA-256', new TextEncoder().encode(text));
+  return Array.from(new Uint8Array(digest)).map(b => b.toString(16).padStart(2, '0')).join('');
+};
+
+// Indian financial year (April to March) containing an ISO date, e.g. "2025-26"
+export const getFinancialYear = (date: string) => {
+  const year = parseInt(date.slice(0, 4));
+  const start = parseInt(date.slice(5, 7)) >= 4 ? year : year - 1;
+  return `${start}-${String((start + 1) % 100).padStart(2, '0')}`;
+};
+
+// First and last day of a financial year label, e.g. "2025-26" runs 2025-04-01 to 2026-03-31
+export const financialYearRange = (financialYear: string) => {
+  const start = parseInt(financialYear.slice(0, 4));
+  return { start: `${start}-04-01`, end: `${start + 1}-03-31` };
+};
+
 export const getDateDaysAgo = (days: number) => {
   const date = new Date();
   date.setDate(date.getDate() - days);
@@ -25,7 +82,11 @@ export const getDateDaysAgo = (days: number) => {
 };
 
 export const downloadCSV = (csvContent: string, filename: string) => {
-  const blob = new Blob([csvContent], { type: 'text/csv;charset=utf-8;' });
+  downloadFile(csvContent, filename, 'text/csv;charset=utf-8;');
+};
+
+export const downloadFile = (content: string, filename: string, mimeType: string) => {
+  const blob = new Blob([content], { type: mimeType });
   const link = document.createElement('a');
   if (link.download !== undefined) {
     const url = URL.createObjectURL(blob);
@@ -39,44 +100,10 @@ export const downloadCSV = (csvContent: string, filename: string) => {
 };
 
 /**
- * Replays transactions up to a specific date to calculate the FIFO inventory value at that time.
+ * Replays transactions up to a specific date through the ledger engine to get the inventory value at that time.
  */
-export const calculateInventoryValueOnDate = (invoices: Invoice[], targetDate: string): number => {
-  // Filter invoices up to targetDate and sort strictly by date (oldest first)
-  const relevantInvoices = invoices
-    .filter(inv => inv.date <= targetDate)
-    .sort((a, b) => new Date(a.date).getTime() - new Date(b.date).getTime());
-
-  // Simulation state: Track batches { quantity, cost }
-  // We use a mutable array to simulate the FIFO stack
-  let batches: { quantity: number; cost: number }[] = [];
-
-  for (const inv of relevantInvoices) {
-    if (inv.type === 'PURCHASE') {
-      batches.push({ quantity: inv.quantityGrams, cost: inv.ratePerGram });
-    } else {
-      // Sale logic: Deduct from oldest batches
-      let remainingToSell = inv.quantityGrams;
-      
-      // Floating point safety margin
-      while (remainingToSell > 0.000001 && batches.length > 0) {
-        const currentBatch = batches[0];
-        
-        if (currentBatch.quantity > remainingToSell) {
-          // This batch covers the remaining sale
-          currentBatch.quantity -= remainingToSell;
-          remainingToSell = 0;
-        } else {
-          // This batch is fully used, move to next
-          remainingToSell -= currentBatch.quantity;
-          batches.shift(); // Remove the empty batch from the front
-        }
-      }
-    }
-  }
-
-  // Calculate total value of remaining simulated batches
-  return batches.reduce((sum, batch) => sum + (batch.quantity * batch.cost), 0);
+export const calculateInventoryValueOnDate = (invoices: Invoice[], targetDate: string, method?: CostingMethod): number => {
+  return inventoryValue(runLedger(invoices, { asOfDate: targetDate, method }).inventory);
 };
 
 export const calculateStockAging = (inventory: InventoryBatch[]): AgingStats => {
@@ -112,20 +139,27 @@ export const calculateStockAging = (inventory: InventoryBatch[]): AgingStats =>
   };
 };
 
-export const calculateSupplierStats = (invoices: Invoice[]): SupplierStat[] => {
-  const stats: Record<string, { totalGrams: number; totalCost: number; count: number; rates: number[] }> = {};
+// One row per supplier and metal/purity pool, since rates are only comparable within a pool.
+// `resolve` maps spelling variants of a name to one supplier (see createPartyResolver).
+export const calculateSupplierStats = (
+  invoices: Invoice[],
+  resolve: (inv: Invoice) => { key: string; name: string } = inv => ({ key: inv.partyName, name: inv.partyName })
+): SupplierStat[] => {
+  const stats: Record<string, { name: string; metal: Metal; purity: number; totalGrams: number; totalCost: number; count: number; rates: number[] }> = {};
   
   invoices.filter(i => i.type === 'PURCHASE').forEach(inv => {
-    if (!stats[inv.partyName]) {
-      stats[inv.partyName] = { totalGrams: 0, totalCost: 0, count: 0, rates: [] };
+    const party = resolve(inv);
+    const key = `${party.key}|${poolKey(inv)}`;
+    if (!stats[key]) {
+      stats[key] = { name: party.name, metal: inv.metal, purity: inv.purity, totalGrams: 0, totalCost: 0, count: 0, rates: [] };
     }
-    stats[inv.partyName].totalGrams += inv.quantityGrams;
-    stats[inv.partyName].totalCost += (inv.quantityGrams * inv.ratePerGram);
-    stats[inv.partyName].count += 1;
-    stats[inv.partyName].rates.push(inv.ratePerGram);
+    stats[key].totalGrams += inv.quantityGrams;
+    stats[key].totalCost += (inv.quantityGrams * inv.ratePerGram);
+    stats[key].count += 1;
+    stats[key].rates.push(inv.ratePerGram);
   });
 
-  return Object.entries(stats).map(([name, data]) => {
+  return Object.values(stats).map(data => {
       const minRate = Math.min(...data.rates);
       const maxRate = Math.max(...data.rates);
       const avgRate = data.totalGrams > 0 ? data.totalCost / data.totalGrams : 0;
@@ -133,7 +167,9 @@ export const calculateSupplierStats = (invoices: Invoice[]): SupplierStat[] => {
       const volatility = maxRate - minRate;
 
       return {
-        name,
+        name: data.name,
+        metal: data.metal,
+        purity: data.purity,
         totalGramsPurchased: data.totalGrams,
         avgRate,
         minRate,
@@ -144,14 +180,15 @@ export const calculateSupplierStats = (invoices: Invoice[]): SupplierStat[] => {
   }).sort((a, b) => b.totalGramsPurchased - a.totalGramsPurchased);
 };
 
-export const calculateTurnoverStats = (invoices: Invoice[], startDate: string, endDate: string): TurnoverStats => {
-  const periodInvoices = invoices.filter(i => i.date >= startDate && i.date <= endDate);
-  const sales = periodInvoices.filter(i => i.type === 'SALE');
-  
-  const totalCOGS = sales.reduce((acc, s) => acc + (s.cogs || 0), 0);
+export const calculateTurnoverStats = (invoices: Invoice[], startDate: string, endDate: string, method?: CostingMethod): TurnoverStats => {
+  // COGS comes from the engine rather than the stored invoice fields
+  const endRun = runLedger(invoices, { asOfDate: endDate, method });
+  const totalCOGS = invoices
+    .filter(i => i.type === 'SALE' && i.date >= startDate && endRun.costings[i.id])
+    .reduce((acc, s) => acc + endRun.costings[s.id].cogs, 0);
   
-  const startInventoryVal = calculateInventoryValueOnDate(invoices, startDate);
-  const endInventoryVal = calculateInventoryValueOnDate(invoices, endDate);
+  const startInventoryVal = calculateInventoryValueOnDate(invoices, startDate, method);
+  const endInventoryVal = inventoryValue(endRun.inventory);
   const avgInventoryValue = (startInventoryVal + endInventoryVal) / 2;
 
   const turnoverRatio = avgInventoryValue > 0 ? totalCOGS / avgInventoryValue : 0;
@@ -170,6 +207,38 @@ export const calculateTurnoverStats = (invoices: Invoice[], startDate: string, e
   };
 };
 
+// Normalises the date formats found on Indian invoices (DD-MM-YYYY, DD Mon YY, ...) and ISO dates to YYYY-MM-DD
+export const normalizeDate = (str: string): string | null => {
+  str = str.trim().replace(/,/g, ''); 
+  const isoMatch = str.match(/^(\d{4})[-/\.](\d{1,2})[-/\.](\d{1,2})$/);
+  if (isoMatch) return `${isoMatch[1]}-${isoMatch[2].padStart(2, '0')}-${isoMatch[3].padStart(2, '0')}`;
+  const textMonthMatch = str.match(/^(\d{1,2})[-/\s]+([a-zA-Z]{3,})[-/\s]+(\d{2,4})$/);
+  if (textMonthMatch) {
+    const day = textMonthMatch[1].padStart(2, '0');
+    const monthStr = textMonthMatch[2].substring(0, 3).toLowerCase();
+    let year = textMonthMatch[3];
+    if (year.length === 2) year = '20' + year; 
+    const months: Record<string, string> = {
+      jan: '01', feb: '02', mar: '03', apr: '04', may: '05', jun: '06',
+      jul: '07', aug: '08', sep: '09', oct: '10', nov: '11', dec: '12'
+    };
+    if (months[monthStr]) return `${year}-${months[monthStr]}-${day}`;
+  }
+  const numMatch = str.match(/^(\d{1,2})[-/\.](\d{1,2})[-/\.](\d{2,4})$/);
+  if (numMatch) {
+    const day = numMatch[1].padStart(2, '0');
+    const month = numMatch[2].padStart(2, '0');
+    let year = numMatch[3];
+    if (year.length === 2) year = '20' + year;
+    return `${year}-${month}-${day}`;
+  }
+  return null;
+};
+
+// A normalised YYYY-MM-DD that is a day on the calendar; rejects 2024-02-31, 2024-13-01 and the like
+export const isRealDate = (date: string | null): date is string =>
+  !!date && !isNaN(new Date(date).getTime()) && new Date(date).toISOString().startsWith(date);
+
 // Robust parser to extract data from the provided OCR text format
 export const parseInvoiceOCR = (text: string) => {
   try {
@@ -188,31 +257,6 @@ export const parseInvoiceOCR = (text: string) => {
     }
 
     // 2. Date Extraction
-    const normalizeDate = (str: string): string | null => {
-        str = str.trim().replace(/,/g, ''); 
-        const textMonthMatch = str.match(/^(\d{1,2})[-/\s]+([a-zA-Z]{3,})[-/\s]+(\d{2,4})$/);
-        if (textMonthMatch) {
-            const day = textMonthMatch[1].padStart(2, '0');
-            const monthStr = textMonthMatch[2].substring(0, 3).toLowerCase();
-            let year = textMonthMatch[3];
-            if (year.length === 2) year = '20' + year; 
-            const months: Record<string, string> = {
-                jan: '01', feb: '02', mar: '03', apr: '04', may: '05', jun: '06',
-                jul: '07', aug: '08', sep: '09', oct: '10', nov: '11', dec: '12'
-            };
-            if (months[monthStr]) return `${year}-${months[monthStr]}-${day}`;
-        }
-        const numMatch = str.match(/^(\d{1,2})[-/\.](\d{1,2})[-/\.](\d{2,4})$/);
-        if (numMatch) {
-            const day = numMatch[1].padStart(2, '0');
-            const month = numMatch[2].padStart(2, '0');
-            let year = numMatch[3];
-            if (year.length === 2) year = '20' + year;
-            return `${year}-${month}-${day}`;
-        }
-        return null;
-    };
-
     const alphaDateMatch = text.match(/\b(\d{1,2})[-/\s]+(Jan|Feb|Mar|Apr|May|Jun|Jul|Aug|Sep|Oct|Nov|Dec)[a-z]*[-/\s,]+(\d{2,4})\b/i);
     const labeledDateMatch = text.match(/(?:Dated|Invoice Date|Date)\s*[:\-\s]+\s*(\d{1,2}[-/\.]\d{1,2}[-/\.]\d{2,4})\b/i);
     const strictNumericMatch = text.match(/\b(\d{1,2}[-/\.]\d{1,2}[-/\.]\d{4})\b/);
@@ -328,7 +372,11 @@ export const parseInvoiceOCR = (text: string) => {
         gstAmount = genericGstAmount;
     }
 
-    return { date, partyName, quantity, rate, gstRate: gstRate > 0 ? gstRate : null, gstAmount, isSale };
+    const isInterState = iGstRate > 0 || iGstAmount > 0;
+    return {
+      date, partyName, quantity, rate, gstRate: gstRate > 0 ? gstRate : null, gstAmount, isSale,
+      cgstAmount: isInterState ? 0 : cGstAmount, sgstAmount: isInterState ? 0 : sGstAmount, igstAmount: iGstAmount, isInterState
+    };
   } catch (e) {
     console.error("Parse error", e);
     return null;